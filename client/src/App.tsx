@@ -8,12 +8,27 @@ import { SplashScreen } from "@/components/SplashScreen";
 import { SyncStatus } from "@/components/SyncStatus";
 import { BottomNavigation } from "@/components/BottomNavigation";
 import { InstallPrompt } from "@/components/InstallPrompt";
+import { StoreSwitcher } from "@/components/StoreSwitcher";
+import { SyncIssuesDialog } from "@/components/SyncIssuesDialog";
+import { ProductConflictDialog } from "@/components/ProductConflictDialog";
 import { InventoryPage } from "@/pages/Inventory";
 import { POSPage } from "@/pages/POS";
 import { ReportsPage } from "@/pages/Reports";
+import { PurchasesPage } from "@/pages/Purchases";
+import { StocktakePage } from "@/pages/Stocktake";
+import { CashDrawerPage } from "@/pages/CashDrawer";
+import { SalesPage } from "@/pages/Sales";
+import { PromotionsPage } from "@/pages/Promotions";
+import { TaxesPage } from "@/pages/Taxes";
+import { CustomersPage } from "@/pages/Customers";
+import type { PurchaseOrderFormData } from "@/components/PurchaseOrderDialog";
+import type { SupplierFormData } from "@/components/SupplierDialog";
+import type { PromotionFormData } from "@/components/PromotionDialog";
+import type { CustomerFormData } from "@/components/CustomerDialog";
 import { LoginPage } from "@/pages/Login";
 import { AdminPage } from "@/pages/Admin";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { LogOut, Settings } from "lucide-react";
 import { Link } from "wouter";
@@ -22,16 +37,52 @@ import {
   openDB,
   getProducts,
   getCategories,
+  updateCategory,
   getSales,
   addProduct,
   updateProduct,
   deleteProduct,
   addSale,
+  getSuppliers,
+  addSupplier,
+  updateSupplier,
+  deleteSupplier,
+  getPromotions,
+  addPromotion,
+  updatePromotion,
+  deletePromotion,
+  getCustomers,
+  addCustomer,
+  updateCustomer,
+  deleteCustomer,
+  getCustomerPayments,
+  addCustomerPayment,
+  getPurchaseOrders,
+  addPurchaseOrder,
+  updatePurchaseOrder,
+  deletePurchaseOrder,
+  receivePurchaseOrder,
+  getStocktakes,
+  startStocktake,
+  saveStocktake,
+  approveStocktake,
+  deleteStocktake,
+  getOpenCashShift,
+  openCashShift,
+  addCashMovement,
+  closeCashShift,
+  getCashShifts,
+  getSavedStores,
+  saveStores,
   initializeDefaultData,
-  setProducts,
-  setCategories,
-  setSales,
   clearAllData,
+  type PendingSyncItem,
+  type ProductConflict,
+  type StockChange,
+  type Stocktake,
+  type OpenCashShift,
+  type LocalCashShift,
+  type LocalCustomerPayment,
 } from "@/lib/indexedDB";
 import { 
   initSyncService, 
@@ -40,17 +91,57 @@ import {
   fetchFromServer,
   triggerSync,
   setAuthToken,
+  getActiveStoreId,
+  setActiveStoreId,
+  setStockWarningCallback,
+  setDeadLetterCallback,
+  retryDeadLetter,
+  discardDeadLetter,
+  setConflictCallback,
+  resolveConflict,
+  updateStoreSettings,
 } from "@/lib/syncService";
-import type { Product, Category, Sale, InsertProduct, InsertSale, SyncStatus as SyncStatusType } from "@shared/schema";
+import {
+  customerStatement,
+  type Product,
+  type Category,
+  type Sale,
+  type InsertProduct,
+  type InsertSale,
+  type Supplier,
+  type Promotion,
+  type Customer,
+  type InsertCustomerPayment,
+  type PurchaseOrder,
+  type ReceivePurchaseOrder,
+  type StoreMembership,
+  type UpdateStore,
+  type TaxSettings,
+  type SyncStatus as SyncStatusType,
+  type CashMovementType,
+} from "@shared/schema";
 
 function AuthenticatedApp() {
   const { user, signOut, session } = useAuth();
+  const { toast } = useToast();
   const [showSplash, setShowSplash] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [syncStatus, setSyncStatus] = useState<SyncStatusType>("online");
   const [products, setProductsState] = useState<Product[]>([]);
   const [categories, setCategoriesState] = useState<Category[]>([]);
   const [sales, setSalesState] = useState<Sale[]>([]);
+  const [suppliers, setSuppliersState] = useState<Supplier[]>([]);
+  const [promotions, setPromotionsState] = useState<Promotion[]>([]);
+  const [customers, setCustomersState] = useState<Customer[]>([]);
+  const [customerPayments, setCustomerPaymentsState] = useState<LocalCustomerPayment[]>([]);
+  const [purchaseOrders, setPurchaseOrdersState] = useState<PurchaseOrder[]>([]);
+  const [stocktakes, setStocktakesState] = useState<Stocktake[]>([]);
+  const [openShift, setOpenShift] = useState<OpenCashShift | null>(null);
+  const [cashShifts, setCashShiftsState] = useState<LocalCashShift[]>([]);
+  const [stores, setStores] = useState<StoreMembership[]>([]);
+  const [activeStoreId, setActiveStoreIdState] = useState<string | null>(getActiveStoreId());
+  const [deadLetters, setDeadLetters] = useState<PendingSyncItem[]>([]);
+  const [conflicts, setConflicts] = useState<ProductConflict[]>([]);
 
   const loadData = useCallback(async () => {
     try {
@@ -59,25 +150,16 @@ function AuthenticatedApp() {
       if (getOnlineStatus() && session?.access_token) {
         setSyncStatus('syncing');
         setAuthToken(session.access_token);
+        // Merges server changes into IndexedDB without touching unsynced rows
         const serverData = await fetchFromServer();
         
         if (serverData) {
-          await Promise.all([
-            setProducts(serverData.products),
-            setCategories(serverData.categories),
-            setSales(serverData.sales),
-          ]);
-          
-          setProductsState(serverData.products);
-          setCategoriesState(serverData.categories);
-          setSalesState(serverData.sales);
+          setStores(serverData.stores);
+          setActiveStoreIdState(getActiveStoreId());
           setSyncStatus('online');
-        } else {
-          await loadLocalData();
         }
-      } else {
-        await loadLocalData();
       }
+      await loadLocalData();
     } catch (error) {
       console.error("Failed to load data:", error);
       await loadLocalData();
@@ -87,17 +169,48 @@ function AuthenticatedApp() {
   }, [session?.access_token]);
 
   const loadLocalData = async () => {
-    await initializeDefaultData();
+    await initializeDefaultData(getActiveStoreId());
     
-    const [loadedProducts, loadedCategories, loadedSales] = await Promise.all([
+    const [
+      loadedProducts,
+      loadedCategories,
+      loadedSales,
+      loadedSuppliers,
+      loadedPromotions,
+      loadedCustomers,
+      loadedCustomerPayments,
+      loadedOrders,
+      loadedStocktakes,
+      loadedOpenShift,
+      loadedCashShifts,
+      loadedStores,
+    ] = await Promise.all([
       getProducts(),
       getCategories(),
       getSales(),
+      getSuppliers(),
+      getPromotions(),
+      getCustomers(),
+      getCustomerPayments(),
+      getPurchaseOrders(),
+      getStocktakes(),
+      getOpenCashShift(),
+      getCashShifts(),
+      getSavedStores(),
     ]);
     
     setProductsState(loadedProducts);
     setCategoriesState(loadedCategories);
     setSalesState(loadedSales);
+    setSuppliersState(loadedSuppliers);
+    setPromotionsState(loadedPromotions);
+    setCustomersState(loadedCustomers);
+    setCustomerPaymentsState(loadedCustomerPayments);
+    setPurchaseOrdersState(loadedOrders);
+    setStocktakesState(loadedStocktakes);
+    setOpenShift(loadedOpenShift ?? null);
+    setCashShiftsState(loadedCashShifts);
+    setStores(loadedStores);
   };
 
   useEffect(() => {
@@ -111,6 +224,15 @@ function AuthenticatedApp() {
         loadData();
       }
     });
+    setDeadLetterCallback(setDeadLetters);
+    setConflictCallback(setConflicts);
+    setStockWarningCallback((warnings) => {
+      toast({
+        title: "Stock negativo",
+        description: warnings.map((w) => `${w.productName}: ${w.quantity}`).join(", "),
+        variant: "destructive",
+      });
+    });
     loadData();
   }, [loadData, session?.access_token]);
 
@@ -119,6 +241,7 @@ function AuthenticatedApp() {
       const productWithUser = {
         ...productData,
         userId: user?.id,
+        storeId: activeStoreId,
       };
       const newProduct = await addProduct(productWithUser);
       setProductsState((prev) => [...prev, newProduct]);
@@ -126,14 +249,15 @@ function AuthenticatedApp() {
       if (getOnlineStatus()) {
         triggerSync();
       }
+      return newProduct;
     } catch (error) {
       console.error("Failed to add product:", error);
     }
   };
 
-  const handleUpdateProduct = async (product: Product) => {
+  const handleUpdateProduct = async (product: Product, stockChange?: StockChange) => {
     try {
-      const updated = await updateProduct(product);
+      const updated = await updateProduct(product, stockChange);
       setProductsState((prev) =>
         prev.map((p) => (p.id === updated.id ? updated : p))
       );
@@ -159,24 +283,26 @@ function AuthenticatedApp() {
     }
   };
 
+  // Refunds are recorded here too: their negative lines put the stock back
   const handleSale = async (saleData: InsertSale) => {
     try {
       const saleWithUser = {
         ...saleData,
         userId: user?.id,
+        shiftId: openShift?.id ?? null,
+        storeId: activeStoreId,
       };
       const newSale = await addSale(saleWithUser);
       setSalesState((prev) => [...prev, newSale]);
       
-      if (saleData.productId) {
-        setProductsState((prev) =>
-          prev.map((p) =>
-            p.id === saleData.productId
-              ? { ...p, quantity: Math.max(0, p.quantity - saleData.quantity) }
-              : p
-          )
-        );
-      }
+      setProductsState((prev) =>
+        prev.map((p) => {
+          const sold = newSale.lines
+            .filter((line) => line.productId === p.id)
+            .reduce((sum, line) => sum + line.quantity, 0);
+          return sold !== 0 ? { ...p, quantity: p.quantity - sold } : p;
+        })
+      );
       
       if (getOnlineStatus()) {
         triggerSync();
@@ -186,8 +312,386 @@ function AuthenticatedApp() {
     }
   };
 
+  const handleAddSupplier = async (data: SupplierFormData) => {
+    try {
+      const supplierWithStore = { ...data, storeId: activeStoreId };
+      const newSupplier = await addSupplier(supplierWithStore);
+      setSuppliersState((prev) => [...prev, newSupplier]);
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to add supplier:", error);
+    }
+  };
+
+  const handleUpdateSupplier = async (supplier: Supplier, data: SupplierFormData) => {
+    try {
+      const updated = await updateSupplier({
+        ...supplier,
+        name: data.name,
+        phone: data.phone ?? null,
+        email: data.email ?? null,
+        notes: data.notes ?? null,
+      });
+      setSuppliersState((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to update supplier:", error);
+    }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    try {
+      await deleteSupplier(supplier.id);
+      setSuppliersState((prev) => prev.filter((s) => s.id !== supplier.id));
+      setPurchaseOrdersState((prev) =>
+        prev.map((o) => (o.supplierId === supplier.id ? { ...o, supplierId: null } : o))
+      );
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to delete supplier:", error);
+    }
+  };
+
+  const handleAddPromotion = async (data: PromotionFormData) => {
+    try {
+      const promotionWithStore = { ...data, storeId: activeStoreId };
+      const newPromotion = await addPromotion(promotionWithStore);
+      setPromotionsState((prev) => [...prev, newPromotion]);
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to add promotion:", error);
+    }
+  };
+
+  const handleUpdatePromotion = async (promotion: Promotion, data: PromotionFormData) => {
+    try {
+      const updated = await updatePromotion({
+        ...promotion,
+        name: data.name,
+        type: data.type,
+        productId: data.productId ?? null,
+        buyQuantity: data.buyQuantity ?? null,
+        getQuantity: data.getQuantity ?? null,
+        categoryId: data.categoryId ?? null,
+        percent: data.percent ?? null,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+        active: data.active ?? true,
+      });
+      setPromotionsState((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to update promotion:", error);
+    }
+  };
+
+  const handleDeletePromotion = async (promotion: Promotion) => {
+    try {
+      await deletePromotion(promotion.id);
+      setPromotionsState((prev) => prev.filter((p) => p.id !== promotion.id));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to delete promotion:", error);
+    }
+  };
+
+  const handleAddCustomer = async (data: CustomerFormData) => {
+    try {
+      const customerWithStore = { ...data, storeId: activeStoreId };
+      const newCustomer = await addCustomer(customerWithStore);
+      setCustomersState((prev) => [...prev, newCustomer]);
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to add customer:", error);
+    }
+  };
+
+  const handleUpdateCustomer = async (customer: Customer, data: CustomerFormData) => {
+    try {
+      const updated = await updateCustomer({
+        ...customer,
+        name: data.name,
+        phone: data.phone ?? null,
+        notes: data.notes ?? null,
+        creditLimit: data.creditLimit ?? null,
+      });
+      setCustomersState((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to update customer:", error);
+    }
+  };
+
+  const handleDeleteCustomer = async (customer: Customer) => {
+    try {
+      await deleteCustomer(customer.id);
+      setCustomersState((prev) => prev.filter((c) => c.id !== customer.id));
+      setCustomerPaymentsState((prev) => prev.filter((p) => p.customerId !== customer.id));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to delete customer:", error);
+    }
+  };
+
+  // A cash payment taken while the drawer is open goes into it as a pay-in
+  const handleCustomerPayment = async (customer: Customer, payment: InsertCustomerPayment) => {
+    try {
+      const saved = await addCustomerPayment(payment, user?.id);
+      setCustomerPaymentsState((prev) => [...prev, saved]);
+      if (payment.method === "cash" && openShift) {
+        setOpenShift(await addCashMovement(openShift, "pay_in", payment.amount, `Abono: ${customer.name}`));
+      }
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to record customer payment:", error);
+    }
+  };
+
+  const replaceOrder = (order: PurchaseOrder | undefined) => {
+    if (!order) return;
+    setPurchaseOrdersState((prev) => prev.map((o) => (o.id === order.id ? order : o)));
+  };
+
+  const handleAddOrder = async (data: PurchaseOrderFormData) => {
+    try {
+      const orderWithUser = {
+        ...data,
+        userId: user?.id,
+        storeId: activeStoreId,
+      };
+      const newOrder = await addPurchaseOrder(orderWithUser);
+      setPurchaseOrdersState((prev) => [...prev, newOrder]);
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to add purchase order:", error);
+    }
+  };
+
+  const handleEditOrder = async (order: PurchaseOrder, data: PurchaseOrderFormData) => {
+    try {
+      replaceOrder(await updatePurchaseOrder(order.id, { ...data, notes: data.notes ?? null }));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to update purchase order:", error);
+    }
+  };
+
+  const handleSendOrder = async (order: PurchaseOrder) => {
+    try {
+      replaceOrder(await updatePurchaseOrder(order.id, { status: 'sent' }));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to send purchase order:", error);
+    }
+  };
+
+  const handleReceiveOrder = async (order: PurchaseOrder, lines: ReceivePurchaseOrder["lines"]) => {
+    try {
+      replaceOrder(await receivePurchaseOrder(order.id, lines));
+      // Received goods change stock and cost
+      setProductsState(await getProducts());
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to receive purchase order:", error);
+    }
+  };
+
+  const handleDeleteOrder = async (order: PurchaseOrder) => {
+    try {
+      await deletePurchaseOrder(order.id);
+      setPurchaseOrdersState((prev) => prev.filter((o) => o.id !== order.id));
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to delete purchase order:", error);
+    }
+  };
+
+  const replaceStocktake = (stocktake: Stocktake) => {
+    setStocktakesState((prev) => prev.map((s) => (s.id === stocktake.id ? stocktake : s)));
+  };
+
+  const handleStartStocktake = async (categoryId: string | null) => {
+    try {
+      const stocktake = await startStocktake(categoryId, user?.id);
+      setStocktakesState((prev) => [...prev, stocktake]);
+    } catch (error) {
+      console.error("Failed to start stocktake:", error);
+    }
+  };
+
+  // Counts are saved as they're entered, so a closed tab loses nothing
+  const handleCountStocktake = async (stocktake: Stocktake) => {
+    replaceStocktake(stocktake);
+    try {
+      await saveStocktake(stocktake);
+    } catch (error) {
+      console.error("Failed to save stocktake:", error);
+    }
+  };
+
+  const handleApproveStocktake = async (stocktake: Stocktake) => {
+    try {
+      const approved = await approveStocktake(stocktake.id);
+      if (approved) replaceStocktake(approved);
+      setProductsState(await getProducts());
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to approve stocktake:", error);
+    }
+  };
+
+  const handleDiscardStocktake = async (stocktake: Stocktake) => {
+    try {
+      await deleteStocktake(stocktake.id);
+      setStocktakesState((prev) => prev.filter((s) => s.id !== stocktake.id));
+    } catch (error) {
+      console.error("Failed to discard stocktake:", error);
+    }
+  };
+
+  const handleOpenShift = async (openingFloat: number) => {
+    try {
+      setOpenShift(await openCashShift(openingFloat, user?.id));
+    } catch (error) {
+      console.error("Failed to open cash shift:", error);
+    }
+  };
+
+  const handleCashMovement = async (type: CashMovementType, amount: number, note: string) => {
+    if (!openShift) return;
+    try {
+      setOpenShift(await addCashMovement(openShift, type, amount, note));
+    } catch (error) {
+      console.error("Failed to record cash movement:", error);
+    }
+  };
+
+  const handleCloseShift = async (countedCash: number) => {
+    if (!openShift) return;
+    try {
+      const report = await closeCashShift(openShift, countedCash);
+      setOpenShift(null);
+      setCashShiftsState((prev) => [...prev, report]);
+      
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+      return report;
+    } catch (error) {
+      console.error("Failed to close cash shift:", error);
+    }
+  };
+
+  const handleResolveConflict = async (productId: string, resolved: Product) => {
+    try {
+      await resolveConflict(productId, resolved);
+      setProductsState(await getProducts());
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+    }
+  };
+
+  const handleUpdateCategory = async (category: Category) => {
+    try {
+      const updated = await updateCategory(category);
+      setCategoriesState((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+
+      if (getOnlineStatus()) {
+        triggerSync();
+      }
+    } catch (error) {
+      console.error("Failed to update category:", error);
+    }
+  };
+
+  // Store settings are saved straight to the server, so they need a connection
+  const handleUpdateStore = async (updates: UpdateStore) => {
+    if (!activeStoreId) return;
+    const updated = await updateStoreSettings(activeStoreId, updates);
+    if (!updated) {
+      toast({
+        title: "No se pudo guardar",
+        description: "Conéctate para cambiar la configuración de la tienda.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const next = stores.map((s) => (s.id === updated.id ? { ...s, ...updated } : s));
+    setStores(next);
+    await saveStores(next);
+  };
+
+  const handleSwitchStore = async (storeId: string) => {
+    if (storeId === activeStoreId) return;
+
+    // Push this store's pending changes before its local data is dropped
+    const synced = await triggerSync();
+    if (!synced || deadLetters.length > 0 || conflicts.length > 0) {
+      toast({
+        title: "No se pudo cambiar de tienda",
+        description: "Hay cambios sin sincronizar. Conéctate e inténtalo de nuevo.",
+        variant: "destructive",
+      });
+      return;
+    }
+    await clearAllData();
+    setActiveStoreId(storeId);
+    setActiveStoreIdState(storeId);
+    setIsLoading(true);
+    await loadData();
+  };
+
   const handleSignOut = async () => {
     await clearAllData();
+    setActiveStoreId(null);
     await signOut();
   };
 
@@ -195,6 +699,15 @@ function AuthenticatedApp() {
     setShowSplash(false);
   };
 
+  const activeStore = stores.find((s) => s.id === activeStoreId);
+  const taxSettings: TaxSettings = {
+    pricesIncludeTax: activeStore?.pricesIncludeTax ?? true,
+    taxRate: activeStore?.taxRate ?? null,
+  };
+  const customerBalances = new Map(
+    customers.map((c) => [c.id, customerStatement(c.id, sales, customerPayments).balance] as [string, number])
+  );
+
   if (showSplash) {
     return <SplashScreen onComplete={handleSplashComplete} />;
   }
@@ -225,7 +738,23 @@ function AuthenticatedApp() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <StoreSwitcher
+            stores={stores}
+            activeStoreId={activeStoreId}
+            onSwitch={handleSwitchStore}
+          />
           <SyncStatus status={syncStatus} />
+          <ProductConflictDialog
+            conflicts={conflicts}
+            categories={categories}
+            products={products}
+            onResolve={handleResolveConflict}
+          />
+          <SyncIssuesDialog
+            items={deadLetters}
+            onRetry={retryDeadLetter}
+            onDiscard={discardDeadLetter}
+          />
           <Link href="/admin">
             <Button
               variant="ghost"
@@ -263,11 +792,85 @@ function AuthenticatedApp() {
             <POSPage
               products={products}
               categories={categories}
+              promotions={promotions}
+              taxSettings={taxSettings}
+              customers={customers}
+              customerBalances={customerBalances}
               onSale={handleSale}
+              onAddProduct={handleAddProduct}
+            />
+          </Route>
+          <Route path="/promotions">
+            <PromotionsPage
+              promotions={promotions}
+              products={products}
+              categories={categories}
+              onAdd={handleAddPromotion}
+              onUpdate={handleUpdatePromotion}
+              onDelete={handleDeletePromotion}
             />
           </Route>
+          <Route path="/customers">
+            <CustomersPage
+              customers={customers}
+              sales={sales}
+              payments={customerPayments}
+              storeName={activeStore?.name}
+              cashShiftOpen={!!openShift}
+              onAdd={handleAddCustomer}
+              onUpdate={handleUpdateCustomer}
+              onDelete={handleDeleteCustomer}
+              onPayment={handleCustomerPayment}
+            />
+          </Route>
+          <Route path="/taxes">
+            <TaxesPage
+              store={activeStore ?? null}
+              categories={categories}
+              onUpdateStore={handleUpdateStore}
+              onUpdateCategory={handleUpdateCategory}
+            />
+          </Route>
+          <Route path="/purchases">
+            <PurchasesPage
+              products={products}
+              suppliers={suppliers}
+              orders={purchaseOrders}
+              onAddOrder={handleAddOrder}
+              onEditOrder={handleEditOrder}
+              onSendOrder={handleSendOrder}
+              onReceiveOrder={handleReceiveOrder}
+              onDeleteOrder={handleDeleteOrder}
+              onAddSupplier={handleAddSupplier}
+              onUpdateSupplier={handleUpdateSupplier}
+              onDeleteSupplier={handleDeleteSupplier}
+            />
+          </Route>
+          <Route path="/stocktake">
+            <StocktakePage
+              categories={categories}
+              stocktakes={stocktakes}
+              onStart={handleStartStocktake}
+              onCount={handleCountStocktake}
+              onApprove={handleApproveStocktake}
+              onDiscard={handleDiscardStocktake}
+            />
+          </Route>
+          <Route path="/cash">
+            <CashDrawerPage
+              openShift={openShift}
+              shifts={cashShifts}
+              userEmail={user?.email}
+              onOpen={handleOpenShift}
+              onMovement={handleCashMovement}
+              onClose={handleCloseShift}
+            />
+          </Route>
+          <Route path="/sales">
+            <SalesPage sales={sales} shiftId={openShift?.id ?? null} onRefund={handleSale} />
+          </Route>
           <Route path="/reports">
-            <ReportsPage sales={sales} userEmail={user?.email} />
+            <ReportsPage sales={sales} products={products} categories={categories} userEmail={user?.email} />
           </Route>
           <Route path="/admin">
             <AdminPage />
@@ -26,39 +26,88 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { Product, Category } from "@shared/schema";
+import { STOCK_REASON_LABELS } from "@/components/StockHistoryDialog";
+import { MANUAL_STOCK_MOVEMENT_REASONS, type Product, type Category } from "@shared/schema";
 
 const productSchema = z.object({
   name: z.string().min(1, "El nombre es requerido"),
   price: z.coerce.number().min(0.01, "El precio debe ser mayor a 0"),
+  cost: z.string().optional(), // Blank when unknown
   quantity: z.coerce.number().int().min(0, "La cantidad no puede ser negativa"),
+  sku: z.string().optional(),
+  barcodes: z.string().optional(), // Separated by commas or spaces
   categoryId: z.string().optional(),
+  parentId: z.string().optional(), // NO_PARENT for a product of its own
+  variantName: z.string().optional(),
+  // Why the quantity of an existing product changed
+  stockReason: z.enum(MANUAL_STOCK_MOVEMENT_REASONS).optional(),
+  stockNote: z.string().optional(),
+  taxMode: z.enum(["inherit", "exempt", "own"]),
+  taxRate: z.string().optional(), // Percent, only for a rate of its own
 });
 
-type ProductFormData = z.infer<typeof productSchema>;
+type ProductFormValues = z.infer<typeof productSchema>;
+
+const NO_PARENT = "none";
+
+// Whether a product or category takes the rate above it, is exempt from
+// IVA or charges a rate of its own
+export type TaxMode = ProductFormValues["taxMode"];
+
+export function taxModeOf(item: Pick<Product, "taxRate" | "taxExempt">): TaxMode {
+  if (item.taxExempt) return "exempt";
+  return item.taxRate === null ? "inherit" : "own";
+}
+
+// What the dialog saves: the barcodes as a list
+export type ProductFormData = Omit<ProductFormValues, "cost" | "sku" | "barcodes" | "parentId" | "variantName" | "taxMode" | "taxRate"> & {
+  cost: number | null;
+  sku: string | null;
+  barcodes: string[];
+  parentId: string | null;
+  variantName: string | null;
+  taxRate: number | null;
+  taxExempt: boolean;
+};
 
 interface AddProductDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   categories: Category[];
+  products: Product[]; // To refuse codes another product already has
   onSave: (data: ProductFormData) => void;
   editProduct?: Product | null;
+  defaultBarcode?: string; // A scanned code nothing matched
+}
+
+function parseBarcodes(value?: string): string[] {
+  const codes = (value ?? "").split(/[\s,]+/).filter(Boolean);
+  return codes.filter((code, index) => codes.indexOf(code) === index);
 }
 
 export function AddProductDialog({
   open,
   onOpenChange,
   categories,
+  products,
   onSave,
   editProduct,
+  defaultBarcode,
 }: AddProductDialogProps) {
-  const form = useForm<ProductFormData>({
+  const form = useForm<ProductFormValues>({
     resolver: zodResolver(productSchema),
     defaultValues: {
       name: "",
       price: 0,
+      cost: "",
       quantity: 1,
+      sku: "",
+      barcodes: "",
       categoryId: undefined,
+      parentId: NO_PARENT,
+      variantName: "",
+      taxMode: "inherit",
+      taxRate: "",
     },
   });
 
@@ -67,26 +116,90 @@ export function AddProductDialog({
       form.reset({
         name: editProduct.name,
         price: editProduct.price,
+        cost: editProduct.cost === null ? "" : String(editProduct.cost),
         quantity: editProduct.quantity,
+        sku: editProduct.sku ?? "",
+        barcodes: editProduct.barcodes.join(", "),
         categoryId: editProduct.categoryId || undefined,
+        parentId: editProduct.parentId ?? NO_PARENT,
+        variantName: editProduct.variantName ?? "",
+        stockReason: "count_correction",
+        stockNote: "",
+        taxMode: taxModeOf(editProduct),
+        taxRate: editProduct.taxRate === null ? "" : String(editProduct.taxRate),
       });
     } else {
       form.reset({
         name: "",
         price: 0,
+        cost: "",
         quantity: 1,
+        sku: "",
+        barcodes: defaultBarcode ?? "",
         categoryId: undefined,
+        parentId: NO_PARENT,
+        variantName: "",
+        taxMode: "inherit",
+        taxRate: "",
       });
     }
-  }, [editProduct, form, open]);
+  }, [editProduct, defaultBarcode, form, open]);
+
+  const handleSubmit = ({ stockReason, stockNote, taxMode, taxRate, ...values }: ProductFormValues) => {
+    const parentId = values.parentId && values.parentId !== NO_PARENT ? values.parentId : null;
+    const cost = values.cost?.trim() ? Number(values.cost) : null;
+    if (cost !== null && !(cost >= 0)) {
+      form.setError("cost", { message: "El costo no puede ser negativo" });
+      return;
+    }
+    const rate = taxMode === "own" && taxRate?.trim() ? Number(taxRate) : null;
+    if (taxMode === "own" && !(rate !== null && rate >= 0 && rate <= 100)) {
+      form.setError("taxRate", { message: "Indica una tasa entre 0 y 100" });
+      return;
+    }
+    const data = {
+      ...values,
+      cost,
+      sku: values.sku?.trim() || null,
+      barcodes: parseBarcodes(values.barcodes),
+      parentId,
+      variantName: parentId ? values.variantName?.trim() || null : null,
+      taxRate: rate,
+      taxExempt: taxMode === "exempt",
+    };
+    if (parentId && !data.variantName) {
+      form.setError("variantName", { message: "Indica qué distingue a la variante" });
+      return;
+    }
 
-  const handleSubmit = (data: ProductFormData) => {
-    onSave(data);
+    // A scan must find a single product
+    const others = products.filter((p) => p.id !== editProduct?.id);
+    const skuOwner = data.sku ? others.find((p) => p.sku === data.sku) : undefined;
+    if (skuOwner) {
+      form.setError("sku", { message: `Ya lo usa ${skuOwner.name}` });
+      return;
+    }
+    const barcodeOwner = others.find((p) => p.barcodes.some((code) => data.barcodes.includes(code)));
+    if (barcodeOwner) {
+      form.setError("barcodes", { message: `Ya lo usa ${barcodeOwner.name}` });
+      return;
+    }
+
+    const quantityChanged = !!editProduct && data.quantity !== editProduct.quantity;
+    onSave(quantityChanged ? { ...data, stockReason, stockNote: stockNote?.trim() || undefined } : data);
     onOpenChange(false);
     form.reset();
   };
 
   const quantity = form.watch("quantity");
+  const parentId = form.watch("parentId");
+  const taxMode = form.watch("taxMode");
+
+  // Variants hang directly off a product of their own, so a product that
+  // already has variants can't become one
+  const hasVariants = !!editProduct && products.some((p) => p.parentId === editProduct.id);
+  const parentOptions = products.filter((p) => !p.parentId && p.id !== editProduct?.id);
+  const quantityChanged = !!editProduct && Number(quantity) !== editProduct.quantity;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -145,12 +258,39 @@ export function AddProductDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="cost"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Costo (opcional)</FormLabel>
+                  <FormControl>
+                    <div className="relative">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                        $
+                      </span>
+                      <Input
+                        {...field}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Se actualiza al recibir mercancía"
+                        className="h-12 pl-7 tabular-nums"
+                        data-testid="input-product-cost"
+                      />
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="quantity"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Cantidad inicial</FormLabel>
+                  <FormLabel>{editProduct ? "Cantidad" : "Cantidad inicial"}</FormLabel>
                   <FormControl>
                     <div className="flex items-center gap-3">
                       <Button
@@ -187,6 +327,141 @@ export function AddProductDialog({
               )}
             />
 
+            {quantityChanged && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="stockReason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Motivo del cambio</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="h-12" data-testid="select-stock-reason">
+                            <SelectValue placeholder="Seleccionar motivo" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {MANUAL_STOCK_MOVEMENT_REASONS.map((reason) => (
+                            <SelectItem key={reason} value={reason}>
+                              {STOCK_REASON_LABELS[reason]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="stockNote"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nota (opcional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="Ej: Caja dañada en el transporte"
+                          className="h-12"
+                          data-testid="input-stock-note"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <FormField
+              control={form.control}
+              name="sku"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>SKU (opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Ej: BEB-001"
+                      className="h-12"
+                      data-testid="input-product-sku"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="barcodes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Códigos de barras (opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Separados por comas"
+                      className="h-12 tabular-nums"
+                      data-testid="input-product-barcodes"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {!hasVariants && parentOptions.length > 0 && (
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Variante de</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="h-12" data-testid="select-parent-product">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>Ninguno (producto independiente)</SelectItem>
+                        {parentOptions.map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {parentId && parentId !== NO_PARENT && (
+              <FormField
+                control={form.control}
+                name="variantName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Variante</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="Ej: 2L, Lavanda"
+                        className="h-12"
+                        data-testid="input-variant-name"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="categoryId"
@@ -222,6 +497,55 @@ export function AddProductDialog({
               )}
             />
 
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="taxMode"
+                render={({ field }) => (
+                  <FormItem className={taxMode === "own" ? "" : "col-span-2"}>
+                    <FormLabel>IVA</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="h-12" data-testid="select-tax-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="inherit">Según la categoría</SelectItem>
+                        <SelectItem value="exempt">Exento</SelectItem>
+                        <SelectItem value="own">Tasa propia</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {taxMode === "own" && (
+                <FormField
+                  control={form.control}
+                  name="taxRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tasa (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          placeholder="16"
+                          className="h-12 tabular-nums"
+                          data-testid="input-product-tax-rate"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
             </form>
         </Form>
         
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// The Shape Detection API isn't in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 250;
+const FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e", "code_128", "code_39", "qr_code"];
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDetected: (code: string) => void;
+}
+
+// Reads a barcode with the device camera, closing on the first one found
+export function BarcodeScannerDialog({ open, onOpenChange, onDetected }: BarcodeScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Kept in refs so a re-render doesn't restart the camera
+  const onDetectedRef = useRef(onDetected);
+  const onOpenChangeRef = useRef(onOpenChange);
+  onDetectedRef.current = onDetected;
+  onOpenChangeRef.current = onOpenChange;
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector || !navigator.mediaDevices?.getUserMedia) {
+      setError("Este navegador no puede leer códigos con la cámara. Usa un lector o escribe el código.");
+      return;
+    }
+
+    const detector = new BarcodeDetector({ formats: FORMATS });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        const [barcode] = await detector.detect(video);
+        if (barcode && !stopped) {
+          stopped = true;
+          onDetectedRef.current(barcode.rawValue);
+          onOpenChangeRef.current(false);
+          return;
+        }
+      } catch {
+        // The first frames may not be ready yet
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch(() => setError("No se pudo usar la cámara. Revisa los permisos del navegador."));
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="barcode-scanner-dialog">
+        <DialogHeader>
+          <DialogTitle>Escanear código</DialogTitle>
+          <DialogDescription>Apunta la cámara al código de barras del producto.</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="py-6 text-center text-sm text-muted-foreground" data-testid="scanner-error">
+            {error}
+          </p>
+        ) : (
+          <video
+            ref={videoRef}
+            className="aspect-[4/3] w-full rounded-md bg-black object-cover"
+            muted
+            playsInline
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
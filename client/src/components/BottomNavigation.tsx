@@ -1,9 +1,11 @@
 import { Link, useLocation } from "wouter";
-import { Package, ShoppingCart, BarChart3 } from "lucide-react";
+import { Package, ShoppingCart, Truck, Wallet, BarChart3 } from "lucide-react";
 
 const navItems = [
   { path: "/", icon: Package, label: "Inventario" },
   { path: "/pos", icon: ShoppingCart, label: "Vender" },
+  { path: "/purchases", icon: Truck, label: "Compras" },
+  { path: "/cash", icon: Wallet, label: "Caja" },
   { path: "/reports", icon: BarChart3, label: "Reportes" },
 ];
 
@@ -23,7 +25,7 @@ export function BottomNavigation() {
           return (
             <Link key={item.path} href={item.path}>
               <button
-                className={`flex flex-col items-center justify-center gap-1 rounded-lg px-6 py-2 transition-colors ${
+                className={`flex flex-col items-center justify-center gap-1 rounded-lg px-3 py-2 transition-colors ${
                   isActive
                     ? "text-primary"
                     : "text-muted-foreground"
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PAYMENT_METHODS, paymentChange, type Customer, type InsertSalePayment, type PaymentMethod } from "@shared/schema";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Efectivo",
+  card: "Tarjeta",
+  transfer: "Transferencia",
+  mobile: "Pago móvil",
+  account: "Fiado",
+};
+
+interface CheckoutDialogProps {
+  open: boolean;
+  total: number;
+  customers: Customer[];
+  balances: Map<string, number>; // What each customer owes, by ID
+  onOpenChange: (open: boolean) => void;
+  // customerId is set when part of the sale went on their account
+  onConfirm: (payments: InsertSalePayment[], customerId: string | null) => void;
+}
+
+interface PaymentDraft {
+  method: PaymentMethod;
+  amount: string;
+  tendered: string; // Cash only; blank when it was the exact amount
+}
+
+const toCents = (value: number) => Math.round(value * 100) / 100;
+
+// How the customer pays: one or more methods adding up to the total, and for
+// cash what they handed over so the change can be counted back. What goes on
+// a customer's account (fiado) must stay within their credit limit.
+export function CheckoutDialog({ open, total, customers, balances, onOpenChange, onConfirm }: CheckoutDialogProps) {
+  const [drafts, setDrafts] = useState<PaymentDraft[]>([]);
+  const [customerId, setCustomerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDrafts([{ method: "cash", amount: total.toFixed(2), tendered: "" }]);
+    setCustomerId(null);
+  }, [open, total]);
+
+  const payments: InsertSalePayment[] = drafts.map((draft) => ({
+    method: draft.method,
+    amount: toCents(Number(draft.amount) || 0),
+    tendered: draft.method === "cash" && draft.tendered !== "" ? toCents(Number(draft.tendered)) : null,
+  }));
+  const remaining = toCents(total - payments.reduce((sum, payment) => sum + payment.amount, 0));
+  const change = paymentChange(payments);
+  const shortTendered = payments.some((payment) => payment.tendered != null && payment.tendered < payment.amount);
+  const charged = payments
+    .filter((payment) => payment.method === "account")
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const onAccount = drafts.some((draft) => draft.method === "account");
+  const customer = customers.find((c) => c.id === customerId);
+  const balance = customer ? balances.get(customer.id) ?? 0 : 0;
+  const overLimit = !!customer && customer.creditLimit !== null && toCents(balance + charged) > customer.creditLimit;
+  const canConfirm =
+    remaining === 0 &&
+    payments.every((payment) => payment.amount > 0) &&
+    !shortTendered &&
+    (!onAccount || (!!customer && !overLimit));
+
+  const updateDraft = (index: number, changes: Partial<PaymentDraft>) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  // A split starts with whatever is still owed, in a method not used yet
+  const addPayment = () => {
+    const method = PAYMENT_METHODS.find((m) => !drafts.some((draft) => draft.method === m)) ?? "cash";
+    setDrafts((prev) => [...prev, { method, amount: Math.max(0, remaining).toFixed(2), tendered: "" }]);
+  };
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm(payments, onAccount ? customerId : null);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md" data-testid="checkout-dialog">
+        <DialogHeader>
+          <DialogTitle>Cobrar ${total.toFixed(2)}</DialogTitle>
+          <DialogDescription>Elige cómo paga el cliente; puedes dividir el pago.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {drafts.map((draft, index) => (
+            <div key={index} className="space-y-2 rounded-md border border-border p-3" data-testid={`payment-${index}`}>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={draft.method}
+                  onValueChange={(method) => updateDraft(index, { method: method as PaymentMethod })}
+                >
+                  <SelectTrigger className="h-11 flex-1" data-testid={`select-payment-method-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={draft.amount}
+                  onChange={(e) => updateDraft(index, { amount: e.target.value })}
+                  className="h-11 w-28 tabular-nums"
+                  aria-label="Monto"
+                  data-testid={`input-payment-amount-${index}`}
+                />
+                {drafts.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                    title="Quitar pago"
+                    data-testid={`remove-payment-${index}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {draft.method === "cash" && (
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Recibido (opcional)"
+                  value={draft.tendered}
+                  onChange={(e) => updateDraft(index, { tendered: e.target.value })}
+                  className="h-11 tabular-nums"
+                  data-testid={`input-payment-tendered-${index}`}
+                />
+              )}
+            </div>
+          ))}
+
+          {onAccount && (
+            <div className="space-y-2 rounded-md border border-border p-3" data-testid="account-customer">
+              <Select value={customerId ?? ""} onValueChange={setCustomerId}>
+                <SelectTrigger className="h-11" data-testid="select-account-customer">
+                  <SelectValue placeholder={customers.length > 0 ? "Cliente" : "No hay clientes"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...customers]
+                    .sort((a, b) => a.name.localeCompare(b.name))
+                    .map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {customer && (
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Debe</span>
+                    <span className="tabular-nums">${balance.toFixed(2)}</span>
+                  </div>
+                  {customer.creditLimit !== null && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Límite</span>
+                      <span className="tabular-nums">${customer.creditLimit.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {overLimit && (
+                    <p className="text-destructive" data-testid="account-over-limit">Supera el límite de crédito del cliente</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <Button type="button" variant="outline" className="w-full" onClick={addPayment} data-testid="add-payment">
+            <Plus className="mr-1 h-4 w-4" />
+            Dividir pago
+          </Button>
+
+          <div className="space-y-1 text-sm">
+            {remaining !== 0 && (
+              <div className="flex justify-between text-destructive" data-testid="payment-remaining">
+                <span>{remaining > 0 ? "Falta" : "Sobra"}</span>
+                <span className="tabular-nums">${Math.abs(remaining).toFixed(2)}</span>
+              </div>
+            )}
+            {shortTendered && (
+              <p className="text-destructive">El efectivo recibido no cubre el monto</p>
+            )}
+            <div className="flex justify-between text-lg font-semibold">
+              <span>Cambio</span>
+              <span className="tabular-nums" data-testid="payment-change">${change.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <Button
+            className="w-full h-14 text-lg font-semibold"
+            disabled={!canConfirm}
+            onClick={handleConfirm}
+            data-testid="confirm-payment"
+          >
+            Confirmar pago
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
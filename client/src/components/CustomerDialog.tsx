@@ -0,0 +1,147 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { Customer, InsertCustomer } from "@shared/schema";
+
+const customerSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido"),
+  phone: z.string().optional(),
+  notes: z.string().optional(),
+  // Blank for no limit
+  creditLimit: z.string().refine((value) => !value.trim() || Number(value) >= 0, "Debe ser 0 o más"),
+});
+
+type CustomerFormValues = z.infer<typeof customerSchema>;
+
+export type CustomerFormData = Omit<InsertCustomer, "id">;
+
+interface CustomerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (data: CustomerFormData) => void;
+  editCustomer?: Customer | null;
+}
+
+export function CustomerDialog({ open, onOpenChange, onSave, editCustomer }: CustomerDialogProps) {
+  const form = useForm<CustomerFormValues>({
+    resolver: zodResolver(customerSchema),
+    defaultValues: { name: "", phone: "", notes: "", creditLimit: "" },
+  });
+
+  useEffect(() => {
+    form.reset({
+      name: editCustomer?.name ?? "",
+      phone: editCustomer?.phone ?? "",
+      notes: editCustomer?.notes ?? "",
+      creditLimit: editCustomer?.creditLimit == null ? "" : String(editCustomer.creditLimit),
+    });
+  }, [editCustomer, form, open]);
+
+  const handleSubmit = (values: CustomerFormValues) => {
+    onSave({
+      name: values.name.trim(),
+      phone: values.phone?.trim() || null,
+      notes: values.notes?.trim() || null,
+      creditLimit: values.creditLimit.trim() ? Number(values.creditLimit) : null,
+    });
+    onOpenChange(false);
+  };
+
+  const fields = [
+    { name: "name", label: "Nombre", placeholder: "Ej: Doña Marta" },
+    { name: "phone", label: "Teléfono (opcional)", placeholder: "Ej: 555 123 4567" },
+    { name: "notes", label: "Notas (opcional)", placeholder: "Ej: Paga los viernes" },
+  ] as const;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="customer-dialog">
+        <DialogHeader>
+          <DialogTitle>{editCustomer ? "Editar Cliente" : "Nuevo Cliente"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            {fields.map(({ name, label, placeholder }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder={placeholder}
+                        className="h-12"
+                        data-testid={`input-customer-${name}`}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="creditLimit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Límite de crédito (opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Sin límite"
+                      className="h-12 tabular-nums"
+                      data-testid="input-customer-credit-limit"
+                    />
+                  </FormControl>
+                  <FormDescription>Lo más que puede deber en fiado</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 h-12"
+                onClick={() => onOpenChange(false)}
+                data-testid="cancel-customer"
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1 h-12" data-testid="save-customer">
+                Guardar
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
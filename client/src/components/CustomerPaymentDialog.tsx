@@ -0,0 +1,160 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { PAYMENT_METHOD_LABELS } from "@/components/CheckoutDialog";
+import { CUSTOMER_PAYMENT_METHODS, type Customer, type InsertCustomerPayment } from "@shared/schema";
+
+const paymentSchema = z.object({
+  amount: z.coerce.number().gt(0, "Debe ser mayor a 0"),
+  method: z.enum(CUSTOMER_PAYMENT_METHODS),
+  note: z.string().optional(),
+});
+
+type PaymentFormValues = z.infer<typeof paymentSchema>;
+
+interface CustomerPaymentDialogProps {
+  customer: Customer | null;
+  balance: number;
+  cashShiftOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (payment: InsertCustomerPayment) => void;
+}
+
+// A payment toward a customer's account (abono), for all they owe or part of it
+export function CustomerPaymentDialog({ customer, balance, cashShiftOpen, onOpenChange, onSave }: CustomerPaymentDialogProps) {
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: { amount: 0, method: "cash", note: "" },
+  });
+
+  useEffect(() => {
+    form.reset({ amount: Math.max(0, balance), method: "cash", note: "" });
+  }, [customer, balance, form]);
+
+  const method = form.watch("method");
+
+  const handleSubmit = (values: PaymentFormValues) => {
+    if (!customer) return;
+    onSave({
+      customerId: customer.id,
+      amount: Math.round(values.amount * 100) / 100,
+      method: values.method,
+      note: values.note?.trim() || null,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!customer} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="customer-payment-dialog">
+        <DialogHeader>
+          <DialogTitle>Registrar abono</DialogTitle>
+          <DialogDescription>
+            {customer?.name} debe ${balance.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Monto</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" step="0.01" min="0" className="h-12 tabular-nums" data-testid="input-customer-payment-amount" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="method"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Forma de pago</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="h-12" data-testid="select-customer-payment-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CUSTOMER_PAYMENT_METHODS.map((m) => (
+                        <SelectItem key={m} value={m}>
+                          {PAYMENT_METHOD_LABELS[m]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {method === "cash" && cashShiftOpen && (
+                    <FormDescription>Entra a la caja como una entrada del turno</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nota (opcional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="h-12" data-testid="input-customer-payment-note" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 h-12"
+                onClick={() => onOpenChange(false)}
+                data-testid="cancel-customer-payment"
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1 h-12" data-testid="save-customer-payment">
+                Guardar
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Tag } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { Discount, PricedCartLine } from "@shared/schema";
+
+interface DiscountInputProps {
+  discount: Discount | null | undefined;
+  onChange: (discount: Discount | null) => void;
+  testId: string;
+}
+
+// Percent or fixed amount off; blank or zero for none. Starts from the
+// discount the dialog opened with, as the content mounts on every open.
+function DiscountInput({ discount, onChange, testId }: DiscountInputProps) {
+  const [type, setType] = useState<Discount["type"]>(discount?.type ?? "percent");
+  const [value, setValue] = useState(discount ? String(discount.value) : "");
+
+  const update = (nextType: Discount["type"], nextValue: string) => {
+    setType(nextType);
+    setValue(nextValue);
+    const amount = Number(nextValue);
+    onChange(amount > 0 ? { type: nextType, value: nextType === "percent" ? Math.min(100, amount) : amount } : null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {(["percent", "fixed"] as const).map((option) => (
+        <Button
+          key={option}
+          type="button"
+          size="sm"
+          variant={type === option ? "default" : "outline"}
+          className="h-9 w-9 px-0"
+          onClick={() => update(option, value)}
+          data-testid={`${testId}-${option}`}
+        >
+          {option === "percent" ? "%" : "$"}
+        </Button>
+      ))}
+      <Input
+        type="number"
+        step="0.01"
+        min="0"
+        placeholder="0"
+        value={value}
+        onChange={(e) => update(type, e.target.value)}
+        className="h-9 w-20 tabular-nums"
+        data-testid={testId}
+      />
+    </div>
+  );
+}
+
+interface DiscountDialogProps {
+  open: boolean;
+  lines: PricedCartLine[];
+  cartDiscount: Discount | null;
+  pricesIncludeTax: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLineDiscount: (productId: string, discount: Discount | null) => void;
+  onCartDiscount: (discount: Discount | null) => void;
+}
+
+// Discounts keyed in by the cashier, on top of the promotions applied on
+// their own: one per line, then one for the whole cart
+export function DiscountDialog({ open, lines, cartDiscount, pricesIncludeTax, onOpenChange, onLineDiscount, onCartDiscount }: DiscountDialogProps) {
+  const gross = lines.reduce((sum, line) => sum + line.gross, 0);
+  const discount = lines.reduce((sum, line) => sum + line.discount, 0);
+  const tax = lines.reduce((sum, line) => sum + line.tax, 0);
+  const total = lines.reduce((sum, line) => sum + line.total, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md" data-testid="discount-dialog">
+        <DialogHeader>
+          <DialogTitle>Descuentos</DialogTitle>
+          <DialogDescription>Las promociones vigentes ya están aplicadas.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {lines.map(({ item, gross: lineGross, promotion, discount: lineDiscount, total }) => (
+            <div
+              key={item.product.id}
+              className="space-y-2 rounded-md border border-border p-3"
+              data-testid={`discount-line-${item.product.id}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{item.product.name}</p>
+                  <p className="text-xs text-muted-foreground tabular-nums">
+                    {item.quantity} × ${item.product.price.toFixed(2)}
+                  </p>
+                </div>
+                <div className="text-right tabular-nums">
+                  {lineDiscount > 0 && (
+                    <p className="text-xs text-muted-foreground line-through">${lineGross.toFixed(2)}</p>
+                  )}
+                  <p className="text-sm font-semibold">${total.toFixed(2)}</p>
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                {promotion ? (
+                  <Badge variant="secondary" className="truncate">
+                    <Tag className="mr-1 h-3 w-3" />
+                    {promotion.name}
+                  </Badge>
+                ) : (
+                  <span />
+                )}
+                <DiscountInput
+                  discount={item.discount}
+                  onChange={(value) => onLineDiscount(item.product.id, value)}
+                  testId={`input-line-discount-${item.product.id}`}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-2 rounded-md border border-border p-3">
+            <Label>Descuento a toda la venta</Label>
+            <DiscountInput discount={cartDiscount} onChange={onCartDiscount} testId="input-cart-discount" />
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span className="tabular-nums">${gross.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between text-primary">
+              <span>Descuentos</span>
+              <span className="tabular-nums" data-testid="discount-total">-${discount.toFixed(2)}</span>
+            </div>
+            {tax > 0 && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>{pricesIncludeTax ? "IVA incluido" : "IVA"}</span>
+                <span className="tabular-nums">${tax.toFixed(2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-lg font-semibold">
+              <span>Total</span>
+              <span className="tabular-nums">${total.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <Button className="w-full h-12" onClick={() => onOpenChange(false)} data-testid="close-discounts">
+            Listo
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
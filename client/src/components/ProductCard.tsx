@@ -1,4 +1,4 @@
-import { Package, Minus, Plus, Edit2, Trash2 } from "lucide-react";
+import { Package, Minus, Plus, Edit2, Trash2, History } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,8 +7,11 @@ import type { Product, Category } from "@shared/schema";
 interface ProductCardProps {
   product: Product;
   category?: Category;
+  variants?: Product[]; // When the product is a parent: sold through these
+  parent?: Product; // When the product is a variant
   onEdit?: (product: Product) => void;
   onDelete?: (product: Product) => void;
+  onShowHistory?: (product: Product) => void;
   onAddToCart?: (product: Product) => void;
   showQuantityControls?: boolean;
   cartQuantity?: number;
@@ -18,15 +21,21 @@ interface ProductCardProps {
 export function ProductCard({
   product,
   category,
+  variants = [],
+  parent,
   onEdit,
   onDelete,
+  onShowHistory,
   onAddToCart,
   showQuantityControls = false,
   cartQuantity = 0,
   onUpdateCartQuantity,
 }: ProductCardProps) {
-  const isOutOfStock = product.quantity <= 0;
-  const isLowStock = product.quantity > 0 && product.quantity <= 5;
+  const hasVariants = variants.length > 0;
+  const stock = hasVariants ? variants.reduce((sum, v) => sum + v.quantity, 0) : product.quantity;
+  const minPrice = hasVariants ? Math.min(...variants.map((v) => v.price)) : product.price;
+  const isOutOfStock = stock <= 0;
+  const isLowStock = stock > 0 && stock <= 5;
 
   return (
     <Card
@@ -48,6 +57,18 @@ export function ProductCard({
               {product.name}
             </h3>
             <div className="flex gap-1 flex-shrink-0">
+              {onShowHistory && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onShowHistory(product)}
+                  title="Movimientos de stock"
+                  data-testid={`history-product-${product.id}`}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              )}
               {onEdit && (
                 <Button
                   variant="ghost"
@@ -73,6 +94,12 @@ export function ProductCard({
             </div>
           </div>
 
+          {parent && (
+            <p className="text-xs text-muted-foreground truncate" data-testid={`product-parent-${product.id}`}>
+              Variante de {parent.name}{product.variantName ? ` · ${product.variantName}` : ""}
+            </p>
+          )}
+
           {category && (
             <Badge
               variant="secondary"
@@ -90,7 +117,8 @@ export function ProductCard({
           <div className="mt-2 flex items-center justify-between gap-2">
             <div className="flex flex-col">
               <span className="text-lg font-bold text-foreground tabular-nums" data-testid={`product-price-${product.id}`}>
-                ${product.price.toFixed(2)}
+                {hasVariants && <span className="text-xs font-normal text-muted-foreground">desde </span>}
+                ${minPrice.toFixed(2)}
               </span>
               <span
                 className={`text-xs ${
@@ -102,12 +130,22 @@ export function ProductCard({
                 }`}
                 data-testid={`product-stock-${product.id}`}
               >
-                {isOutOfStock ? "Agotado" : `${product.quantity} en stock`}
+                {isOutOfStock ? "Agotado" : `${stock} en stock`}
+                {hasVariants && ` · ${variants.length} variantes`}
               </span>
             </div>
 
             {/* Action buttons */}
-            {showQuantityControls ? (
+            {showQuantityControls && hasVariants ? (
+              <Button
+                onClick={() => onAddToCart?.(product)}
+                disabled={isOutOfStock}
+                className="h-10 px-4"
+                data-testid={`choose-variant-${product.id}`}
+              >
+                Elegir
+              </Button>
+            ) : showQuantityControls ? (
               <div className="flex items-center gap-2">
                 {cartQuantity > 0 ? (
                   <div className="flex items-center gap-1">
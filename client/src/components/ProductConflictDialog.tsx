@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { GitMerge } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { ProductConflict } from "@/lib/indexedDB";
+import type { Category, Product } from "@shared/schema";
+
+interface ProductConflictDialogProps {
+  conflicts: ProductConflict[];
+  categories: Category[];
+  products: Product[];
+  onResolve: (productId: string, resolved: Product) => void;
+}
+
+// Quantity isn't here: stock changes sync as deltas and never conflict
+type Field =
+  | "name"
+  | "price"
+  | "cost"
+  | "sku"
+  | "barcodes"
+  | "categoryId"
+  | "parentId"
+  | "variantName"
+  | "taxRate"
+  | "taxExempt";
+type Side = "local" | "server";
+
+const FIELDS: { key: Field; label: string }[] = [
+  { key: "name", label: "Nombre" },
+  { key: "price", label: "Precio" },
+  { key: "cost", label: "Costo" },
+  { key: "sku", label: "SKU" },
+  { key: "barcodes", label: "Códigos de barras" },
+  { key: "categoryId", label: "Categoría" },
+  { key: "parentId", label: "Variante de" },
+  { key: "variantName", label: "Variante" },
+  { key: "taxRate", label: "Tasa de IVA" },
+  { key: "taxExempt", label: "Exento de IVA" },
+];
+
+const allOn = (side: Side) =>
+  Object.fromEntries(FIELDS.map(({ key }) => [key, side])) as Record<Field, Side>;
+const ALL_LOCAL = allOn("local");
+const ALL_SERVER = allOn("server");
+
+// Shown when an offline product edit was made against a version that has
+// changed on the server since: keep ours, take theirs, or pick per field
+export function ProductConflictDialog({ conflicts, categories, products, onResolve }: ProductConflictDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [choices, setChoices] = useState<Record<Field, Side>>(ALL_LOCAL);
+  const conflict = conflicts[0];
+
+  // Open again whenever a new conflict comes in
+  useEffect(() => {
+    if (conflicts.length > 0) setOpen(true);
+  }, [conflicts.length]);
+
+  useEffect(() => {
+    setChoices(ALL_LOCAL);
+  }, [conflict?.productId]);
+
+  if (!conflict) return null;
+
+  const formatValue = (field: Field, product: Product) => {
+    switch (field) {
+      case "price":
+        return `$${product.price.toFixed(2)}`;
+      case "cost":
+        return product.cost === null ? "Sin costo" : `$${product.cost.toFixed(2)}`;
+      case "sku":
+        return product.sku ?? "Sin SKU";
+      case "barcodes":
+        return product.barcodes?.length ? product.barcodes.join(", ") : "Sin códigos";
+      case "categoryId":
+        return categories.find((c) => c.id === product.categoryId)?.name ?? "Sin categoría";
+      case "parentId":
+        if (!product.parentId) return "Ninguno";
+        return products.find((p) => p.id === product.parentId)?.name ?? product.parentId;
+      case "variantName":
+        return product.variantName ?? "Sin variante";
+      case "taxRate":
+        return product.taxRate === null ? "Según la categoría" : `${product.taxRate}%`;
+      case "taxExempt":
+        return product.taxExempt ? "Sí" : "No";
+      default:
+        return String(product[field]);
+    }
+  };
+
+  const resolveWith = (picked: Record<Field, Side>) => {
+    const resolved: Product = { ...conflict.server };
+    const take = <K extends keyof Product>(key: K) => {
+      resolved[key] = conflict.local[key];
+    };
+    FIELDS.forEach(({ key }) => {
+      if (picked[key] === "local") take(key);
+    });
+    onResolve(conflict.productId, resolved);
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative"
+        onClick={() => setOpen(true)}
+        title="Conflictos de edición"
+        data-testid="button-conflicts"
+      >
+        <GitMerge className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+        <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-amber-500 px-1 text-[10px] font-semibold text-white">
+          {conflicts.length}
+        </span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Conflicto en {conflict.server.name}</DialogTitle>
+            <DialogDescription>
+              Este producto se modificó en otro dispositivo mientras lo editabas.
+              Elige qué valores conservar.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 text-xs font-medium text-muted-foreground">
+              <span />
+              <span>Tu cambio</span>
+              <span>Servidor</span>
+            </div>
+            {FIELDS.map(({ key, label }) => {
+              const differs = formatValue(key, conflict.local) !== formatValue(key, conflict.server);
+              return (
+                <div key={key} className="grid grid-cols-[1fr_1fr_1fr] items-center gap-2">
+                  <span className="text-sm">{label}</span>
+                  {(["local", "server"] as Side[]).map((side) => (
+                    <Button
+                      key={side}
+                      variant={choices[key] === side ? "default" : "outline"}
+                      size="sm"
+                      className="h-auto min-h-8 justify-start whitespace-normal break-words py-1 text-left"
+                      disabled={!differs}
+                      onClick={() => setChoices((prev) => ({ ...prev, [key]: side }))}
+                      data-testid={`conflict-${key}-${side}`}
+                    >
+                      {formatValue(key, side === "local" ? conflict.local : conflict.server)}
+                    </Button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-col gap-2 pt-2">
+            <Button onClick={() => resolveWith(choices)} data-testid="button-conflict-merge">
+              Guardar selección
+            </Button>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={() => resolveWith(ALL_LOCAL)}
+                data-testid="button-conflict-keep-local"
+              >
+                Mantener la mía
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => resolveWith(ALL_SERVER)}
+                data-testid="button-conflict-keep-server"
+              >
+                Usar la del servidor
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
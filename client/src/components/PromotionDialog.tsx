@@ -0,0 +1,390 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  PROMOTION_TYPES,
+  type Category,
+  type InsertPromotion,
+  type Product,
+  type Promotion,
+  type PromotionType,
+} from "@shared/schema";
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: "Lleva más, paga menos",
+  category_percent: "Descuento en categoría",
+};
+
+// How a promotion reads on screen, e.g. "3x2 en Refresco" or "15% en Bebidas"
+export function describePromotion(promotion: Promotion, products: Product[], categories: Category[]) {
+  if (promotion.type === "category_percent") {
+    const category = categories.find((c) => c.id === promotion.categoryId);
+    return `${promotion.percent ?? 0}% en ${category?.name ?? "categoría eliminada"}`;
+  }
+  const product = products.find((p) => p.id === promotion.productId);
+  const buy = promotion.buyQuantity ?? 0;
+  return `${buy + (promotion.getQuantity ?? 0)}x${buy} en ${product?.name ?? "producto eliminado"}`;
+}
+
+const promotionSchema = z
+  .object({
+    name: z.string().trim().min(1, "El nombre es requerido"),
+    type: z.enum(PROMOTION_TYPES),
+    productId: z.string().optional(),
+    buyQuantity: z.coerce.number().int().min(1, "Mínimo 1"),
+    getQuantity: z.coerce.number().int().min(1, "Mínimo 1"),
+    categoryId: z.string().optional(),
+    percent: z.coerce.number().gt(0, "Debe ser mayor a 0").max(100, "No puede pasar de 100"),
+    startsAt: z.string().optional(),
+    endsAt: z.string().optional(),
+    active: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.type === "buy_x_get_y" && !values.productId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["productId"], message: "Elige el producto" });
+    }
+    if (values.type === "category_percent" && !values.categoryId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["categoryId"], message: "Elige la categoría" });
+    }
+    if (values.startsAt && values.endsAt && values.endsAt < values.startsAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "Termina antes de empezar" });
+    }
+  });
+
+type PromotionFormValues = z.infer<typeof promotionSchema>;
+
+// What the dialog saves: only the fields of its type are set
+export type PromotionFormData = Omit<InsertPromotion, "id">;
+
+// Quick picks for "lleva N, paga M"
+const PRESETS = [
+  { label: "2x1", buyQuantity: 1, getQuantity: 1 },
+  { label: "3x2", buyQuantity: 2, getQuantity: 1 },
+];
+
+interface PromotionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+  categories: Category[];
+  onSave: (data: PromotionFormData) => void;
+  editPromotion?: Promotion | null;
+}
+
+export function PromotionDialog({
+  open,
+  onOpenChange,
+  products,
+  categories,
+  onSave,
+  editPromotion,
+}: PromotionDialogProps) {
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: {
+      name: "",
+      type: "buy_x_get_y",
+      buyQuantity: 1,
+      getQuantity: 1,
+      percent: 10,
+      startsAt: "",
+      endsAt: "",
+      active: true,
+    },
+  });
+
+  useEffect(() => {
+    form.reset({
+      name: editPromotion?.name ?? "",
+      type: editPromotion?.type ?? "buy_x_get_y",
+      productId: editPromotion?.productId ?? undefined,
+      buyQuantity: editPromotion?.buyQuantity ?? 1,
+      getQuantity: editPromotion?.getQuantity ?? 1,
+      categoryId: editPromotion?.categoryId ?? undefined,
+      percent: editPromotion?.percent ?? 10,
+      startsAt: editPromotion?.startsAt ?? "",
+      endsAt: editPromotion?.endsAt ?? "",
+      active: editPromotion?.active ?? true,
+    });
+  }, [editPromotion, form, open]);
+
+  const type = form.watch("type");
+
+  // A promotion on a product also covers its variants, so only those are offered
+  const promotable = products
+    .filter((p) => !p.parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSubmit = (values: PromotionFormValues) => {
+    const byProduct = values.type === "buy_x_get_y";
+    onSave({
+      name: values.name.trim(),
+      type: values.type,
+      productId: byProduct ? values.productId ?? null : null,
+      buyQuantity: byProduct ? values.buyQuantity : null,
+      getQuantity: byProduct ? values.getQuantity : null,
+      categoryId: byProduct ? null : values.categoryId ?? null,
+      percent: byProduct ? null : values.percent,
+      startsAt: values.startsAt || null,
+      endsAt: values.endsAt || null,
+      active: values.active,
+    });
+    onOpenChange(false);
+  };
+
+  const applyPreset = (preset: typeof PRESETS[number]) => {
+    form.setValue("buyQuantity", preset.buyQuantity);
+    form.setValue("getQuantity", preset.getQuantity);
+    if (!form.getValues("name").trim()) form.setValue("name", preset.label);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md" data-testid="promotion-dialog">
+        <DialogHeader>
+          <DialogTitle>{editPromotion ? "Editar Promoción" : "Nueva Promoción"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Ej: 2x1 en refrescos" className="h-12" data-testid="input-promotion-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tipo</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="h-12" data-testid="select-promotion-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PROMOTION_TYPES.map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {PROMOTION_TYPE_LABELS[t]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {type === "buy_x_get_y" ? (
+              <>
+                <FormField
+                  control={form.control}
+                  name="productId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Producto</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="h-12" data-testid="select-promotion-product">
+                            <SelectValue placeholder="Seleccionar producto" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {promotable.map((product) => (
+                            <SelectItem key={product.id} value={product.id}>
+                              {product.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Incluye sus variantes</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-2">
+                  {PRESETS.map((preset) => (
+                    <Button
+                      key={preset.label}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => applyPreset(preset)}
+                      data-testid={`promotion-preset-${preset.label}`}
+                    >
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="buyQuantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Paga</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="1" step="1" className="h-12 tabular-nums" data-testid="input-promotion-buy" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="getQuantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Gratis</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="1" step="1" className="h-12 tabular-nums" data-testid="input-promotion-get" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <FormField
+                  control={form.control}
+                  name="categoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Categoría</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="h-12" data-testid="select-promotion-category">
+                            <SelectValue placeholder="Seleccionar categoría" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {categories.map((category) => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {category.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="percent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Descuento (%)</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min="0" max="100" step="0.01" className="h-12 tabular-nums" data-testid="input-promotion-percent" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="startsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desde (opcional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" className="h-12" data-testid="input-promotion-starts" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hasta (opcional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" className="h-12" data-testid="input-promotion-ends" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border border-border p-3">
+                  <FormLabel className="mt-0">Activa</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-promotion-active" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 h-12"
+                onClick={() => onOpenChange(false)}
+                data-testid="cancel-promotion"
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1 h-12" data-testid="save-promotion">
+                Guardar
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { InsertPurchaseOrderLine, Product, PurchaseOrder, Supplier } from "@shared/schema";
+
+const NO_SUPPLIER = "none";
+
+interface LineDraft {
+  key: number;
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+export interface PurchaseOrderFormData {
+  supplierId: string | null;
+  notes?: string;
+  lines: InsertPurchaseOrderLine[];
+}
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+  suppliers: Supplier[];
+  onSave: (data: PurchaseOrderFormData) => void;
+  editOrder?: PurchaseOrder | null; // Only drafts are edited
+}
+
+let nextKey = 0;
+
+function emptyLine(): LineDraft {
+  return { key: nextKey++, productId: "", quantity: "1", unitCost: "" };
+}
+
+// Create a purchase order, or change a draft: supplier, notes and the
+// products ordered with their quantity and unit cost
+export function PurchaseOrderDialog({
+  open,
+  onOpenChange,
+  products,
+  suppliers,
+  onSave,
+  editOrder,
+}: PurchaseOrderDialogProps) {
+  const [supplierId, setSupplierId] = useState(NO_SUPPLIER);
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<LineDraft[]>([emptyLine()]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSupplierId(editOrder?.supplierId ?? NO_SUPPLIER);
+    setNotes(editOrder?.notes ?? "");
+    setLines(
+      editOrder
+        ? editOrder.lines.map((line) => ({
+            key: nextKey++,
+            productId: line.productId ?? "",
+            quantity: String(line.quantityOrdered),
+            unitCost: String(line.unitCost),
+          }))
+        : [emptyLine()],
+    );
+  }, [editOrder, open]);
+
+  const updateLine = (key: number, changes: Partial<LineDraft>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  // Start the unit cost at what the product cost last time
+  const selectProduct = (key: number, productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    updateLine(key, { productId, unitCost: product?.cost != null ? String(product.cost) : "" });
+  };
+
+  const validLines = lines.filter((line) =>
+    line.productId &&
+    Number.isInteger(Number(line.quantity)) && Number(line.quantity) > 0 &&
+    line.unitCost !== "" && Number(line.unitCost) >= 0,
+  );
+  const canSave = validLines.length > 0 && validLines.length === lines.length;
+  const total = validLines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unitCost), 0);
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      supplierId: supplierId === NO_SUPPLIER ? null : supplierId,
+      notes: notes.trim() || undefined,
+      lines: validLines.map((line) => ({
+        productId: line.productId,
+        productName: products.find((p) => p.id === line.productId)?.name ?? "",
+        quantityOrdered: Number(line.quantity),
+        unitCost: Number(line.unitCost),
+      })),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg" data-testid="purchase-order-dialog">
+        <DialogHeader>
+          <DialogTitle>{editOrder ? "Editar Orden de Compra" : "Nueva Orden de Compra"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Proveedor</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger className="h-12" data-testid="select-order-supplier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SUPPLIER}>Sin proveedor</SelectItem>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Productos</Label>
+            {lines.map((line, index) => (
+              <div key={line.key} className="grid grid-cols-[1fr_4rem_5rem_2.25rem] items-center gap-2">
+                <Select value={line.productId} onValueChange={(value) => selectProduct(line.key, value)}>
+                  <SelectTrigger className="h-10" data-testid={`select-order-product-${index}`}>
+                    <SelectValue placeholder="Producto" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                  className="h-10 text-center tabular-nums"
+                  aria-label="Cantidad"
+                  data-testid={`input-order-quantity-${index}`}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.unitCost}
+                  onChange={(e) => updateLine(line.key, { unitCost: e.target.value })}
+                  placeholder="Costo"
+                  className="h-10 tabular-nums"
+                  aria-label="Costo unitario"
+                  data-testid={`input-order-cost-${index}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 text-destructive hover:text-destructive"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines((prev) => prev.filter((l) => l.key !== line.key))}
+                  data-testid={`remove-order-line-${index}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setLines((prev) => [...prev, emptyLine()])}
+              data-testid="add-order-line"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Agregar producto
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notas (opcional)</Label>
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Ej: Entregar antes del viernes"
+              className="h-12"
+              data-testid="input-order-notes"
+            />
+          </div>
+
+          <div className="flex items-center justify-between border-t border-border pt-3 text-sm">
+            <span className="text-muted-foreground">Total estimado</span>
+            <span className="font-semibold tabular-nums">${total.toFixed(2)}</span>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1 h-12"
+              onClick={() => onOpenChange(false)}
+              data-testid="cancel-order"
+            >
+              Cancelar
+            </Button>
+            <Button
+              type="button"
+              className="flex-1 h-12"
+              disabled={!canSave}
+              onClick={handleSave}
+              data-testid="save-order"
+            >
+              Guardar borrador
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { PurchaseOrder, ReceivePurchaseOrder } from "@shared/schema";
+
+interface ReceiveOrderDialogProps {
+  order: PurchaseOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onReceive: (order: PurchaseOrder, lines: ReceivePurchaseOrder["lines"]) => void;
+}
+
+interface ReceivedDraft {
+  quantity: string;
+  unitCost: string;
+}
+
+// Goods that arrived for an order: how many of each line and at what unit
+// cost. Starts at what is still outstanding at the ordered cost.
+export function ReceiveOrderDialog({ order, onOpenChange, onReceive }: ReceiveOrderDialogProps) {
+  const [drafts, setDrafts] = useState<Record<string, ReceivedDraft>>({});
+
+  useEffect(() => {
+    if (!order) return;
+    const initial: Record<string, ReceivedDraft> = {};
+    order.lines.forEach((line) => {
+      initial[line.id] = {
+        quantity: String(Math.max(0, line.quantityOrdered - line.quantityReceived)),
+        unitCost: String(line.unitCost),
+      };
+    });
+    setDrafts(initial);
+  }, [order]);
+
+  const received = (order?.lines ?? [])
+    .map((line) => ({ line, draft: drafts[line.id] }))
+    .filter(({ draft }) => draft && Number.isInteger(Number(draft.quantity)) && Number(draft.quantity) > 0);
+  const costsValid = received.every(({ draft }) => draft.unitCost !== "" && Number(draft.unitCost) >= 0);
+  const canReceive = received.length > 0 && costsValid;
+
+  const handleReceive = () => {
+    if (!order || !canReceive) return;
+    onReceive(order, received.map(({ line, draft }) => ({
+      lineId: line.id,
+      quantity: Number(draft.quantity),
+      unitCost: Number(draft.unitCost),
+    })));
+    onOpenChange(false);
+  };
+
+  const updateDraft = (lineId: string, changes: Partial<ReceivedDraft>) => {
+    setDrafts((prev) => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg" data-testid="receive-order-dialog">
+        <DialogHeader>
+          <DialogTitle>Recibir mercancía</DialogTitle>
+          <DialogDescription>
+            Las cantidades recibidas se suman al stock y el costo se guarda en cada producto.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-[1fr_4rem_5rem] gap-2 text-xs font-medium text-muted-foreground">
+            <span>Producto</span>
+            <span>Recibido</span>
+            <span>Costo</span>
+          </div>
+          {order?.lines.map((line) => (
+            <div key={line.id} className="grid grid-cols-[1fr_4rem_5rem] items-center gap-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{line.productName}</p>
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  {line.quantityReceived} de {line.quantityOrdered}
+                </p>
+              </div>
+              <Input
+                type="number"
+                min="0"
+                value={drafts[line.id]?.quantity ?? ""}
+                onChange={(e) => updateDraft(line.id, { quantity: e.target.value })}
+                className="h-10 text-center tabular-nums"
+                aria-label="Cantidad recibida"
+                data-testid={`input-receive-quantity-${line.id}`}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={drafts[line.id]?.unitCost ?? ""}
+                onChange={(e) => updateDraft(line.id, { unitCost: e.target.value })}
+                className="h-10 tabular-nums"
+                aria-label="Costo unitario"
+                data-testid={`input-receive-cost-${line.id}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1 h-12"
+            onClick={() => onOpenChange(false)}
+            data-testid="cancel-receive"
+          >
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            className="flex-1 h-12"
+            disabled={!canReceive}
+            onClick={handleReceive}
+            data-testid="confirm-receive"
+          >
+            Recibir
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PAYMENT_METHOD_LABELS } from "@/components/CheckoutDialog";
+import {
+  PAYMENT_METHODS,
+  includedTax,
+  refundAmount,
+  saleLineKey,
+  type InsertSale,
+  type PaymentMethod,
+  type Sale,
+} from "@shared/schema";
+
+const RETURN_REASONS = ["Defectuoso", "Cambio de opinión", "Producto equivocado", "Vencido"];
+
+interface RefundDialogProps {
+  sale: Sale | null;
+  refunds: Sale[]; // Already made against the sale
+  kind: "void" | "return";
+  remaining: Map<string, number>; // Units of each line left to return, by saleLineKey
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (refund: InsertSale) => void;
+}
+
+// Void a whole sale, paying back each of its payments, or return some of its
+// items with a reason, paid back in one method. Items are paid back at what
+// they were sold for after discounts, with the IVA they were charged. Only a
+// sale made to a customer can be paid back to their account.
+export function RefundDialog({ sale, refunds, kind, remaining, onOpenChange, onConfirm }: RefundDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+
+  useEffect(() => {
+    if (!sale) return;
+    setQuantities({});
+    setReason("");
+    setMethod(sale.paymentMethod);
+  }, [sale]);
+
+  if (!sale) return null;
+
+  const lines = sale.lines
+    .map((line) => {
+      const left = remaining.get(saleLineKey(line)) ?? 0;
+      const quantity = kind === "void" ? line.quantity : Math.min(quantities[line.id] ?? 0, left);
+      const amount = refundAmount(sale, refunds, saleLineKey(line), quantity);
+      return { line, left, quantity, amount };
+    })
+    .filter(({ left }) => kind === "void" || left > 0);
+  const refunded = lines.filter(({ quantity }) => quantity > 0);
+  const total = refunded.reduce((sum, { amount }) => sum + amount, 0);
+  const canConfirm = refunded.length > 0 && (kind === "void" || reason.trim() !== "");
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm({
+      date: new Date().toISOString().split("T")[0],
+      localId: null,
+      kind,
+      originalSaleId: sale.id,
+      reason: kind === "return" ? reason.trim() : null,
+      pricesIncludeTax: sale.pricesIncludeTax,
+      customerId: sale.customerId,
+      lines: refunded.map(({ line, quantity, amount }) => {
+        const tax = includedTax(amount, line.taxRate);
+        // Prices before tax leave it out of the unit price, so it comes off the discount
+        const base = sale.pricesIncludeTax ? amount : amount - tax;
+        return {
+          productId: line.productId,
+          productName: line.productName,
+          quantity: -quantity,
+          unitPrice: line.unitPrice,
+          unitCost: line.unitCost,
+          discount: Math.min(0, Math.round((base - line.unitPrice * quantity) * 100) / 100),
+          promotionId: line.promotionId,
+          taxRate: line.taxRate,
+          tax: -tax,
+          total: -amount,
+        };
+      }),
+      payments: kind === "void"
+        ? sale.payments.map((payment) => ({ method: payment.method, amount: -payment.amount, tendered: null }))
+        : [{ method, amount: -total, tendered: null }],
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!sale} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md" data-testid="refund-dialog">
+        <DialogHeader>
+          <DialogTitle>{kind === "void" ? "Anular venta" : "Devolución"}</DialogTitle>
+          <DialogDescription>
+            {kind === "void"
+              ? "Se revierte la venta completa y el stock vuelve al inventario."
+              : "Elige qué se devuelve; el stock vuelve al inventario."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {lines.map(({ line, left, quantity }) => (
+            <div
+              key={line.id}
+              className="flex items-center justify-between gap-3 rounded-md border border-border p-3"
+              data-testid={`refund-line-${line.id}`}
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{line.productName}</p>
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  ${(line.total / line.quantity).toFixed(2)} · {kind === "void" ? `x${line.quantity}` : `${left} por devolver`}
+                </p>
+              </div>
+              {kind === "return" && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-9 w-9"
+                    disabled={quantity === 0}
+                    onClick={() => setQuantities((prev) => ({ ...prev, [line.id]: quantity - 1 }))}
+                    data-testid={`refund-minus-${line.id}`}
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <span className="w-8 text-center tabular-nums" data-testid={`refund-quantity-${line.id}`}>
+                    {quantity}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-9 w-9"
+                    disabled={quantity >= left}
+                    onClick={() => setQuantities((prev) => ({ ...prev, [line.id]: quantity + 1 }))}
+                    data-testid={`refund-plus-${line.id}`}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {kind === "return" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="return-reason">Motivo</Label>
+                <div className="flex flex-wrap gap-2">
+                  {RETURN_REASONS.map((option) => (
+                    <Button
+                      key={option}
+                      type="button"
+                      size="sm"
+                      variant={reason === option ? "default" : "outline"}
+                      onClick={() => setReason(option)}
+                    >
+                      {option}
+                    </Button>
+                  ))}
+                </div>
+                <Input
+                  id="return-reason"
+                  placeholder="Otro motivo"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="h-11"
+                  data-testid="input-return-reason"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Reembolsar con</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger className="h-11" data-testid="select-refund-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.filter((m) => m !== "account" || sale.customerId).map((m) => (
+                      <SelectItem key={m} value={m}>
+                        {PAYMENT_METHOD_LABELS[m]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-between text-lg font-semibold">
+            <span>A reembolsar</span>
+            <span className="tabular-nums" data-testid="refund-total">${total.toFixed(2)}</span>
+          </div>
+
+          <Button
+            className="w-full h-14 text-lg font-semibold"
+            variant="destructive"
+            disabled={!canConfirm}
+            onClick={handleConfirm}
+            data-testid="confirm-refund"
+          >
+            {kind === "void" ? "Anular venta" : "Registrar devolución"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
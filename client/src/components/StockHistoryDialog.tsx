@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { fetchStockHistory } from "@/lib/syncService";
+import type { LocalStockMovement } from "@/lib/indexedDB";
+import type { Product, StockMovementReason } from "@shared/schema";
+
+export const STOCK_REASON_LABELS: Record<StockMovementReason, string> = {
+  sale: "Venta",
+  receipt: "Entrada de mercancía",
+  return: "Devolución",
+  waste: "Merma",
+  theft: "Robo",
+  count_correction: "Corrección de conteo",
+  transfer: "Traslado",
+};
+
+interface StockHistoryDialogProps {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// A product's stock movements, newest first, with the quantity after each one
+export function StockHistoryDialog({ product, onOpenChange }: StockHistoryDialogProps) {
+  const [movements, setMovements] = useState<LocalStockMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!product) return;
+    let cancelled = false;
+    setIsLoading(true);
+    fetchStockHistory(product.id)
+      .then((result) => {
+        if (!cancelled) setMovements(result);
+      })
+      .catch(console.error)
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [product]);
+
+  // Walk back from the current quantity to get the balance after each movement
+  let balance = product?.quantity ?? 0;
+  const rows = movements.map((movement) => {
+    const after = balance;
+    balance -= movement.delta;
+    return { movement, after };
+  });
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Movimientos de stock</DialogTitle>
+          <DialogDescription>
+            {product?.name} · {product?.quantity ?? 0} en stock
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+          {isLoading && movements.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Cargando...</p>
+          ) : rows.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No hay movimientos registrados
+            </p>
+          ) : (
+            rows.map(({ movement, after }) => (
+              <div
+                key={movement.id}
+                className="flex items-start justify-between gap-3 rounded-md border border-border p-3"
+                data-testid={`stock-movement-${movement.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {STOCK_REASON_LABELS[movement.reason] ?? movement.reason}
+                    {movement.synced === 0 && (
+                      <span className="ml-2 text-xs font-normal text-amber-600 dark:text-amber-500">
+                        Pendiente
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(movement.createdAt).toLocaleString()}
+                  </p>
+                  {movement.note && (
+                    <p className="mt-1 break-words text-xs text-muted-foreground">{movement.note}</p>
+                  )}
+                </div>
+                <div className="flex-shrink-0 text-right">
+                  <p
+                    className={`font-semibold tabular-nums ${
+                      movement.delta < 0 ? "text-destructive" : "text-emerald-600 dark:text-emerald-500"
+                    }`}
+                  >
+                    {movement.delta > 0 ? "+" : ""}
+                    {movement.delta}
+                  </p>
+                  <p className="text-xs text-muted-foreground tabular-nums">= {after}</p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
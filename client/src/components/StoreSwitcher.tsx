@@ -0,0 +1,40 @@
+import { Store as StoreIcon } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { StoreMembership } from "@shared/schema";
+
+interface StoreSwitcherProps {
+  stores: StoreMembership[];
+  activeStoreId: string | null;
+  onSwitch: (storeId: string) => void;
+}
+
+export function StoreSwitcher({ stores, activeStoreId, onSwitch }: StoreSwitcherProps) {
+  // Only worth showing to users who work in more than one store
+  if (stores.length < 2) return null;
+
+  return (
+    <Select value={activeStoreId ?? undefined} onValueChange={onSwitch}>
+      <SelectTrigger className="h-8 w-auto max-w-[140px] gap-1 text-xs" data-testid="select-store">
+        <StoreIcon className="h-3.5 w-3.5 flex-shrink-0" />
+        <SelectValue placeholder="Tienda" />
+      </SelectTrigger>
+      <SelectContent>
+        {stores.map((store) => (
+          <SelectItem
+            key={store.id}
+            value={store.id}
+            data-testid={`store-option-${store.id}`}
+          >
+            {store.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
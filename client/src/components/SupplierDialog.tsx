@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { Supplier } from "@shared/schema";
+
+const supplierSchema = z.object({
+  name: z.string().min(1, "El nombre es requerido"),
+  phone: z.string().optional(),
+  email: z.union([z.literal(""), z.string().email("Correo no válido")]).optional(),
+  notes: z.string().optional(),
+});
+
+export type SupplierFormData = z.infer<typeof supplierSchema>;
+
+interface SupplierDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (data: SupplierFormData) => void;
+  editSupplier?: Supplier | null;
+}
+
+export function SupplierDialog({ open, onOpenChange, onSave, editSupplier }: SupplierDialogProps) {
+  const form = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: { name: "", phone: "", email: "", notes: "" },
+  });
+
+  useEffect(() => {
+    form.reset({
+      name: editSupplier?.name ?? "",
+      phone: editSupplier?.phone ?? "",
+      email: editSupplier?.email ?? "",
+      notes: editSupplier?.notes ?? "",
+    });
+  }, [editSupplier, form, open]);
+
+  const handleSubmit = (data: SupplierFormData) => {
+    onSave({
+      name: data.name.trim(),
+      phone: data.phone?.trim() || undefined,
+      email: data.email?.trim() || undefined,
+      notes: data.notes?.trim() || undefined,
+    });
+    onOpenChange(false);
+  };
+
+  const fields = [
+    { name: "name", label: "Nombre", placeholder: "Ej: Distribuidora López" },
+    { name: "phone", label: "Teléfono (opcional)", placeholder: "Ej: 555 123 4567" },
+    { name: "email", label: "Correo (opcional)", placeholder: "Ej: ventas@proveedor.com" },
+    { name: "notes", label: "Notas (opcional)", placeholder: "Ej: Entrega los martes" },
+  ] as const;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="supplier-dialog">
+        <DialogHeader>
+          <DialogTitle>{editSupplier ? "Editar Proveedor" : "Agregar Proveedor"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            {fields.map(({ name, label, placeholder }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder={placeholder}
+                        className="h-12"
+                        data-testid={`input-supplier-${name}`}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1 h-12"
+                onClick={() => onOpenChange(false)}
+                data-testid="cancel-supplier"
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1 h-12" data-testid="save-supplier">
+                Guardar
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { AlertTriangle, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { PendingSyncItem } from "@/lib/indexedDB";
+
+interface SyncIssuesDialogProps {
+  items: PendingSyncItem[];
+  onRetry: (id: number) => void;
+  onDiscard: (id: number) => void;
+}
+
+const TYPE_LABELS: Record<PendingSyncItem["type"], string> = {
+  product: "Producto",
+  sale: "Venta",
+  category: "Categoría",
+  stock: "Stock",
+  supplier: "Proveedor",
+  purchase_order: "Orden de compra",
+  receipt: "Recepción",
+  cash_shift: "Cierre de caja",
+  promotion: "Promoción",
+  customer: "Cliente",
+  customer_payment: "Abono",
+};
+
+const ACTION_LABELS: Record<PendingSyncItem["action"], string> = {
+  add: "nuevo",
+  update: "cambio",
+  delete: "eliminado",
+};
+
+function describeItem(item: PendingSyncItem): string {
+  if (item.type === "stock") {
+    return `${item.data.delta > 0 ? "+" : ""}${item.data.delta} unidades`;
+  }
+  if (item.type === "receipt") {
+    const units = item.data.lines.reduce((sum: number, line: { quantity: number }) => sum + line.quantity, 0);
+    return `${units} unidades recibidas`;
+  }
+  if (item.type === "purchase_order" && item.action === "add") {
+    return `${item.data.lines?.length ?? 0} líneas`;
+  }
+  if (item.type === "sale" && item.data.kind && item.data.kind !== "sale") {
+    return `${item.data.kind === "void" ? "Anulación" : "Devolución"} · $${(-(item.data.total ?? 0)).toFixed(2)}`;
+  }
+  if (item.type === "sale") {
+    return `${item.data.itemCount ?? 0} artículos · $${(item.data.total ?? 0).toFixed(2)}`;
+  }
+  if (item.type === "customer_payment") {
+    return `$${(item.data.amount ?? 0).toFixed(2)}`;
+  }
+  if (item.type === "cash_shift") {
+    return `Cierre de caja · $${(item.data.countedCash ?? 0).toFixed(2)} contados`;
+  }
+  return "name" in item.data ? item.data.name : item.data.id;
+}
+
+// Operations that gave up syncing, so the user can retry or discard them
+export function SyncIssuesDialog({ items, onRetry, onDiscard }: SyncIssuesDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  if (items.length === 0) return null;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative"
+        onClick={() => setOpen(true)}
+        title="Errores de sincronización"
+        data-testid="button-sync-issues"
+      >
+        <AlertTriangle className="h-4 w-4 text-red-600 dark:text-red-400" />
+        <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+          {items.length}
+        </span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Errores de sincronización</DialogTitle>
+            <DialogDescription>
+              Estos cambios no se pudieron enviar al servidor.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className="rounded-md border border-border p-3"
+                data-testid={`sync-issue-${item.id}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {TYPE_LABELS[item.type] ?? item.type} ({ACTION_LABELS[item.action] ?? item.action})
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {describeItem(item)} · {new Date(item.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-1">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onRetry(item.id)}
+                      title="Reintentar"
+                      data-testid={`button-retry-${item.id}`}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => onDiscard(item.id)}
+                      title="Descartar"
+                      data-testid={`button-discard-${item.id}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+                {item.lastError && (
+                  <p className="mt-2 break-words text-xs text-red-600 dark:text-red-400">
+                    {item.lastError} ({item.attempts ?? 0} intentos)
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { Product } from "@shared/schema";
+
+interface VariantPickerDialogProps {
+  parent: Product | null;
+  variants: Product[];
+  getCartQuantity: (productId: string) => number;
+  onOpenChange: (open: boolean) => void;
+  onPick: (variant: Product) => void;
+}
+
+// Which size, flavor or presentation of a parent product goes in the cart
+export function VariantPickerDialog({
+  parent,
+  variants,
+  getCartQuantity,
+  onOpenChange,
+  onPick,
+}: VariantPickerDialogProps) {
+  return (
+    <Dialog open={!!parent} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="variant-picker-dialog">
+        <DialogHeader>
+          <DialogTitle>{parent?.name}</DialogTitle>
+          <DialogDescription>Elige la variante</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {variants.map((variant) => {
+            const inCart = getCartQuantity(variant.id);
+            return (
+              <Button
+                key={variant.id}
+                variant="outline"
+                className="h-auto flex-col items-start gap-0.5 p-3 text-left"
+                disabled={variant.quantity - inCart <= 0}
+                onClick={() => {
+                  onPick(variant);
+                  onOpenChange(false);
+                }}
+                data-testid={`pick-variant-${variant.id}`}
+              >
+                <span className="w-full truncate font-semibold">{variant.variantName ?? variant.name}</span>
+                <span className="tabular-nums">${variant.price.toFixed(2)}</span>
+                <span className="text-xs font-normal text-muted-foreground">
+                  {variant.quantity <= 0 ? "Agotado" : `${variant.quantity} en stock`}
+                  {inCart > 0 && ` · ${inCart} en carrito`}
+                </span>
+              </Button>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+import * as React from "react"
+
+// USB/Bluetooth scanners act as keyboards: they type the code much faster
+// than a person can and finish with Enter
+const MAX_KEY_INTERVAL_MS = 50
+const MIN_CODE_LENGTH = 4
+
+function isTypingTarget(target: EventTarget | null) {
+  const element = target as HTMLElement | null
+  return !!element && (element.tagName === "INPUT" || element.tagName === "TEXTAREA" || element.isContentEditable)
+}
+
+// Calls onScan with each code a keyboard-wedge scanner types while no input
+// has focus (a focused input gets the code as typed text instead)
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = React.useRef(onScan)
+  onScanRef.current = onScan
+
+  React.useEffect(() => {
+    if (!enabled) return
+    let buffer = ""
+    let lastKeyAt = 0
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return
+      const now = Date.now()
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = ""
+      lastKeyAt = now
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault()
+          onScanRef.current(buffer)
+        }
+        buffer = ""
+      } else if (event.key.length === 1) {
+        buffer += event.key
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [enabled])
+}
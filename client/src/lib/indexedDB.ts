@@ -1,7 +1,38 @@
-import type { Product, Category, Sale, InsertProduct, InsertCategory, InsertSale } from "@shared/schema";
+import { DEFAULT_CATEGORIES, computeSaleTotals, computeShiftTotals, movingAverageCost, receivedStatus, resolveSalePayments, shiftSalesTotals } from "@shared/schema";
+import type {
+  Product,
+  Category,
+  Sale,
+  SaleLine,
+  SalePayment,
+  InsertProduct,
+  InsertCategory,
+  InsertSale,
+  ChangeSet,
+  StockMovement,
+  StockMovementReason,
+  Supplier,
+  InsertSupplier,
+  Promotion,
+  InsertPromotion,
+  Customer,
+  InsertCustomer,
+  CustomerPayment,
+  InsertCustomerPayment,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  InsertPurchaseOrder,
+  UpdatePurchaseOrder,
+  ReceivePurchaseOrder,
+  CashShift,
+  CashMovement,
+  CashMovementType,
+  InsertCashShift,
+  StoreMembership,
+} from "@shared/schema";
 
 const DB_NAME = 'ventafacil-db';
-const DB_VERSION = 1;
+const DB_VERSION = 16;
 
 let db: IDBDatabase | null = null;
 
@@ -25,6 +56,7 @@ export function openDB(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const database = (event.target as IDBOpenDBRequest).result;
+      const upgrade = (event.target as IDBOpenDBRequest).transaction!;
 
       // Categories store
       if (!database.objectStoreNames.contains('categories')) {
@@ -43,7 +75,6 @@ export function openDB(): Promise<IDBDatabase> {
       // Sales store
       if (!database.objectStoreNames.contains('sales')) {
         const saleStore = database.createObjectStore('sales', { keyPath: 'id' });
-        saleStore.createIndex('productId', 'productId', { unique: false });
         saleStore.createIndex('date', 'date', { unique: false });
         saleStore.createIndex('localId', 'localId', { unique: false });
         saleStore.createIndex('synced', 'synced', { unique: false });
@@ -53,10 +84,226 @@ export function openDB(): Promise<IDBDatabase> {
       if (!database.objectStoreNames.contains('pendingSync')) {
         database.createObjectStore('pendingSync', { keyPath: 'id', autoIncrement: true });
       }
+
+      // Small key/value records, such as the delta sync cursor
+      if (!database.objectStoreNames.contains('meta')) {
+        database.createObjectStore('meta', { keyPath: 'key' });
+      }
+
+      // Product edits the server refused as stale, one per product, until the user resolves them
+      if (!database.objectStoreNames.contains('conflicts')) {
+        database.createObjectStore('conflicts', { keyPath: 'productId' });
+      }
+
+      // Operations that kept failing to sync, kept for the user to retry or discard
+      if (!database.objectStoreNames.contains('deadLetter')) {
+        database.createObjectStore('deadLetter', { keyPath: 'id' });
+      }
+
+      // Stock ledger: movements made here, plus the server's copy of each
+      // product's history once it has been looked at online
+      if (!database.objectStoreNames.contains('stockMovements')) {
+        const movementStore = database.createObjectStore('stockMovements', { keyPath: 'id' });
+        movementStore.createIndex('productId', 'productId', { unique: false });
+      }
+
+      // Suppliers and purchase orders (with their lines)
+      if (!database.objectStoreNames.contains('suppliers')) {
+        database.createObjectStore('suppliers', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('purchaseOrders')) {
+        database.createObjectStore('purchaseOrders', { keyPath: 'id' });
+      }
+
+      // Physical inventory counts, kept on this device until approved
+      if (!database.objectStoreNames.contains('stocktakes')) {
+        database.createObjectStore('stocktakes', { keyPath: 'id' });
+      }
+
+      // The cash drawer shift open on this device, and closed shifts (Z-reports)
+      if (!database.objectStoreNames.contains('openCashShifts')) {
+        database.createObjectStore('openCashShifts', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('cashShifts')) {
+        database.createObjectStore('cashShifts', { keyPath: 'id' });
+      }
+
+      // Promotions the POS applies on its own
+      if (!database.objectStoreNames.contains('promotions')) {
+        database.createObjectStore('promotions', { keyPath: 'id' });
+      }
+
+      // Customers and the payments made toward their credit accounts
+      if (!database.objectStoreNames.contains('customers')) {
+        database.createObjectStore('customers', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('customerPayments')) {
+        database.createObjectStore('customerPayments', { keyPath: 'id' });
+      }
+
+      // v9: look products up by SKU or by any of their barcodes when scanning
+      const productStore = upgrade.objectStore('products');
+      if (!productStore.indexNames.contains('sku')) {
+        productStore.createIndex('sku', 'sku', { unique: false });
+      }
+      if (!productStore.indexNames.contains('barcodes')) {
+        productStore.createIndex('barcodes', 'barcodes', { unique: false, multiEntry: true });
+      }
+      // v10: variants, found through their parent
+      if (!productStore.indexNames.contains('parentId')) {
+        productStore.createIndex('parentId', 'parentId', { unique: false });
+      }
+      // v15: products and categories take the tax of the level above
+      if (event.oldVersion >= 1 && event.oldVersion < 15) {
+        productStore.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+          if (!cursor) return;
+          cursor.update({ sku: null, barcodes: [], parentId: null, variantName: null, taxRate: null, taxExempt: false, ...cursor.value });
+          cursor.continue();
+        };
+        upgrade.objectStore('categories').openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+          if (!cursor) return;
+          cursor.update({ taxRate: null, taxExempt: false, ...cursor.value });
+          cursor.continue();
+        };
+      }
+
+      // v11: sales from before split payments were paid in full with their one method.
+      // v13: every sale so far is a sale, not a refund.
+      // v14: and was sold without discounts.
+      // v15: or tax.
+      // v16: and to no customer in particular.
+      if (event.oldVersion >= 2 && event.oldVersion < 16) {
+        upgrade.objectStore('sales').openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+          if (!cursor) return;
+          cursor.update({
+            shiftId: null,
+            kind: 'sale',
+            originalSaleId: null,
+            reason: null,
+            discount: 0,
+            pricesIncludeTax: true,
+            customerId: null,
+            ...cursor.value,
+            lines: cursor.value.lines.map((line: SaleLine) => ({
+              ...line,
+              discount: line.discount ?? 0,
+              promotionId: line.promotionId ?? null,
+              taxRate: line.taxRate ?? null,
+              tax: line.tax ?? 0,
+            })),
+            payments: cursor.value.payments ?? [paidInFull(cursor.value)],
+          });
+          cursor.continue();
+        };
+      }
+
+      // v6: quantity edits are queued as count corrections instead of "adjustment"
+      if (event.oldVersion >= 1 && event.oldVersion < 6) {
+        ['pendingSync', 'deadLetter'].forEach((storeName) => {
+          if (!upgrade.objectStoreNames.contains(storeName)) return;
+          upgrade.objectStore(storeName).openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+            if (!cursor) return;
+            const op = cursor.value;
+            if (op.type === 'stock' && op.data.reason === 'adjustment') {
+              cursor.update({ ...op, data: { ...op.data, reason: 'count_correction' } });
+            }
+            cursor.continue();
+          };
+        });
+      }
+
+      // v2: sales became transactions with line items
+      if (event.oldVersion >= 1 && event.oldVersion < 2) {
+        const saleStore = upgrade.objectStore('sales');
+        if (saleStore.indexNames.contains('productId')) {
+          saleStore.deleteIndex('productId');
+        }
+        saleStore.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+          if (!cursor) return;
+          if (!cursor.value.lines) cursor.update(toSaleTransaction(cursor.value));
+          cursor.continue();
+        };
+
+        upgrade.objectStore('pendingSync').openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+          if (!cursor) return;
+          const op = cursor.value;
+          if (op.type === 'sale' && !op.data.lines) {
+            cursor.update({ ...op, data: toSaleTransaction(op.data) });
+          }
+          cursor.continue();
+        };
+      }
     };
   });
 }
 
+// The one payment of a sale made before split payments
+function paidInFull(sale: Pick<Sale, 'id' | 'paymentMethod' | 'total'>): SalePayment {
+  return { id: sale.id, transactionId: sale.id, method: sale.paymentMethod, amount: sale.total, tendered: null };
+}
+
+// A sale as v1 stored it: one product per sale
+interface LegacySale {
+  id: string;
+  date: string;
+  productId?: string | null;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  localId?: string | null;
+  synced: number;
+  userId?: string | null;
+  storeId?: string;
+}
+
+// Turn a v1 single-line sale into a transaction with one line
+function toSaleTransaction(old: LegacySale): Sale {
+  return {
+    id: old.id,
+    date: old.date,
+    createdAt: new Date(old.date),
+    itemCount: old.quantity,
+    total: old.total,
+    paymentMethod: 'cash',
+    localId: old.localId ?? null,
+    synced: old.synced,
+    userId: old.userId ?? null,
+    shiftId: null,
+    kind: 'sale',
+    originalSaleId: null,
+    reason: null,
+    discount: 0,
+    pricesIncludeTax: true,
+    customerId: null,
+    storeId: old.storeId ?? '',
+    lines: [{
+      id: old.id,
+      transactionId: old.id,
+      productId: old.productId ?? null,
+      productName: old.productName,
+      quantity: old.quantity,
+      unitPrice: old.unitPrice,
+      unitCost: null,
+      discount: 0,
+      promotionId: null,
+      taxRate: null,
+      tax: 0,
+      total: old.total,
+    }],
+    payments: [paidInFull({ id: old.id, paymentMethod: 'cash', total: old.total })],
+  };
+}
+
+// A new record with the signed-in user and active store the caller adds
+type Owned<T> = T & { userId?: string | null; storeId?: string | null };
+
 // Generate local UUID
 export function generateLocalId(): string {
   return 'local_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
@@ -75,45 +322,58 @@ export async function getCategories(): Promise<Category[]> {
   });
 }
 
-export async function addCategory(category: InsertCategory): Promise<Category> {
+export async function addCategory(category: Owned<InsertCategory>): Promise<Category> {
   const database = await openDB();
   const newCategory: Category = {
     id: generateLocalId(),
+    storeId: category.storeId || '',
     name: category.name,
     color: category.color || '#10B981',
+    taxRate: category.taxRate ?? null,
+    taxExempt: category.taxExempt ?? false,
   };
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['categories'], 'readwrite');
+    const transaction = database.transaction(['categories', 'pendingSync'], 'readwrite');
     const store = transaction.objectStore('categories');
-    const request = store.add(newCategory);
+    const syncStore = transaction.objectStore('pendingSync');
 
-    request.onsuccess = () => resolve(newCategory);
-    request.onerror = () => reject(request.error);
+    // The server keeps the local ID, so products can refer to it right away
+    store.add(newCategory);
+    syncStore.add({ type: 'category', action: 'add', data: newCategory, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(newCategory);
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
 export async function updateCategory(category: Category): Promise<Category> {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['categories'], 'readwrite');
+    const transaction = database.transaction(['categories', 'pendingSync'], 'readwrite');
     const store = transaction.objectStore('categories');
-    const request = store.put(category);
+    const syncStore = transaction.objectStore('pendingSync');
 
-    request.onsuccess = () => resolve(category);
-    request.onerror = () => reject(request.error);
+    store.put(category);
+    syncStore.add({ type: 'category', action: 'update', data: category, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(category);
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
 export async function deleteCategory(id: string): Promise<void> {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['categories'], 'readwrite');
+    const transaction = database.transaction(['categories', 'pendingSync'], 'readwrite');
     const store = transaction.objectStore('categories');
-    const request = store.delete(id);
+    const syncStore = transaction.objectStore('pendingSync');
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    store.delete(id);
+    syncStore.add({ type: 'category', action: 'delete', data: { id }, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
@@ -158,7 +418,7 @@ export async function getProduct(id: string): Promise<Product | undefined> {
   });
 }
 
-export async function addProduct(product: InsertProduct): Promise<Product> {
+export async function addProduct(product: Owned<InsertProduct>): Promise<Product> {
   const database = await openDB();
   const localId = generateLocalId();
   const newProduct: Product = {
@@ -166,68 +426,290 @@ export async function addProduct(product: InsertProduct): Promise<Product> {
     name: product.name,
     price: product.price,
     quantity: product.quantity ?? 0,
+    cost: product.cost ?? null,
+    sku: product.sku || null,
+    barcodes: product.barcodes ?? [],
     categoryId: product.categoryId || null,
+    parentId: product.parentId || null,
+    variantName: product.variantName || null,
+    taxRate: product.taxRate ?? null,
+    taxExempt: product.taxExempt ?? false,
     localId: localId,
     synced: 0,
-    userId: (product as any).userId || null,
+    userId: product.userId || null,
+    storeId: product.storeId || '',
+    version: 1,
   };
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['products', 'pendingSync'], 'readwrite');
+    const transaction = database.transaction(['products', 'pendingSync', 'stockMovements'], 'readwrite');
     const productStore = transaction.objectStore('products');
     const syncStore = transaction.objectStore('pendingSync');
 
     productStore.add(newProduct);
     syncStore.add({ type: 'product', action: 'add', data: newProduct, timestamp: Date.now() });
 
+    // The server records the initial quantity as a receipt when it creates the product
+    if (newProduct.quantity !== 0) {
+      transaction.objectStore('stockMovements').add(toLocalMovement({
+        ...newStockMovement(newProduct.id, newProduct.quantity, 'receipt'),
+        id: `${localId}:initial`,
+        localId: null,
+      }));
+    }
+
     transaction.oncomplete = () => resolve(newProduct);
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-export async function updateProduct(product: Product): Promise<Product> {
+// The product with this barcode or SKU, as typed by a scanner
+export async function findProductByCode(code: string): Promise<Product | undefined> {
   const database = await openDB();
-  const updatedProduct = { ...product, synced: 0 };
+  const trimmed = code.trim();
+  if (!trimmed) return undefined;
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['products', 'pendingSync'], 'readwrite');
+    const transaction = database.transaction(['products'], 'readonly');
+    const store = transaction.objectStore('products');
+    const byBarcode = store.index('barcodes').get(trimmed);
+
+    byBarcode.onsuccess = () => {
+      if (byBarcode.result) {
+        resolve(byBarcode.result);
+        return;
+      }
+      const bySku = store.index('sku').get(trimmed);
+      bySku.onsuccess = () => resolve(bySku.result);
+      bySku.onerror = () => reject(bySku.error);
+    };
+    byBarcode.onerror = () => reject(byBarcode.error);
+  });
+}
+
+// A stock ledger entry made on this device. synced is 0 until the server
+// has applied it.
+export type LocalStockMovement = StockMovement & { synced: number };
+
+// A new stock change: a delta the server adds to the product's quantity
+export function newStockMovement(
+  productId: string,
+  delta: number,
+  reason: StockMovementReason,
+  note?: string | null,
+): StockMovement {
+  const localId = generateLocalId();
+  return {
+    id: localId,
+    productId,
+    delta,
+    reason,
+    note: note || null,
+    createdAt: new Date(),
+    userId: null,
+    saleId: null,
+    purchaseOrderId: null,
+    localId,
+    storeId: '',
+  };
+}
+
+function toLocalMovement(movement: StockMovement): LocalStockMovement {
+  return { ...movement, synced: 0 };
+}
+
+// Why a quantity edit changed the stock; a count correction unless the user says otherwise
+export interface StockChange {
+  reason: Exclude<StockMovementReason, 'sale'>;
+  note?: string;
+}
+
+// Whether two copies of a product differ in anything but quantity, version
+// and sync state: the fields a product edit sends to the server
+function productFieldsDiffer(a: Product, b: Product): boolean {
+  return a.name !== b.name ||
+    a.price !== b.price ||
+    a.cost !== b.cost ||
+    a.sku !== b.sku ||
+    a.barcodes.join() !== b.barcodes.join() ||
+    a.categoryId !== b.categoryId ||
+    a.parentId !== b.parentId ||
+    a.variantName !== b.variantName ||
+    a.taxRate !== b.taxRate ||
+    a.taxExempt !== b.taxExempt;
+}
+
+// Queues the edit of the product's fields and, separately, the change in its
+// quantity as a stock movement, so it adds up with sales made on other devices
+export async function updateProduct(product: Product, stockChange?: StockChange): Promise<Product> {
+  const database = await openDB();
+  let updatedProduct: Product = product;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['products', 'pendingSync', 'stockMovements'], 'readwrite');
     const productStore = transaction.objectStore('products');
     const syncStore = transaction.objectStore('pendingSync');
 
-    productStore.put(updatedProduct);
-    syncStore.add({ type: 'product', action: 'update', data: updatedProduct, timestamp: Date.now() });
+    // The edit is made against the version stored locally, which may be newer
+    // than the one the caller read
+    const request = productStore.get(product.id);
+    request.onsuccess = () => {
+      const stored: Product | undefined = request.result;
+      const timestamp = Date.now();
+      const fieldsChanged = !stored || productFieldsDiffer(product, stored);
+
+      updatedProduct = {
+        ...product,
+        version: stored?.version ?? product.version,
+        synced: fieldsChanged ? 0 : stored.synced,
+      };
+      productStore.put(updatedProduct);
+
+      if (fieldsChanged) {
+        syncStore.add({ type: 'product', action: 'update', data: updatedProduct, timestamp });
+      }
+      const delta = product.quantity - (stored?.quantity ?? product.quantity);
+      if (delta !== 0) {
+        const movement = newStockMovement(product.id, delta, stockChange?.reason ?? 'count_correction', stockChange?.note);
+        transaction.objectStore('stockMovements').add(toLocalMovement(movement));
+        syncStore.add({ type: 'stock', action: 'add', data: movement, timestamp });
+      }
+    };
 
     transaction.oncomplete = () => resolve(updatedProduct);
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-export async function deleteProduct(id: string): Promise<void> {
+// After the server accepted an edit made against fromVersion, move the local
+// copy and any queued edits made against the same version to the new version
+export async function advanceProductVersion(id: string, fromVersion: number, toVersion: number): Promise<void> {
   const database = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = database.transaction(['products', 'pendingSync'], 'readwrite');
     const productStore = transaction.objectStore('products');
-    const syncStore = transaction.objectStore('pendingSync');
 
-    productStore.delete(id);
-    syncStore.add({ type: 'product', action: 'delete', data: { id }, timestamp: Date.now() });
+    const request = productStore.get(id);
+    request.onsuccess = () => {
+      const product = request.result;
+      if (product && product.version === fromVersion) {
+        productStore.put({ ...product, version: toVersion });
+      }
+    };
+
+    transaction.objectStore('pendingSync').openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      const op = cursor.value;
+      if (op.type === 'product' && op.action === 'update' && op.data.id === id && op.data.version === fromVersion) {
+        cursor.update({ ...op, data: { ...op.data, version: toVersion } });
+      }
+      cursor.continue();
+    };
 
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-// Bulk set products (for sync from server)
-export async function setProducts(products: Product[]): Promise<void> {
+// A local product edit the server refused because the product changed there first
+export interface ProductConflict {
+  productId: string;
+  local: Product;
+  server: Product;
+  timestamp: number;
+}
+
+export async function getProductConflicts(): Promise<ProductConflict[]> {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['products'], 'readwrite');
-    const store = transaction.objectStore('products');
-    
-    // Clear and repopulate
-    store.clear();
-    products.forEach(prod => store.put({ ...prod, synced: 1 }));
-    
+    const transaction = database.transaction(['conflicts'], 'readonly');
+    const request = transaction.objectStore('conflicts').getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Take a refused edit out of the queue and keep it for the user to resolve.
+// A later edit of the same product replaces the earlier one.
+export async function addProductConflict(item: PendingSyncItem, server: Product): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['pendingSync', 'conflicts'], 'readwrite');
+    transaction.objectStore('pendingSync').delete(item.id);
+    transaction.objectStore('conflicts').put({
+      productId: server.id,
+      local: item.data,
+      server,
+      timestamp: item.timestamp,
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Settle a conflict with the product as it should be. If that is just the
+// server's copy it is stored as synced; otherwise it is queued as a new edit
+// against the server's version.
+export async function resolveProductConflict(productId: string, resolved: Product): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['products', 'pendingSync', 'conflicts'], 'readwrite');
+    const conflictStore = transaction.objectStore('conflicts');
+    const request = conflictStore.get(productId);
+
+    request.onsuccess = () => {
+      const conflict: ProductConflict | undefined = request.result;
+      if (!conflict) return;
+      conflictStore.delete(productId);
+
+      // Quantity is never part of a conflict: it changes by deltas, and the
+      // local copy already has the ones still waiting to sync
+      const productStore = transaction.objectStore('products');
+      const localRequest = productStore.get(productId);
+      localRequest.onsuccess = () => {
+        const { server } = conflict;
+        const quantity = localRequest.result?.quantity ?? server.quantity;
+        const product: Product = { ...server, ...resolved, id: server.id, version: server.version, quantity };
+        if (!productFieldsDiffer(product, server)) {
+          productStore.put({ ...server, quantity, synced: 1 });
+        } else {
+          productStore.put({ ...product, synced: 0 });
+          transaction.objectStore('pendingSync').add({
+            type: 'product',
+            action: 'update',
+            data: { ...product, synced: 0 },
+            timestamp: Date.now(),
+          });
+        }
+      };
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteProduct(id: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['products', 'pendingSync'], 'readwrite');
+    const productStore = transaction.objectStore('products');
+    const syncStore = transaction.objectStore('pendingSync');
+
+    productStore.delete(id);
+    syncStore.add({ type: 'product', action: 'delete', data: { id }, timestamp: Date.now() });
+
+    // Its variants become products of their own, as on the server
+    productStore.index('parentId').openCursor(id).onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, parentId: null });
+      cursor.continue();
+    };
+
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
@@ -259,104 +741,288 @@ export async function getSalesByDate(date: string): Promise<Sale[]> {
   });
 }
 
-export async function addSale(sale: InsertSale): Promise<Sale> {
+export async function addSale(sale: Owned<InsertSale>): Promise<Sale> {
   const database = await openDB();
   const localId = generateLocalId();
+  const lines: SaleLine[] = sale.lines.map((line) => ({
+    id: generateLocalId(),
+    transactionId: localId,
+    productId: line.productId || null,
+    productName: line.productName,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    unitCost: line.unitCost ?? null,
+    discount: line.discount ?? 0,
+    promotionId: line.promotionId || null,
+    taxRate: line.taxRate ?? null,
+    tax: line.tax ?? 0,
+    total: line.total,
+  }));
+  const totals = computeSaleTotals(lines);
+  const { payments, paymentMethod } = resolveSalePayments(sale, totals.total);
   const newSale: Sale = {
     id: localId,
-    productId: sale.productId || null,
-    productName: sale.productName,
-    quantity: sale.quantity,
-    unitPrice: sale.unitPrice,
-    total: sale.total,
     date: sale.date,
+    createdAt: sale.createdAt ?? new Date(),
+    ...totals,
+    paymentMethod,
     localId: localId,
     synced: 0,
-    userId: (sale as any).userId || null,
+    userId: sale.userId || null,
+    shiftId: sale.shiftId || null,
+    kind: sale.kind ?? 'sale',
+    originalSaleId: sale.originalSaleId || null,
+    reason: sale.reason || null,
+    discount: sale.discount ?? 0,
+    pricesIncludeTax: sale.pricesIncludeTax ?? true,
+    customerId: sale.customerId || null,
+    storeId: sale.storeId || '',
+    lines,
+    payments: payments.map((payment) => ({
+      id: generateLocalId(),
+      transactionId: localId,
+      method: payment.method,
+      amount: payment.amount,
+      tendered: payment.tendered ?? null,
+    })),
   };
 
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['sales', 'products', 'pendingSync'], 'readwrite');
+    const transaction = database.transaction(['sales', 'products', 'pendingSync', 'stockMovements'], 'readwrite');
     const saleStore = transaction.objectStore('sales');
     const productStore = transaction.objectStore('products');
     const syncStore = transaction.objectStore('pendingSync');
+    const movementStore = transaction.objectStore('stockMovements');
 
     // Add the sale
     saleStore.add(newSale);
     syncStore.add({ type: 'sale', action: 'add', data: newSale, timestamp: Date.now() });
 
-    // Update product quantity if productId exists
-    if (sale.productId) {
-      const productRequest = productStore.get(sale.productId);
+    // Update the quantity of every product sold. The sale carries the
+    // decrement to the server, so the products themselves stay synced.
+    lines.forEach((line, index) => {
+      if (!line.productId) return;
+      movementStore.add(toLocalMovement({
+        ...newStockMovement(line.productId, -line.quantity, newSale.kind === 'sale' ? 'sale' : 'return'),
+        id: `${localId}:${index}`,
+        createdAt: newSale.createdAt,
+        userId: newSale.userId,
+        saleId: localId,
+        localId: null,
+      }));
+
+      const productRequest = productStore.get(line.productId);
       productRequest.onsuccess = () => {
         const product = productRequest.result;
         if (product) {
-          product.quantity = Math.max(0, product.quantity - sale.quantity);
-          product.synced = 0;
+          // Not clamped at zero, to match the server
+          product.quantity = product.quantity - line.quantity;
           productStore.put(product);
         }
       };
-    }
+    });
 
     transaction.oncomplete = () => resolve(newSale);
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-// Bulk set sales (for sync from server)
-export async function setSales(sales: Sale[]): Promise<void> {
+// Suppliers CRUD. Like categories, the server keeps the local ID.
+export async function getSuppliers(): Promise<Supplier[]> {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['sales'], 'readwrite');
-    const store = transaction.objectStore('sales');
-    
-    // Clear and repopulate
-    store.clear();
-    sales.forEach(sale => store.put({ ...sale, synced: 1 }));
-    
+    const transaction = database.transaction(['suppliers'], 'readonly');
+    const request = transaction.objectStore('suppliers').getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function addSupplier(supplier: Owned<InsertSupplier>): Promise<Supplier> {
+  const database = await openDB();
+  const newSupplier: Supplier = {
+    id: generateLocalId(),
+    name: supplier.name,
+    phone: supplier.phone || null,
+    email: supplier.email || null,
+    notes: supplier.notes || null,
+    synced: 0,
+    storeId: supplier.storeId || '',
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['suppliers', 'pendingSync'], 'readwrite');
+    transaction.objectStore('suppliers').add(newSupplier);
+    transaction.objectStore('pendingSync').add({ type: 'supplier', action: 'add', data: newSupplier, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(newSupplier);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function updateSupplier(supplier: Supplier): Promise<Supplier> {
+  const database = await openDB();
+  const updated: Supplier = { ...supplier, synced: 0 };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['suppliers', 'pendingSync'], 'readwrite');
+    transaction.objectStore('suppliers').put(updated);
+    transaction.objectStore('pendingSync').add({ type: 'supplier', action: 'update', data: updated, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Orders keep their lines; like the server, the supplier is cleared from them
+export async function deleteSupplier(id: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['suppliers', 'purchaseOrders', 'pendingSync'], 'readwrite');
+    transaction.objectStore('suppliers').delete(id);
+    transaction.objectStore('pendingSync').add({ type: 'supplier', action: 'delete', data: { id }, timestamp: Date.now() });
+
+    transaction.objectStore('purchaseOrders').openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      if (cursor.value.supplierId === id) cursor.update({ ...cursor.value, supplierId: null });
+      cursor.continue();
+    };
+
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-// Pending sync operations
-export async function getPendingSync(): Promise<any[]> {
+// Promotions CRUD. Like suppliers, the server keeps the local ID, and an
+// edit sends the whole promotion.
+export async function getPromotions(): Promise<Promotion[]> {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['pendingSync'], 'readonly');
-    const store = transaction.objectStore('pendingSync');
-    const request = store.getAll();
+    const transaction = database.transaction(['promotions'], 'readonly');
+    const request = transaction.objectStore('promotions').getAll();
 
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
-export async function clearPendingSync(): Promise<void> {
+export async function addPromotion(promotion: Owned<InsertPromotion>): Promise<Promotion> {
+  const database = await openDB();
+  const newPromotion: Promotion = {
+    id: generateLocalId(),
+    name: promotion.name,
+    type: promotion.type,
+    productId: promotion.productId || null,
+    buyQuantity: promotion.buyQuantity ?? null,
+    getQuantity: promotion.getQuantity ?? null,
+    categoryId: promotion.categoryId || null,
+    percent: promotion.percent ?? null,
+    startsAt: promotion.startsAt || null,
+    endsAt: promotion.endsAt || null,
+    active: promotion.active ?? true,
+    synced: 0,
+    storeId: promotion.storeId || '',
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['promotions', 'pendingSync'], 'readwrite');
+    transaction.objectStore('promotions').add(newPromotion);
+    transaction.objectStore('pendingSync').add({ type: 'promotion', action: 'add', data: newPromotion, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(newPromotion);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function updatePromotion(promotion: Promotion): Promise<Promotion> {
   const database = await openDB();
+  const updated: Promotion = { ...promotion, synced: 0 };
+
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['pendingSync'], 'readwrite');
-    const store = transaction.objectStore('pendingSync');
-    const request = store.clear();
+    const transaction = database.transaction(['promotions', 'pendingSync'], 'readwrite');
+    transaction.objectStore('promotions').put(updated);
+    transaction.objectStore('pendingSync').add({ type: 'promotion', action: 'update', data: updated, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deletePromotion(id: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['promotions', 'pendingSync'], 'readwrite');
+    transaction.objectStore('promotions').delete(id);
+    transaction.objectStore('pendingSync').add({ type: 'promotion', action: 'delete', data: { id }, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Customers CRUD. Like suppliers, the server keeps the local ID.
+export async function getCustomers(): Promise<Customer[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['customers'], 'readonly');
+    const request = transaction.objectStore('customers').getAll();
 
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
-export async function markAsSynced(storeName: 'products' | 'sales', id: string): Promise<void> {
+export async function addCustomer(customer: Owned<InsertCustomer>): Promise<Customer> {
+  const database = await openDB();
+  const newCustomer: Customer = {
+    id: generateLocalId(),
+    name: customer.name,
+    phone: customer.phone || null,
+    notes: customer.notes || null,
+    creditLimit: customer.creditLimit ?? null,
+    synced: 0,
+    storeId: customer.storeId || '',
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['customers', 'pendingSync'], 'readwrite');
+    transaction.objectStore('customers').add(newCustomer);
+    transaction.objectStore('pendingSync').add({ type: 'customer', action: 'add', data: newCustomer, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(newCustomer);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function updateCustomer(customer: Customer): Promise<Customer> {
   const database = await openDB();
+  const updated: Customer = { ...customer, synced: 0 };
+
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction([storeName], 'readwrite');
-    const store = transaction.objectStore(storeName);
-    const request = store.get(id);
+    const transaction = database.transaction(['customers', 'pendingSync'], 'readwrite');
+    transaction.objectStore('customers').put(updated);
+    transaction.objectStore('pendingSync').add({ type: 'customer', action: 'update', data: updated, timestamp: Date.now() });
 
-    request.onsuccess = () => {
-      const item = request.result;
-      if (item) {
-        item.synced = 1;
-        store.put(item);
-      }
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Like the server, their payments go with them; sales keep the customer ID
+export async function deleteCustomer(id: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['customers', 'customerPayments', 'pendingSync'], 'readwrite');
+    transaction.objectStore('customers').delete(id);
+    transaction.objectStore('pendingSync').add({ type: 'customer', action: 'delete', data: { id }, timestamp: Date.now() });
+
+    transaction.objectStore('customerPayments').openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      if (cursor.value.customerId === id) cursor.delete();
+      cursor.continue();
     };
 
     transaction.oncomplete = () => resolve();
@@ -364,20 +1030,1033 @@ export async function markAsSynced(storeName: 'products' | 'sales', id: string):
   });
 }
 
-// Initialize with default categories if empty (only used when offline)
-export async function initializeDefaultData(): Promise<void> {
-  const categories = await getCategories();
-  if (categories.length === 0) {
-    const defaultCategories = [
-      { name: 'Bebidas', color: '#3B82F6' },
-      { name: 'Alimentos', color: '#10B981' },
-      { name: 'Limpieza', color: '#F59E0B' },
-      { name: 'Otros', color: '#6B7280' },
-    ];
-
-    for (const cat of defaultCategories) {
-      await addCategory(cat);
-    }
+export type LocalCustomerPayment = CustomerPayment & { synced: number };
+
+export async function getCustomerPayments(): Promise<LocalCustomerPayment[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['customerPayments'], 'readonly');
+    const request = transaction.objectStore('customerPayments').getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// A payment toward a customer's account. Like Z-reports, it is only ever added.
+export async function addCustomerPayment(payment: InsertCustomerPayment, userId?: string | null): Promise<LocalCustomerPayment> {
+  const database = await openDB();
+  const data: InsertCustomerPayment = {
+    id: generateLocalId(),
+    customerId: payment.customerId,
+    amount: payment.amount,
+    method: payment.method,
+    note: payment.note || null,
+    createdAt: payment.createdAt ?? new Date(),
+  };
+  const newPayment: LocalCustomerPayment = {
+    ...data,
+    id: data.id!,
+    note: data.note ?? null,
+    createdAt: data.createdAt!,
+    userId: userId ?? null,
+    storeId: '',
+    synced: 0,
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['customerPayments', 'pendingSync'], 'readwrite');
+    transaction.objectStore('customerPayments').add(newPayment);
+    transaction.objectStore('pendingSync').add({ type: 'customer_payment', action: 'add', data, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(newPayment);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Purchase orders CRUD. The server keeps the local order and line IDs, so
+// later edits and receipts can refer to them before the order has synced.
+export async function getPurchaseOrders(): Promise<PurchaseOrder[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['purchaseOrders'], 'readonly');
+    const request = transaction.objectStore('purchaseOrders').getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toLocalOrderLines(orderId: string, lines: InsertPurchaseOrder['lines']): PurchaseOrderLine[] {
+  return lines.map((line) => ({
+    id: line.id ?? generateLocalId(),
+    orderId,
+    productId: line.productId || null,
+    productName: line.productName,
+    quantityOrdered: line.quantityOrdered,
+    quantityReceived: 0,
+    unitCost: line.unitCost,
+  }));
+}
+
+export async function addPurchaseOrder(order: Owned<InsertPurchaseOrder>): Promise<PurchaseOrder> {
+  const database = await openDB();
+  const id = generateLocalId();
+  const newOrder: PurchaseOrder = {
+    id,
+    supplierId: order.supplierId || null,
+    status: order.status ?? 'draft',
+    notes: order.notes || null,
+    createdAt: order.createdAt ?? new Date(),
+    synced: 0,
+    userId: order.userId || null,
+    storeId: order.storeId || '',
+    lines: toLocalOrderLines(id, order.lines),
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['purchaseOrders', 'pendingSync'], 'readwrite');
+    transaction.objectStore('purchaseOrders').add(newOrder);
+    transaction.objectStore('pendingSync').add({ type: 'purchase_order', action: 'add', data: newOrder, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve(newOrder);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Only the fields given are sent, so the server checks them against the
+// order's status there
+export async function updatePurchaseOrder(id: string, updates: UpdatePurchaseOrder): Promise<PurchaseOrder | undefined> {
+  const database = await openDB();
+  let updatedOrder: PurchaseOrder | undefined;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['purchaseOrders', 'pendingSync'], 'readwrite');
+    const orderStore = transaction.objectStore('purchaseOrders');
+
+    const request = orderStore.get(id);
+    request.onsuccess = () => {
+      const stored: PurchaseOrder | undefined = request.result;
+      if (!stored) return;
+
+      const { lines, ...fields } = updates;
+      updatedOrder = { ...stored, ...fields, synced: 0 };
+      if (lines) updatedOrder.lines = toLocalOrderLines(id, lines);
+      orderStore.put(updatedOrder);
+
+      // Send the lines with the IDs given to them here
+      const data = { id, ...fields, ...(lines ? { lines: updatedOrder.lines } : {}) };
+      transaction.objectStore('pendingSync').add({ type: 'purchase_order', action: 'update', data, timestamp: Date.now() });
+    };
+
+    transaction.oncomplete = () => resolve(updatedOrder);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deletePurchaseOrder(id: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['purchaseOrders', 'pendingSync'], 'readwrite');
+    transaction.objectStore('purchaseOrders').delete(id);
+    transaction.objectStore('pendingSync').add({ type: 'purchase_order', action: 'delete', data: { id }, timestamp: Date.now() });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Receive goods against an order: the received quantities go into stock right
+// away with a receipt movement each, and the product's cost becomes the
+// moving average of what it had and what came in.
+// The queued receipt carries each line's product so the quantities count as
+// unsynced stock deltas until the server has applied them.
+export async function receivePurchaseOrder(id: string, lines: ReceivePurchaseOrder['lines']): Promise<PurchaseOrder | undefined> {
+  const database = await openDB();
+  const localId = generateLocalId();
+  const createdAt = new Date();
+  let updatedOrder: PurchaseOrder | undefined;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['purchaseOrders', 'products', 'pendingSync', 'stockMovements'], 'readwrite');
+    const orderStore = transaction.objectStore('purchaseOrders');
+    const productStore = transaction.objectStore('products');
+    const movementStore = transaction.objectStore('stockMovements');
+
+    const request = orderStore.get(id);
+    request.onsuccess = () => {
+      const stored: PurchaseOrder | undefined = request.result;
+      if (!stored) return;
+
+      const orderLines = stored.lines.map((line) => ({ ...line }));
+      const received = lines.map((item, index) => {
+        const line = orderLines.find((l) => l.id === item.lineId);
+        if (!line) return { ...item, productId: null };
+        line.quantityReceived += item.quantity;
+
+        if (line.productId) {
+          const productId = line.productId;
+          movementStore.add(toLocalMovement({
+            ...newStockMovement(productId, item.quantity, 'receipt'),
+            id: `${localId}:${index}`,
+            createdAt,
+            purchaseOrderId: id,
+            localId: null,
+          }));
+
+          const productRequest = productStore.get(productId);
+          productRequest.onsuccess = () => {
+            const product = productRequest.result;
+            if (product) {
+              productStore.put({
+                ...product,
+                quantity: product.quantity + item.quantity,
+                cost: movingAverageCost(product.quantity, product.cost, item.quantity, item.unitCost ?? line.unitCost),
+              });
+            }
+          };
+        }
+        return { ...item, productId: line.productId };
+      });
+
+      updatedOrder = { ...stored, status: receivedStatus(orderLines), lines: orderLines, synced: 0 };
+      orderStore.put(updatedOrder);
+      transaction.objectStore('pendingSync').add({
+        type: 'receipt',
+        action: 'add',
+        data: { orderId: id, localId, createdAt, lines: received },
+        timestamp: Date.now(),
+      });
+    };
+
+    transaction.oncomplete = () => resolve(updatedOrder);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Physical inventory count (stocktake). Starting one freezes the expected
+// quantity of every product in scope; approving it posts counted − expected as
+// a count correction, so sales made while counting still count.
+export interface StocktakeLine {
+  productId: string;
+  productName: string;
+  categoryId: string | null;
+  expected: number;
+  counted: number | null; // null until counted
+  unitValue: number; // Cost, or the price for products without one
+}
+
+export interface Stocktake {
+  id: string;
+  categoryId: string | null; // Only this category's products; null for all
+  status: 'counting' | 'approved';
+  startedAt: Date;
+  approvedAt: Date | null;
+  userId: string | null;
+  lines: StocktakeLine[];
+}
+
+export async function getStocktakes(): Promise<Stocktake[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['stocktakes'], 'readonly');
+    const request = transaction.objectStore('stocktakes').getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function startStocktake(categoryId: string | null, userId?: string | null): Promise<Stocktake> {
+  const database = await openDB();
+  let stocktake: Stocktake;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['products', 'stocktakes'], 'readwrite');
+    const request = transaction.objectStore('products').getAll();
+
+    request.onsuccess = () => {
+      const products: Product[] = request.result;
+      // Parents with variants hold no stock of their own: their variants are counted
+      const parentIds = new Set(products.map((product) => product.parentId));
+      stocktake = {
+        id: generateLocalId(),
+        categoryId,
+        status: 'counting',
+        startedAt: new Date(),
+        approvedAt: null,
+        userId: userId ?? null,
+        lines: products
+          .filter((product) => !parentIds.has(product.id))
+          .filter((product) => !categoryId || product.categoryId === categoryId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((product) => ({
+            productId: product.id,
+            productName: product.name,
+            categoryId: product.categoryId,
+            expected: product.quantity,
+            counted: null,
+            unitValue: product.cost ?? product.price,
+          })),
+      };
+      transaction.objectStore('stocktakes').add(stocktake);
+    };
+
+    transaction.oncomplete = () => resolve(stocktake);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Save counting progress
+export async function saveStocktake(stocktake: Stocktake): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['stocktakes'], 'readwrite');
+    transaction.objectStore('stocktakes').put(stocktake);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteStocktake(id: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['stocktakes'], 'readwrite');
+    transaction.objectStore('stocktakes').delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Post every counted difference as a count correction in one transaction,
+// queued together so they reach the server in the same sync batch. Products
+// that weren't counted, or were deleted since, are left as they are.
+export async function approveStocktake(id: string): Promise<Stocktake | undefined> {
+  const database = await openDB();
+  let approved: Stocktake | undefined;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['stocktakes', 'products', 'pendingSync', 'stockMovements'], 'readwrite');
+    const stocktakeStore = transaction.objectStore('stocktakes');
+    const productStore = transaction.objectStore('products');
+    const request = stocktakeStore.get(id);
+
+    request.onsuccess = () => {
+      const stocktake: Stocktake | undefined = request.result;
+      if (!stocktake || stocktake.status !== 'counting') return;
+
+      const timestamp = Date.now();
+      stocktake.lines.forEach((line) => {
+        if (line.counted === null || line.counted === line.expected) return;
+        const delta = line.counted - line.expected;
+
+        const productRequest = productStore.get(line.productId);
+        productRequest.onsuccess = () => {
+          const product: Product | undefined = productRequest.result;
+          if (!product) return;
+          productStore.put({ ...product, quantity: product.quantity + delta });
+
+          const movement = newStockMovement(product.id, delta, 'count_correction', 'Inventario físico');
+          transaction.objectStore('stockMovements').add(toLocalMovement(movement));
+          transaction.objectStore('pendingSync').add({ type: 'stock', action: 'add', data: movement, timestamp });
+        };
+      });
+
+      approved = { ...stocktake, status: 'approved', approvedAt: new Date() };
+      stocktakeStore.put(approved);
+    };
+
+    transaction.oncomplete = () => resolve(approved);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Cash drawer shift open on this device. Sales rung up while it is open
+// carry its ID; closing it turns it into a Z-report queued for sync.
+export interface OpenCashShift {
+  id: string;
+  openedAt: Date;
+  openingFloat: number;
+  userId: string | null;
+  movements: CashMovement[];
+}
+
+export type LocalCashShift = CashShift & { synced: number };
+
+export async function getOpenCashShift(): Promise<OpenCashShift | undefined> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['openCashShifts'], 'readonly');
+    const request = transaction.objectStore('openCashShifts').getAll();
+
+    request.onsuccess = () => resolve(request.result[0]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function openCashShift(openingFloat: number, userId?: string | null): Promise<OpenCashShift> {
+  const database = await openDB();
+  const shift: OpenCashShift = {
+    id: generateLocalId(),
+    openedAt: new Date(),
+    openingFloat,
+    userId: userId ?? null,
+    movements: [],
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['openCashShifts'], 'readwrite');
+    transaction.objectStore('openCashShifts').add(shift);
+
+    transaction.oncomplete = () => resolve(shift);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Cash paid into or out of the drawer during the shift
+export async function addCashMovement(
+  shift: OpenCashShift,
+  type: CashMovementType,
+  amount: number,
+  note?: string,
+): Promise<OpenCashShift> {
+  const database = await openDB();
+  const updated: OpenCashShift = {
+    ...shift,
+    movements: [...shift.movements, {
+      id: generateLocalId(),
+      shiftId: shift.id,
+      type,
+      amount,
+      note: note || null,
+      createdAt: new Date(),
+    }],
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['openCashShifts'], 'readwrite');
+    transaction.objectStore('openCashShifts').put(updated);
+
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Close the shift with the cash counted in the drawer. The Z-report totals
+// the sales rung up in the shift (once each: a synced sale may be here both
+// under its local and its server ID), net of the refunds made in it, and is
+// queued for sync.
+export async function closeCashShift(shift: OpenCashShift, countedCash: number): Promise<LocalCashShift> {
+  const database = await openDB();
+  let report: LocalCashShift;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['sales', 'openCashShifts', 'cashShifts', 'pendingSync'], 'readwrite');
+    const request = transaction.objectStore('sales').getAll();
+
+    request.onsuccess = () => {
+      const seen = new Set<string>();
+      const sales = (request.result as Sale[]).filter((sale) => {
+        const key = sale.localId ?? sale.id;
+        if (sale.shiftId !== shift.id || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+      // The server works the sales figures out again from the sales it has
+      const closed: InsertCashShift = {
+        id: shift.id,
+        openedAt: shift.openedAt,
+        closedAt: new Date(),
+        openingFloat: shift.openingFloat,
+        countedCash,
+        movements: shift.movements,
+      };
+      const totals = shiftSalesTotals(sales);
+      report = {
+        ...closed,
+        id: shift.id,
+        ...totals,
+        ...computeShiftTotals({ ...closed, paymentTotals: totals.paymentTotals }),
+        userId: shift.userId,
+        storeId: '',
+        movements: shift.movements,
+        synced: 0,
+      };
+
+      transaction.objectStore('cashShifts').add(report);
+      transaction.objectStore('pendingSync').add({ type: 'cash_shift', action: 'add', data: closed, timestamp: Date.now() });
+      transaction.objectStore('openCashShifts').delete(shift.id);
+    };
+
+    transaction.oncomplete = () => resolve(report);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getCashShifts(): Promise<LocalCashShift[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['cashShifts'], 'readonly');
+    const request = transaction.objectStore('cashShifts').getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// A queued purchase order edit: the changed fields, with the lines given IDs here
+export type QueuedPurchaseOrderUpdate = Omit<UpdatePurchaseOrder, 'lines'> & { id: string; lines?: PurchaseOrderLine[] };
+
+// A queued receipt: the lines received against an order, with their products
+export interface QueuedReceipt {
+  orderId: string;
+  localId: string;
+  createdAt: Date;
+  lines: (ReceivePurchaseOrder['lines'][number] & { productId: string | null })[];
+}
+
+// What each kind of queued operation sends
+export type QueuedOperation =
+  | { type: 'category'; action: 'add' | 'update'; data: Category }
+  | { type: 'product'; action: 'add' | 'update'; data: Product }
+  | { type: 'stock'; action: 'add'; data: StockMovement }
+  | { type: 'sale'; action: 'add'; data: Sale }
+  | { type: 'supplier'; action: 'add' | 'update'; data: Supplier }
+  | { type: 'purchase_order'; action: 'add'; data: PurchaseOrder }
+  | { type: 'purchase_order'; action: 'update'; data: QueuedPurchaseOrderUpdate }
+  | { type: 'receipt'; action: 'add'; data: QueuedReceipt }
+  | { type: 'promotion'; action: 'add' | 'update'; data: Promotion }
+  | { type: 'customer'; action: 'add' | 'update'; data: Customer }
+  | { type: 'customer_payment'; action: 'add'; data: InsertCustomerPayment }
+  | { type: 'cash_shift'; action: 'add'; data: InsertCashShift }
+  | { type: 'category' | 'product' | 'supplier' | 'purchase_order' | 'promotion' | 'customer'; action: 'delete'; data: { id: string } };
+
+// An offline change waiting to be sent to the server
+export type PendingSyncItem = QueuedOperation & {
+  id: number;
+  timestamp: number;
+  attempts?: number;
+  lastError?: string;
+  nextAttemptAt?: number; // Not retried before this time (backoff)
+};
+
+// Pending sync operations
+export async function getPendingSync(): Promise<PendingSyncItem[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['pendingSync'], 'readonly');
+    const store = transaction.objectStore('pendingSync');
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Remove an operation once the server has acknowledged it
+export async function removePendingSync(id: number): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['pendingSync'], 'readwrite');
+    transaction.objectStore('pendingSync').delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function updatePendingSync(item: PendingSyncItem): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['pendingSync'], 'readwrite');
+    transaction.objectStore('pendingSync').put(item);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Dead-letter store: operations that gave up syncing
+export async function getDeadLetters(): Promise<PendingSyncItem[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['deadLetter'], 'readonly');
+    const request = transaction.objectStore('deadLetter').getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function moveToDeadLetter(item: PendingSyncItem): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['pendingSync', 'deadLetter'], 'readwrite');
+    transaction.objectStore('pendingSync').delete(item.id);
+    transaction.objectStore('deadLetter').put(item);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Put a dead-lettered operation back in the queue with a fresh attempt count
+export async function requeueDeadLetter(id: number): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['pendingSync', 'deadLetter'], 'readwrite');
+    const deadLetterStore = transaction.objectStore('deadLetter');
+    const request = deadLetterStore.get(id);
+
+    request.onsuccess = () => {
+      const item: PendingSyncItem | undefined = request.result;
+      if (!item) return;
+      deadLetterStore.delete(id);
+      transaction.objectStore('pendingSync').put({ ...item, attempts: 0, nextAttemptAt: undefined });
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Give up on a dead-lettered operation and its local effect: a record that
+// was only ever created locally is removed, and an edited one is marked
+// synced so the server's copy replaces it on the next pull
+export async function deleteDeadLetter(id: number): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['deadLetter', 'categories', 'products', 'sales', 'stockMovements', 'suppliers', 'purchaseOrders', 'promotions', 'customers', 'customerPayments', 'cashShifts'], 'readwrite');
+    const deadLetterStore = transaction.objectStore('deadLetter');
+    const request = deadLetterStore.get(id);
+
+    request.onsuccess = () => {
+      const item: PendingSyncItem | undefined = request.result;
+      if (!item) return;
+      deadLetterStore.delete(id);
+
+      const movementStore = transaction.objectStore('stockMovements');
+      localMovementIds(item).forEach((movementId) => movementStore.delete(movementId));
+
+      // A stock movement only changed a quantity, which the next full pull
+      // recomputes; a receipt also changed its order, which the pull replaces
+      const storeNames: Partial<Record<PendingSyncItem['type'], string>> = {
+        category: 'categories',
+        product: 'products',
+        sale: 'sales',
+        supplier: 'suppliers',
+        purchase_order: 'purchaseOrders',
+        receipt: 'purchaseOrders',
+        promotion: 'promotions',
+        customer: 'customers',
+        customer_payment: 'customerPayments',
+        cash_shift: 'cashShifts',
+      };
+      const storeName = storeNames[item.type];
+      const recordId = item.type === 'receipt' ? item.data?.orderId : item.data?.id;
+      if (!storeName || !recordId) return;
+
+      const store = transaction.objectStore(storeName);
+      if (item.action === 'add' && item.type !== 'receipt') {
+        store.delete(recordId);
+      } else if (item.type !== 'category') {
+        const recordRequest = store.get(recordId);
+        recordRequest.onsuccess = () => {
+          if (recordRequest.result) store.put({ ...recordRequest.result, synced: 1 });
+        };
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Point a queued operation at a product's server ID instead of its local one
+export function remapProductInOperation(op: PendingSyncItem, localId: string, serverId: string): PendingSyncItem {
+  if (op.action === 'delete') {
+    return op.type === 'product' && op.data.id === localId ? { ...op, data: { id: serverId } } : op;
+  }
+  if (op.type === 'product' && op.data.id === localId) {
+    return { ...op, data: { ...op.data, id: serverId } };
+  }
+  if (op.type === 'product' && op.data.parentId === localId) {
+    return { ...op, data: { ...op.data, parentId: serverId } };
+  }
+  if (op.type === 'sale' && op.data.lines.some((l) => l.productId === localId)) {
+    return { ...op, data: remapProductInSale(op.data, localId, serverId) };
+  }
+  if (op.type === 'stock' && op.data.productId === localId) {
+    return { ...op, data: { ...op.data, productId: serverId } };
+  }
+  if (op.type === 'promotion' && op.data.productId === localId) {
+    return { ...op, data: { ...op.data, productId: serverId } };
+  }
+  if (op.type === 'purchase_order' && op.action === 'add' && op.data.lines.some((l) => l.productId === localId)) {
+    return { ...op, data: { ...op.data, lines: remapProductInLines(op.data.lines, localId, serverId) } };
+  }
+  if (op.type === 'purchase_order' && op.action === 'update' && op.data.lines?.some((l) => l.productId === localId)) {
+    return { ...op, data: { ...op.data, lines: remapProductInLines(op.data.lines, localId, serverId) } };
+  }
+  if (op.type === 'receipt' && op.data.lines.some((l) => l.productId === localId)) {
+    return { ...op, data: { ...op.data, lines: remapProductInLines(op.data.lines, localId, serverId) } };
+  }
+  return op;
+}
+
+function remapProductInLines<T extends { productId: string | null }>(lines: T[], localId: string, serverId: string): T[] {
+  return lines.map((l) => (l.productId === localId ? { ...l, productId: serverId } : l));
+}
+
+// Stock deltas per product from operations the server hasn't applied yet
+function unsyncedStockDeltas(ops: PendingSyncItem[]): Map<string, number> {
+  const deltas = new Map<string, number>();
+  const add = (productId: string | null | undefined, delta: number) => {
+    if (productId) deltas.set(productId, (deltas.get(productId) ?? 0) + delta);
+  };
+
+  ops.forEach((op) => {
+    if (op.type === 'stock') add(op.data.productId, op.data.delta);
+    if (op.type === 'sale' && op.action === 'add') {
+      op.data.lines.forEach((line: SaleLine) => add(line.productId, -line.quantity));
+    }
+    if (op.type === 'receipt') {
+      op.data.lines.forEach((line: { productId: string | null; quantity: number }) => add(line.productId, line.quantity));
+    }
+  });
+  return deltas;
+}
+
+function remapProductInSale(sale: Sale, localId: string, serverId: string): Sale {
+  return { ...sale, lines: remapProductInLines(sale.lines, localId, serverId) };
+}
+
+// Once the server has created a product made offline, re-key it under the
+// server ID and rewrite every local sale, purchase order and queued operation
+// that refers to it
+export async function remapProductId(localId: string, serverId: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['products', 'sales', 'purchaseOrders', 'promotions', 'pendingSync', 'stockMovements'], 'readwrite');
+    const productStore = transaction.objectStore('products');
+    const saleStore = transaction.objectStore('sales');
+    const syncStore = transaction.objectStore('pendingSync');
+
+    const productRequest = productStore.get(localId);
+    productRequest.onsuccess = () => {
+      const product = productRequest.result;
+      if (product) {
+        productStore.delete(localId);
+        productStore.put({ ...product, id: serverId, synced: 1 });
+      }
+    };
+
+    productStore.index('parentId').openCursor(localId).onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, parentId: serverId });
+      cursor.continue();
+    };
+
+    saleStore.openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      const sale: Sale = cursor.value;
+      if (sale.lines.some((l) => l.productId === localId)) {
+        cursor.update(remapProductInSale(sale, localId, serverId));
+      }
+      cursor.continue();
+    };
+
+    transaction.objectStore('purchaseOrders').openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      const order: PurchaseOrder = cursor.value;
+      if (order.lines.some((l) => l.productId === localId)) {
+        cursor.update({ ...order, lines: remapProductInLines(order.lines, localId, serverId) });
+      }
+      cursor.continue();
+    };
+
+    transaction.objectStore('promotions').openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      if (cursor.value.productId === localId) cursor.update({ ...cursor.value, productId: serverId });
+      cursor.continue();
+    };
+
+    syncStore.openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      const op = remapProductInOperation(cursor.value, localId, serverId);
+      if (op !== cursor.value) cursor.update(op);
+      cursor.continue();
+    };
+
+    const movementStore = transaction.objectStore('stockMovements');
+    movementStore.index('productId').openCursor(localId).onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, productId: serverId });
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// IDs of the local ledger entries an operation carries to the server
+function localMovementIds(item: PendingSyncItem): string[] {
+  if (item.type === 'stock') return [item.data.id];
+  if (item.action !== 'add') return [];
+  if (item.type === 'product') return [`${item.data.localId ?? item.data.id}:initial`];
+  if (item.type === 'sale') return item.data.lines.map((_: SaleLine, index: number) => `${item.data.id}:${index}`);
+  if (item.type === 'receipt') return item.data.lines.map((_: unknown, index: number) => `${item.data.localId}:${index}`);
+  return [];
+}
+
+// Once an operation is acknowledged, the movements it carried are on the server
+export async function markStockMovementsSynced(item: PendingSyncItem): Promise<void> {
+  const ids = localMovementIds(item);
+  if (ids.length === 0) return;
+
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['stockMovements'], 'readwrite');
+    const store = transaction.objectStore('stockMovements');
+
+    ids.forEach((id) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, synced: 1 });
+      };
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// A product's stock ledger as known on this device, newest first
+export async function getStockMovements(productId: string): Promise<LocalStockMovement[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['stockMovements'], 'readonly');
+    const request = transaction.objectStore('stockMovements').index('productId').getAll(productId);
+
+    request.onsuccess = () => {
+      const movements: LocalStockMovement[] = request.result;
+      resolve(movements.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Replace what the server already has of a product's ledger with its copy;
+// movements still waiting to sync are kept
+export async function cacheStockMovements(productId: string, movements: StockMovement[]): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['stockMovements'], 'readwrite');
+    const store = transaction.objectStore('stockMovements');
+
+    const request = store.index('productId').openCursor(productId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        if (cursor.value.synced !== 0) cursor.delete();
+        cursor.continue();
+        return;
+      }
+      movements.forEach((movement) => store.put({ ...movement, synced: 1 }));
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function markAsSynced(storeName: 'products' | 'sales' | 'suppliers' | 'purchaseOrders' | 'cashShifts' | 'promotions' | 'customers' | 'customerPayments', id: string): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const item = request.result;
+      if (item) {
+        item.synced = 1;
+        store.put(item);
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Delta sync cursor. Local data only ever holds one store, so the cursor
+// belongs to that store and doesn't apply to any other.
+export async function getChangesCursor(storeId: string | null): Promise<number> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['meta'], 'readonly');
+    const request = transaction.objectStore('meta').get('changesCursor');
+
+    request.onsuccess = () => {
+      const record = request.result;
+      resolve(record && record.storeId === storeId ? record.cursor : 0);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The user's stores as last fetched, so their settings (such as how the
+// active one charges tax) are at hand offline
+export async function getSavedStores(): Promise<StoreMembership[]> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['meta'], 'readonly');
+    const request = transaction.objectStore('meta').get('stores');
+
+    request.onsuccess = () => resolve(request.result?.stores ?? []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveStores(stores: StoreMembership[]): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['meta'], 'readwrite');
+    transaction.objectStore('meta').put({ key: 'stores', stores });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Start over from a full download on the next sync (local rows are merged, not lost)
+export async function resetChangesCursor(): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(['meta'], 'readwrite');
+    transaction.objectStore('meta').delete('changesCursor');
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Merge a page of server changes and advance the cursor, in one transaction.
+// Rows with unsynced local changes are left alone: once their queued
+// operations reach the server they come back in a later page. Product
+// quantities are the server's plus the stock deltas not yet synced.
+export async function applyChanges(changes: ChangeSet, storeId: string | null): Promise<void> {
+  const database = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(
+      ['categories', 'products', 'sales', 'suppliers', 'purchaseOrders', 'cashShifts', 'promotions', 'customers', 'customerPayments', 'pendingSync', 'deadLetter', 'meta'],
+      'readwrite',
+    );
+    const categoryStore = transaction.objectStore('categories');
+    const productStore = transaction.objectStore('products');
+    const saleStore = transaction.objectStore('sales');
+    const supplierStore = transaction.objectStore('suppliers');
+    const orderStore = transaction.objectStore('purchaseOrders');
+    const shiftStore = transaction.objectStore('cashShifts');
+    const promotionStore = transaction.objectStore('promotions');
+    const customerStore = transaction.objectStore('customers');
+    const customerPaymentStore = transaction.objectStore('customerPayments');
+
+    // Upsert or delete unless the local copy is waiting to sync
+    const merge = (store: IDBObjectStore, id: string, row?: object) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result?.synced === 0) return;
+        if (row) {
+          store.put({ ...row, synced: 1 });
+        } else {
+          store.delete(id);
+        }
+      };
+    };
+
+    // Categories have no synced flag: look for queued operations instead
+    const pendingRequest = transaction.objectStore('pendingSync').getAll();
+    pendingRequest.onsuccess = () => {
+      const pendingCategoryIds = new Set<string>();
+      (pendingRequest.result as PendingSyncItem[]).forEach((op) => {
+        if (op.type === 'category') pendingCategoryIds.add(op.data.id);
+      });
+
+      changes.categories.forEach((category) => {
+        if (!pendingCategoryIds.has(category.id)) categoryStore.put(category);
+      });
+      changes.deleted.forEach(({ entity, id }) => {
+        if (entity === 'category' && !pendingCategoryIds.has(id)) categoryStore.delete(id);
+      });
+    };
+
+    // Dead letters count as unsynced until the user discards them
+    const deadLetterRequest = transaction.objectStore('deadLetter').getAll();
+    deadLetterRequest.onsuccess = () => {
+      const deltas = unsyncedStockDeltas([...pendingRequest.result, ...deadLetterRequest.result]);
+
+      changes.products.forEach((product) => {
+        const quantity = product.quantity + (deltas.get(product.id) ?? 0);
+        const request = productStore.get(product.id);
+        request.onsuccess = () => {
+          const local: Product | undefined = request.result;
+          if (local?.synced === 0) {
+            productStore.put({ ...local, quantity });
+          } else {
+            productStore.put({ ...product, quantity, synced: 1 });
+          }
+        };
+      });
+    };
+
+    // A sale made here comes back under its server ID: drop the copy kept under its localId
+    changes.sales.forEach((sale) => {
+      merge(saleStore, sale.id, sale);
+      if (sale.localId && sale.localId !== sale.id) merge(saleStore, sale.localId);
+    });
+    changes.suppliers.forEach((supplier) => merge(supplierStore, supplier.id, supplier));
+    changes.purchaseOrders.forEach((order) => merge(orderStore, order.id, order));
+    changes.cashShifts.forEach((shift) => merge(shiftStore, shift.id, shift));
+    changes.promotions.forEach((promotion) => merge(promotionStore, promotion.id, promotion));
+    changes.customers.forEach((customer) => merge(customerStore, customer.id, customer));
+    changes.customerPayments.forEach((payment) => merge(customerPaymentStore, payment.id, payment));
+    changes.deleted.forEach(({ entity, id }) => {
+      if (entity === 'product') merge(productStore, id);
+      if (entity === 'sale') merge(saleStore, id);
+      if (entity === 'supplier') merge(supplierStore, id);
+      if (entity === 'purchase_order') merge(orderStore, id);
+      if (entity === 'cash_shift') merge(shiftStore, id);
+      if (entity === 'promotion') merge(promotionStore, id);
+      if (entity === 'customer') merge(customerStore, id);
+      if (entity === 'customer_payment') merge(customerPaymentStore, id);
+    });
+
+    transaction.objectStore('meta').put({ key: 'changesCursor', storeId, cursor: changes.cursor });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Initialize with default categories if empty (only used when offline)
+export async function initializeDefaultData(storeId: string | null): Promise<void> {
+  const categories = await getCategories();
+  if (categories.length === 0) {
+    // Same IDs as the server, so offline products match once synced.
+    // The server seeds its own copy, so nothing is queued for sync.
+    await setCategories(DEFAULT_CATEGORIES.map((cat) => ({ ...cat, storeId: storeId || '', taxRate: null, taxExempt: false })));
   }
 }
 
@@ -385,12 +2064,27 @@ export async function initializeDefaultData(): Promise<void> {
 export async function clearAllData(): Promise<void> {
   const database = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = database.transaction(['products', 'sales', 'categories', 'pendingSync'], 'readwrite');
+    const transaction = database.transaction(
+      ['products', 'sales', 'categories', 'suppliers', 'purchaseOrders', 'promotions', 'customers', 'customerPayments', 'stocktakes', 'openCashShifts', 'cashShifts', 'pendingSync', 'deadLetter', 'conflicts', 'stockMovements', 'meta'],
+      'readwrite',
+    );
     
     transaction.objectStore('products').clear();
+    transaction.objectStore('suppliers').clear();
+    transaction.objectStore('purchaseOrders').clear();
+    transaction.objectStore('promotions').clear();
+    transaction.objectStore('customers').clear();
+    transaction.objectStore('customerPayments').clear();
+    transaction.objectStore('stocktakes').clear();
+    transaction.objectStore('openCashShifts').clear();
+    transaction.objectStore('cashShifts').clear();
     transaction.objectStore('sales').clear();
     transaction.objectStore('categories').clear();
     transaction.objectStore('pendingSync').clear();
+    transaction.objectStore('deadLetter').clear();
+    transaction.objectStore('conflicts').clear();
+    transaction.objectStore('stockMovements').clear();
+    transaction.objectStore('meta').clear();
     
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
@@ -1,30 +1,138 @@
 import { 
   getPendingSync, 
-  clearPendingSync, 
+  removePendingSync,
+  updatePendingSync,
+  getDeadLetters,
+  moveToDeadLetter,
+  requeueDeadLetter,
+  deleteDeadLetter,
   markAsSynced,
-  getProducts,
-  getCategories,
-  getSales,
-  openDB
+  remapProductId,
+  remapProductInOperation,
+  getChangesCursor,
+  resetChangesCursor,
+  applyChanges,
+  advanceProductVersion,
+  getProductConflicts,
+  addProductConflict,
+  resolveProductConflict,
+  markStockMovementsSynced,
+  getStockMovements,
+  cacheStockMovements,
+  saveStores,
+  openDB,
+  type LocalStockMovement,
+  type ProductConflict,
+  type PendingSyncItem,
 } from './indexedDB';
-import type { SyncStatus, Product, Category, Sale } from '@shared/schema';
+import type { SyncStatus, Store, StoreMembership, StockWarning, ChangeSet, Product, StockMovement, UpdateStore } from '@shared/schema';
 
 type SyncStatusCallback = (status: SyncStatus) => void;
+type StockWarningCallback = (warnings: StockWarning[]) => void;
+type DeadLetterCallback = (items: PendingSyncItem[]) => void;
+type ConflictCallback = (conflicts: ProductConflict[]) => void;
+
+// Retry policy for queued operations: exponential backoff, then the dead-letter store
+const MAX_SYNC_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+
+// Most operations sent in one /api/sync request
+const MAX_BATCH_SIZE = 100;
+
+// Server rejected the operation itself: retrying it won't help
+class PermanentSyncError extends Error {}
+
+// The server answered the batch with an error status
+class SyncResponseError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
 
 let isOnline = typeof navigator !== 'undefined' ? navigator.onLine : true;
 let syncStatusCallback: SyncStatusCallback | null = null;
+let stockWarningCallback: StockWarningCallback | null = null;
+let deadLetterCallback: DeadLetterCallback | null = null;
+let conflictCallback: ConflictCallback | null = null;
 let syncInProgress = false;
 let authToken: string | null = null;
 
+// The store this device works on, sent to the server as X-Store-Id
+const ACTIVE_STORE_KEY = 'caiman-active-store';
+let activeStoreId: string | null =
+  typeof localStorage !== 'undefined' ? localStorage.getItem(ACTIVE_STORE_KEY) : null;
+
 export function setAuthToken(token: string | null) {
   authToken = token;
 }
 
+export function getActiveStoreId(): string | null {
+  return activeStoreId;
+}
+
+export function setActiveStoreId(storeId: string | null) {
+  activeStoreId = storeId;
+  if (storeId) {
+    localStorage.setItem(ACTIVE_STORE_KEY, storeId);
+  } else {
+    localStorage.removeItem(ACTIVE_STORE_KEY);
+  }
+}
+
 export function setSyncStatusCallback(callback: SyncStatusCallback) {
   syncStatusCallback = callback;
   callback(isOnline ? 'online' : 'offline');
 }
 
+// Called when the server reports products whose stock went below zero
+export function setStockWarningCallback(callback: StockWarningCallback) {
+  stockWarningCallback = callback;
+}
+
+// Called with the dead-letter store contents whenever it may have changed
+export function setDeadLetterCallback(callback: DeadLetterCallback) {
+  deadLetterCallback = callback;
+  notifyDeadLetters();
+}
+
+function notifyDeadLetters() {
+  if (!deadLetterCallback) return;
+  getDeadLetters().then((items) => deadLetterCallback?.(items)).catch(console.error);
+}
+
+export async function retryDeadLetter(id: number): Promise<void> {
+  await requeueDeadLetter(id);
+  notifyDeadLetters();
+  await triggerSync();
+}
+
+// The discarded change may have left local data that no longer matches the
+// server: pull everything again to settle it
+export async function discardDeadLetter(id: number): Promise<void> {
+  await deleteDeadLetter(id);
+  await resetChangesCursor();
+  notifyDeadLetters();
+  await triggerSync();
+}
+
+// Called with the unresolved product edit conflicts whenever they may have changed
+export function setConflictCallback(callback: ConflictCallback) {
+  conflictCallback = callback;
+  notifyConflicts();
+}
+
+function notifyConflicts() {
+  if (!conflictCallback) return;
+  getProductConflicts().then((conflicts) => conflictCallback?.(conflicts)).catch(console.error);
+}
+
+export async function resolveConflict(productId: string, resolved: Product): Promise<void> {
+  await resolveProductConflict(productId, resolved);
+  notifyConflicts();
+  await triggerSync();
+}
+
 export function getOnlineStatus(): boolean {
   return isOnline;
 }
@@ -34,126 +142,368 @@ function getAuthHeaders(): HeadersInit {
   if (authToken) {
     headers['Authorization'] = `Bearer ${authToken}`;
   }
+  if (activeStoreId) {
+    headers['X-Store-Id'] = activeStoreId;
+  }
   return headers;
 }
 
-// Fetch data from server
-export async function fetchFromServer(): Promise<{ products: Product[]; categories: Category[]; sales: Sale[] } | null> {
+// Fetch the user's stores and settle on the active one
+async function fetchStores(): Promise<StoreMembership[] | null> {
+  let res = await fetch('/api/stores', { headers: getAuthHeaders() });
+
+  // The remembered store is no longer ours: fall back to the server's choice
+  if (res.status === 403 && activeStoreId) {
+    setActiveStoreId(null);
+    res = await fetch('/api/stores', { headers: getAuthHeaders() });
+  }
+
+  if (!res.ok) return null;
+
+  const { stores, activeStoreId: serverStoreId } = await res.json();
+  setActiveStoreId(serverStoreId);
+  await saveStores(stores);
+  return stores;
+}
+
+// Change a store's settings. Online only: they aren't queued like the
+// store's data. Returns the updated store, or null when it couldn't be saved.
+export async function updateStoreSettings(storeId: string, updates: UpdateStore): Promise<Store | null> {
+  if (!isOnline || !authToken) return null;
+
+  try {
+    const res = await fetch(`/api/stores/${encodeURIComponent(storeId)}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+    return res.ok ? await res.json() : null;
+  } catch (error) {
+    console.error('Failed to update store:', error);
+    return null;
+  }
+}
+
+// Fetch the user's stores and merge what changed on the server since the last
+// pull into IndexedDB. Returns the stores, or null when the server can't be reached.
+export async function fetchFromServer(): Promise<{ stores: StoreMembership[] } | null> {
   if (!isOnline || !authToken) return null;
   
   try {
-    const headers = getAuthHeaders();
-    const [productsRes, categoriesRes, salesRes] = await Promise.all([
-      fetch('/api/products', { headers }),
-      fetch('/api/categories', { headers }),
-      fetch('/api/sales', { headers }),
-    ]);
-    
-    if (!productsRes.ok || !categoriesRes.ok || !salesRes.ok) {
-      return null;
+    const stores = await fetchStores();
+    if (!stores) return null;
+
+    const storeId = activeStoreId;
+    let cursor = await getChangesCursor(storeId);
+    let hasMore = true;
+
+    while (hasMore) {
+      const res = await fetch(`/api/changes?since=${cursor}`, { headers: getAuthHeaders() });
+      if (!res.ok) return null;
+
+      const changes: ChangeSet = await res.json();
+      await applyChanges(changes, storeId);
+      cursor = changes.cursor;
+      hasMore = changes.hasMore;
     }
     
-    const [products, categories, sales] = await Promise.all([
-      productsRes.json(),
-      categoriesRes.json(),
-      salesRes.json(),
-    ]);
-    
-    return { products, categories, sales };
+    return { stores };
   } catch (error) {
     console.error('Failed to fetch from server:', error);
     return null;
   }
 }
 
-// Sync pending data to server
+// A product's stock ledger: the server's copy when it can be reached (kept for
+// offline use), plus the movements made here that haven't synced yet
+export async function fetchStockHistory(productId: string): Promise<LocalStockMovement[]> {
+  if (isOnline && authToken) {
+    try {
+      const res = await fetch(`/api/products/${encodeURIComponent(productId)}/movements`, { headers: getAuthHeaders() });
+      if (res.ok) {
+        const movements: StockMovement[] = await res.json();
+        await cacheStockMovements(productId, movements);
+      }
+    } catch (error) {
+      console.error('Failed to fetch stock history:', error);
+    }
+  }
+
+  return getStockMovements(productId);
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Record a failed attempt: back off, or give up after too many tries.
+// Returns true when the item was moved to the dead-letter store.
+async function handleSyncFailure(item: PendingSyncItem, error: unknown): Promise<boolean> {
+  const attempts = (item.attempts ?? 0) + 1;
+  const lastError = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof PermanentSyncError || attempts >= MAX_SYNC_ATTEMPTS) {
+    await moveToDeadLetter({ ...item, attempts, lastError, nextAttemptAt: undefined });
+    notifyDeadLetters();
+    return true;
+  }
+
+  await updatePendingSync({ ...item, attempts, lastError, nextAttemptAt: Date.now() + getRetryDelay(attempts) });
+  return false;
+}
+
+function isDue(item: PendingSyncItem): boolean {
+  return (item.nextAttemptAt ?? 0) <= Date.now();
+}
+
+// Result of one operation sent through /api/sync
+interface SyncItemResult {
+  status: 'synced' | 'deleted' | 'rejected' | 'error' | 'conflict';
+  serverId?: string;
+  version?: number;
+  current?: Product;
+  error?: string;
+  stockWarnings?: StockWarning[];
+}
+
+type SyncBatchKey =
+  | 'categories' | 'suppliers' | 'customers' | 'products' | 'stock' | 'purchaseOrders' | 'receipts' | 'promotions' | 'sales'
+  | 'customerPayments' | 'cashShifts';
+
+const BATCH_KEYS: Record<PendingSyncItem['type'], SyncBatchKey> = {
+  category: 'categories',
+  supplier: 'suppliers',
+  customer: 'customers',
+  product: 'products',
+  stock: 'stock',
+  purchase_order: 'purchaseOrders',
+  receipt: 'receipts',
+  promotion: 'promotions',
+  sale: 'sales',
+  customer_payment: 'customerPayments',
+  cash_shift: 'cashShifts',
+};
+
+// The order /api/sync applies each kind of operation in
+const BATCH_ORDER: Record<PendingSyncItem['type'], number> = {
+  category: 0,
+  supplier: 1,
+  customer: 2,
+  product: 3,
+  stock: 4,
+  purchase_order: 5,
+  receipt: 6,
+  promotion: 7,
+  sale: 8,
+  customer_payment: 9,
+  cash_shift: 10,
+};
+
+// Split the queue into /api/sync batches. The server applies each kind of
+// operation in BATCH_ORDER, so a new batch starts wherever the queue goes back to
+// an earlier kind; that keeps operations in the order they were made.
+function toBatches(items: PendingSyncItem[]): PendingSyncItem[][] {
+  const batches: PendingSyncItem[][] = [];
+  let current: PendingSyncItem[] = [];
+
+  for (const item of items) {
+    const previous = current[current.length - 1];
+    if (
+      current.length >= MAX_BATCH_SIZE ||
+      (previous && BATCH_ORDER[item.type] < BATCH_ORDER[previous.type])
+    ) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(item);
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+// Send one batch; returns the result of each operation, in batch order
+async function sendBatch(batch: PendingSyncItem[]): Promise<SyncItemResult[]> {
+  const body: Record<SyncBatchKey, Pick<PendingSyncItem, 'action' | 'data'>[]> = {
+    categories: [],
+    suppliers: [],
+    customers: [],
+    products: [],
+    stock: [],
+    purchaseOrders: [],
+    receipts: [],
+    promotions: [],
+    sales: [],
+    customerPayments: [],
+    cashShifts: [],
+  };
+  batch.forEach((item) => body[BATCH_KEYS[item.type]].push({ action: item.action, data: item.data }));
+
+  const response = await fetch('/api/sync', {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new SyncResponseError(response.status, `${response.status}: ${await response.text()}`);
+  }
+
+  const results: Record<SyncBatchKey, SyncItemResult[]> = await response.json();
+  const next: Record<SyncBatchKey, number> = {
+    categories: 0,
+    suppliers: 0,
+    customers: 0,
+    products: 0,
+    stock: 0,
+    purchaseOrders: 0,
+    receipts: 0,
+    promotions: 0,
+    sales: 0,
+    customerPayments: 0,
+    cashShifts: 0,
+  };
+
+  return batch.map((item) => {
+    const key = BATCH_KEYS[item.type];
+    return results[key]?.[next[key]++] ?? { status: 'error', error: 'No result from server' };
+  });
+}
+
+// Local stores whose records carry a synced flag, by operation type
+const SYNCED_STORES: Partial<Record<PendingSyncItem['type'], Parameters<typeof markAsSynced>[0]>> = {
+  product: 'products',
+  sale: 'sales',
+  supplier: 'suppliers',
+  purchase_order: 'purchaseOrders',
+  receipt: 'purchaseOrders',
+  cash_shift: 'cashShifts',
+  promotion: 'promotions',
+  customer: 'customers',
+  customer_payment: 'customerPayments',
+};
+
+// Apply an acknowledged operation to IndexedDB and drop it from the queue
+async function applySyncResult(
+  item: PendingSyncItem,
+  result: SyncItemResult,
+  productIds: Map<string, string>,
+  versions: Map<string, number>,
+) {
+  if (result.stockWarnings?.length) stockWarningCallback?.(result.stockWarnings);
+
+  if (item.type === 'product' && item.action === 'add') {
+    if (result.serverId && result.serverId !== item.data.id) {
+      productIds.set(item.data.id, result.serverId);
+      await remapProductId(item.data.id, result.serverId);
+    }
+  } else if (item.action !== 'delete') {
+    const storeName = SYNCED_STORES[item.type];
+    const recordId = item.type === 'receipt' ? item.data?.orderId : item.data?.id;
+    if (storeName && recordId) await markAsSynced(storeName, recordId);
+  }
+
+  await markStockMovementsSynced(item);
+
+  if (item.type === 'product' && item.action === 'update' && result.version !== undefined && item.data.version !== undefined) {
+    versions.set(`${item.data.id}:${item.data.version}`, result.version);
+    await advanceProductVersion(item.data.id, item.data.version, result.version);
+  }
+
+  await removePendingSync(item.id);
+}
+
+// Sync pending data to server through /api/sync. Each operation is removed
+// from the queue only once the server has acknowledged it; an operation that
+// failed holds back the batches after it until it succeeds or is dead-lettered.
 export async function syncToServer(): Promise<boolean> {
   if (syncInProgress || !isOnline) return false;
 
   try {
     syncInProgress = true;
-    syncStatusCallback?.('syncing');
 
     const pendingItems = await getPendingSync();
 
     if (pendingItems.length === 0) {
       syncStatusCallback?.('online');
-      syncInProgress = false;
       return true;
     }
 
     // Sort by timestamp to maintain order
     pendingItems.sort((a, b) => a.timestamp - b.timestamp);
 
-    const results = { success: 0, failed: 0 };
+    // Everything up to the first operation that is still backing off
+    const firstWaiting = pendingItems.findIndex((item) => !isDue(item));
+    const dueItems = firstWaiting === -1 ? pendingItems : pendingItems.slice(0, firstWaiting);
 
-    for (const item of pendingItems) {
-      try {
-        let endpoint = '';
-        let method = 'POST';
-        let body = item.data;
-
-        switch (item.type) {
-          case 'product':
-            endpoint = '/api/products';
-            if (item.action === 'update') {
-              endpoint = `/api/products/${item.data.id}`;
-              method = 'PATCH';
-            } else if (item.action === 'delete') {
-              endpoint = `/api/products/${item.data.id}`;
-              method = 'DELETE';
-              body = null;
-            }
-            break;
-          case 'sale':
-            endpoint = '/api/sales';
-            break;
-          case 'category':
-            endpoint = '/api/categories';
-            if (item.action === 'update') {
-              endpoint = `/api/categories/${item.data.id}`;
-              method = 'PATCH';
-            } else if (item.action === 'delete') {
-              endpoint = `/api/categories/${item.data.id}`;
-              method = 'DELETE';
-              body = null;
-            }
-            break;
-        }
+    if (dueItems.length === 0) {
+      syncStatusCallback?.('online');
+      return false;
+    }
 
-        if (endpoint) {
-          const options: RequestInit = {
-            method,
-            headers: getAuthHeaders(),
-          };
-          
-          if (body && method !== 'DELETE') {
-            options.body = JSON.stringify(body);
-          }
+    syncStatusCallback?.('syncing');
 
-          const response = await fetch(endpoint, options);
+    // Server IDs of products created offline, keyed by their local ID
+    const productIds = new Map<string, string>();
+    // New versions of products edited in earlier batches, keyed by "id:version edited"
+    const versions = new Map<string, number>();
+    let completed = dueItems.length === pendingItems.length;
 
-          if (response.ok && item.data?.id && item.type !== 'category') {
-            await markAsSynced(item.type === 'sale' ? 'sales' : 'products', item.data.id);
-            results.success++;
-          } else if (response.ok) {
-            results.success++;
-          } else {
-            console.error(`Sync failed for ${item.type}:`, await response.text());
-            results.failed++;
+    for (let batch of toBatches(dueItems)) {
+      batch = batch.map((item) => {
+        productIds.forEach((serverId, localId) => {
+          item = remapProductInOperation(item, localId, serverId);
+        });
+        if (item.type !== 'product' || item.action === 'delete') return item;
+        const newVersion = versions.get(`${item.data.id}:${item.data.version}`);
+        return newVersion ? { ...item, data: { ...item.data, version: newVersion } } : item;
+      });
+
+      let results: SyncItemResult[];
+      try {
+        results = await sendBatch(batch);
+      } catch (err) {
+        console.error('Failed to sync batch:', err);
+        // A lost connection or an expired session says nothing about the
+        // operations, so they wait for the next sync without using up attempts
+        if (err instanceof SyncResponseError && err.status !== 401) {
+          for (const item of batch) {
+            await handleSyncFailure(item, err);
           }
         }
-      } catch (err) {
-        console.error('Failed to sync item:', item, err);
-        results.failed++;
+        completed = false;
+        break;
+      }
+
+      let retryLater = false;
+      for (let i = 0; i < batch.length; i++) {
+        const item = batch[i];
+        const result = results[i];
+        if (result.status === 'synced' || result.status === 'deleted') {
+          await applySyncResult(item, result, productIds, versions);
+          continue;
+        }
+
+        // Left for the user to resolve; doesn't hold back the rest of the queue
+        if (result.status === 'conflict' && result.current) {
+          await addProductConflict(item, result.current);
+          notifyConflicts();
+          continue;
+        }
+
+        console.error(`Sync ${result.status} for ${item.type}:`, result.error);
+        completed = false;
+        const error = result.status === 'rejected'
+          ? new PermanentSyncError(result.error)
+          : new Error(result.error);
+        if (!(await handleSyncFailure(item, error))) retryLater = true;
       }
+
+      if (retryLater) break;
     }
 
-    // Clear all pending items after processing (even if some failed, to prevent infinite retry loop)
-    await clearPendingSync();
-    
     syncStatusCallback?.(isOnline ? 'online' : 'offline');
-    return results.failed === 0;
+    return completed;
   } catch (error) {
     console.error('Sync failed:', error);
     syncStatusCallback?.(isOnline ? 'online' : 'offline');
@@ -196,7 +546,7 @@ export function initSyncService() {
   setInterval(() => {
     if (isOnline && !syncInProgress) {
       getPendingSync().then((pending) => {
-        if (pending.length > 0) {
+        if (pending.some(isDue)) {
           syncToServer().catch(console.error);
         }
       }).catch(console.error);
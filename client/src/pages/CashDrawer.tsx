@@ -0,0 +1,428 @@
+import { useState } from "react";
+import { ArrowDownLeft, ArrowUpRight, Lock, Printer, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PAYMENT_METHOD_LABELS } from "@/components/CheckoutDialog";
+import type { LocalCashShift, OpenCashShift } from "@/lib/indexedDB";
+import { PAYMENT_METHODS, type CashMovementType } from "@shared/schema";
+
+interface CashDrawerPageProps {
+  openShift: OpenCashShift | null;
+  shifts: LocalCashShift[];
+  userEmail?: string;
+  onOpen: (openingFloat: number) => void;
+  onMovement: (type: CashMovementType, amount: number, note: string) => void;
+  onClose: (countedCash: number) => Promise<LocalCashShift | undefined>;
+}
+
+const MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  pay_in: "Entrada",
+  pay_out: "Salida",
+};
+
+function formatMoney(value: number) {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatDate(date: Date | string) {
+  return format(new Date(date), "d MMM yyyy, HH:mm", { locale: es });
+}
+
+function differenceLabel(difference: number) {
+  if (Math.abs(difference) < 0.005) return "Cuadrada";
+  return difference > 0 ? "Sobrante" : "Faltante";
+}
+
+function printZReport(shift: LocalCashShift, userEmail?: string) {
+  const printContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Reporte Z - ${formatDate(shift.closedAt)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; padding: 20px; max-width: 400px; margin: 0 auto; }
+        h1 { text-align: center; font-size: 18px; margin-bottom: 5px; }
+        .subtitle { text-align: center; color: #666; font-size: 14px; margin-bottom: 20px; }
+        .info { display: flex; justify-content: space-between; margin-bottom: 10px; padding: 5px 0; border-bottom: 1px dashed #ccc; }
+        .label { color: #666; }
+        .value { font-weight: bold; }
+        .total { font-size: 24px; text-align: center; margin: 20px 0; padding: 15px; background: #f5f5f5; border-radius: 8px; }
+        .items { margin-top: 20px; }
+        .item { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+        .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #999; }
+        @media print { body { padding: 10px; } }
+      </style>
+    </head>
+    <body>
+      <h1>REPORTE Z</h1>
+      <div class="subtitle">${formatDate(shift.openedAt)} — ${formatDate(shift.closedAt)}</div>
+
+      <div class="info">
+        <span class="label">Cajero:</span>
+        <span class="value">${userEmail || 'N/A'}</span>
+      </div>
+
+      <div class="total">
+        <div style="color: #666; font-size: 14px;">TOTAL VENDIDO</div>
+        <div style="font-size: 32px; font-weight: bold; color: #10B981;">$${shift.salesTotal.toFixed(2)}</div>
+      </div>
+
+      <div class="info">
+        <span class="label">Transacciones:</span>
+        <span class="value">${shift.salesCount}</span>
+      </div>
+
+      <div class="items">
+        <h3 style="font-size: 14px; margin-bottom: 10px;">Formas de Pago:</h3>
+        ${PAYMENT_METHODS.map(method => `
+          <div class="item">
+            <span>${PAYMENT_METHOD_LABELS[method]}</span>
+            <span>$${(shift.paymentTotals[method] ?? 0).toFixed(2)}</span>
+          </div>
+        `).join('')}
+      </div>
+
+      <div class="items">
+        <h3 style="font-size: 14px; margin-bottom: 10px;">Efectivo en Caja:</h3>
+        <div class="item"><span>Fondo inicial</span><span>$${shift.openingFloat.toFixed(2)}</span></div>
+        <div class="item"><span>Ventas en efectivo</span><span>$${shift.paymentTotals.cash.toFixed(2)}</span></div>
+        <div class="item"><span>Entradas</span><span>$${shift.payIns.toFixed(2)}</span></div>
+        <div class="item"><span>Salidas</span><span>-$${shift.payOuts.toFixed(2)}</span></div>
+        <div class="item"><span>Esperado</span><span>$${shift.expectedCash.toFixed(2)}</span></div>
+        <div class="item"><span>Contado</span><span>$${shift.countedCash.toFixed(2)}</span></div>
+        <div class="item"><strong>${differenceLabel(shift.difference)}</strong><strong>${formatMoney(shift.difference)}</strong></div>
+      </div>
+
+      ${shift.movements.length > 0 ? `
+        <div class="items">
+          <h3 style="font-size: 14px; margin-bottom: 10px;">Movimientos:</h3>
+          ${shift.movements.map(movement => `
+            <div class="item">
+              <span>${MOVEMENT_LABELS[movement.type]}${movement.note ? ` · ${movement.note}` : ''}</span>
+              <span>${movement.type === 'pay_out' ? '-' : ''}$${movement.amount.toFixed(2)}</span>
+            </div>
+          `).join('')}
+        </div>
+      ` : ''}
+
+      <div class="footer">
+        Generado el ${format(new Date(), "d/MM/yyyy 'a las' HH:mm", { locale: es })}
+        <br/>Caiman-POS
+      </div>
+    </body>
+    </html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(printContent);
+    printWindow.document.close();
+    printWindow.print();
+  }
+}
+
+function ZReport({ shift, userEmail }: { shift: LocalCashShift; userEmail?: string }) {
+  const row = (label: string, value: number, testId?: string) => (
+    <div className="flex justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="tabular-nums" data-testid={testId}>{formatMoney(value)}</span>
+    </div>
+  );
+
+  return (
+    <Card className="p-4 space-y-4" data-testid={`z-report-${shift.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold">Reporte Z</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDate(shift.openedAt)} — {formatDate(shift.closedAt)}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => printZReport(shift, userEmail)} data-testid="print-z-report">
+          <Printer className="mr-1 h-4 w-4" />
+          Imprimir
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Ventas</span>
+          <span className="tabular-nums">{shift.salesCount}</span>
+        </div>
+        {row("Total vendido", shift.salesTotal)}
+        {PAYMENT_METHODS.map((method) => (
+          <div key={method}>{row(PAYMENT_METHOD_LABELS[method], shift.paymentTotals[method] ?? 0)}</div>
+        ))}
+      </div>
+
+      <div className="space-y-1 border-t border-border pt-3">
+        {row("Fondo inicial", shift.openingFloat)}
+        {row("Ventas en efectivo", shift.paymentTotals.cash)}
+        {row("Entradas", shift.payIns)}
+        {row("Salidas", -shift.payOuts)}
+        {row("Esperado", shift.expectedCash, "z-expected")}
+        {row("Contado", shift.countedCash, "z-counted")}
+        <div className="flex justify-between pt-1 font-semibold">
+          <span>{differenceLabel(shift.difference)}</span>
+          <span
+            className={`tabular-nums ${shift.difference < -0.005 ? "text-destructive" : shift.difference > 0.005 ? "text-emerald-600" : ""}`}
+            data-testid="z-difference"
+          >
+            {formatMoney(shift.difference)}
+          </span>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+// The cash drawer shift on this device: open it with a float, record cash
+// paid in or out, and close it counting the drawer without seeing what the
+// system expects. Closing produces the shift's Z-report.
+export function CashDrawerPage({ openShift, shifts, userEmail, onOpen, onMovement, onClose }: CashDrawerPageProps) {
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movementType, setMovementType] = useState<CashMovementType>("pay_in");
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementNote, setMovementNote] = useState("");
+  const [closing, setClosing] = useState(false);
+  const [countedCash, setCountedCash] = useState("");
+  const [lastReport, setLastReport] = useState<LocalCashShift | null>(null);
+
+  const history = [...shifts].sort((a, b) => new Date(b.closedAt).getTime() - new Date(a.closedAt).getTime());
+  const floatValue = Number(openingFloat);
+  const amountValue = Number(movementAmount);
+  const countedValue = Number(countedCash);
+
+  const handleMovement = () => {
+    if (!(amountValue > 0)) return;
+    onMovement(movementType, amountValue, movementNote.trim());
+    setMovementAmount("");
+    setMovementNote("");
+  };
+
+  const handleClose = async () => {
+    if (countedCash === "" || countedValue < 0) return;
+    const report = await onClose(countedValue);
+    if (!report) return;
+    setLastReport(report);
+    setClosing(false);
+    setCountedCash("");
+  };
+
+  const header = (
+    <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
+      <h1 className="text-2xl font-bold text-foreground">Caja</h1>
+      {openShift && (
+        <p className="text-sm text-muted-foreground" data-testid="shift-opened-at">
+          Abierta desde {formatDate(openShift.openedAt)}
+        </p>
+      )}
+    </div>
+  );
+
+  if (openShift && closing) {
+    return (
+      <div className="flex flex-col h-full">
+        {header}
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-4">
+          <Card className="p-4 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Cuenta el efectivo del cajón, incluido el fondo inicial. El sistema no muestra lo
+              esperado hasta que cierres.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="counted-cash">Efectivo contado</Label>
+              <Input
+                id="counted-cash"
+                type="number"
+                step="0.01"
+                min="0"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+                className="h-12 text-lg tabular-nums"
+                autoFocus
+                data-testid="input-counted-cash"
+              />
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1 h-12" onClick={() => setClosing(false)} data-testid="cancel-close-shift">
+                Volver
+              </Button>
+              <Button
+                className="flex-1 h-12"
+                disabled={countedCash === "" || countedValue < 0}
+                onClick={handleClose}
+                data-testid="confirm-close-shift"
+              >
+                <Lock className="mr-1 h-4 w-4" />
+                Cerrar caja
+              </Button>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (openShift) {
+    return (
+      <div className="flex flex-col h-full">
+        {header}
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-4">
+          <Card className="p-4 flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Fondo inicial</span>
+            <span className="font-semibold tabular-nums" data-testid="shift-opening-float">
+              {formatMoney(openShift.openingFloat)}
+            </span>
+          </Card>
+
+          <Card className="p-4 space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {(["pay_in", "pay_out"] as const).map((type) => (
+                <Button
+                  key={type}
+                  type="button"
+                  variant={movementType === type ? "default" : "outline"}
+                  onClick={() => setMovementType(type)}
+                  data-testid={`movement-type-${type}`}
+                >
+                  {type === "pay_in" ? <ArrowDownLeft className="mr-1 h-4 w-4" /> : <ArrowUpRight className="mr-1 h-4 w-4" />}
+                  {MOVEMENT_LABELS[type]}
+                </Button>
+              ))}
+            </div>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="Monto"
+              value={movementAmount}
+              onChange={(e) => setMovementAmount(e.target.value)}
+              className="h-11 tabular-nums"
+              data-testid="input-movement-amount"
+            />
+            <Input
+              placeholder="Motivo (opcional)"
+              value={movementNote}
+              onChange={(e) => setMovementNote(e.target.value)}
+              className="h-11"
+              data-testid="input-movement-note"
+            />
+            <Button className="w-full h-11" disabled={!(amountValue > 0)} onClick={handleMovement} data-testid="add-movement">
+              Registrar {MOVEMENT_LABELS[movementType].toLowerCase()}
+            </Button>
+          </Card>
+
+          {openShift.movements.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-medium text-muted-foreground">Movimientos</h2>
+              {openShift.movements.map((movement) => (
+                <div
+                  key={movement.id}
+                  className="flex items-center justify-between gap-3 rounded-md border border-border p-3 text-sm"
+                  data-testid={`movement-${movement.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">{MOVEMENT_LABELS[movement.type]}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {format(new Date(movement.createdAt), "HH:mm", { locale: es })}
+                      {movement.note && ` · ${movement.note}`}
+                    </p>
+                  </div>
+                  <span className={`font-semibold tabular-nums ${movement.type === "pay_out" ? "text-destructive" : ""}`}>
+                    {formatMoney(movement.type === "pay_out" ? -movement.amount : movement.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button variant="outline" className="w-full h-12" onClick={() => setClosing(true)} data-testid="close-shift">
+            <Lock className="mr-1 h-4 w-4" />
+            Cerrar caja
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {header}
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-6">
+        {lastReport && <ZReport shift={lastReport} userEmail={userEmail} />}
+
+        <Card className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Las ventas hechas con la caja abierta se suman a su cierre. Funciona sin conexión;
+            el reporte se sincroniza al reconectar.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="opening-float">Fondo inicial</Label>
+            <Input
+              id="opening-float"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              className="h-12 tabular-nums"
+              data-testid="input-opening-float"
+            />
+          </div>
+          <Button
+            className="w-full h-12"
+            disabled={floatValue < 0}
+            onClick={() => {
+              onOpen(floatValue || 0);
+              setOpeningFloat("");
+              setLastReport(null);
+            }}
+            data-testid="open-shift"
+          >
+            <Wallet className="mr-1 h-4 w-4" />
+            Abrir caja
+          </Button>
+        </Card>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-medium text-muted-foreground">Cierres anteriores</h2>
+            {history.map((shift) => (
+              <Card
+                key={shift.id}
+                className="p-3 cursor-pointer"
+                onClick={() => setLastReport(shift)}
+                data-testid={`shift-${shift.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{formatDate(shift.closedAt)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {shift.salesCount} venta(s) · {formatMoney(shift.salesTotal)}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <Badge variant={Math.abs(shift.difference) < 0.005 ? "secondary" : "destructive"}>
+                      {differenceLabel(shift.difference)}
+                    </Badge>
+                    <p className="mt-1 text-sm font-semibold tabular-nums">{formatMoney(shift.difference)}</p>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Edit2, HandCoins, Plus, Printer, Search, Trash2, Users } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { CustomerDialog, type CustomerFormData } from "@/components/CustomerDialog";
+import { CustomerPaymentDialog } from "@/components/CustomerPaymentDialog";
+import { PAYMENT_METHOD_LABELS } from "@/components/CheckoutDialog";
+import type { LocalCustomerPayment } from "@/lib/indexedDB";
+import {
+  customerStatement,
+  type AccountAging,
+  type Customer,
+  type CustomerStatement,
+  type InsertCustomerPayment,
+  type Sale,
+  type StatementEntry,
+} from "@shared/schema";
+
+interface CustomersPageProps {
+  customers: Customer[];
+  sales: Sale[];
+  payments: LocalCustomerPayment[];
+  storeName?: string;
+  cashShiftOpen: boolean;
+  onAdd: (data: CustomerFormData) => void;
+  onUpdate: (customer: Customer, data: CustomerFormData) => void;
+  onDelete: (customer: Customer) => void;
+  onPayment: (customer: Customer, payment: InsertCustomerPayment) => void;
+}
+
+const ENTRY_LABELS: Record<StatementEntry["kind"], string> = {
+  sale: "Venta",
+  void: "Anulación",
+  return: "Devolución",
+  payment: "Abono",
+};
+
+const AGING_LABELS: Record<keyof AccountAging, string> = {
+  upTo30: "0–30 días",
+  upTo60: "31–60 días",
+  upTo90: "61–90 días",
+  over90: "Más de 90",
+};
+
+const AGING_BUCKETS = Object.keys(AGING_LABELS) as (keyof AccountAging)[];
+
+function formatMoney(value: number) {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatDate(date: Date | string) {
+  return format(new Date(date), "d MMM yyyy, HH:mm", { locale: es });
+}
+
+function balanceLabel(balance: number) {
+  if (Math.abs(balance) < 0.005) return "Al corriente";
+  return balance > 0 ? "Debe" : "A favor";
+}
+
+function describeEntry(entry: StatementEntry, payments: LocalCustomerPayment[]) {
+  const payment = entry.kind === "payment" ? payments.find((p) => p.id === entry.id) : undefined;
+  if (!payment) return ENTRY_LABELS[entry.kind];
+  return `${ENTRY_LABELS.payment} · ${PAYMENT_METHOD_LABELS[payment.method]}${payment.note ? ` · ${payment.note}` : ""}`;
+}
+
+function printStatement(
+  customer: Customer,
+  statement: CustomerStatement,
+  payments: LocalCustomerPayment[],
+  storeName?: string,
+) {
+  const printContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Estado de cuenta - ${customer.name}</title>
+      <style>
+        body { font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; }
+        h1 { text-align: center; font-size: 18px; margin-bottom: 5px; }
+        .subtitle { text-align: center; color: #666; font-size: 14px; margin-bottom: 20px; }
+        .info { display: flex; justify-content: space-between; margin-bottom: 10px; padding: 5px 0; border-bottom: 1px dashed #ccc; }
+        .label { color: #666; }
+        .value { font-weight: bold; }
+        .total { font-size: 24px; text-align: center; margin: 20px 0; padding: 15px; background: #f5f5f5; border-radius: 8px; }
+        table { width: 100%; border-collapse: collapse; margin-top: 20px; font-size: 13px; }
+        th { text-align: left; color: #666; border-bottom: 2px solid #ddd; padding: 6px 4px; }
+        td { padding: 6px 4px; border-bottom: 1px solid #eee; }
+        .amount { text-align: right; white-space: nowrap; }
+        .items { margin-top: 20px; }
+        .item { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+        .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #999; }
+        @media print { body { padding: 10px; } }
+      </style>
+    </head>
+    <body>
+      <h1>ESTADO DE CUENTA</h1>
+      <div class="subtitle">${storeName || 'Caiman-POS'}</div>
+
+      <div class="info">
+        <span class="label">Cliente:</span>
+        <span class="value">${customer.name}</span>
+      </div>
+      ${customer.phone ? `
+        <div class="info">
+          <span class="label">Teléfono:</span>
+          <span class="value">${customer.phone}</span>
+        </div>
+      ` : ''}
+      ${customer.creditLimit != null ? `
+        <div class="info">
+          <span class="label">Límite de crédito:</span>
+          <span class="value">$${customer.creditLimit.toFixed(2)}</span>
+        </div>
+      ` : ''}
+
+      <div class="total">
+        <div style="color: #666; font-size: 14px;">${balanceLabel(statement.balance).toUpperCase()}</div>
+        <div style="font-size: 32px; font-weight: bold;">$${Math.abs(statement.balance).toFixed(2)}</div>
+      </div>
+
+      <div class="items">
+        <h3 style="font-size: 14px; margin-bottom: 10px;">Antigüedad del saldo:</h3>
+        ${AGING_BUCKETS.map(bucket => `
+          <div class="item">
+            <span>${AGING_LABELS[bucket]}</span>
+            <span>$${statement.aging[bucket].toFixed(2)}</span>
+          </div>
+        `).join('')}
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Fecha</th>
+            <th>Concepto</th>
+            <th class="amount">Cargo</th>
+            <th class="amount">Abono</th>
+            <th class="amount">Saldo</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${statement.entries.map(entry => `
+            <tr>
+              <td>${format(entry.createdAt, "d/MM/yyyy", { locale: es })}</td>
+              <td>${describeEntry(entry, payments)}</td>
+              <td class="amount">${entry.amount > 0 ? `$${entry.amount.toFixed(2)}` : ''}</td>
+              <td class="amount">${entry.amount < 0 ? `$${(-entry.amount).toFixed(2)}` : ''}</td>
+              <td class="amount">${formatMoney(entry.balance)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      <div class="footer">
+        Generado el ${format(new Date(), "d/MM/yyyy 'a las' HH:mm", { locale: es })}
+        <br/>Caiman-POS
+      </div>
+    </body>
+    </html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(printContent);
+    printWindow.document.close();
+    printWindow.print();
+  }
+}
+
+interface CustomerAccountProps {
+  customer: Customer;
+  statement: CustomerStatement;
+  payments: LocalCustomerPayment[];
+  storeName?: string;
+  onPay: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function CustomerAccount({ customer, statement, payments, storeName, onPay, onEdit, onDelete }: CustomerAccountProps) {
+  const { balance, aging, entries } = statement;
+  const settled = Math.abs(balance) < 0.005;
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 space-y-4" data-testid={`customer-account-${customer.id}`}>
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h2 className="truncate text-lg font-semibold text-foreground">{customer.name}</h2>
+            {customer.phone && <p className="text-sm text-muted-foreground">{customer.phone}</p>}
+            {customer.notes && <p className="text-xs text-muted-foreground">{customer.notes}</p>}
+          </div>
+          <div className="flex flex-shrink-0 items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onEdit} data-testid="edit-customer">
+              <Edit2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-destructive hover:text-destructive"
+              disabled={!settled}
+              title={settled ? "Eliminar cliente" : "Solo se puede eliminar con la cuenta en cero"}
+              onClick={onDelete}
+              data-testid="delete-customer"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground">{balanceLabel(balance)}</p>
+          <p
+            className={`text-3xl font-bold tabular-nums ${balance > 0.005 ? "text-destructive" : ""}`}
+            data-testid="customer-balance"
+          >
+            ${Math.abs(balance).toFixed(2)}
+          </p>
+          {customer.creditLimit != null && (
+            <p className="text-xs text-muted-foreground tabular-nums">
+              Límite ${customer.creditLimit.toFixed(2)}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-2 text-center">
+          {AGING_BUCKETS.map((bucket) => (
+            <div key={bucket} className="rounded-md bg-muted p-2" data-testid={`aging-${bucket}`}>
+              <p className="text-xs text-muted-foreground">{AGING_LABELS[bucket]}</p>
+              <p className="text-sm font-semibold tabular-nums">${aging[bucket].toFixed(2)}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button className="flex-1 h-12" onClick={onPay} data-testid="add-customer-payment">
+            <HandCoins className="mr-2 h-4 w-4" />
+            Registrar abono
+          </Button>
+          <Button
+            variant="outline"
+            className="h-12"
+            onClick={() => printStatement(customer, statement, payments, storeName)}
+            data-testid="print-statement"
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            Estado de cuenta
+          </Button>
+        </div>
+      </Card>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium text-muted-foreground">Movimientos</h3>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin ventas fiadas ni abonos</p>
+        ) : (
+          [...entries].reverse().map((entry) => (
+            <Card key={entry.id} className="flex items-center justify-between gap-2 p-3" data-testid={`entry-${entry.id}`}>
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{describeEntry(entry, payments)}</p>
+                <p className="text-xs text-muted-foreground">{formatDate(entry.createdAt)}</p>
+              </div>
+              <div className="text-right tabular-nums">
+                <p className={`text-sm font-semibold ${entry.amount < 0 ? "text-emerald-600" : ""}`}>
+                  {entry.amount < 0 ? "-" : "+"}${Math.abs(entry.amount).toFixed(2)}
+                </p>
+                <p className="text-xs text-muted-foreground">Saldo {formatMoney(entry.balance)}</p>
+              </div>
+            </Card>
+          ))
+        )}
+      </section>
+    </div>
+  );
+}
+
+// Customers and what they owe on credit (fiado). Sales go on an account from
+// the checkout; payments toward it are recorded here.
+export function CustomersPage({
+  customers,
+  sales,
+  payments,
+  storeName,
+  cashShiftOpen,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onPayment,
+}: CustomersPageProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editCustomer, setEditCustomer] = useState<Customer | null>(null);
+  const [payingCustomer, setPayingCustomer] = useState<Customer | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  const statements = new Map(
+    customers.map((c) => [c.id, customerStatement(c.id, sales, payments)] as [string, CustomerStatement])
+  );
+  const statementOf = (customer: Customer) => statements.get(customer.id)!;
+  const selected = customers.find((c) => c.id === selectedId) ?? null;
+
+  const query = search.trim().toLowerCase();
+  const sorted = customers
+    .filter((c) => !query || c.name.toLowerCase().includes(query) || (c.phone ?? "").includes(query))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const owed = customers.reduce((sum, c) => sum + Math.max(0, statementOf(c).balance), 0);
+
+  const handleSave = (data: CustomerFormData) => {
+    if (editCustomer) {
+      onUpdate(editCustomer, data);
+    } else {
+      onAdd(data);
+    }
+    setEditCustomer(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            {selected ? (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Volver a los clientes"
+                onClick={() => setSelectedId(null)}
+                data-testid="back-to-customers"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Link href="/pos">
+                <Button variant="ghost" size="icon" title="Volver al punto de venta" data-testid="back-to-pos">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+              </Link>
+            )}
+            <h1 className="text-2xl font-bold text-foreground">{selected ? "Cuenta" : "Clientes"}</h1>
+          </div>
+          {!selected && (
+            <Button
+              onClick={() => {
+                setEditCustomer(null);
+                setDialogOpen(true);
+              }}
+              className="h-10"
+              data-testid="add-customer-button"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Nuevo
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 pb-24">
+        {selected ? (
+          <CustomerAccount
+            customer={selected}
+            statement={statementOf(selected)}
+            payments={payments}
+            storeName={storeName}
+            onPay={() => setPayingCustomer(selected)}
+            onEdit={() => {
+              setEditCustomer(selected);
+              setDialogOpen(true);
+            }}
+            onDelete={() => {
+              onDelete(selected);
+              setSelectedId(null);
+            }}
+          />
+        ) : customers.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="rounded-full bg-muted p-4 mb-4">
+              <Users className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-1">No hay clientes</h3>
+            <p className="text-sm text-muted-foreground max-w-[220px]">
+              Agrega a tus clientes de confianza para venderles fiado
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Card className="flex items-center justify-between p-4">
+              <span className="text-sm text-muted-foreground">Por cobrar</span>
+              <span className="text-xl font-bold tabular-nums" data-testid="customers-owed">
+                ${owed.toFixed(2)}
+              </span>
+            </Card>
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por nombre o teléfono"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="h-10 pl-9"
+                data-testid="input-search-customers"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {sorted.map((customer) => {
+                const { balance } = statementOf(customer);
+                const overLimit = customer.creditLimit != null && balance > customer.creditLimit + 0.005;
+                return (
+                  <Card
+                    key={customer.id}
+                    className="cursor-pointer p-4 hover-elevate"
+                    onClick={() => setSelectedId(customer.id)}
+                    data-testid={`customer-${customer.id}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h3 className="truncate font-semibold text-foreground">{customer.name}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {customer.phone || "Sin teléfono"}
+                          {customer.synced === 0 && (
+                            <span className="ml-2 text-amber-600 dark:text-amber-500">Pendiente</span>
+                          )}
+                        </p>
+                      </div>
+                      <div className="flex flex-shrink-0 flex-col items-end gap-1">
+                        <span className={`font-semibold tabular-nums ${balance > 0.005 ? "text-destructive" : ""}`}>
+                          {formatMoney(balance)}
+                        </span>
+                        {overLimit && <Badge variant="destructive">Sobre el límite</Badge>}
+                      </div>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <CustomerDialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) setEditCustomer(null);
+        }}
+        onSave={handleSave}
+        editCustomer={editCustomer}
+      />
+
+      <CustomerPaymentDialog
+        customer={payingCustomer}
+        balance={(payingCustomer && statements.get(payingCustomer.id)?.balance) || 0}
+        cashShiftOpen={cashShiftOpen}
+        onOpenChange={(open) => {
+          if (!open) setPayingCustomer(null);
+        }}
+        onSave={(payment) => payingCustomer && onPayment(payingCustomer, payment)}
+      />
+    </div>
+  );
+}
@@ -1,17 +1,20 @@
 import { useState } from "react";
-import { Plus, Search, Filter } from "lucide-react";
+import { Link } from "wouter";
+import { Plus, Search, Filter, ClipboardList, Percent } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { ProductCard } from "@/components/ProductCard";
-import { AddProductDialog } from "@/components/AddProductDialog";
+import { AddProductDialog, type ProductFormData } from "@/components/AddProductDialog";
+import { StockHistoryDialog } from "@/components/StockHistoryDialog";
+import type { StockChange } from "@/lib/indexedDB";
 import type { Product, Category, InsertProduct } from "@shared/schema";
 
 interface InventoryPageProps {
   products: Product[];
   categories: Category[];
   onAddProduct: (product: InsertProduct) => void;
-  onUpdateProduct: (product: Product) => void;
+  onUpdateProduct: (product: Product, stockChange?: StockChange) => void;
   onDeleteProduct: (product: Product) => void;
 }
 
@@ -24,6 +27,7 @@ export function InventoryPage({
 }: InventoryPageProps) {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editProduct, setEditProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
 
@@ -36,14 +40,22 @@ export function InventoryPage({
     return matchesSearch && matchesCategory;
   });
 
+  // Variants listed right after their parent
+  const listedProducts = filteredProducts
+    .filter((p) => !p.parentId || !filteredProducts.some((f) => f.id === p.parentId))
+    .flatMap((p) => [p, ...filteredProducts.filter((v) => v.parentId === p.id)]);
+
   const handleEdit = (product: Product) => {
     setEditProduct(product);
     setDialogOpen(true);
   };
 
-  const handleSave = (data: InsertProduct) => {
+  const handleSave = ({ stockReason, stockNote, ...data }: ProductFormData) => {
     if (editProduct) {
-      onUpdateProduct({ ...editProduct, ...data });
+      onUpdateProduct(
+        { ...editProduct, ...data },
+        stockReason ? { reason: stockReason, note: stockNote } : undefined,
+      );
     } else {
       onAddProduct(data);
     }
@@ -68,14 +80,38 @@ export function InventoryPage({
       <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
         <div className="flex items-center justify-between gap-3 mb-4">
           <h1 className="text-2xl font-bold text-foreground">Inventario</h1>
-          <Button
-            onClick={() => setDialogOpen(true)}
-            className="h-10"
-            data-testid="add-product-button"
-          >
-            <Plus className="mr-1 h-4 w-4" />
-            Agregar
-          </Button>
+          <div className="flex items-center gap-2">
+            <Link href="/taxes">
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-10 w-10"
+                title="Impuestos"
+                data-testid="taxes-button"
+              >
+                <Percent className="h-4 w-4" />
+              </Button>
+            </Link>
+            <Link href="/stocktake">
+              <Button
+                variant="outline"
+                className="h-10"
+                title="Inventario físico"
+                data-testid="stocktake-button"
+              >
+                <ClipboardList className="mr-1 h-4 w-4" />
+                Contar
+              </Button>
+            </Link>
+            <Button
+              onClick={() => setDialogOpen(true)}
+              className="h-10"
+              data-testid="add-product-button"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Agregar
+            </Button>
+          </div>
         </div>
 
         {/* Search */}
@@ -137,13 +173,16 @@ export function InventoryPage({
           </div>
         ) : (
           <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-            {filteredProducts.map((product) => (
+            {listedProducts.map((product) => (
               <ProductCard
                 key={product.id}
                 product={product}
                 category={getCategoryById(product.categoryId)}
+                variants={products.filter((p) => p.parentId === product.id)}
+                parent={products.find((p) => p.id === product.parentId)}
                 onEdit={handleEdit}
                 onDelete={onDeleteProduct}
+                onShowHistory={setHistoryProduct}
               />
             ))}
           </div>
@@ -154,9 +193,15 @@ export function InventoryPage({
         open={dialogOpen}
         onOpenChange={handleDialogClose}
         categories={categories}
+        products={products}
         onSave={handleSave}
         editProduct={editProduct}
       />
+
+      <StockHistoryDialog
+        product={historyProduct}
+        onOpenChange={(open) => !open && setHistoryProduct(null)}
+      />
     </div>
   );
 }
@@ -1,42 +1,83 @@
 import { useState } from "react";
-import { ShoppingCart, Trash2, Search, CheckCircle } from "lucide-react";
+import { ShoppingCart, Trash2, Search, CheckCircle, ScanLine, Percent, Tag, Users } from "lucide-react";
+import { Link } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { ToastAction } from "@/components/ui/toast";
 import { ProductCard } from "@/components/ProductCard";
+import { AddProductDialog, type ProductFormData } from "@/components/AddProductDialog";
+import { BarcodeScannerDialog } from "@/components/BarcodeScannerDialog";
+import { VariantPickerDialog } from "@/components/VariantPickerDialog";
+import { CheckoutDialog } from "@/components/CheckoutDialog";
+import { DiscountDialog } from "@/components/DiscountDialog";
 import { useToast } from "@/hooks/use-toast";
-import type { Product, Category, CartItem, InsertSale } from "@shared/schema";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { findProductByCode } from "@/lib/indexedDB";
+import {
+  paymentChange,
+  priceCart,
+  type Product,
+  type Category,
+  type Customer,
+  type CartItem,
+  type Discount,
+  type InsertSale,
+  type InsertSalePayment,
+  type InsertProduct,
+  type Promotion,
+  type TaxSettings,
+} from "@shared/schema";
 
 interface POSPageProps {
   products: Product[];
   categories: Category[];
+  promotions: Promotion[];
+  taxSettings: TaxSettings;
+  customers: Customer[];
+  customerBalances: Map<string, number>;
   onSale: (sale: InsertSale) => void;
+  onAddProduct: (product: InsertProduct) => Promise<Product | undefined>;
 }
 
-export function POSPage({ products, categories, onSale }: POSPageProps) {
+export function POSPage({ products, categories, promotions, taxSettings, customers, customerBalances, onSale, onAddProduct }: POSPageProps) {
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [cartDiscount, setCartDiscount] = useState<Discount | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null); // Creating a product for it
+  const [pickingFrom, setPickingFrom] = useState<Product | null>(null); // Parent whose variant is being chosen
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [discounting, setDiscounting] = useState(false);
   const { toast } = useToast();
 
-  const availableProducts = products.filter((p) => p.quantity > 0);
+  const variantsOf = (parentId: string) => products.filter((p) => p.parentId === parentId);
+
+  // Variants are sold through their parent; one whose parent is gone stands alone
+  const availableProducts = products.filter((p) => {
+    if (p.parentId && products.some((parent) => parent.id === p.parentId)) return false;
+    const variants = variantsOf(p.id);
+    return variants.length > 0 ? variants.some((v) => v.quantity > 0) : p.quantity > 0;
+  });
 
   const filteredProducts = availableProducts.filter((product) => {
-    const matchesSearch = product.name
-      .toLowerCase()
-      .includes(searchQuery.toLowerCase());
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = [product, ...variantsOf(product.id)].some((p) =>
+      p.name.toLowerCase().includes(query)
+    );
     const matchesCategory =
       !selectedCategory || product.categoryId === selectedCategory;
     return matchesSearch && matchesCategory;
   });
 
-  const cartTotal = cart.reduce(
-    (sum, item) => sum + item.product.price * item.quantity,
-    0
-  );
+  // Promotions in force today, then the cashier's discounts, then tax
+  const today = new Date().toISOString().split("T")[0];
+  const pricedCart = priceCart(cart, promotions, cartDiscount, today, categories, taxSettings);
+  const cartTotal = pricedCart.total;
 
   const cartItemsCount = cart.reduce((sum, item) => sum + item.quantity, 0);
 
@@ -45,21 +86,63 @@ export function POSPage({ products, categories, onSale }: POSPageProps) {
     return item?.quantity || 0;
   };
 
+  // Functional updates, so scans in quick succession all count
   const addToCart = (product: Product) => {
-    const existingItem = cart.find((i) => i.product.id === product.id);
-    if (existingItem) {
-      if (existingItem.quantity < product.quantity) {
-        setCart(
-          cart.map((item) =>
-            item.product.id === product.id
-              ? { ...item, quantity: item.quantity + 1 }
-              : item
-          )
-        );
-      }
+    setCart((prev) => {
+      const existingItem = prev.find((i) => i.product.id === product.id);
+      if (!existingItem) return [...prev, { product, quantity: 1 }];
+      if (existingItem.quantity >= product.quantity) return prev;
+      return prev.map((item) =>
+        item.product.id === product.id
+          ? { ...item, quantity: item.quantity + 1 }
+          : item
+      );
+    });
+  };
+
+  // A parent with variants asks which one
+  const selectProduct = (product: Product) => {
+    if (variantsOf(product.id).length > 0) {
+      setPickingFrom(product);
     } else {
-      setCart([...cart, { product, quantity: 1 }]);
+      addToCart(product);
+    }
+  };
+
+  // A scanned or typed code: add its product, or offer to create one. Typed
+  // text that isn't a code adds the product when only one name matches.
+  const handleCode = async (code: string) => {
+    const found = await findProductByCode(code);
+    const product = found
+      ? products.find((p) => p.id === found.id) ?? found
+      : filteredProducts.length === 1 && searchQuery.trim() === code.trim()
+        ? filteredProducts[0]
+        : undefined;
+
+    if (!product) {
+      toast({
+        title: "Código no encontrado",
+        description: code,
+        action: (
+          <ToastAction altText="Crear producto" onClick={() => setUnknownCode(code.trim())}>
+            Crear producto
+          </ToastAction>
+        ),
+      });
+      return;
+    }
+    if (product.quantity <= 0 && variantsOf(product.id).length === 0) {
+      toast({ title: "Sin stock", description: product.name, variant: "destructive" });
+      return;
     }
+    selectProduct(product);
+  };
+
+  useBarcodeScanner(handleCode, !cameraOpen && unknownCode === null && pickingFrom === null && !checkingOut && !discounting);
+
+  const handleCreateProduct = async ({ stockReason, stockNote, ...data }: ProductFormData) => {
+    const created = await onAddProduct(data);
+    if (created && created.quantity > 0) addToCart(created);
   };
 
   const updateCartQuantity = (product: Product, quantity: number) => {
@@ -74,27 +157,39 @@ export function POSPage({ products, categories, onSale }: POSPageProps) {
     }
   };
 
+  const setLineDiscount = (productId: string, discount: Discount | null) => {
+    setCart((prev) => prev.map((item) => (item.product.id === productId ? { ...item, discount } : item)));
+  };
+
   const clearCart = () => {
     setCart([]);
+    setCartDiscount(null);
   };
 
-  const handleCompleteSale = () => {
+  const handleCompleteSale = (payments: InsertSalePayment[], customerId: string | null) => {
     if (cart.length === 0) return;
 
-    const today = new Date().toISOString().split("T")[0];
-
-    cart.forEach((item) => {
-      const sale: InsertSale = {
+    const sale: InsertSale = {
+      date: today,
+      localId: null,
+      discount: pricedCart.cartDiscount,
+      pricesIncludeTax: taxSettings.pricesIncludeTax,
+      customerId,
+      lines: pricedCart.lines.map(({ item, promotion, discount, taxRate, tax, total }) => ({
         productId: item.product.id,
         productName: item.product.name,
         quantity: item.quantity,
         unitPrice: item.product.price,
-        total: item.product.price * item.quantity,
-        date: today,
-        localId: null,
-      };
-      onSale(sale);
-    });
+        unitCost: item.product.cost,
+        discount,
+        promotionId: promotion?.id ?? null,
+        taxRate,
+        tax,
+        total,
+      })),
+      payments,
+    };
+    onSale(sale);
 
     setShowSuccess(true);
     setTimeout(() => {
@@ -102,9 +197,11 @@ export function POSPage({ products, categories, onSale }: POSPageProps) {
       clearCart();
     }, 1500);
 
+    const change = paymentChange(payments);
+    const customer = customers.find((c) => c.id === customerId);
     toast({
       title: "Venta registrada",
-      description: `Total: $${cartTotal.toFixed(2)}`,
+      description: `Total: $${cartTotal.toFixed(2)}${change > 0 ? ` · Cambio: $${change.toFixed(2)}` : ""}${customer ? ` · Fiado a ${customer.name}` : ""}`,
     });
   };
 
@@ -148,30 +245,61 @@ export function POSPage({ products, categories, onSale }: POSPageProps) {
       <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
         <div className="flex items-center justify-between gap-3 mb-4">
           <h1 className="text-2xl font-bold text-foreground">Punto de Venta</h1>
-          {cart.length > 0 && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={clearCart}
-              className="text-destructive"
-              data-testid="clear-cart"
-            >
-              <Trash2 className="mr-1 h-4 w-4" />
-              Vaciar
-            </Button>
-          )}
+          <div className="flex items-center gap-1">
+            <Link href="/customers">
+              <Button variant="ghost" size="sm" data-testid="link-customers">
+                <Users className="mr-1 h-4 w-4" />
+                Clientes
+              </Button>
+            </Link>
+            <Link href="/promotions">
+              <Button variant="ghost" size="sm" data-testid="link-promotions">
+                <Tag className="mr-1 h-4 w-4" />
+                Promociones
+              </Button>
+            </Link>
+            {cart.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearCart}
+                className="text-destructive"
+                data-testid="clear-cart"
+              >
+                <Trash2 className="mr-1 h-4 w-4" />
+                Vaciar
+              </Button>
+            )}
+          </div>
         </div>
 
-        {/* Search */}
-        <div className="relative mb-3">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Buscar productos..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="h-11 pl-10"
-            data-testid="search-pos"
-          />
+        {/* Search; a scanner typing into it ends with Enter */}
+        <div className="flex gap-2 mb-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar o escanear..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key !== "Enter" || !searchQuery.trim()) return;
+                handleCode(searchQuery);
+                setSearchQuery("");
+              }}
+              className="h-11 pl-10"
+              data-testid="search-pos"
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-11 w-11"
+            onClick={() => setCameraOpen(true)}
+            title="Escanear con la cámara"
+            data-testid="scan-camera"
+          >
+            <ScanLine className="h-5 w-5" />
+          </Button>
         </div>
 
         {/* Category filters */}
@@ -224,7 +352,8 @@ export function POSPage({ products, categories, onSale }: POSPageProps) {
                 key={product.id}
                 product={product}
                 category={getCategoryById(product.categoryId)}
-                onAddToCart={addToCart}
+                variants={variantsOf(product.id)}
+                onAddToCart={selectProduct}
                 showQuantityControls
                 cartQuantity={getCartQuantity(product.id)}
                 onUpdateCartQuantity={updateCartQuantity}
@@ -234,6 +363,48 @@ export function POSPage({ products, categories, onSale }: POSPageProps) {
         )}
       </div>
 
+      <BarcodeScannerDialog
+        open={cameraOpen}
+        onOpenChange={setCameraOpen}
+        onDetected={handleCode}
+      />
+
+      <VariantPickerDialog
+        parent={pickingFrom}
+        variants={pickingFrom ? variantsOf(pickingFrom.id) : []}
+        getCartQuantity={getCartQuantity}
+        onOpenChange={(open) => !open && setPickingFrom(null)}
+        onPick={addToCart}
+      />
+
+      <DiscountDialog
+        open={discounting}
+        lines={pricedCart.lines}
+        pricesIncludeTax={taxSettings.pricesIncludeTax}
+        cartDiscount={cartDiscount}
+        onOpenChange={setDiscounting}
+        onLineDiscount={setLineDiscount}
+        onCartDiscount={setCartDiscount}
+      />
+
+      <CheckoutDialog
+        open={checkingOut}
+        total={cartTotal}
+        customers={customers}
+        balances={customerBalances}
+        onOpenChange={setCheckingOut}
+        onConfirm={handleCompleteSale}
+      />
+
+      <AddProductDialog
+        open={unknownCode !== null}
+        onOpenChange={(open) => !open && setUnknownCode(null)}
+        categories={categories}
+        products={products}
+        onSave={handleCreateProduct}
+        defaultBarcode={unknownCode ?? undefined}
+      />
+
       {/* Cart summary - Fixed at bottom */}
       <AnimatePresence>
         {cart.length > 0 && (
@@ -251,17 +422,41 @@ export function POSPage({ products, categories, onSale }: POSPageProps) {
                     {cartItemsCount} {cartItemsCount === 1 ? "producto" : "productos"}
                   </span>
                 </div>
-                <span className="text-2xl font-bold text-foreground tabular-nums" data-testid="cart-total">
-                  ${cartTotal.toFixed(2)}
-                </span>
+                <div className="text-right">
+                  {pricedCart.discount > 0 && (
+                    <p className="text-xs text-muted-foreground tabular-nums" data-testid="cart-discount">
+                      <span className="line-through">${pricedCart.gross.toFixed(2)}</span>
+                      <span className="ml-1 text-primary">-${pricedCart.discount.toFixed(2)}</span>
+                    </p>
+                  )}
+                  {pricedCart.tax > 0 && (
+                    <p className="text-xs text-muted-foreground tabular-nums" data-testid="cart-tax">
+                      {taxSettings.pricesIncludeTax ? "IVA incluido" : "+ IVA"} ${pricedCart.tax.toFixed(2)}
+                    </p>
+                  )}
+                  <span className="text-2xl font-bold text-foreground tabular-nums" data-testid="cart-total">
+                    ${cartTotal.toFixed(2)}
+                  </span>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="h-14 w-14 flex-shrink-0"
+                  onClick={() => setDiscounting(true)}
+                  title="Descuentos"
+                  data-testid="open-discounts"
+                >
+                  <Percent className="h-5 w-5" />
+                </Button>
+                <Button
+                  className="flex-1 h-14 text-lg font-semibold"
+                  onClick={() => setCheckingOut(true)}
+                  data-testid="complete-sale"
+                >
+                  Cobrar
+                </Button>
               </div>
-              <Button
-                className="w-full h-14 text-lg font-semibold"
-                onClick={handleCompleteSale}
-                data-testid="complete-sale"
-              >
-                Registrar Venta
-              </Button>
             </Card>
           </motion.div>
         )}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Edit2, Plus, Tag, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { PromotionDialog, describePromotion, type PromotionFormData } from "@/components/PromotionDialog";
+import { isPromotionActive, type Category, type Product, type Promotion } from "@shared/schema";
+
+interface PromotionsPageProps {
+  promotions: Promotion[];
+  products: Product[];
+  categories: Category[];
+  onAdd: (data: PromotionFormData) => void;
+  onUpdate: (promotion: Promotion, data: PromotionFormData) => void;
+  onDelete: (promotion: Promotion) => void;
+}
+
+// ISO dates are shown as local days, not shifted by the time zone
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), "d MMM yyyy", { locale: es });
+
+function dateRange(promotion: Promotion) {
+  if (promotion.startsAt && promotion.endsAt) return `Del ${formatDay(promotion.startsAt)} al ${formatDay(promotion.endsAt)}`;
+  if (promotion.startsAt) return `Desde el ${formatDay(promotion.startsAt)}`;
+  if (promotion.endsAt) return `Hasta el ${formatDay(promotion.endsAt)}`;
+  return "Sin fecha límite";
+}
+
+// Promotions the POS applies to the cart on its own
+export function PromotionsPage({ promotions, products, categories, onAdd, onUpdate, onDelete }: PromotionsPageProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editPromotion, setEditPromotion] = useState<Promotion | null>(null);
+
+  const today = new Date().toISOString().split("T")[0];
+  const sorted = [...promotions].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSave = (data: PromotionFormData) => {
+    if (editPromotion) {
+      onUpdate(editPromotion, data);
+    } else {
+      onAdd(data);
+    }
+    setEditPromotion(null);
+  };
+
+  const status = (promotion: Promotion) => {
+    if (!promotion.active) return { label: "Pausada", variant: "secondary" as const };
+    if (isPromotionActive(promotion, today)) return { label: "Vigente", variant: "default" as const };
+    if (promotion.startsAt && today < promotion.startsAt) return { label: "Próxima", variant: "outline" as const };
+    return { label: "Vencida", variant: "secondary" as const };
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Link href="/pos">
+              <Button variant="ghost" size="icon" title="Volver al punto de venta" data-testid="back-to-pos">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">Promociones</h1>
+          </div>
+          <Button
+            onClick={() => {
+              setEditPromotion(null);
+              setDialogOpen(true);
+            }}
+            className="h-10"
+            data-testid="add-promotion-button"
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Nueva
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 pb-24">
+        {sorted.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="rounded-full bg-muted p-4 mb-4">
+              <Tag className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-1">No hay promociones</h3>
+            <p className="text-sm text-muted-foreground max-w-[220px]">
+              Crea un 2x1 o un descuento por categoría y se aplicará solo al cobrar
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {sorted.map((promotion) => {
+              const { label, variant } = status(promotion);
+              return (
+                <Card key={promotion.id} className="p-4" data-testid={`promotion-${promotion.id}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="truncate font-semibold text-foreground">{promotion.name}</h3>
+                      <p className="truncate text-sm text-muted-foreground">
+                        {describePromotion(promotion, products, categories)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {dateRange(promotion)}
+                        {promotion.synced === 0 && (
+                          <span className="ml-2 text-amber-600 dark:text-amber-500">Pendiente</span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-1">
+                      <Badge variant={variant}>{label}</Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => {
+                          setEditPromotion(promotion);
+                          setDialogOpen(true);
+                        }}
+                        data-testid={`edit-promotion-${promotion.id}`}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        onClick={() => onDelete(promotion)}
+                        data-testid={`delete-promotion-${promotion.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <PromotionDialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) setEditPromotion(null);
+        }}
+        products={products}
+        categories={categories}
+        onSave={handleSave}
+        editPromotion={editPromotion}
+      />
+    </div>
+  );
+}
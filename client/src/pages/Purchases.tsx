@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { Plus, Truck, Send, PackageCheck, Edit2, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PurchaseOrderDialog, type PurchaseOrderFormData } from "@/components/PurchaseOrderDialog";
+import { ReceiveOrderDialog } from "@/components/ReceiveOrderDialog";
+import { SupplierDialog, type SupplierFormData } from "@/components/SupplierDialog";
+import type {
+  Product,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrder,
+  Supplier,
+} from "@shared/schema";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Borrador",
+  sent: "Enviada",
+  partially_received: "Recibida en parte",
+  received: "Recibida",
+};
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  sent: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+  partially_received: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  received: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300",
+};
+
+interface PurchasesPageProps {
+  products: Product[];
+  suppliers: Supplier[];
+  orders: PurchaseOrder[];
+  onAddOrder: (data: PurchaseOrderFormData) => void;
+  onEditOrder: (order: PurchaseOrder, data: PurchaseOrderFormData) => void;
+  onSendOrder: (order: PurchaseOrder) => void;
+  onReceiveOrder: (order: PurchaseOrder, lines: ReceivePurchaseOrder["lines"]) => void;
+  onDeleteOrder: (order: PurchaseOrder) => void;
+  onAddSupplier: (data: SupplierFormData) => void;
+  onUpdateSupplier: (supplier: Supplier, data: SupplierFormData) => void;
+  onDeleteSupplier: (supplier: Supplier) => void;
+}
+
+export function PurchasesPage({
+  products,
+  suppliers,
+  orders,
+  onAddOrder,
+  onEditOrder,
+  onSendOrder,
+  onReceiveOrder,
+  onDeleteOrder,
+  onAddSupplier,
+  onUpdateSupplier,
+  onDeleteSupplier,
+}: PurchasesPageProps) {
+  const [tab, setTab] = useState("orders");
+  const [orderDialogOpen, setOrderDialogOpen] = useState(false);
+  const [editOrder, setEditOrder] = useState<PurchaseOrder | null>(null);
+  const [receiveOrder, setReceiveOrder] = useState<PurchaseOrder | null>(null);
+  const [supplierDialogOpen, setSupplierDialogOpen] = useState(false);
+  const [editSupplier, setEditSupplier] = useState<Supplier | null>(null);
+
+  const sortedOrders = [...orders].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+  const sortedSuppliers = [...suppliers].sort((a, b) => a.name.localeCompare(b.name));
+
+  const supplierName = (id: string | null) =>
+    suppliers.find((s) => s.id === id)?.name ?? "Sin proveedor";
+
+  const handleAdd = () => {
+    if (tab === "orders") {
+      setEditOrder(null);
+      setOrderDialogOpen(true);
+    } else {
+      setEditSupplier(null);
+      setSupplierDialogOpen(true);
+    }
+  };
+
+  const handleSaveOrder = (data: PurchaseOrderFormData) => {
+    if (editOrder) {
+      onEditOrder(editOrder, data);
+    } else {
+      onAddOrder(data);
+    }
+    setEditOrder(null);
+  };
+
+  const handleSaveSupplier = (data: SupplierFormData) => {
+    if (editSupplier) {
+      onUpdateSupplier(editSupplier, data);
+    } else {
+      onAddSupplier(data);
+    }
+    setEditSupplier(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <Tabs value={tab} onValueChange={setTab} className="flex flex-col h-full">
+        {/* Header */}
+        <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h1 className="text-2xl font-bold text-foreground">Compras</h1>
+            <Button onClick={handleAdd} className="h-10" data-testid="add-purchase-button">
+              <Plus className="mr-1 h-4 w-4" />
+              {tab === "orders" ? "Nueva orden" : "Agregar"}
+            </Button>
+          </div>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="orders" data-testid="tab-orders">Órdenes</TabsTrigger>
+            <TabsTrigger value="suppliers" data-testid="tab-suppliers">Proveedores</TabsTrigger>
+          </TabsList>
+        </div>
+
+        <TabsContent value="orders" className="mt-0 flex-1 overflow-y-auto px-4 py-4 pb-24">
+          {sortedOrders.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <div className="rounded-full bg-muted p-4 mb-4">
+                <Truck className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-medium text-foreground mb-1">No hay órdenes de compra</h3>
+              <p className="text-sm text-muted-foreground max-w-[220px]">
+                Crea una orden para pedir mercancía a tus proveedores
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {sortedOrders.map((order) => {
+                const ordered = order.lines.reduce((sum, line) => sum + line.quantityOrdered, 0);
+                const receivedUnits = order.lines.reduce((sum, line) => sum + line.quantityReceived, 0);
+                const total = order.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+
+                return (
+                  <Card key={order.id} className="p-4" data-testid={`purchase-order-${order.id}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h3 className="truncate font-semibold text-foreground">{supplierName(order.supplierId)}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(order.createdAt).toLocaleDateString()}
+                          {order.synced === 0 && (
+                            <span className="ml-2 text-amber-600 dark:text-amber-500">Pendiente</span>
+                          )}
+                        </p>
+                      </div>
+                      <Badge className={`flex-shrink-0 border-0 ${STATUS_CLASSES[order.status]}`}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </Badge>
+                    </div>
+
+                    <ul className="mt-3 space-y-1 text-sm">
+                      {order.lines.map((line) => (
+                        <li key={line.id} className="flex justify-between gap-2">
+                          <span className="truncate">{line.productName}</span>
+                          <span className="flex-shrink-0 tabular-nums text-muted-foreground">
+                            {order.status === "draft" ? "" : `${line.quantityReceived}/`}
+                            {line.quantityOrdered} × ${line.unitCost.toFixed(2)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    {order.notes && (
+                      <p className="mt-2 break-words text-xs text-muted-foreground">{order.notes}</p>
+                    )}
+
+                    <div className="mt-3 flex items-center justify-between gap-2 border-t border-border pt-3">
+                      <span className="text-sm font-semibold tabular-nums">${total.toFixed(2)}</span>
+                      <div className="flex gap-1">
+                        {order.status === "draft" && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => {
+                                setEditOrder(order);
+                                setOrderDialogOpen(true);
+                              }}
+                              title="Editar"
+                              data-testid={`edit-order-${order.id}`}
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => onSendOrder(order)}
+                              data-testid={`send-order-${order.id}`}
+                            >
+                              <Send className="mr-1 h-4 w-4" />
+                              Enviar
+                            </Button>
+                          </>
+                        )}
+                        {(order.status === "sent" || order.status === "partially_received") && (
+                          <Button
+                            size="sm"
+                            onClick={() => setReceiveOrder(order)}
+                            data-testid={`receive-order-${order.id}`}
+                          >
+                            <PackageCheck className="mr-1 h-4 w-4" />
+                            Recibir
+                          </Button>
+                        )}
+                        {receivedUnits === 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => onDeleteOrder(order)}
+                            title="Eliminar"
+                            data-testid={`delete-order-${order.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {order.status !== "draft" && (
+                      <p className="mt-1 text-xs text-muted-foreground tabular-nums">
+                        {receivedUnits} de {ordered} unidades recibidas
+                      </p>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="mt-0 flex-1 overflow-y-auto px-4 py-4 pb-24">
+          {sortedSuppliers.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <div className="rounded-full bg-muted p-4 mb-4">
+                <Users className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-medium text-foreground mb-1">No hay proveedores</h3>
+              <p className="text-sm text-muted-foreground max-w-[200px]">
+                Agrega los proveedores a los que les compras
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {sortedSuppliers.map((supplier) => (
+                <Card key={supplier.id} className="p-4" data-testid={`supplier-${supplier.id}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="truncate font-semibold text-foreground">{supplier.name}</h3>
+                      {[supplier.phone, supplier.email].filter(Boolean).map((contact) => (
+                        <p key={contact} className="truncate text-sm text-muted-foreground">{contact}</p>
+                      ))}
+                      {supplier.notes && (
+                        <p className="mt-1 break-words text-xs text-muted-foreground">{supplier.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => {
+                          setEditSupplier(supplier);
+                          setSupplierDialogOpen(true);
+                        }}
+                        data-testid={`edit-supplier-${supplier.id}`}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        onClick={() => onDeleteSupplier(supplier)}
+                        data-testid={`delete-supplier-${supplier.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <PurchaseOrderDialog
+        open={orderDialogOpen}
+        onOpenChange={(open) => {
+          setOrderDialogOpen(open);
+          if (!open) setEditOrder(null);
+        }}
+        products={products}
+        suppliers={sortedSuppliers}
+        onSave={handleSaveOrder}
+        editOrder={editOrder}
+      />
+
+      <ReceiveOrderDialog
+        order={receiveOrder}
+        onOpenChange={(open) => !open && setReceiveOrder(null)}
+        onReceive={onReceiveOrder}
+      />
+
+      <SupplierDialog
+        open={supplierDialogOpen}
+        onOpenChange={(open) => {
+          setSupplierDialogOpen(open);
+          if (!open) setEditSupplier(null);
+        }}
+        onSave={handleSaveSupplier}
+        editSupplier={editSupplier}
+      />
+    </div>
+  );
+}
@@ -1,60 +1,234 @@
-import { useMemo } from "react";
-import { format } from "date-fns";
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { addMonths, format, startOfMonth } from "date-fns";
 import { es } from "date-fns/locale";
-import { Calendar, TrendingUp, Package, DollarSign, User, Printer } from "lucide-react";
+import { Calendar, ChevronLeft, ChevronRight, TrendingUp, Package, DollarSign, User, Printer, Receipt } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { Sale, DailyReportItem } from "@shared/schema";
+import { PAYMENT_METHOD_LABELS } from "@/components/CheckoutDialog";
+import {
+  PAYMENT_METHODS,
+  paymentChange,
+  type Sale,
+  type SaleLine,
+  type DailyReportItem,
+  type CategoryReportItem,
+  type TaxReportItem,
+  type Product,
+  type Category,
+} from "@shared/schema";
+
+// Items selling below this gross margin are flagged
+const LOW_MARGIN_PERCENT = 20;
 
 interface ReportsPageProps {
   sales: Sale[];
+  products: Product[];
+  categories: Category[];
   userEmail?: string;
 }
 
-export function ReportsPage({ sales, userEmail }: ReportsPageProps) {
+type ProfitTotals = Pick<DailyReportItem, "revenue" | "costedRevenue" | "cost">;
+
+function addProfit(totals: ProfitTotals, line: SaleLine) {
+  totals.revenue += line.total;
+  if (line.unitCost != null) {
+    totals.costedRevenue += line.total - line.tax;
+    totals.cost += line.unitCost * line.quantity;
+  }
+}
+
+// Taxable base and IVA per rate, highest rate first and exempt sales last.
+// Voids and returns carry negative lines, so they come off on their own.
+function taxBreakdown(sales: Sale[]): TaxReportItem[] {
+  const byRate = new Map<string, TaxReportItem>();
+  sales.flatMap((sale) => sale.lines).forEach((line) => {
+    const key = line.taxRate === null ? "exempt" : String(line.taxRate);
+    let item = byRate.get(key);
+    if (!item) {
+      item = { taxRate: line.taxRate, base: 0, tax: 0 };
+      byRate.set(key, item);
+    }
+    item.base += line.total - line.tax;
+    item.tax += line.tax;
+  });
+  return Array.from(byRate.values()).sort((a, b) => (b.taxRate ?? -1) - (a.taxRate ?? -1));
+}
+
+const taxRateLabel = (rate: number | null) => (rate === null ? "Exento" : `IVA ${rate}%`);
+
+// Rows of a printed report, one per rate with its base and tax
+function taxRowsHtml(items: TaxReportItem[]) {
+  return items.map(item => `
+    <div class="item">
+      <span>${taxRateLabel(item.taxRate)} · base $${item.base.toFixed(2)}</span>
+      <span>$${item.tax.toFixed(2)}</span>
+    </div>
+  `).join('');
+}
+
+function TaxBreakdownRows({ items, testId }: { items: TaxReportItem[]; testId: string }) {
+  const base = items.reduce((sum, item) => sum + item.base, 0);
+  const tax = items.reduce((sum, item) => sum + item.tax, 0);
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Tasa</span>
+        <span>Base · IVA</span>
+      </div>
+      {items.map((item) => (
+        <div key={item.taxRate ?? "exempt"} className="flex justify-between" data-testid={`${testId}-${item.taxRate ?? "exempt"}`}>
+          <span className="text-muted-foreground">{taxRateLabel(item.taxRate)}</span>
+          <span className="tabular-nums">
+            ${item.base.toFixed(2)} · ${item.tax.toFixed(2)}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t border-border pt-2 font-semibold">
+        <span>Total</span>
+        <span className="tabular-nums" data-testid={`${testId}-total`}>
+          ${base.toFixed(2)} · ${tax.toFixed(2)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// Gross margin %, or null when no line had a cost
+function grossMargin({ costedRevenue, cost }: ProfitTotals): number | null {
+  return costedRevenue > 0 ? ((costedRevenue - cost) / costedRevenue) * 100 : null;
+}
+
+function ProfitLine({ totals }: { totals: ProfitTotals }) {
+  const margin = grossMargin(totals);
+  if (margin === null) {
+    return <p className="text-xs text-muted-foreground">Sin costo</p>;
+  }
+  return (
+    <p className="flex items-center justify-end gap-1 text-xs text-muted-foreground tabular-nums">
+      {margin < LOW_MARGIN_PERCENT && (
+        <Badge variant="destructive" className="px-1.5 py-0 text-[10px]">Margen bajo</Badge>
+      )}
+      ${(totals.costedRevenue - totals.cost).toFixed(2)} · {margin.toFixed(1)}%
+    </p>
+  );
+}
+
+export function ReportsPage({ sales, products, categories, userEmail }: ReportsPageProps) {
+  const [byParent, setByParent] = useState(false); // Roll variants up into their parent
+  const [taxMonth, setTaxMonth] = useState(() => startOfMonth(new Date())); // For the monthly filing
   const today = new Date();
   const dateString = format(today, "yyyy-MM-dd");
+  const isCurrentMonth = format(taxMonth, "yyyy-MM") === format(today, "yyyy-MM");
+
+  const monthTaxItems = useMemo(() => {
+    const month = format(taxMonth, "yyyy-MM");
+    return taxBreakdown(sales.filter((sale) => sale.date.startsWith(month)));
+  }, [sales, taxMonth]);
 
   const todaysSales = useMemo(() => {
     return sales.filter((sale) => sale.date === dateString);
   }, [sales, dateString]);
 
   const reportData = useMemo(() => {
-    const totalSales = todaysSales.reduce((sum, sale) => sum + sale.total, 0);
-    const totalItems = todaysSales.reduce((sum, sale) => sum + sale.quantity, 0);
+    // Sales count after discounts; voids and returns are shown apart and
+    // netted out of the product breakdown, profit and payments
+    const saleTransactions = todaysSales.filter((sale) => sale.kind === "sale");
+    const totalSales = saleTransactions.reduce((sum, sale) => sum + sale.total, 0);
+    const saleLines = saleTransactions.flatMap((sale) => sale.lines);
+    const grossSales = saleLines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+    const discounts = saleLines.reduce((sum, line) => sum + line.discount, 0);
+    // IVA charged on top of prices that leave it out
+    const addedTax = saleTransactions
+      .filter((sale) => !sale.pricesIncludeTax)
+      .flatMap((sale) => sale.lines)
+      .reduce((sum, line) => sum + line.tax, 0);
+    const totalItems = saleTransactions.reduce((sum, sale) => sum + sale.itemCount, 0);
     const averageTransaction =
-      todaysSales.length > 0 ? totalSales / todaysSales.length : 0;
+      saleTransactions.length > 0 ? totalSales / saleTransactions.length : 0;
+
+    const refundTotals = (kind: Sale["kind"]) => {
+      const refunds = todaysSales.filter((sale) => sale.kind === kind);
+      return { count: refunds.length, amount: -refunds.reduce((sum, sale) => sum + sale.total, 0) };
+    };
+    const voids = refundTotals("void");
+    const returns = refundTotals("return");
+
+    const parentName = (productId: string | null) => {
+      const product = products.find((p) => p.id === productId);
+      return products.find((p) => p.id === product?.parentId)?.name;
+    };
+
+    const categoryName = (productId: string | null) => {
+      const product = products.find((p) => p.id === productId);
+      return categories.find((c) => c.id === product?.categoryId)?.name ?? "Sin categoría";
+    };
 
-    // Group by product
+    // Group by product, or by parent product when rolling variants up, and by category
     const productMap = new Map<string, DailyReportItem>();
-    todaysSales.forEach((sale) => {
-      const existing = productMap.get(sale.productName);
-      if (existing) {
-        existing.quantitySold += sale.quantity;
-        existing.revenue += sale.total;
-      } else {
-        productMap.set(sale.productName, {
-          productName: sale.productName,
-          quantitySold: sale.quantity,
-          revenue: sale.total,
-        });
+    const categoryMap = new Map<string, CategoryReportItem>();
+    const profit: ProfitTotals = { revenue: 0, costedRevenue: 0, cost: 0 };
+    todaysSales.flatMap((sale) => sale.lines).forEach((line) => {
+      const name = (byParent && parentName(line.productId)) || line.productName;
+      let item = productMap.get(name);
+      if (!item) {
+        item = { productName: name, quantitySold: 0, revenue: 0, costedRevenue: 0, cost: 0 };
+        productMap.set(name, item);
       }
+      item.quantitySold += line.quantity;
+      addProfit(item, line);
+
+      const category = categoryName(line.productId);
+      let categoryItem = categoryMap.get(category);
+      if (!categoryItem) {
+        categoryItem = { categoryName: category, revenue: 0, costedRevenue: 0, cost: 0 };
+        categoryMap.set(category, categoryItem);
+      }
+      addProfit(categoryItem, line);
+      addProfit(profit, line);
     });
 
     const items = Array.from(productMap.values()).sort(
       (a, b) => b.revenue - a.revenue
     );
+    const categoryItems = Array.from(categoryMap.values()).sort(
+      (a, b) => b.revenue - a.revenue
+    );
+
+    // What came in through each payment method, and the change given back in cash
+    const payments = todaysSales.flatMap((sale) => sale.payments);
+    const paymentItems = PAYMENT_METHODS.map((method) => {
+      const received = payments.filter((payment) => payment.method === method);
+      return {
+        method,
+        count: received.filter((payment) => payment.amount > 0).length,
+        amount: received.reduce((sum, payment) => sum + payment.amount, 0),
+      };
+    }).filter((item) => item.count > 0 || item.amount !== 0);
 
     return {
       date: dateString,
+      grossSales,
+      discounts,
+      addedTax,
       totalSales,
+      voids,
+      returns,
+      netSales: totalSales - voids.amount - returns.amount,
       totalItems,
       averageTransaction,
       items,
-      transactionCount: todaysSales.length,
+      categoryItems,
+      taxItems: taxBreakdown(todaysSales),
+      paymentItems,
+      changeGiven: paymentChange(payments),
+      profit,
+      transactionCount: saleTransactions.length,
     };
-  }, [todaysSales, dateString]);
+  }, [todaysSales, dateString, products, categories, byParent]);
+
+  const totalMargin = grossMargin(reportData.profit);
 
   const handlePrintReport = () => {
     const printContent = `
@@ -102,7 +276,72 @@ export function ReportsPage({ sales, userEmail }: ReportsPageProps) {
           <span class="label">Promedio por venta:</span>
           <span class="value">$${reportData.averageTransaction.toFixed(2)}</span>
         </div>
+        ${reportData.discounts > 0 || reportData.addedTax > 0 ? `
+          <div class="info">
+            <span class="label">Ventas brutas:</span>
+            <span class="value">$${reportData.grossSales.toFixed(2)}</span>
+          </div>
+        ` : ''}
+        ${reportData.discounts > 0 ? `
+          <div class="info">
+            <span class="label">Descuentos:</span>
+            <span class="value">-$${reportData.discounts.toFixed(2)}</span>
+          </div>
+        ` : ''}
+        ${reportData.addedTax > 0 ? `
+          <div class="info">
+            <span class="label">IVA:</span>
+            <span class="value">$${reportData.addedTax.toFixed(2)}</span>
+          </div>
+        ` : ''}
+        ${reportData.voids.count + reportData.returns.count > 0 ? `
+          <div class="info">
+            <span class="label">Anulaciones (${reportData.voids.count}):</span>
+            <span class="value">-$${reportData.voids.amount.toFixed(2)}</span>
+          </div>
+          <div class="info">
+            <span class="label">Devoluciones (${reportData.returns.count}):</span>
+            <span class="value">-$${reportData.returns.amount.toFixed(2)}</span>
+          </div>
+        ` : ''}
+        ${reportData.discounts > 0 || reportData.addedTax > 0 || reportData.voids.count + reportData.returns.count > 0 ? `
+          <div class="info">
+            <span class="label">Venta neta:</span>
+            <span class="value">$${reportData.netSales.toFixed(2)}</span>
+          </div>
+        ` : ''}
+        ${totalMargin !== null ? `
+          <div class="info">
+            <span class="label">Ganancia bruta:</span>
+            <span class="value">$${(reportData.profit.costedRevenue - reportData.profit.cost).toFixed(2)} (${totalMargin.toFixed(1)}%)</span>
+          </div>
+        ` : ''}
         
+        ${reportData.paymentItems.length > 0 ? `
+          <div class="items">
+            <h3 style="font-size: 14px; margin-bottom: 10px;">Formas de Pago:</h3>
+            ${reportData.paymentItems.map(item => `
+              <div class="item">
+                <span>${PAYMENT_METHOD_LABELS[item.method]} (x${item.count})</span>
+                <span>$${item.amount.toFixed(2)}</span>
+              </div>
+            `).join('')}
+            ${reportData.changeGiven > 0 ? `
+              <div class="item">
+                <span>Cambio entregado</span>
+                <span>$${reportData.changeGiven.toFixed(2)}</span>
+              </div>
+            ` : ''}
+          </div>
+        ` : ''}
+
+        ${reportData.taxItems.length > 0 ? `
+          <div class="items">
+            <h3 style="font-size: 14px; margin-bottom: 10px;">Impuestos:</h3>
+            ${taxRowsHtml(reportData.taxItems)}
+          </div>
+        ` : ''}
+
         ${reportData.items.length > 0 ? `
           <div class="items">
             <h3 style="font-size: 14px; margin-bottom: 10px;">Detalle por Producto:</h3>
@@ -131,6 +370,52 @@ export function ReportsPage({ sales, userEmail }: ReportsPageProps) {
     }
   };
 
+  // Base and IVA per rate over a calendar month, for the tax return
+  const handlePrintTaxReport = () => {
+    const monthLabel = format(taxMonth, "MMMM yyyy", { locale: es });
+    const base = monthTaxItems.reduce((sum, item) => sum + item.base, 0);
+    const tax = monthTaxItems.reduce((sum, item) => sum + item.tax, 0);
+    const printContent = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>IVA - ${monthLabel}</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; max-width: 400px; margin: 0 auto; }
+          h1 { text-align: center; font-size: 18px; margin-bottom: 5px; }
+          .subtitle { text-align: center; color: #666; font-size: 14px; margin-bottom: 20px; }
+          .item { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+          .total { font-weight: bold; border-bottom: none; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #999; }
+          @media print { body { padding: 10px; } }
+        </style>
+      </head>
+      <body>
+        <h1>IMPUESTOS DEL MES</h1>
+        <div class="subtitle">${monthLabel}</div>
+
+        ${taxRowsHtml(monthTaxItems)}
+        <div class="item total">
+          <span>Total · base $${base.toFixed(2)}</span>
+          <span>$${tax.toFixed(2)}</span>
+        </div>
+
+        <div class="footer">
+          Generado el ${format(new Date(), "d/MM/yyyy 'a las' HH:mm", { locale: es })}
+          <br/>Caiman-POS
+        </div>
+      </body>
+      </html>
+    `;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(printContent);
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -166,6 +451,12 @@ export function ReportsPage({ sales, userEmail }: ReportsPageProps) {
           <Printer className="mr-2 h-5 w-5" />
           Cierre de Caja Diario
         </Button>
+        <Link href="/sales">
+          <Button variant="outline" className="w-full -mt-3 mb-6" data-testid="link-sales">
+            <Receipt className="mr-2 h-4 w-4" />
+            Ventas, anulaciones y devoluciones
+          </Button>
+        </Link>
 
         {/* Summary cards */}
         <div className="grid grid-cols-2 gap-3 mb-6">
@@ -232,12 +523,146 @@ export function ReportsPage({ sales, userEmail }: ReportsPageProps) {
               </p>
             </CardContent>
           </Card>
+
+          <Card className="col-span-2" data-testid="gross-profit-card">
+            <CardContent className="flex items-center justify-between gap-2 p-4">
+              <div>
+                <p className="text-2xl font-bold text-foreground tabular-nums">
+                  ${(reportData.profit.costedRevenue - reportData.profit.cost).toFixed(2)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Ganancia Bruta
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-lg font-semibold text-foreground tabular-nums">
+                  {totalMargin === null ? "—" : `${totalMargin.toFixed(1)}%`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Margen
+                </p>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
+        {/* Gross to net: discounts, IVA on top, voids and returns */}
+        {(reportData.discounts > 0 || reportData.addedTax > 0 || reportData.voids.count + reportData.returns.count > 0) && (
+          <Card className="mb-4" data-testid="refunds-card">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Ventas Brutas y Netas</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Ventas brutas</span>
+                <span className="tabular-nums" data-testid="report-gross-sales">
+                  ${reportData.grossSales.toFixed(2)}
+                </span>
+              </div>
+              {reportData.discounts > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Descuentos y promociones</span>
+                  <span className="tabular-nums text-destructive" data-testid="report-discounts">
+                    -${reportData.discounts.toFixed(2)}
+                  </span>
+                </div>
+              )}
+              {reportData.addedTax > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">IVA</span>
+                  <span className="tabular-nums" data-testid="report-added-tax">
+                    ${reportData.addedTax.toFixed(2)}
+                  </span>
+                </div>
+              )}
+              {reportData.voids.count > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Anulaciones ({reportData.voids.count})</span>
+                  <span className="tabular-nums text-destructive" data-testid="report-voids">
+                    -${reportData.voids.amount.toFixed(2)}
+                  </span>
+                </div>
+              )}
+              {reportData.returns.count > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Devoluciones ({reportData.returns.count})</span>
+                  <span className="tabular-nums text-destructive" data-testid="report-returns">
+                    -${reportData.returns.amount.toFixed(2)}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-border pt-2 font-semibold">
+                <span>Venta neta</span>
+                <span className="tabular-nums" data-testid="report-net-sales">${reportData.netSales.toFixed(2)}</span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Taxes collected today */}
+        {reportData.taxItems.length > 0 && (
+          <Card className="mb-4" data-testid="taxes-card">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Impuestos</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TaxBreakdownRows items={reportData.taxItems} testId="report-tax" />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Payment breakdown */}
+        {reportData.paymentItems.length > 0 && (
+          <Card className="mb-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Formas de Pago</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {reportData.paymentItems.map((item) => (
+                  <div
+                    key={item.method}
+                    className="flex items-center justify-between py-2 border-b border-border last:border-0"
+                    data-testid={`report-payment-${item.method}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground">
+                        {PAYMENT_METHOD_LABELS[item.method]}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {item.count} {item.count === 1 ? "pago" : "pagos"}
+                      </p>
+                    </div>
+                    <p className="font-semibold text-foreground tabular-nums">
+                      ${item.amount.toFixed(2)}
+                    </p>
+                  </div>
+                ))}
+                {reportData.changeGiven > 0 && (
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>Cambio entregado</span>
+                    <span className="tabular-nums" data-testid="report-change-given">
+                      ${reportData.changeGiven.toFixed(2)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Product breakdown */}
         <Card>
-          <CardHeader className="pb-3">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-3">
             <CardTitle className="text-base">Desglose por Producto</CardTitle>
+            <Badge
+              variant={byParent ? "default" : "secondary"}
+              className="cursor-pointer whitespace-nowrap"
+              onClick={() => setByParent((prev) => !prev)}
+              data-testid="toggle-roll-up-variants"
+            >
+              Agrupar variantes
+            </Badge>
           </CardHeader>
           <CardContent>
             {reportData.items.length === 0 ? (
@@ -270,6 +695,7 @@ export function ReportsPage({ sales, userEmail }: ReportsPageProps) {
                       <p className="font-semibold text-foreground tabular-nums">
                         ${item.revenue.toFixed(2)}
                       </p>
+                      <ProfitLine totals={item} />
                     </div>
                   </div>
                 ))}
@@ -278,6 +704,80 @@ export function ReportsPage({ sales, userEmail }: ReportsPageProps) {
           </CardContent>
         </Card>
 
+        {/* Category breakdown */}
+        {reportData.categoryItems.length > 0 && (
+          <Card className="mt-4">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Desglose por Categoría</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {reportData.categoryItems.map((item, index) => (
+                  <div
+                    key={item.categoryName}
+                    className="flex items-center justify-between py-2 border-b border-border last:border-0"
+                    data-testid={`report-category-${index}`}
+                  >
+                    <p className="flex-1 min-w-0 font-medium text-foreground truncate">
+                      {item.categoryName}
+                    </p>
+                    <div className="text-right">
+                      <p className="font-semibold text-foreground tabular-nums">
+                        ${item.revenue.toFixed(2)}
+                      </p>
+                      <ProfitLine totals={item} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Taxes over a whole month, for filing */}
+        <Card className="mt-4" data-testid="monthly-taxes-card">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-3">
+            <CardTitle className="text-base">IVA del Mes</CardTitle>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setTaxMonth((prev) => addMonths(prev, -1))}
+                data-testid="tax-month-previous"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="min-w-[110px] text-center text-sm capitalize" data-testid="tax-month">
+                {format(taxMonth, "MMMM yyyy", { locale: es })}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={isCurrentMonth}
+                onClick={() => setTaxMonth((prev) => addMonths(prev, 1))}
+                data-testid="tax-month-next"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {monthTaxItems.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No hay ventas en este mes</p>
+            ) : (
+              <>
+                <TaxBreakdownRows items={monthTaxItems} testId="report-month-tax" />
+                <Button variant="outline" className="w-full" onClick={handlePrintTaxReport} data-testid="button-print-tax-report">
+                  <Printer className="mr-2 h-4 w-4" />
+                  Imprimir IVA del mes
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Visual chart - Simple bar representation */}
         {reportData.items.length > 0 && (
           <Card className="mt-4">
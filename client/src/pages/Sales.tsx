@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Ban, RotateCcw, Search } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { RefundDialog } from "@/components/RefundDialog";
+import { PAYMENT_METHOD_LABELS } from "@/components/CheckoutDialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  inSameShift,
+  isRefundOf,
+  returnableQuantities,
+  type InsertSale,
+  type Sale,
+} from "@shared/schema";
+
+interface SalesPageProps {
+  sales: Sale[];
+  shiftId: string | null; // The drawer shift open on this device
+  onRefund: (refund: InsertSale) => void;
+}
+
+// Sales made so far, newest first, with their voids and returns. A sale can
+// be voided in the shift it was made in, and returned from until nothing is left.
+export function SalesPage({ sales, shiftId, onRefund }: SalesPageProps) {
+  const [query, setQuery] = useState("");
+  const [refunding, setRefunding] = useState<{ sale: Sale; kind: "void" | "return" } | null>(null);
+  const { toast } = useToast();
+
+  const entries = useMemo(() => {
+    const today = new Date().toISOString().split("T")[0];
+    const search = query.trim().toLowerCase();
+    return sales
+      .filter((sale) => sale.kind === "sale")
+      .filter((sale) => !search || sale.lines.some((line) => line.productName.toLowerCase().includes(search)))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map((sale) => {
+        const refunds = sales.filter((refund) => isRefundOf(refund, sale));
+        const remaining = returnableQuantities(sale, refunds);
+        const voided = refunds.some((refund) => refund.kind === "void");
+        const returned = refunds.reduce((sum, refund) => sum - refund.total, 0);
+        let left = 0;
+        remaining.forEach((quantity) => {
+          left += quantity;
+        });
+        return {
+          sale,
+          refunds,
+          remaining,
+          voided,
+          returned,
+          canVoid: refunds.length === 0 && inSameShift(sale, { shiftId, date: today }),
+          canReturn: !voided && left > 0,
+        };
+      });
+  }, [sales, shiftId, query]);
+
+  const current = refunding && entries.find((entry) => entry.sale.id === refunding.sale.id);
+
+  const handleRefund = (refund: InsertSale) => {
+    onRefund(refund);
+    const total = refund.lines.reduce((sum, line) => sum - line.total, 0);
+    toast({
+      title: refund.kind === "void" ? "Venta anulada" : "Devolución registrada",
+      description: `Reembolso: $${total.toFixed(2)}`,
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Link href="/reports">
+            <Button variant="ghost" size="icon" title="Volver a reportes" data-testid="back-to-reports">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-foreground">Ventas</h1>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por producto..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="h-11 pl-10"
+            data-testid="sales-search"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-2">
+        {entries.length === 0 && (
+          <p className="py-10 text-center text-sm text-muted-foreground">No hay ventas</p>
+        )}
+
+        {entries.map(({ sale, refunds, voided, returned, canVoid, canReturn }) => (
+          <Card key={sale.id} className="p-3 space-y-2" data-testid={`sale-${sale.id}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {format(new Date(sale.createdAt), "d MMM yyyy, HH:mm", { locale: es })}
+                </p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {sale.lines.map((line) => `${line.productName} x${line.quantity}`).join(", ")}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className={`font-semibold tabular-nums ${voided ? "line-through text-muted-foreground" : ""}`}>
+                  ${sale.total.toFixed(2)}
+                </p>
+                <p className="text-xs text-muted-foreground">{PAYMENT_METHOD_LABELS[sale.paymentMethod]}</p>
+              </div>
+            </div>
+
+            {refunds.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                {voided ? (
+                  <Badge variant="destructive">Anulada</Badge>
+                ) : (
+                  <Badge variant="secondary" data-testid={`sale-returned-${sale.id}`}>
+                    Devuelto ${returned.toFixed(2)}
+                  </Badge>
+                )}
+                {refunds
+                  .filter((refund) => refund.reason)
+                  .map((refund) => (
+                    <span key={refund.id} className="text-muted-foreground">{refund.reason}</span>
+                  ))}
+              </div>
+            )}
+
+            {(canVoid || canReturn) && (
+              <div className="flex gap-2">
+                {canVoid && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRefunding({ sale, kind: "void" })}
+                    data-testid={`void-sale-${sale.id}`}
+                  >
+                    <Ban className="mr-1 h-4 w-4" />
+                    Anular
+                  </Button>
+                )}
+                {canReturn && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRefunding({ sale, kind: "return" })}
+                    data-testid={`return-sale-${sale.id}`}
+                  >
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Devolver
+                  </Button>
+                )}
+              </div>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      <RefundDialog
+        sale={current ? current.sale : null}
+        refunds={current ? current.refunds : []}
+        kind={refunding?.kind ?? "return"}
+        remaining={current ? current.remaining : new Map()}
+        onOpenChange={(open) => !open && setRefunding(null)}
+        onConfirm={handleRefund}
+      />
+    </div>
+  );
+}
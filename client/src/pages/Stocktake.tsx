@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, ClipboardList, Minus, Plus, ScanLine, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { findProductByCode, type Stocktake, type StocktakeLine } from "@/lib/indexedDB";
+import type { Category } from "@shared/schema";
+
+const ALL_CATEGORIES = "all";
+
+interface StocktakePageProps {
+  categories: Category[];
+  stocktakes: Stocktake[];
+  onStart: (categoryId: string | null) => void;
+  onCount: (stocktake: Stocktake) => void;
+  onApprove: (stocktake: Stocktake) => void;
+  onDiscard: (stocktake: Stocktake) => void;
+}
+
+// Lines whose count differs from what was expected, with the value of the difference
+function varianceOf(stocktake: Stocktake) {
+  const rows = stocktake.lines
+    .filter((line) => line.counted !== null && line.counted !== line.expected)
+    .map((line) => {
+      const difference = (line.counted ?? 0) - line.expected;
+      return { line, difference, value: difference * line.unitValue };
+    });
+  const total = rows.reduce((sum, row) => sum + row.value, 0);
+  return { rows, total };
+}
+
+function formatMoney(value: number) {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
+
+export function StocktakePage({
+  categories,
+  stocktakes,
+  onStart,
+  onCount,
+  onApprove,
+  onDiscard,
+}: StocktakePageProps) {
+  const [scope, setScope] = useState(ALL_CATEGORIES);
+  const [query, setQuery] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+
+  const current = stocktakes.find((s) => s.status === "counting");
+  const history = stocktakes
+    .filter((s) => s.status === "approved")
+    .sort((a, b) => new Date(b.approvedAt ?? 0).getTime() - new Date(a.approvedAt ?? 0).getTime());
+
+  const categoryName = (id: string | null) =>
+    id ? categories.find((c) => c.id === id)?.name ?? "Categoría eliminada" : "Todas las categorías";
+
+  const setCounted = (productId: string, counted: number | null) => {
+    if (!current) return;
+    onCount({
+      ...current,
+      lines: current.lines.map((line) =>
+        line.productId === productId ? { ...line, counted: counted === null ? null : Math.max(0, counted) } : line,
+      ),
+    });
+  };
+
+  const matches = current
+    ? current.lines.filter((line) => line.productName.toLowerCase().includes(query.trim().toLowerCase()))
+    : [];
+
+  // Scanning a code, or typing a name that matches a single product, counts one more of it
+  const handleScan = async () => {
+    if (!current || !query.trim()) return;
+    const found = await findProductByCode(query);
+    const line = found
+      ? current.lines.find((l) => l.productId === found.id)
+      : matches.length === 1 ? matches[0] : undefined;
+    if (!line) return;
+    setCounted(line.productId, (line.counted ?? 0) + 1);
+    setQuery("");
+  };
+
+  const header = (title: string) => (
+    <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
+      <div className="flex items-center gap-2">
+        <Link href="/">
+          <Button variant="ghost" size="icon" title="Volver al inventario" data-testid="back-to-inventory">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold text-foreground">{title}</h1>
+      </div>
+    </div>
+  );
+
+  if (current && reviewing) {
+    const { rows, total } = varianceOf(current);
+    const uncounted = current.lines.filter((line) => line.counted === null).length;
+
+    return (
+      <div className="flex flex-col h-full">
+        {header("Diferencias")}
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-3">
+          {uncounted > 0 && (
+            <p className="text-sm text-muted-foreground" data-testid="stocktake-uncounted">
+              {uncounted} producto(s) sin contar no se ajustarán.
+            </p>
+          )}
+
+          {rows.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              Lo contado coincide con lo esperado
+            </p>
+          ) : (
+            <Card className="p-3">
+              <div className="grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem_5rem] gap-2 text-xs font-medium text-muted-foreground">
+                <span>Producto</span>
+                <span className="text-right">Esperado</span>
+                <span className="text-right">Contado</span>
+                <span className="text-right">Dif.</span>
+                <span className="text-right">Valor</span>
+              </div>
+              {rows.map(({ line, difference, value }) => (
+                <div
+                  key={line.productId}
+                  className="grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem_5rem] gap-2 border-t border-border py-2 text-sm tabular-nums"
+                  data-testid={`variance-${line.productId}`}
+                >
+                  <span className="truncate">{line.productName}</span>
+                  <span className="text-right">{line.expected}</span>
+                  <span className="text-right">{line.counted}</span>
+                  <span className={`text-right font-medium ${difference < 0 ? "text-destructive" : "text-emerald-600"}`}>
+                    {difference > 0 ? `+${difference}` : difference}
+                  </span>
+                  <span className="text-right">{formatMoney(value)}</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between border-t border-border pt-2 text-sm">
+                <span className="text-muted-foreground">Valor de la diferencia</span>
+                <span className={`font-semibold tabular-nums ${total < 0 ? "text-destructive" : ""}`} data-testid="variance-total">
+                  {formatMoney(total)}
+                </span>
+              </div>
+            </Card>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1 h-12"
+              onClick={() => setReviewing(false)}
+              data-testid="continue-counting"
+            >
+              Seguir contando
+            </Button>
+            <Button
+              className="flex-1 h-12"
+              onClick={() => {
+                onApprove(current);
+                setReviewing(false);
+              }}
+              data-testid="approve-stocktake"
+            >
+              Aprobar y ajustar
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (current) {
+    const counted = current.lines.filter((line) => line.counted !== null).length;
+
+    return (
+      <div className="flex flex-col h-full">
+        {header("Conteo físico")}
+
+        <div className="border-b border-border px-4 py-3 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{categoryName(current.categoryId)}</span>
+            <span className="font-medium tabular-nums" data-testid="stocktake-progress">
+              {counted} de {current.lines.length} contados
+            </span>
+          </div>
+          <div className="relative">
+            <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar o escanear..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleScan();
+              }}
+              className="h-11 pl-10"
+              data-testid="stocktake-search"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-2">
+          {matches.map((line: StocktakeLine) => (
+            <div
+              key={line.productId}
+              className="flex items-center justify-between gap-3 rounded-md border border-border p-3"
+              data-testid={`stocktake-line-${line.productId}`}
+            >
+              <span className="min-w-0 truncate text-sm font-medium">{line.productName}</span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-9 w-9"
+                  disabled={!line.counted}
+                  onClick={() => setCounted(line.productId, (line.counted ?? 0) - 1)}
+                  data-testid={`count-minus-${line.productId}`}
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+                <Input
+                  type="number"
+                  min="0"
+                  value={line.counted ?? ""}
+                  placeholder="—"
+                  onChange={(e) => setCounted(line.productId, e.target.value === "" ? null : Math.floor(Number(e.target.value)))}
+                  className="h-9 w-16 text-center tabular-nums"
+                  aria-label="Cantidad contada"
+                  data-testid={`count-input-${line.productId}`}
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-9 w-9"
+                  onClick={() => setCounted(line.productId, (line.counted ?? 0) + 1)}
+                  data-testid={`count-plus-${line.productId}`}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              variant="outline"
+              className="h-12"
+              onClick={() => onDiscard(current)}
+              data-testid="discard-stocktake"
+            >
+              <Trash2 className="mr-1 h-4 w-4" />
+              Descartar
+            </Button>
+            <Button
+              className="flex-1 h-12"
+              disabled={counted === 0}
+              onClick={() => setReviewing(true)}
+              data-testid="review-stocktake"
+            >
+              Ver diferencias
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {header("Inventario físico")}
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-6">
+        <Card className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Al empezar se guardan las cantidades esperadas. Cuenta sin ver el sistema; el
+            avance se guarda en este dispositivo aunque no haya conexión.
+          </p>
+          <div className="space-y-2">
+            <Label>Qué contar</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="h-12" data-testid="select-stocktake-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>Todas las categorías</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            className="w-full h-12"
+            onClick={() => onStart(scope === ALL_CATEGORIES ? null : scope)}
+            data-testid="start-stocktake"
+          >
+            <ClipboardList className="mr-1 h-4 w-4" />
+            Empezar conteo
+          </Button>
+        </Card>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-medium text-muted-foreground">Conteos aprobados</h2>
+            {history.map((stocktake) => {
+              const { rows, total } = varianceOf(stocktake);
+              return (
+                <Card key={stocktake.id} className="p-3" data-testid={`stocktake-${stocktake.id}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{categoryName(stocktake.categoryId)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {stocktake.approvedAt &&
+                          format(new Date(stocktake.approvedAt), "d MMM yyyy, HH:mm", { locale: es })}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <Badge variant="secondary">{rows.length} ajuste(s)</Badge>
+                      <p className={`mt-1 text-sm font-semibold tabular-nums ${total < 0 ? "text-destructive" : ""}`}>
+                        {formatMoney(total)}
+                      </p>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { taxModeOf, type TaxMode } from "@/components/AddProductDialog";
+import type { Category, StoreMembership, UpdateStore } from "@shared/schema";
+
+interface TaxesPageProps {
+  store: StoreMembership | null;
+  categories: Category[];
+  onUpdateStore: (updates: UpdateStore) => void;
+  onUpdateCategory: (category: Category) => void;
+}
+
+// A typed-in percent, or undefined when it isn't one
+function parseRate(value: string): number | undefined {
+  const rate = Number(value);
+  return value.trim() && rate >= 0 && rate <= 100 ? rate : undefined;
+}
+
+const formatRate = (rate: number | null) => (rate === null ? "sin IVA" : `${rate}%`);
+
+interface CategoryTaxRowProps {
+  category: Category;
+  storeRate: number | null;
+  onSave: (category: Category) => void;
+}
+
+function CategoryTaxRow({ category, storeRate, onSave }: CategoryTaxRowProps) {
+  const [mode, setMode] = useState<TaxMode>(taxModeOf(category));
+  const [rate, setRate] = useState(category.taxRate === null ? "" : String(category.taxRate));
+
+  useEffect(() => {
+    setMode(taxModeOf(category));
+    setRate(category.taxRate === null ? "" : String(category.taxRate));
+  }, [category]);
+
+  const ownRate = parseRate(rate);
+  const changed = mode !== taxModeOf(category) || (mode === "own" && ownRate !== category.taxRate);
+  const charged = mode === "exempt" ? null : mode === "own" ? ownRate ?? null : storeRate;
+
+  return (
+    <Card className="p-4" data-testid={`category-tax-${category.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <div className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+          <h3 className="truncate font-semibold text-foreground">{category.name}</h3>
+        </div>
+        <span className="text-sm text-muted-foreground tabular-nums">{formatRate(charged)}</span>
+      </div>
+      <div className="mt-3 flex items-center gap-2">
+        <Select value={mode} onValueChange={(value) => setMode(value as TaxMode)}>
+          <SelectTrigger className="h-10 flex-1" data-testid={`select-category-tax-${category.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="inherit">Tasa de la tienda</SelectItem>
+            <SelectItem value="exempt">Exenta</SelectItem>
+            <SelectItem value="own">Tasa propia</SelectItem>
+          </SelectContent>
+        </Select>
+        {mode === "own" && (
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            placeholder="%"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            className="h-10 w-20 tabular-nums"
+            data-testid={`input-category-tax-${category.id}`}
+          />
+        )}
+        {changed && (
+          <Button
+            className="h-10"
+            disabled={mode === "own" && ownRate === undefined}
+            onClick={() =>
+              onSave({
+                ...category,
+                taxRate: mode === "own" ? ownRate ?? null : null,
+                taxExempt: mode === "exempt",
+              })
+            }
+            data-testid={`save-category-tax-${category.id}`}
+          >
+            Guardar
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// IVA settings: how the store prices and which rate each category charges.
+// A product can still set its own rate from the inventory.
+export function TaxesPage({ store, categories, onUpdateStore, onUpdateCategory }: TaxesPageProps) {
+  const [storeRate, setStoreRate] = useState(store?.taxRate == null ? "" : String(store.taxRate));
+
+  useEffect(() => {
+    setStoreRate(store?.taxRate == null ? "" : String(store.taxRate));
+  }, [store?.taxRate]);
+
+  const canEdit = store?.role === "owner";
+  const newStoreRate = storeRate.trim() ? parseRate(storeRate) : null;
+  const storeRateChanged = !!store && newStoreRate !== store.taxRate;
+  const sorted = [...categories].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="sticky top-0 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border px-4 py-4">
+        <div className="flex items-center gap-2">
+          <Link href="/">
+            <Button variant="ghost" size="icon" title="Volver al inventario" data-testid="back-to-inventory">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-foreground">Impuestos</h1>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 pb-24 space-y-6">
+        {store && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-medium text-muted-foreground">Tienda</h2>
+            <Card className="p-4 space-y-4">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <Label htmlFor="prices-include-tax">Precios con IVA incluido</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {store.pricesIncludeTax
+                      ? "El IVA va dentro del precio de cada producto"
+                      : "El IVA se suma al precio al cobrar"}
+                  </p>
+                </div>
+                <Switch
+                  id="prices-include-tax"
+                  checked={store.pricesIncludeTax}
+                  disabled={!canEdit}
+                  onCheckedChange={(checked) => onUpdateStore({ pricesIncludeTax: checked })}
+                  data-testid="switch-prices-include-tax"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="store-tax-rate">Tasa general (%)</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="store-tax-rate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    placeholder="Sin IVA"
+                    value={storeRate}
+                    disabled={!canEdit}
+                    onChange={(e) => setStoreRate(e.target.value)}
+                    className="h-10 tabular-nums"
+                    data-testid="input-store-tax-rate"
+                  />
+                  {storeRateChanged && (
+                    <Button
+                      className="h-10"
+                      disabled={newStoreRate === undefined}
+                      onClick={() => onUpdateStore({ taxRate: newStoreRate ?? null })}
+                      data-testid="save-store-tax-rate"
+                    >
+                      Guardar
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {canEdit
+                    ? "La cobran las categorías y productos sin tasa propia. En blanco, la tienda no cobra IVA."
+                    : "Solo los dueños de la tienda pueden cambiarla."}
+                </p>
+              </div>
+            </Card>
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <h2 className="text-sm font-medium text-muted-foreground">Categorías</h2>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {sorted.map((category) => (
+              <CategoryTaxRow
+                key={category.id}
+                category={category}
+                storeRate={store?.taxRate ?? null}
+                onSave={onUpdateCategory}
+              />
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+CREATE TABLE "categories" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"color" text DEFAULT '#10B981' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "products" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"price" real NOT NULL,
+	"quantity" integer DEFAULT 0 NOT NULL,
+	"category_id" varchar,
+	"local_id" varchar,
+	"synced" integer DEFAULT 1 NOT NULL,
+	"user_id" varchar
+);
+--> statement-breakpoint
+CREATE TABLE "sales" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" varchar,
+	"product_name" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_price" real NOT NULL,
+	"total" real NOT NULL,
+	"date" text NOT NULL,
+	"local_id" varchar,
+	"synced" integer DEFAULT 1 NOT NULL,
+	"user_id" varchar
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sales" ADD CONSTRAINT "sales_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
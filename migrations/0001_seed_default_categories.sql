@@ -0,0 +1,7 @@
+-- Seed the default categories once, with the stable IDs from DEFAULT_CATEGORIES
+INSERT INTO "categories" ("id", "name", "color") VALUES
+	('cat-bebidas', 'Bebidas', '#3B82F6'),
+	('cat-alimentos', 'Alimentos', '#10B981'),
+	('cat-limpieza', 'Limpieza', '#F59E0B'),
+	('cat-otros', 'Otros', '#6B7280')
+ON CONFLICT ("id") DO NOTHING;
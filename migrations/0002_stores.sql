@@ -0,0 +1,33 @@
+CREATE TABLE "store_members" (
+	"store_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"role" text DEFAULT 'member' NOT NULL,
+	CONSTRAINT "store_members_store_id_user_id_pk" PRIMARY KEY("store_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "stores" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Rows created before stores existed were shared by everyone: move them into
+-- one store and make every user that owns a row a member of it.
+INSERT INTO "stores" ("id", "name") VALUES ('store-default', 'Tienda principal');--> statement-breakpoint
+INSERT INTO "store_members" ("store_id", "user_id", "role")
+	SELECT DISTINCT 'store-default', "user_id", 'owner' FROM (
+		SELECT "user_id" FROM "products" UNION SELECT "user_id" FROM "sales"
+	) AS "owners" WHERE "user_id" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" DROP CONSTRAINT "products_category_id_categories_id_fk";--> statement-breakpoint
+ALTER TABLE "categories" DROP CONSTRAINT "categories_pkey";--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "store_id" varchar NOT NULL DEFAULT 'store-default';--> statement-breakpoint
+ALTER TABLE "categories" ALTER COLUMN "store_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_store_id_id_pk" PRIMARY KEY("store_id","id");--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "store_id" varchar NOT NULL DEFAULT 'store-default';--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "store_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "sales" ADD COLUMN "store_id" varchar NOT NULL DEFAULT 'store-default';--> statement-breakpoint
+ALTER TABLE "sales" ALTER COLUMN "store_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "store_members" ADD CONSTRAINT "store_members_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sales" ADD CONSTRAINT "sales_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;
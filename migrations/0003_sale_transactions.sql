@@ -0,0 +1,31 @@
+CREATE TABLE "sale_lines" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transaction_id" varchar NOT NULL,
+	"product_id" varchar,
+	"product_name" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_price" real NOT NULL,
+	"total" real NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sale_transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"date" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"item_count" integer NOT NULL,
+	"total" real NOT NULL,
+	"payment_method" text DEFAULT 'cash' NOT NULL,
+	"local_id" varchar,
+	"synced" integer DEFAULT 1 NOT NULL,
+	"user_id" varchar,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sale_lines" ADD CONSTRAINT "sale_lines_transaction_id_sale_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."sale_transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sale_lines" ADD CONSTRAINT "sale_lines_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD CONSTRAINT "sale_transactions_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Every old single-line sale becomes a transaction with one line
+INSERT INTO "sale_transactions" ("id", "date", "created_at", "item_count", "total", "local_id", "synced", "user_id", "store_id")
+	SELECT "id", "date", "date"::timestamp, "quantity", "total", "local_id", "synced", "user_id", "store_id" FROM "sales";--> statement-breakpoint
+INSERT INTO "sale_lines" ("transaction_id", "product_id", "product_name", "quantity", "unit_price", "total")
+	SELECT "id", "product_id", "product_name", "quantity", "unit_price", "total" FROM "sales";
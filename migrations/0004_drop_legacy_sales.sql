@@ -0,0 +1 @@
+DROP TABLE "sales" CASCADE;
\ No newline at end of file
@@ -0,0 +1,17 @@
+-- Retried syncs may already have stored the same localId twice; one record
+-- keeps the key. For sales it is the oldest (by created_at, then id). Products
+-- carry no creation time and their IDs are random UUIDs, so the one with the
+-- lowest ID keeps it: any of the copies is the same product.
+UPDATE "products" p SET "local_id" = NULL
+WHERE "local_id" IS NOT NULL AND EXISTS (
+  SELECT 1 FROM "products" o
+  WHERE o."store_id" = p."store_id" AND o."local_id" = p."local_id" AND o."id" < p."id"
+);--> statement-breakpoint
+UPDATE "sale_transactions" s SET "local_id" = NULL
+WHERE "local_id" IS NOT NULL AND EXISTS (
+  SELECT 1 FROM "sale_transactions" o
+  WHERE o."store_id" = s."store_id" AND o."local_id" = s."local_id"
+    AND (o."created_at", o."id") < (s."created_at", s."id")
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "products_store_local_id_idx" ON "products" USING btree ("store_id","local_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "sale_transactions_store_local_id_idx" ON "sale_transactions" USING btree ("store_id","local_id");
@@ -0,0 +1,29 @@
+CREATE TABLE "changes" (
+	"seq" bigserial PRIMARY KEY NOT NULL,
+	"store_id" varchar NOT NULL,
+	"entity" text NOT NULL,
+	"entity_id" varchar NOT NULL,
+	"deleted" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "changes_store_seq_idx" ON "changes" USING btree ("store_id","seq");--> statement-breakpoint
+CREATE OR REPLACE FUNCTION "record_change"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO "changes" ("store_id", "entity", "entity_id", "deleted") VALUES (OLD."store_id", TG_ARGV[0], OLD."id", true);
+    RETURN OLD;
+  END IF;
+  INSERT INTO "changes" ("store_id", "entity", "entity_id") VALUES (NEW."store_id", TG_ARGV[0], NEW."id");
+  RETURN NEW;
+END;
+$$;--> statement-breakpoint
+CREATE TRIGGER "categories_record_change" AFTER INSERT OR UPDATE OR DELETE ON "categories"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('category');--> statement-breakpoint
+CREATE TRIGGER "products_record_change" AFTER INSERT OR UPDATE OR DELETE ON "products"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('product');--> statement-breakpoint
+CREATE TRIGGER "sale_transactions_record_change" AFTER INSERT OR UPDATE OR DELETE ON "sale_transactions"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('sale');--> statement-breakpoint
+-- Existing rows enter the feed once, so a client starting from cursor 0 gets everything
+INSERT INTO "changes" ("store_id", "entity", "entity_id") SELECT "store_id", 'category', "id" FROM "categories";--> statement-breakpoint
+INSERT INTO "changes" ("store_id", "entity", "entity_id") SELECT "store_id", 'product', "id" FROM "products";--> statement-breakpoint
+INSERT INTO "changes" ("store_id", "entity", "entity_id") SELECT "store_id", 'sale', "id" FROM "sale_transactions" ORDER BY "created_at";
@@ -0,0 +1,22 @@
+ALTER TABLE "stock_movements" ADD COLUMN "note" text;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "sale_id" varchar;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_sale_id_sale_transactions_id_fk" FOREIGN KEY ("sale_id") REFERENCES "public"."sale_transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "stock_movements_product_idx" ON "stock_movements" USING btree ("product_id","created_at");--> statement-breakpoint
+-- Quantity edits were the only movements so far
+UPDATE "stock_movements" SET "reason" = 'count_correction' WHERE "reason" = 'adjustment';--> statement-breakpoint
+-- Past sales enter the ledger
+INSERT INTO "stock_movements" ("product_id", "delta", "reason", "created_at", "user_id", "sale_id", "store_id")
+SELECT l."product_id", -l."quantity", 'sale', s."created_at", s."user_id", s."id", s."store_id"
+FROM "sale_lines" l JOIN "sale_transactions" s ON s."id" = l."transaction_id"
+WHERE l."product_id" IS NOT NULL;--> statement-breakpoint
+-- Whatever the ledger can't explain becomes an opening balance before its first movement
+INSERT INTO "stock_movements" ("product_id", "delta", "reason", "note", "created_at", "store_id")
+SELECT p."id", p."quantity" - coalesce(m."total", 0), 'count_correction', 'Saldo inicial',
+  coalesce(m."first" - interval '1 second', now()), p."store_id"
+FROM "products" p
+LEFT JOIN (
+  SELECT "product_id", sum("delta") AS "total", min("created_at") AS "first"
+  FROM "stock_movements" GROUP BY "product_id"
+) m ON m."product_id" = p."id"
+WHERE p."quantity" <> coalesce(m."total", 0);
@@ -0,0 +1,55 @@
+CREATE TABLE "purchase_order_lines" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"product_id" varchar,
+	"product_name" text NOT NULL,
+	"quantity_ordered" integer NOT NULL,
+	"quantity_received" integer DEFAULT 0 NOT NULL,
+	"unit_cost" real NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_orders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplier_id" varchar,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"synced" integer DEFAULT 1 NOT NULL,
+	"user_id" varchar,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_receipts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"local_id" varchar,
+	"user_id" varchar,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "suppliers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"phone" text,
+	"email" text,
+	"notes" text,
+	"synced" integer DEFAULT 1 NOT NULL,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "cost" real;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "purchase_order_id" varchar;--> statement-breakpoint
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_order_id_purchase_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_receipts" ADD CONSTRAINT "purchase_receipts_order_id_purchase_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_receipts" ADD CONSTRAINT "purchase_receipts_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "suppliers" ADD CONSTRAINT "suppliers_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "purchase_receipts_store_local_id_idx" ON "purchase_receipts" USING btree ("store_id","local_id");--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "public"."purchase_orders"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE TRIGGER "suppliers_record_change" AFTER INSERT OR UPDATE OR DELETE ON "suppliers"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('supplier');--> statement-breakpoint
+CREATE TRIGGER "purchase_orders_record_change" AFTER INSERT OR UPDATE OR DELETE ON "purchase_orders"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('purchase_order');
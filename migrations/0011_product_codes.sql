@@ -0,0 +1,4 @@
+ALTER TABLE "products" ADD COLUMN "sku" text;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "barcodes" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+CREATE INDEX "products_store_sku_idx" ON "products" USING btree ("store_id","sku");--> statement-breakpoint
+CREATE INDEX "products_barcodes_idx" ON "products" USING gin ("barcodes");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "products" ADD COLUMN "parent_id" varchar;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "variant_name" text;--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_parent_id_products_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "products_parent_idx" ON "products" USING btree ("parent_id");
\ No newline at end of file
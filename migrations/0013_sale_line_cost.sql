@@ -0,0 +1 @@
+ALTER TABLE "sale_lines" ADD COLUMN "unit_cost" real;
\ No newline at end of file
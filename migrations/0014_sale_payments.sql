@@ -0,0 +1,13 @@
+CREATE TABLE "sale_payments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transaction_id" varchar NOT NULL,
+	"method" text NOT NULL,
+	"amount" real NOT NULL,
+	"tendered" real
+);
+--> statement-breakpoint
+ALTER TABLE "sale_payments" ADD CONSTRAINT "sale_payments_transaction_id_sale_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."sale_transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sale_payments_transaction_idx" ON "sale_payments" USING btree ("transaction_id");--> statement-breakpoint
+-- Sales recorded so far were paid in full with their one method
+INSERT INTO "sale_payments" ("transaction_id", "method", "amount")
+	SELECT "id", "payment_method", "total" FROM "sale_transactions";
@@ -0,0 +1,43 @@
+CREATE TABLE "cash_movements" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shift_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"amount" real NOT NULL,
+	"note" text,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cash_shifts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"opened_at" timestamp NOT NULL,
+	"closed_at" timestamp NOT NULL,
+	"opening_float" real NOT NULL,
+	"sales_count" integer NOT NULL,
+	"sales_total" real NOT NULL,
+	"payment_totals" jsonb NOT NULL,
+	"pay_ins" real NOT NULL,
+	"pay_outs" real NOT NULL,
+	"expected_cash" real NOT NULL,
+	"counted_cash" real NOT NULL,
+	"difference" real NOT NULL,
+	"user_id" varchar,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD COLUMN "shift_id" varchar;--> statement-breakpoint
+ALTER TABLE "cash_movements" ADD CONSTRAINT "cash_movements_shift_id_cash_shifts_id_fk" FOREIGN KEY ("shift_id") REFERENCES "public"."cash_shifts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "cash_movements_shift_idx" ON "cash_movements" USING btree ("shift_id");--> statement-breakpoint
+CREATE INDEX "cash_shifts_store_closed_idx" ON "cash_shifts" USING btree ("store_id","closed_at");--> statement-breakpoint
+CREATE TRIGGER "cash_shifts_record_change" AFTER INSERT OR UPDATE OR DELETE ON "cash_shifts"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('cash_shift');--> statement-breakpoint
+-- A Z-report is final: its shift and movements can be deleted with the store, never edited
+CREATE OR REPLACE FUNCTION "reject_update"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION '% rows can''t be changed', TG_TABLE_NAME;
+END;
+$$;--> statement-breakpoint
+CREATE TRIGGER "cash_shifts_reject_update" BEFORE UPDATE ON "cash_shifts"
+  FOR EACH ROW EXECUTE FUNCTION "reject_update"();--> statement-breakpoint
+CREATE TRIGGER "cash_movements_reject_update" BEFORE UPDATE ON "cash_movements"
+  FOR EACH ROW EXECUTE FUNCTION "reject_update"();
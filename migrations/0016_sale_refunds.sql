@@ -0,0 +1,5 @@
+ALTER TABLE "sale_transactions" ADD COLUMN "kind" text DEFAULT 'sale' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD COLUMN "original_sale_id" varchar;--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD COLUMN "reason" text;--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD CONSTRAINT "sale_transactions_original_sale_id_sale_transactions_id_fk" FOREIGN KEY ("original_sale_id") REFERENCES "public"."sale_transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sale_transactions_original_idx" ON "sale_transactions" USING btree ("original_sale_id");
\ No newline at end of file
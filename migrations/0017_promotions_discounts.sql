@@ -0,0 +1,22 @@
+CREATE TABLE "promotions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"product_id" varchar,
+	"buy_quantity" integer,
+	"get_quantity" integer,
+	"category_id" varchar,
+	"percent" real,
+	"starts_at" text,
+	"ends_at" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"synced" integer DEFAULT 1 NOT NULL,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sale_lines" ADD COLUMN "discount" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sale_lines" ADD COLUMN "promotion_id" varchar;--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD COLUMN "discount" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE TRIGGER "promotions_record_change" AFTER INSERT OR UPDATE OR DELETE ON "promotions"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('promotion');
@@ -0,0 +1,9 @@
+ALTER TABLE "categories" ADD COLUMN "tax_rate" real;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "tax_exempt" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "tax_rate" real;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "tax_exempt" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "sale_lines" ADD COLUMN "tax_rate" real;--> statement-breakpoint
+ALTER TABLE "sale_lines" ADD COLUMN "tax" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD COLUMN "prices_include_tax" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "stores" ADD COLUMN "prices_include_tax" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "stores" ADD COLUMN "tax_rate" real;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "customer_payments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"customer_id" varchar NOT NULL,
+	"amount" real NOT NULL,
+	"method" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"user_id" varchar,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "customers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"phone" text,
+	"notes" text,
+	"credit_limit" real,
+	"synced" integer DEFAULT 1 NOT NULL,
+	"store_id" varchar NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sale_transactions" ADD COLUMN "customer_id" varchar;--> statement-breakpoint
+ALTER TABLE "customer_payments" ADD CONSTRAINT "customer_payments_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customer_payments" ADD CONSTRAINT "customer_payments_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customers" ADD CONSTRAINT "customers_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "customer_payments_customer_idx" ON "customer_payments" USING btree ("customer_id");--> statement-breakpoint
+CREATE INDEX "sale_transactions_customer_idx" ON "sale_transactions" USING btree ("customer_id");--> statement-breakpoint
+CREATE TRIGGER "customers_record_change" AFTER INSERT OR UPDATE OR DELETE ON "customers"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('customer');
+--> statement-breakpoint
+CREATE TRIGGER "customer_payments_record_change" AFTER INSERT OR UPDATE OR DELETE ON "customer_payments"
+  FOR EACH ROW EXECUTE FUNCTION "record_change"('customer_payment');
@@ -0,0 +1,23 @@
+-- A change's seq is taken when its row is inserted but only seen once its
+-- transaction commits, so rows can show up behind a cursor a client already
+-- has. Writers now hold a shared per-store lock until they commit, and
+-- "committed_change_seq" waits for them to get the seq below which every
+-- change of the store is committed; GET /api/changes serves no further.
+CREATE OR REPLACE FUNCTION "record_change"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM pg_advisory_xact_lock_shared(hashtext('changes:' || OLD."store_id"));
+    INSERT INTO "changes" ("store_id", "entity", "entity_id", "deleted") VALUES (OLD."store_id", TG_ARGV[0], OLD."id", true);
+    RETURN OLD;
+  END IF;
+  PERFORM pg_advisory_xact_lock_shared(hashtext('changes:' || NEW."store_id"));
+  INSERT INTO "changes" ("store_id", "entity", "entity_id") VALUES (NEW."store_id", TG_ARGV[0], NEW."id");
+  RETURN NEW;
+END;
+$$;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION "committed_change_seq"("p_store_id" varchar) RETURNS bigint LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('changes:' || "p_store_id"));
+  RETURN (SELECT "last_value" FROM "changes_seq_seq");
+END;
+$$;
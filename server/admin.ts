@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabase } from './supabase';
+import { getUserFromToken, resolveActiveStore, StoreAccessError } from './auth';
+import { isLocalAuth, createLocalUser, listLocalUsers, deleteLocalUser } from './localAuth';
 
 // Admin email - only this email can access admin functions
 const ADMIN_EMAIL = 'proyectooro69@gmail.com';
@@ -7,6 +9,7 @@ const ADMIN_EMAIL = 'proyectooro69@gmail.com';
 export interface AdminRequest extends Request {
   userId?: string;
   userEmail?: string;
+  storeId?: string;
   isAdmin?: boolean;
 }
 
@@ -24,9 +27,9 @@ export async function adminMiddleware(
   const token = authHeader.substring(7);
   
   try {
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const user = await getUserFromToken(token);
     
-    if (error || !user) {
+    if (!user) {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
     
@@ -38,14 +41,22 @@ export async function adminMiddleware(
       return res.status(403).json({ error: 'Access denied. Admin only.' });
     }
     
+    req.storeId = (await resolveActiveStore(user.id, req.header('x-store-id'))).id;
     next();
   } catch (error) {
+    if (error instanceof StoreAccessError) {
+      return res.status(403).json({ error: error.message });
+    }
     return res.status(401).json({ error: 'Authentication failed' });
   }
 }
 
 // Invite a new user using Supabase Admin API
 export async function inviteUser(email: string, password: string) {
+  if (isLocalAuth()) {
+    return createLocalUser(email);
+  }
+
   const { data, error } = await supabase.auth.admin.createUser({
     email,
     password,
@@ -61,6 +72,10 @@ export async function inviteUser(email: string, password: string) {
 
 // List all users
 export async function listUsers() {
+  if (isLocalAuth()) {
+    return listLocalUsers().filter(u => u.email !== ADMIN_EMAIL);
+  }
+
   const { data, error } = await supabase.auth.admin.listUsers();
   
   if (error) {
@@ -80,6 +95,10 @@ export async function listUsers() {
 
 // Delete a user
 export async function deleteUser(userId: string) {
+  if (isLocalAuth()) {
+    return deleteLocalUser(userId);
+  }
+
   const { error } = await supabase.auth.admin.deleteUser(userId);
   
   if (error) {
@@ -1,9 +1,72 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabase } from './supabase';
+import { isLocalAuth, getLocalUser } from './localAuth';
+import { storage } from './storage';
+import type { StoreMembership } from '@shared/schema';
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
   userEmail?: string;
+  storeId?: string;
+}
+
+// The local stand-in takes any email as a password, so never start with it
+// in production
+if (isLocalAuth() && process.env.NODE_ENV === 'production') {
+  throw new Error('AUTH_MODE=local is for development only and cannot run with NODE_ENV=production');
+}
+
+// Thrown when a user asks for a store they are not a member of
+export class StoreAccessError extends Error {}
+
+// First sign-ins in flight, so parallel requests don't create two stores
+const provisioning = new Map<string, Promise<StoreMembership>>();
+
+// Resolve the user behind a bearer token (Supabase Auth, or the local stand-in)
+export async function getUserFromToken(token: string): Promise<{ id: string; email?: string } | null> {
+  if (isLocalAuth()) {
+    return getLocalUser(token);
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  return { id: user.id, email: user.email };
+}
+
+// Resolve the store a request works on. The client may pick one of the user's
+// stores with the X-Store-Id header; otherwise the oldest membership is used.
+// Users without any store get their own on first sign-in.
+export async function resolveActiveStore(
+  userId: string,
+  requestedStoreId?: string
+): Promise<StoreMembership> {
+  const memberships = await storage.getStoresForUser(userId);
+
+  if (requestedStoreId) {
+    const membership = memberships.find((m) => m.id === requestedStoreId);
+    if (!membership) {
+      throw new StoreAccessError('Not a member of this store');
+    }
+    return membership;
+  }
+
+  if (memberships.length > 0) {
+    return memberships[0];
+  }
+
+  let pending = provisioning.get(userId);
+  if (!pending) {
+    pending = storage
+      .createStore({ name: 'Mi tienda' }, userId)
+      .then((store): StoreMembership => ({ ...store, role: 'owner' }))
+      .finally(() => provisioning.delete(userId));
+    provisioning.set(userId, pending);
+  }
+  return pending;
 }
 
 export async function authMiddleware(
@@ -20,16 +83,20 @@ export async function authMiddleware(
   const token = authHeader.substring(7);
   
   try {
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const user = await getUserFromToken(token);
     
-    if (error || !user) {
+    if (!user) {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
     
     req.userId = user.id;
     req.userEmail = user.email;
+    req.storeId = (await resolveActiveStore(user.id, req.header('x-store-id'))).id;
     next();
   } catch (error) {
+    if (error instanceof StoreAccessError) {
+      return res.status(403).json({ error: error.message });
+    }
     return res.status(401).json({ error: 'Authentication failed' });
   }
 }
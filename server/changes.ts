@@ -0,0 +1,61 @@
+import type { Change, ChangeEntity, ChangeSet } from "@shared/schema";
+
+// Largest page GET /api/changes returns
+export const CHANGES_PAGE_SIZE = 500;
+
+// Reduce a page of the change feed to the latest change per row: the IDs to
+// load (still present) and the ones to send as tombstones
+export function collapseChanges(page: Pick<Change, 'seq' | 'entity' | 'entityId' | 'deleted'>[], since: number) {
+  const latest = new Map<string, Pick<Change, 'entity' | 'entityId' | 'deleted'>>();
+  page.forEach((change) => latest.set(`${change.entity}:${change.entityId}`, change));
+
+  const upserts: Record<ChangeEntity, string[]> = { category: [], product: [], sale: [], supplier: [], purchase_order: [], cash_shift: [], promotion: [], customer: [], customer_payment: [] };
+  const deleted: { entity: ChangeEntity; id: string }[] = [];
+  latest.forEach((change) => {
+    if (change.deleted) {
+      deleted.push({ entity: change.entity, id: change.entityId });
+    } else {
+      upserts[change.entity].push(change.entityId);
+    }
+  });
+
+  return {
+    upserts,
+    deleted,
+    cursor: page.length > 0 ? page[page.length - 1].seq : since,
+    hasMore: page.length === CHANGES_PAGE_SIZE,
+  };
+}
+
+// The current rows behind a page's upserts
+export type ChangedRows = Omit<ChangeSet, 'cursor' | 'hasMore' | 'deleted'>;
+
+// Build the page for the client. Rows that changed and were deleted again
+// before they could be loaded are sent as tombstones.
+export function toChangeSet(collapsed: ReturnType<typeof collapseChanges>, rows: ChangedRows): ChangeSet {
+  const deleted = [...collapsed.deleted];
+  const ids = (list: { id: string }[]) => new Set(list.map((row) => row.id));
+  const found: Record<ChangeEntity, Set<string>> = {
+    category: ids(rows.categories),
+    product: ids(rows.products),
+    sale: ids(rows.sales),
+    supplier: ids(rows.suppliers),
+    purchase_order: ids(rows.purchaseOrders),
+    cash_shift: ids(rows.cashShifts),
+    promotion: ids(rows.promotions),
+    customer: ids(rows.customers),
+    customer_payment: ids(rows.customerPayments),
+  };
+  (Object.keys(found) as ChangeEntity[]).forEach((entity) => {
+    collapsed.upserts[entity]
+      .filter((id) => !found[entity].has(id))
+      .forEach((id) => deleted.push({ entity, id }));
+  });
+
+  return {
+    cursor: collapsed.cursor,
+    hasMore: collapsed.hasMore,
+    ...rows,
+    deleted,
+  };
+}
@@ -0,0 +1,15 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Create a Drizzle client for a plain PostgreSQL database (self-hosted shops)
+export function createDatabase(connectionString = process.env.DATABASE_URL): Database {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set when STORAGE_BACKEND=postgres");
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
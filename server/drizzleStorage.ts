@@ -0,0 +1,946 @@
+import { and, asc, desc, eq, gt, inArray, lte, ne, or, sql } from "drizzle-orm";
+import {
+  DEFAULT_CATEGORIES,
+  users,
+  stores,
+  storeMembers,
+  categories,
+  products,
+  saleTransactions,
+  saleLines,
+  salePayments,
+  stockMovements,
+  suppliers,
+  promotions,
+  customers,
+  customerPayments,
+  purchaseOrders,
+  purchaseOrderLines,
+  purchaseReceipts,
+  cashShifts,
+  cashMovements,
+  changes,
+  computeSaleTotals,
+  resolveSalePayments,
+  computeShiftTotals,
+  shiftSalesTotals,
+  receivedStatus,
+  type User,
+  type InsertUser,
+  type Store,
+  type InsertStore,
+  type UpdateStore,
+  type StoreMember,
+  type StoreMembership,
+  type StoreRole,
+  type Product,
+  type InsertProduct,
+  type UpdateProduct,
+  type Category,
+  type InsertCategory,
+  type Sale,
+  type InsertSale,
+  type SaleResult,
+  type CashShift,
+  type InsertCashShift,
+  type StockWarning,
+  type InsertStockMovement,
+  type StockMovement,
+  type Supplier,
+  type InsertSupplier,
+  type Promotion,
+  type InsertPromotion,
+  type Customer,
+  type InsertCustomer,
+  type CustomerPayment,
+  type InsertCustomerPayment,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type InsertPurchaseOrderLine,
+  type UpdatePurchaseOrder,
+  type ReceivePurchaseOrder,
+  type ChangeSet,
+} from "@shared/schema";
+import { CHANGES_PAGE_SIZE, collapseChanges, toChangeSet } from "./changes";
+import type { Database } from "./db";
+import {
+  IdConflictError,
+  ProductConflictError,
+  PurchaseOrderStateError,
+  SaleCustomerError,
+  checkProductParent,
+  checkPurchaseOrderReceipt,
+  checkPurchaseOrderUpdate,
+  checkSaleRefund,
+  type IStorage,
+} from "./storage";
+
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getStoresForUser(userId: string): Promise<StoreMembership[]> {
+    const rows = await this.db
+      .select({ store: stores, role: storeMembers.role })
+      .from(storeMembers)
+      .innerJoin(stores, eq(stores.id, storeMembers.storeId))
+      .where(eq(storeMembers.userId, userId))
+      .orderBy(stores.createdAt);
+    return rows.map(({ store, role }) => ({ ...store, role }));
+  }
+
+  async createStore(insertStore: InsertStore, ownerId: string): Promise<Store> {
+    return this.db.transaction(async (tx) => {
+      const [store] = await tx.insert(stores).values(insertStore).returning();
+      await tx.insert(storeMembers).values({ storeId: store.id, userId: ownerId, role: 'owner' });
+      await tx.insert(categories).values(DEFAULT_CATEGORIES.map((c) => ({ ...c, storeId: store.id })));
+      return store;
+    });
+  }
+
+  async addStoreMember(storeId: string, userId: string, role: StoreRole): Promise<StoreMember> {
+    const [member] = await this.db
+      .insert(storeMembers)
+      .values({ storeId, userId, role })
+      .onConflictDoUpdate({ target: [storeMembers.storeId, storeMembers.userId], set: { role } })
+      .returning();
+    return member;
+  }
+
+  async updateStore(id: string, updates: UpdateStore): Promise<Store | undefined> {
+    if (Object.keys(updates).length === 0) {
+      const [store] = await this.db.select().from(stores).where(eq(stores.id, id));
+      return store;
+    }
+
+    const [store] = await this.db.update(stores).set(updates).where(eq(stores.id, id)).returning();
+    return store;
+  }
+
+  async getCategories(storeId: string): Promise<Category[]> {
+    return this.db
+      .select()
+      .from(categories)
+      .where(eq(categories.storeId, storeId))
+      .orderBy(categories.name);
+  }
+
+  async getCategory(id: string, storeId: string): Promise<Category | undefined> {
+    const [category] = await this.db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.storeId, storeId), eq(categories.id, id)));
+    return category;
+  }
+
+  async createCategory(insertCategory: InsertCategory, storeId: string, id?: string): Promise<Category> {
+    const [category] = await this.db
+      .insert(categories)
+      .values({ ...insertCategory, storeId, ...(id ? { id } : {}) })
+      .onConflictDoNothing()
+      .returning();
+    return category ?? (await this.getCategory(id!, storeId))!;
+  }
+
+  async updateCategory(id: string, updates: Partial<InsertCategory>, storeId: string): Promise<Category | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getCategory(id, storeId);
+    }
+
+    const [category] = await this.db
+      .update(categories)
+      .set(updates)
+      .where(and(eq(categories.storeId, storeId), eq(categories.id, id)))
+      .returning();
+    return category;
+  }
+
+  async deleteCategory(id: string, storeId: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Category IDs are only unique per store, so there is no FK to null this out
+      await tx
+        .update(products)
+        .set({ categoryId: null })
+        .where(and(eq(products.storeId, storeId), eq(products.categoryId, id)));
+
+      const deleted = await tx
+        .delete(categories)
+        .where(and(eq(categories.storeId, storeId), eq(categories.id, id)))
+        .returning({ id: categories.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getProducts(storeId: string): Promise<Product[]> {
+    return this.db
+      .select()
+      .from(products)
+      .where(eq(products.storeId, storeId))
+      .orderBy(products.name);
+  }
+
+  async getProduct(id: string, storeId: string): Promise<Product | undefined> {
+    const [product] = await this.db
+      .select()
+      .from(products)
+      .where(and(eq(products.storeId, storeId), eq(products.id, id)));
+    return product;
+  }
+
+  private async hasVariants(id: string, storeId: string): Promise<boolean> {
+    const [variant] = await this.db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.storeId, storeId), eq(products.parentId, id)))
+      .limit(1);
+    return !!variant;
+  }
+
+  async createProduct(insertProduct: InsertProduct, storeId: string, userId?: string): Promise<Product> {
+    if (insertProduct.parentId) {
+      checkProductParent(null, await this.getProduct(insertProduct.parentId, storeId), false);
+    }
+
+    return this.db.transaction(async (tx) => {
+      const [product] = await tx
+        .insert(products)
+        .values({ ...insertProduct, storeId, userId: userId ?? null })
+        .onConflictDoNothing({ target: [products.storeId, products.localId] })
+        .returning();
+
+      if (product) {
+        if (product.quantity !== 0) {
+          await tx.insert(stockMovements).values({
+            productId: product.id,
+            delta: product.quantity,
+            reason: 'receipt',
+            userId: userId ?? null,
+            storeId,
+          });
+        }
+        return product;
+      }
+
+      // Replayed localId: hand back the product created the first time
+      const [existing] = await tx
+        .select()
+        .from(products)
+        .where(and(eq(products.storeId, storeId), eq(products.localId, insertProduct.localId!)));
+      return existing;
+    });
+  }
+
+  async updateProduct(id: string, updates: UpdateProduct, storeId: string): Promise<Product | undefined> {
+    const values: Partial<InsertProduct> = {};
+
+    if (updates.name !== undefined) values.name = updates.name;
+    if (updates.price !== undefined) values.price = updates.price;
+    if (updates.cost !== undefined) values.cost = updates.cost;
+    if (updates.sku !== undefined) values.sku = updates.sku;
+    if (updates.barcodes !== undefined) values.barcodes = updates.barcodes;
+    if (updates.categoryId !== undefined) values.categoryId = updates.categoryId;
+    if (updates.parentId !== undefined) values.parentId = updates.parentId;
+    if (updates.variantName !== undefined) values.variantName = updates.variantName;
+    if (updates.taxRate !== undefined) values.taxRate = updates.taxRate;
+    if (updates.taxExempt !== undefined) values.taxExempt = updates.taxExempt;
+
+    if (Object.keys(values).length === 0) {
+      return this.getProduct(id, storeId);
+    }
+    if (updates.parentId) {
+      checkProductParent(id, await this.getProduct(updates.parentId, storeId), await this.hasVariants(id, storeId));
+    }
+
+    const conditions = [eq(products.storeId, storeId), eq(products.id, id)];
+    if (updates.version !== undefined) conditions.push(eq(products.version, updates.version));
+
+    const [product] = await this.db
+      .update(products)
+      .set({ ...values, version: sql`${products.version} + 1` })
+      .where(and(...conditions))
+      .returning();
+    if (product || updates.version === undefined) return product;
+
+    // Nothing matched: either the product is gone or the edit is stale
+    const current = await this.getProduct(id, storeId);
+    if (current) throw new ProductConflictError(current);
+    return undefined;
+  }
+
+  async deleteProduct(id: string, storeId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(products)
+      .where(and(eq(products.storeId, storeId), eq(products.id, id)))
+      .returning({ id: products.id });
+    return deleted.length > 0;
+  }
+
+  async recordStockMovement(movement: InsertStockMovement, storeId: string, userId?: string): Promise<Product | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [product] = await tx
+        .select()
+        .from(products)
+        .where(and(eq(products.storeId, storeId), eq(products.id, movement.productId)));
+      if (!product) return undefined;
+
+      const [inserted] = await tx
+        .insert(stockMovements)
+        .values({ ...movement, storeId, userId: userId ?? null })
+        .onConflictDoNothing({ target: [stockMovements.storeId, stockMovements.localId] })
+        .returning();
+
+      // Replayed localId: the delta was applied the first time
+      if (!inserted) return product;
+
+      // Add in SQL so concurrent movements and sales all count
+      const [updated] = await tx
+        .update(products)
+        .set({ quantity: sql`${products.quantity} + ${inserted.delta}` })
+        .where(eq(products.id, product.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getStockMovements(productId: string, storeId: string): Promise<StockMovement[]> {
+    return this.db
+      .select()
+      .from(stockMovements)
+      .where(and(eq(stockMovements.storeId, storeId), eq(stockMovements.productId, productId)))
+      .orderBy(desc(stockMovements.createdAt));
+  }
+
+  async getSuppliers(storeId: string): Promise<Supplier[]> {
+    return this.db
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.storeId, storeId))
+      .orderBy(suppliers.name);
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier, storeId: string): Promise<Supplier> {
+    const [supplier] = await this.db
+      .insert(suppliers)
+      .values({ ...insertSupplier, storeId })
+      .onConflictDoNothing()
+      .returning();
+    if (supplier) return supplier;
+
+    const [existing] = await this.db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.storeId, storeId), eq(suppliers.id, insertSupplier.id!)));
+    if (!existing) throw new IdConflictError('Supplier ID is already in use');
+    return existing;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>, storeId: string): Promise<Supplier | undefined> {
+    const { id: _id, ...values } = updates;
+    const where = and(eq(suppliers.storeId, storeId), eq(suppliers.id, id));
+
+    if (Object.keys(values).length === 0) {
+      const [supplier] = await this.db.select().from(suppliers).where(where);
+      return supplier;
+    }
+
+    const [supplier] = await this.db.update(suppliers).set(values).where(where).returning();
+    return supplier;
+  }
+
+  async deleteSupplier(id: string, storeId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(suppliers)
+      .where(and(eq(suppliers.storeId, storeId), eq(suppliers.id, id)))
+      .returning({ id: suppliers.id });
+    return deleted.length > 0;
+  }
+
+  async getPromotions(storeId: string): Promise<Promotion[]> {
+    return this.db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.storeId, storeId))
+      .orderBy(promotions.name);
+  }
+
+  async createPromotion(insertPromotion: InsertPromotion, storeId: string): Promise<Promotion> {
+    const [promotion] = await this.db
+      .insert(promotions)
+      .values({ ...insertPromotion, storeId })
+      .onConflictDoNothing()
+      .returning();
+    if (promotion) return promotion;
+
+    const [existing] = await this.db
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.storeId, storeId), eq(promotions.id, insertPromotion.id!)));
+    if (!existing) throw new IdConflictError('Promotion ID is already in use');
+    return existing;
+  }
+
+  async updatePromotion(id: string, updates: InsertPromotion, storeId: string): Promise<Promotion | undefined> {
+    const { id: _id, ...values } = updates;
+    const [promotion] = await this.db
+      .update(promotions)
+      .set({
+        productId: null,
+        buyQuantity: null,
+        getQuantity: null,
+        categoryId: null,
+        percent: null,
+        startsAt: null,
+        endsAt: null,
+        active: true,
+        ...values,
+      })
+      .where(and(eq(promotions.storeId, storeId), eq(promotions.id, id)))
+      .returning();
+    return promotion;
+  }
+
+  async deletePromotion(id: string, storeId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(promotions)
+      .where(and(eq(promotions.storeId, storeId), eq(promotions.id, id)))
+      .returning({ id: promotions.id });
+    return deleted.length > 0;
+  }
+
+  async getCustomers(storeId: string): Promise<Customer[]> {
+    return this.db
+      .select()
+      .from(customers)
+      .where(eq(customers.storeId, storeId))
+      .orderBy(customers.name);
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer, storeId: string): Promise<Customer> {
+    const [customer] = await this.db
+      .insert(customers)
+      .values({ ...insertCustomer, storeId })
+      .onConflictDoNothing()
+      .returning();
+    if (customer) return customer;
+
+    const [existing] = await this.db
+      .select()
+      .from(customers)
+      .where(and(eq(customers.storeId, storeId), eq(customers.id, insertCustomer.id!)));
+    if (!existing) throw new IdConflictError('Customer ID is already in use');
+    return existing;
+  }
+
+  async updateCustomer(id: string, updates: Partial<InsertCustomer>, storeId: string): Promise<Customer | undefined> {
+    const { id: _id, ...values } = updates;
+    const where = and(eq(customers.storeId, storeId), eq(customers.id, id));
+
+    if (Object.keys(values).length === 0) {
+      const [customer] = await this.db.select().from(customers).where(where);
+      return customer;
+    }
+
+    const [customer] = await this.db.update(customers).set(values).where(where).returning();
+    return customer;
+  }
+
+  // The foreign key deletes their payments; sales keep the customer ID
+  async deleteCustomer(id: string, storeId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(customers)
+      .where(and(eq(customers.storeId, storeId), eq(customers.id, id)))
+      .returning({ id: customers.id });
+    return deleted.length > 0;
+  }
+
+  async getCustomerPayments(storeId: string): Promise<CustomerPayment[]> {
+    return this.db
+      .select()
+      .from(customerPayments)
+      .where(eq(customerPayments.storeId, storeId))
+      .orderBy(desc(customerPayments.createdAt));
+  }
+
+  async createCustomerPayment(insertPayment: InsertCustomerPayment, storeId: string, userId?: string): Promise<CustomerPayment | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Replayed ID: hand back the payment recorded the first time
+      if (insertPayment.id) {
+        const [existing] = await tx
+          .select()
+          .from(customerPayments)
+          .where(and(eq(customerPayments.storeId, storeId), eq(customerPayments.id, insertPayment.id)));
+        if (existing) return existing;
+      }
+
+      const [customer] = await tx
+        .select({ id: customers.id })
+        .from(customers)
+        .where(and(eq(customers.storeId, storeId), eq(customers.id, insertPayment.customerId)));
+      if (!customer) return undefined;
+
+      const [payment] = await tx
+        .insert(customerPayments)
+        .values({ ...insertPayment, storeId, userId: userId ?? null })
+        .onConflictDoNothing()
+        .returning();
+      if (!payment) throw new IdConflictError('Customer payment ID is already in use');
+      return payment;
+    });
+  }
+
+  async getPurchaseOrders(storeId: string): Promise<PurchaseOrder[]> {
+    return this.db.query.purchaseOrders.findMany({
+      where: eq(purchaseOrders.storeId, storeId),
+      with: { lines: true },
+      orderBy: desc(purchaseOrders.createdAt),
+    });
+  }
+
+  async getPurchaseOrder(id: string, storeId: string): Promise<PurchaseOrder | undefined> {
+    return this.db.query.purchaseOrders.findFirst({
+      where: and(eq(purchaseOrders.storeId, storeId), eq(purchaseOrders.id, id)),
+      with: { lines: true },
+    });
+  }
+
+  // Only link lines to products of the same store
+  private async insertPurchaseOrderLines(tx: Transaction, orderId: string, lines: InsertPurchaseOrderLine[], storeId: string) {
+    const productIds = lines.map((l) => l.productId).filter((id): id is string => !!id);
+    const owned = productIds.length > 0
+      ? await tx
+          .select({ id: products.id })
+          .from(products)
+          .where(and(eq(products.storeId, storeId), inArray(products.id, productIds)))
+      : [];
+    const ownedIds = new Set(owned.map((p) => p.id));
+
+    return tx
+      .insert(purchaseOrderLines)
+      .values(lines.map((line) => ({
+        ...line,
+        productId: line.productId && ownedIds.has(line.productId) ? line.productId : null,
+        orderId,
+      })))
+      .returning();
+  }
+
+  async createPurchaseOrder(insertOrder: InsertPurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder> {
+    return this.db.transaction(async (tx) => {
+      const { lines, ...header } = insertOrder;
+
+      const [order] = await tx
+        .insert(purchaseOrders)
+        .values({ ...header, storeId, userId: userId ?? null })
+        .onConflictDoNothing()
+        .returning();
+
+      // Replayed ID: hand back the order created the first time
+      if (!order) {
+        const existing = await tx.query.purchaseOrders.findFirst({
+          where: and(eq(purchaseOrders.storeId, storeId), eq(purchaseOrders.id, header.id!)),
+          with: { lines: true },
+        });
+        if (!existing) throw new IdConflictError('Purchase order ID is already in use');
+        return existing;
+      }
+
+      const insertedLines = await this.insertPurchaseOrderLines(tx, order.id, lines, storeId);
+      return { ...order, lines: insertedLines };
+    });
+  }
+
+  async updatePurchaseOrder(id: string, updates: UpdatePurchaseOrder, storeId: string): Promise<PurchaseOrder | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.storeId, storeId), eq(purchaseOrders.id, id)))
+        .for('update');
+      if (!current) return undefined;
+      checkPurchaseOrderUpdate(current, updates);
+
+      const { lines, ...values } = updates;
+      if (lines) {
+        await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.orderId, id));
+        await this.insertPurchaseOrderLines(tx, id, lines, storeId);
+      }
+
+      // Always touches the header, so the change feed picks up new lines
+      await tx
+        .update(purchaseOrders)
+        .set({ ...values, status: values.status ?? current.status })
+        .where(eq(purchaseOrders.id, id));
+
+      return tx.query.purchaseOrders.findFirst({
+        where: eq(purchaseOrders.id, id),
+        with: { lines: true },
+      });
+    });
+  }
+
+  async deletePurchaseOrder(id: string, storeId: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const order = await tx.query.purchaseOrders.findFirst({
+        where: and(eq(purchaseOrders.storeId, storeId), eq(purchaseOrders.id, id)),
+        with: { lines: true },
+      });
+      if (!order) return false;
+      if (order.lines.some((line) => line.quantityReceived > 0)) {
+        throw new PurchaseOrderStateError('Purchase orders with goods received cannot be deleted');
+      }
+
+      await tx.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+      return true;
+    });
+  }
+
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the order so concurrent receipts add up
+      const [header] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.storeId, storeId), eq(purchaseOrders.id, id)))
+        .for('update');
+      if (!header) return undefined;
+
+      const lines = await tx.select().from(purchaseOrderLines).where(eq(purchaseOrderLines.orderId, id));
+      const order: PurchaseOrder = { ...header, lines };
+
+      const [inserted] = await tx
+        .insert(purchaseReceipts)
+        .values({
+          orderId: id,
+          createdAt: receipt.createdAt,
+          localId: receipt.localId,
+          userId: userId ?? null,
+          storeId,
+        })
+        .onConflictDoNothing({ target: [purchaseReceipts.storeId, purchaseReceipts.localId] })
+        .returning();
+
+      // Replayed localId: the goods were received the first time
+      if (!inserted) return order;
+      checkPurchaseOrderReceipt(order, receipt);
+
+      for (const received of receipt.lines) {
+        const line = lines.find((l) => l.id === received.lineId)!;
+        line.quantityReceived += received.quantity;
+        await tx
+          .update(purchaseOrderLines)
+          .set({ quantityReceived: line.quantityReceived })
+          .where(eq(purchaseOrderLines.id, line.id));
+
+        if (line.productId) {
+          const unitCost = received.unitCost ?? line.unitCost;
+          await tx.insert(stockMovements).values({
+            productId: line.productId,
+            delta: received.quantity,
+            reason: 'receipt',
+            createdAt: inserted.createdAt,
+            userId: inserted.userId,
+            purchaseOrderId: id,
+            storeId,
+          });
+          await tx
+            .update(products)
+            .set({
+              quantity: sql`${products.quantity} + ${received.quantity}`,
+              // Same as movingAverageCost, on the row's current values
+              cost: sql`CASE
+                WHEN ${products.cost} IS NULL OR ${products.quantity} <= 0 THEN ${unitCost}
+                ELSE (${products.quantity} * ${products.cost} + ${received.quantity} * ${unitCost}) / (${products.quantity} + ${received.quantity})
+              END`,
+            })
+            .where(eq(products.id, line.productId));
+        }
+      }
+
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({ status: receivedStatus(lines) })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return { ...updated, lines };
+    });
+  }
+
+  async getSales(storeId: string): Promise<Sale[]> {
+    return this.db.query.saleTransactions.findMany({
+      where: eq(saleTransactions.storeId, storeId),
+      with: { lines: true, payments: true },
+      orderBy: [desc(saleTransactions.date), desc(saleTransactions.createdAt)],
+    });
+  }
+
+  async getSalesByDate(date: string, storeId: string): Promise<Sale[]> {
+    return this.db.query.saleTransactions.findMany({
+      where: and(eq(saleTransactions.storeId, storeId), eq(saleTransactions.date, date)),
+      with: { lines: true, payments: true },
+      orderBy: saleTransactions.createdAt,
+    });
+  }
+
+  async createSale(insertSale: InsertSale, storeId: string, userId?: string): Promise<SaleResult> {
+    return this.db.transaction(async (tx) => {
+      const { lines, payments: _payments, ...header } = insertSale;
+      const totals = computeSaleTotals(lines);
+      const { payments, paymentMethod } = resolveSalePayments(insertSale, totals.total);
+
+      // Only link lines to products of the same store
+      const productIds = lines.map((l) => l.productId).filter((id): id is string => !!id);
+      const owned = productIds.length > 0
+        ? await tx
+            .select({ id: products.id, cost: products.cost })
+            .from(products)
+            .where(and(eq(products.storeId, storeId), inArray(products.id, productIds)))
+        : [];
+      const ownedCosts = new Map(owned.map((p) => [p.id, p.cost] as const));
+
+      // Locking the original sale makes refunds of it go one after another, so
+      // each is checked against the refunds committed before it
+      const refund = !!header.kind && header.kind !== 'sale';
+      const [locked] = refund
+        ? await tx
+            .select({ id: saleTransactions.id })
+            .from(saleTransactions)
+            .where(and(
+              eq(saleTransactions.storeId, storeId),
+              or(eq(saleTransactions.id, header.originalSaleId!), eq(saleTransactions.localId, header.originalSaleId!)),
+            ))
+            .for('update')
+        : [];
+      const original = locked
+        ? await tx.query.saleTransactions.findFirst({
+            where: eq(saleTransactions.id, locked.id),
+            with: { lines: true, payments: true },
+          })
+        : undefined;
+
+      const [transaction] = await tx
+        .insert(saleTransactions)
+        .values({
+          ...header,
+          ...totals,
+          paymentMethod,
+          originalSaleId: original?.id ?? null,
+          storeId,
+          userId: userId ?? null,
+        })
+        .onConflictDoNothing({ target: [saleTransactions.storeId, saleTransactions.localId] })
+        .returning();
+
+      // Replayed localId: hand back the sale recorded the first time, stock untouched
+      if (!transaction) {
+        const existing = await tx.query.saleTransactions.findFirst({
+          where: and(eq(saleTransactions.storeId, storeId), eq(saleTransactions.localId, header.localId!)),
+          with: { lines: true, payments: true },
+        });
+        return { sale: existing!, stockWarnings: [] };
+      }
+
+      // Checked once past the replay, against the refunds made before this
+      // one; throwing rolls the refund back
+      if (refund) {
+        const refunds = original
+          ? await tx.query.saleTransactions.findMany({
+              where: and(eq(saleTransactions.originalSaleId, original.id), ne(saleTransactions.id, transaction.id)),
+              with: { lines: true, payments: true },
+            })
+          : [];
+        checkSaleRefund(insertSale, original, refunds);
+      } else if (header.customerId) {
+        const [customer] = await tx
+          .select({ id: customers.id })
+          .from(customers)
+          .where(and(eq(customers.storeId, storeId), eq(customers.id, header.customerId)));
+        if (!customer) throw new SaleCustomerError('Customer not found');
+      }
+
+      const insertedLines = await tx
+        .insert(saleLines)
+        .values(lines.map((line) => {
+          const productId = line.productId && ownedCosts.has(line.productId) ? line.productId : null;
+          return {
+            ...line,
+            productId,
+            // Offline sales bring the cost they were made at
+            unitCost: line.unitCost ?? (productId ? ownedCosts.get(productId) ?? null : null),
+            transactionId: transaction.id,
+          };
+        }))
+        .returning();
+
+      const insertedPayments = await tx
+        .insert(salePayments)
+        .values(payments.map((payment) => ({ ...payment, transactionId: transaction.id })))
+        .returning();
+
+      const soldLines = insertedLines.filter((line) => line.productId);
+      if (soldLines.length > 0) {
+        await tx.insert(stockMovements).values(soldLines.map((line) => ({
+          productId: line.productId!,
+          delta: -line.quantity,
+          reason: refund ? 'return' as const : 'sale' as const,
+          createdAt: transaction.createdAt,
+          userId: transaction.userId,
+          saleId: transaction.id,
+          storeId,
+        })));
+      }
+
+      // Decrement in SQL so concurrent sales can't overwrite each other's counts
+      const stockWarnings: StockWarning[] = [];
+      for (const line of soldLines) {
+        const [product] = await tx
+          .update(products)
+          .set({ quantity: sql`${products.quantity} - ${line.quantity}` })
+          .where(eq(products.id, line.productId!))
+          .returning({ id: products.id, name: products.name, quantity: products.quantity });
+        if (product && product.quantity < 0) {
+          stockWarnings.push({ productId: product.id, productName: product.name, quantity: product.quantity });
+        }
+      }
+
+      return { sale: { ...transaction, lines: insertedLines, payments: insertedPayments }, stockWarnings };
+    });
+  }
+
+  async getCashShifts(storeId: string): Promise<CashShift[]> {
+    return this.db.query.cashShifts.findMany({
+      where: eq(cashShifts.storeId, storeId),
+      with: { movements: true },
+      orderBy: desc(cashShifts.closedAt),
+    });
+  }
+
+  async createCashShift(insertShift: InsertCashShift, storeId: string, userId?: string): Promise<CashShift> {
+    return this.db.transaction(async (tx) => {
+      const { movements, ...header } = insertShift;
+      const shiftSales = header.id
+        ? await tx.query.saleTransactions.findMany({
+            where: and(eq(saleTransactions.storeId, storeId), eq(saleTransactions.shiftId, header.id)),
+            columns: { kind: true, total: true },
+            with: { payments: { columns: { method: true, amount: true } } },
+          })
+        : [];
+      const sales = shiftSalesTotals(shiftSales);
+
+      const [shift] = await tx
+        .insert(cashShifts)
+        .values({
+          ...header,
+          ...sales,
+          ...computeShiftTotals({ ...insertShift, paymentTotals: sales.paymentTotals }),
+          storeId,
+          userId: userId ?? null,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      // Replayed ID: hand back the shift recorded the first time
+      if (!shift) {
+        const existing = await tx.query.cashShifts.findFirst({
+          where: and(eq(cashShifts.storeId, storeId), eq(cashShifts.id, header.id!)),
+          with: { movements: true },
+        });
+        if (!existing) throw new IdConflictError('Cash shift ID is already in use');
+        return existing;
+      }
+
+      const insertedMovements = movements.length > 0
+        ? await tx
+            .insert(cashMovements)
+            .values(movements.map((movement) => ({ ...movement, shiftId: shift.id })))
+            .returning()
+        : [];
+      return { ...shift, movements: insertedMovements };
+    });
+  }
+
+  // The changes table is filled by triggers on categories, products,
+  // sale_transactions, suppliers, purchase_orders, cash_shifts, promotions,
+  // customers and customer_payments
+  async getChanges(storeId: string, since: number): Promise<ChangeSet> {
+    // Changes past the committed seq may still have uncommitted ones before
+    // them, so they wait for the next call (see migrations/0020)
+    const { rows: [{ committed }] } = await this.db.execute<{ committed: string }>(
+      sql`select committed_change_seq(${storeId}) as committed`,
+    );
+    const page = await this.db
+      .select()
+      .from(changes)
+      .where(and(eq(changes.storeId, storeId), gt(changes.seq, since), lte(changes.seq, Number(committed))))
+      .orderBy(asc(changes.seq))
+      .limit(CHANGES_PAGE_SIZE);
+    const collapsed = collapseChanges(page, since);
+    const { upserts } = collapsed;
+
+    const [changedCategories, changedProducts, changedSales, changedSuppliers, changedOrders, changedShifts, changedPromotions, changedCustomers, changedPayments] = await Promise.all([
+      upserts.category.length > 0
+        ? this.db.select().from(categories).where(and(eq(categories.storeId, storeId), inArray(categories.id, upserts.category)))
+        : [],
+      upserts.product.length > 0
+        ? this.db.select().from(products).where(and(eq(products.storeId, storeId), inArray(products.id, upserts.product)))
+        : [],
+      upserts.sale.length > 0
+        ? this.db.query.saleTransactions.findMany({
+            where: and(eq(saleTransactions.storeId, storeId), inArray(saleTransactions.id, upserts.sale)),
+            with: { lines: true, payments: true },
+          })
+        : [],
+      upserts.supplier.length > 0
+        ? this.db.select().from(suppliers).where(and(eq(suppliers.storeId, storeId), inArray(suppliers.id, upserts.supplier)))
+        : [],
+      upserts.purchase_order.length > 0
+        ? this.db.query.purchaseOrders.findMany({
+            where: and(eq(purchaseOrders.storeId, storeId), inArray(purchaseOrders.id, upserts.purchase_order)),
+            with: { lines: true },
+          })
+        : [],
+      upserts.cash_shift.length > 0
+        ? this.db.query.cashShifts.findMany({
+            where: and(eq(cashShifts.storeId, storeId), inArray(cashShifts.id, upserts.cash_shift)),
+            with: { movements: true },
+          })
+        : [],
+      upserts.promotion.length > 0
+        ? this.db.select().from(promotions).where(and(eq(promotions.storeId, storeId), inArray(promotions.id, upserts.promotion)))
+        : [],
+      upserts.customer.length > 0
+        ? this.db.select().from(customers).where(and(eq(customers.storeId, storeId), inArray(customers.id, upserts.customer)))
+        : [],
+      upserts.customer_payment.length > 0
+        ? this.db.select().from(customerPayments).where(and(eq(customerPayments.storeId, storeId), inArray(customerPayments.id, upserts.customer_payment)))
+        : [],
+    ]);
+
+    return toChangeSet(collapsed, {
+      categories: changedCategories,
+      products: changedProducts,
+      sales: changedSales,
+      suppliers: changedSuppliers,
+      purchaseOrders: changedOrders,
+      cashShifts: changedShifts,
+      promotions: changedPromotions,
+      customers: changedCustomers,
+      customerPayments: changedPayments,
+    });
+  }
+}
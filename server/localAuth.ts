@@ -0,0 +1,46 @@
+// Stand-in for Supabase Auth, enabled with AUTH_MODE=local.
+// The bearer token is the user's email, so `Authorization: Bearer ana@tienda.com`
+// signs in as that user. Unknown emails are registered on first use. Since
+// anyone can sign in as anyone, the server refuses it in production (see auth.ts).
+
+export interface LocalUser {
+  id: string;
+  email: string;
+  created_at: string;
+  last_sign_in_at: string | null;
+}
+
+const localUsers = new Map<string, LocalUser>();
+
+export function isLocalAuth(): boolean {
+  return process.env.AUTH_MODE === 'local';
+}
+
+export function getLocalUser(token: string): LocalUser | null {
+  const email = token.trim().toLowerCase();
+  if (!email) return null;
+
+  const user = localUsers.get(email) ?? createLocalUser(email);
+  user.last_sign_in_at = new Date().toISOString();
+  return user;
+}
+
+export function createLocalUser(email: string): LocalUser {
+  const normalized = email.trim().toLowerCase();
+  const user: LocalUser = {
+    id: normalized,
+    email: normalized,
+    created_at: new Date().toISOString(),
+    last_sign_in_at: null,
+  };
+  localUsers.set(normalized, user);
+  return user;
+}
+
+export function listLocalUsers(): LocalUser[] {
+  return Array.from(localUsers.values());
+}
+
+export function deleteLocalUser(id: string): boolean {
+  return localUsers.delete(id);
+}
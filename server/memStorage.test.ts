@@ -0,0 +1,177 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  insertCategorySchema,
+  insertProductSchema,
+  insertSupplierSchema,
+  insertPromotionSchema,
+  insertCustomerSchema,
+  insertCustomerPaymentSchema,
+  insertPurchaseOrderSchema,
+  insertSaleSchema,
+  insertCashShiftSchema,
+  insertStockMovementSchema,
+  type Store,
+} from "@shared/schema";
+import { MemStorage } from "./memStorage";
+import { IdConflictError, SaleCustomerError, SaleRefundError } from "./storage";
+
+// Every store-scoped method must leave other stores' rows alone: store A's
+// rows are set up, then looked at, changed and deleted from store B.
+let storage: MemStorage;
+let storeA: Store;
+let storeB: Store;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  storeA = await storage.createStore({ name: "Tienda A" }, "owner-a");
+  storeB = await storage.createStore({ name: "Tienda B" }, "owner-b");
+});
+
+const sale = (extra: Record<string, unknown> = {}) => insertSaleSchema.parse({
+  date: "2026-10-19",
+  lines: [{ productId: null, productName: "Refresco", quantity: 1, unitPrice: 10, total: 10 }],
+  ...extra,
+});
+
+test("stores only list the user's memberships", async () => {
+  assert.deepEqual((await storage.getStoresForUser("owner-a")).map((s) => s.id), [storeA.id]);
+  assert.deepEqual((await storage.getStoresForUser("owner-b")).map((s) => s.id), [storeB.id]);
+});
+
+test("categories of another store can't be read, changed or deleted", async () => {
+  const category = await storage.createCategory(insertCategorySchema.parse({ name: "Bebidas" }), storeA.id);
+
+  assert.equal(await storage.getCategory(category.id, storeB.id), undefined);
+  assert.ok(!(await storage.getCategories(storeB.id)).some((c) => c.id === category.id));
+  assert.equal(await storage.updateCategory(category.id, { name: "Otra" }, storeB.id), undefined);
+  assert.equal(await storage.deleteCategory(category.id, storeB.id), false);
+  assert.equal((await storage.getCategory(category.id, storeA.id))?.name, "Bebidas");
+});
+
+test("products of another store can't be read, changed, deleted or moved", async () => {
+  const product = await storage.createProduct(insertProductSchema.parse({ name: "Refresco", price: 10, quantity: 5 }), storeA.id);
+
+  assert.equal(await storage.getProduct(product.id, storeB.id), undefined);
+  assert.deepEqual(await storage.getProducts(storeB.id), []);
+  assert.equal(await storage.updateProduct(product.id, { name: "Otro" }, storeB.id), undefined);
+  assert.equal(await storage.deleteProduct(product.id, storeB.id), false);
+  assert.equal(
+    await storage.recordStockMovement(insertStockMovementSchema.parse({ productId: product.id, delta: -5, reason: "waste" }), storeB.id),
+    undefined,
+  );
+  assert.deepEqual(await storage.getStockMovements(product.id, storeB.id), []);
+
+  const unchanged = await storage.getProduct(product.id, storeA.id);
+  assert.equal(unchanged?.name, "Refresco");
+  assert.equal(unchanged?.quantity, 5);
+});
+
+test("sales don't link or decrement another store's products", async () => {
+  const product = await storage.createProduct(insertProductSchema.parse({ name: "Refresco", price: 10, quantity: 5 }), storeA.id);
+  const { sale: created } = await storage.createSale(sale({
+    lines: [{ productId: product.id, productName: "Refresco", quantity: 2, unitPrice: 10, total: 20 }],
+  }), storeB.id);
+
+  assert.equal(created.lines[0].productId, null);
+  assert.equal((await storage.getProduct(product.id, storeA.id))?.quantity, 5);
+  assert.deepEqual(await storage.getSales(storeA.id), []);
+  assert.deepEqual(await storage.getSalesByDate("2026-10-19", storeA.id), []);
+});
+
+test("refunds can't name another store's sale", async () => {
+  const { sale: original } = await storage.createSale(sale(), storeA.id);
+  await assert.rejects(storage.createSale(sale({
+    kind: "void",
+    originalSaleId: original.id,
+    lines: [{ productId: null, productName: "Refresco", quantity: -1, unitPrice: 10, total: -10 }],
+  }), storeB.id), SaleRefundError);
+});
+
+test("suppliers of another store can't be changed, deleted or taken over", async () => {
+  const supplier = await storage.createSupplier(insertSupplierSchema.parse({ id: "sup-1", name: "Distribuidora" }), storeA.id);
+
+  assert.deepEqual(await storage.getSuppliers(storeB.id), []);
+  assert.equal(await storage.updateSupplier(supplier.id, { name: "Otra" }, storeB.id), undefined);
+  assert.equal(await storage.deleteSupplier(supplier.id, storeB.id), false);
+  await assert.rejects(storage.createSupplier(insertSupplierSchema.parse({ id: "sup-1", name: "Otra" }), storeB.id), IdConflictError);
+  assert.equal((await storage.getSuppliers(storeA.id))[0].name, "Distribuidora");
+});
+
+test("promotions of another store can't be changed, deleted or taken over", async () => {
+  const data = insertPromotionSchema.parse({ id: "promo-1", name: "10% bebidas", type: "category_percent", categoryId: "cat-1", percent: 10 });
+  const promotion = await storage.createPromotion(data, storeA.id);
+
+  assert.deepEqual(await storage.getPromotions(storeB.id), []);
+  assert.equal(await storage.updatePromotion(promotion.id, { ...data, name: "Otra" }, storeB.id), undefined);
+  assert.equal(await storage.deletePromotion(promotion.id, storeB.id), false);
+  await assert.rejects(storage.createPromotion(data, storeB.id), IdConflictError);
+  assert.equal((await storage.getPromotions(storeA.id))[0].name, "10% bebidas");
+});
+
+test("customers and their payments stay in their store", async () => {
+  const customer = await storage.createCustomer(insertCustomerSchema.parse({ id: "cli-1", name: "Doña Marta" }), storeA.id);
+  const payment = insertCustomerPaymentSchema.parse({ id: "abono-1", customerId: customer.id, amount: 5, method: "cash" });
+
+  assert.deepEqual(await storage.getCustomers(storeB.id), []);
+  assert.equal(await storage.updateCustomer(customer.id, { name: "Otra" }, storeB.id), undefined);
+  assert.equal(await storage.deleteCustomer(customer.id, storeB.id), false);
+  await assert.rejects(storage.createCustomer(insertCustomerSchema.parse({ id: "cli-1", name: "Otra" }), storeB.id), IdConflictError);
+
+  assert.equal(await storage.createCustomerPayment(payment, storeB.id), undefined);
+  assert.ok(await storage.createCustomerPayment(payment, storeA.id));
+  await assert.rejects(storage.createCustomerPayment(payment, storeB.id), IdConflictError);
+  assert.deepEqual(await storage.getCustomerPayments(storeB.id), []);
+
+  await assert.rejects(storage.createSale(sale({
+    payments: [{ method: "account", amount: 10 }],
+    customerId: customer.id,
+  }), storeB.id), SaleCustomerError);
+});
+
+test("purchase orders of another store can't be read, changed, deleted or received", async () => {
+  const data = insertPurchaseOrderSchema.parse({
+    id: "oc-1",
+    status: "sent",
+    lines: [{ id: "linea-1", productName: "Refresco", quantityOrdered: 10, unitCost: 5 }],
+  });
+  const order = await storage.createPurchaseOrder(data, storeA.id);
+
+  assert.equal(await storage.getPurchaseOrder(order.id, storeB.id), undefined);
+  assert.deepEqual(await storage.getPurchaseOrders(storeB.id), []);
+  assert.equal(await storage.updatePurchaseOrder(order.id, { notes: "Otra" }, storeB.id), undefined);
+  assert.equal(await storage.deletePurchaseOrder(order.id, storeB.id), false);
+  assert.equal(await storage.receivePurchaseOrder(order.id, { lines: [{ lineId: "linea-1", quantity: 10 }] }, storeB.id), undefined);
+  await assert.rejects(storage.createPurchaseOrder(data, storeB.id), IdConflictError);
+
+  const unchanged = await storage.getPurchaseOrder(order.id, storeA.id);
+  assert.equal(unchanged?.lines[0].quantityReceived, 0);
+});
+
+test("cash shifts only count their own store's sales", async () => {
+  const shift = insertCashShiftSchema.parse({
+    id: "turno-1",
+    openedAt: "2026-10-19T08:00:00Z",
+    closedAt: "2026-10-19T16:00:00Z",
+    openingFloat: 100,
+    countedCash: 110,
+    movements: [],
+  });
+  await storage.createSale(sale({ shiftId: shift.id }), storeA.id);
+  await storage.createSale(sale({ shiftId: shift.id }), storeB.id);
+
+  const created = await storage.createCashShift(shift, storeA.id);
+  assert.equal(created.salesCount, 1);
+  assert.equal(created.expectedCash, 110);
+  assert.deepEqual(await storage.getCashShifts(storeB.id), []);
+  await assert.rejects(storage.createCashShift(shift, storeB.id), IdConflictError);
+});
+
+test("the change feed only holds the store's own changes", async () => {
+  await storage.createCategory(insertCategorySchema.parse({ name: "Bebidas" }), storeA.id);
+  const product = await storage.createProduct(insertProductSchema.parse({ name: "Refresco", price: 10, quantity: 5 }), storeA.id);
+
+  const changes = await storage.getChanges(storeB.id, 0);
+  assert.ok(!changes.products.some((p) => p.id === product.id));
+  assert.ok(changes.categories.every((c) => c.storeId === storeB.id));
+});
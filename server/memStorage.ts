@@ -0,0 +1,1026 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  DEFAULT_CATEGORIES,
+  type User,
+  type InsertUser,
+  type Store,
+  type InsertStore,
+  type UpdateStore,
+  type StoreMember,
+  type StoreMembership,
+  type StoreRole,
+  type Product,
+  type InsertProduct,
+  type UpdateProduct,
+  type Category,
+  type InsertCategory,
+  type Sale,
+  type SaleLine,
+  type InsertSale,
+  type SaleResult,
+  type StockWarning,
+  type StockMovement,
+  type InsertStockMovement,
+  type Supplier,
+  type InsertSupplier,
+  type Promotion,
+  type InsertPromotion,
+  type Customer,
+  type InsertCustomer,
+  type CustomerPayment,
+  type InsertCustomerPayment,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type InsertPurchaseOrder,
+  type InsertPurchaseOrderLine,
+  type UpdatePurchaseOrder,
+  type ReceivePurchaseOrder,
+  type PurchaseReceipt,
+  type CashShift,
+  type InsertCashShift,
+  type Change,
+  type ChangeEntity,
+  type ChangeSet,
+  computeSaleTotals,
+  resolveSalePayments,
+  computeShiftTotals,
+  shiftSalesTotals,
+  movingAverageCost,
+  receivedStatus,
+} from "@shared/schema";
+import { CHANGES_PAGE_SIZE, collapseChanges, toChangeSet } from "./changes";
+import {
+  IdConflictError,
+  ProductConflictError,
+  PurchaseOrderStateError,
+  SaleCustomerError,
+  checkProductParent,
+  checkPurchaseOrderReceipt,
+  checkPurchaseOrderUpdate,
+  checkSaleRefund,
+  type IStorage,
+} from "./storage";
+
+interface MemSnapshot {
+  users: User[];
+  stores: Store[];
+  storeMembers: StoreMember[];
+  categories: Category[];
+  products: Product[];
+  sales: Sale[];
+  stockMovements: StockMovement[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  purchaseReceipts: PurchaseReceipt[];
+  cashShifts: CashShift[];
+  promotions: Promotion[];
+  customers: Customer[];
+  customerPayments: CustomerPayment[];
+  changes: Change[];
+}
+
+// Category IDs are only unique within a store
+function categoryKey(storeId: string, id: string) {
+  return `${storeId}:${id}`;
+}
+
+// In-memory storage for local development and integration testing.
+// When a file path is given, every change is written to it as JSON and
+// loaded back on the next start.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private stores = new Map<string, Store>();
+  private storeMembers: StoreMember[] = [];
+  private categories = new Map<string, Category>();
+  private products = new Map<string, Product>();
+  private sales = new Map<string, Sale>();
+  private stockMovements = new Map<string, StockMovement>();
+  private suppliers = new Map<string, Supplier>();
+  private purchaseOrders = new Map<string, PurchaseOrder>();
+  private purchaseReceipts = new Map<string, PurchaseReceipt>();
+  private cashShifts = new Map<string, CashShift>();
+  private promotions = new Map<string, Promotion>();
+  private customers = new Map<string, Customer>();
+  private customerPayments = new Map<string, CustomerPayment>();
+  private changes: Change[] = [];
+
+  constructor(private filePath?: string) {
+    if (filePath && fs.existsSync(filePath)) {
+      this.load(filePath);
+    }
+  }
+
+  private load(filePath: string) {
+    const snapshot: Partial<MemSnapshot> = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    snapshot.users?.forEach((u) => this.users.set(u.id, u));
+    snapshot.stores?.forEach((s) => this.stores.set(s.id, {
+      ...s,
+      createdAt: new Date(s.createdAt),
+      pricesIncludeTax: s.pricesIncludeTax ?? true,
+      taxRate: s.taxRate ?? null,
+    }));
+    this.storeMembers = snapshot.storeMembers ?? [];
+    snapshot.categories?.forEach((c) => this.categories.set(categoryKey(c.storeId, c.id), {
+      ...c,
+      taxRate: c.taxRate ?? null,
+      taxExempt: c.taxExempt ?? false,
+    }));
+    snapshot.products?.forEach((p) => this.products.set(p.id, {
+      ...p,
+      cost: p.cost ?? null,
+      sku: p.sku ?? null,
+      barcodes: p.barcodes ?? [],
+      parentId: p.parentId ?? null,
+      variantName: p.variantName ?? null,
+      taxRate: p.taxRate ?? null,
+      taxExempt: p.taxExempt ?? false,
+      version: p.version ?? 1,
+    }));
+    // Snapshots from before split payments paid each sale in its one method
+    snapshot.sales?.forEach((s) => this.sales.set(s.id, {
+      ...s,
+      createdAt: new Date(s.createdAt),
+      payments: s.payments ?? [{ id: randomUUID(), transactionId: s.id, method: s.paymentMethod, amount: s.total, tendered: null }],
+      shiftId: s.shiftId ?? null,
+      kind: s.kind ?? 'sale',
+      originalSaleId: s.originalSaleId ?? null,
+      reason: s.reason ?? null,
+      discount: s.discount ?? 0,
+      pricesIncludeTax: s.pricesIncludeTax ?? true,
+      customerId: s.customerId ?? null,
+      lines: s.lines.map((l) => ({
+        ...l,
+        discount: l.discount ?? 0,
+        promotionId: l.promotionId ?? null,
+        taxRate: l.taxRate ?? null,
+        tax: l.tax ?? 0,
+      })),
+    }));
+    // Snapshots from before the ledger had notes, users and sale links, and
+    // called quantity edits "adjustment"
+    snapshot.stockMovements?.forEach((m) => this.stockMovements.set(m.id, {
+      ...m,
+      note: m.note ?? null,
+      userId: m.userId ?? null,
+      saleId: m.saleId ?? null,
+      purchaseOrderId: m.purchaseOrderId ?? null,
+      reason: (m.reason as string) === 'adjustment' ? 'count_correction' : m.reason,
+      createdAt: new Date(m.createdAt),
+    }));
+    snapshot.suppliers?.forEach((s) => this.suppliers.set(s.id, s));
+    snapshot.purchaseOrders?.forEach((o) => this.purchaseOrders.set(o.id, { ...o, createdAt: new Date(o.createdAt) }));
+    snapshot.purchaseReceipts?.forEach((r) => this.purchaseReceipts.set(r.id, { ...r, createdAt: new Date(r.createdAt) }));
+    snapshot.cashShifts?.forEach((s) => this.cashShifts.set(s.id, {
+      ...s,
+      openedAt: new Date(s.openedAt),
+      closedAt: new Date(s.closedAt),
+      paymentTotals: { ...s.paymentTotals, account: s.paymentTotals.account ?? 0 },
+      movements: s.movements.map((m) => ({ ...m, createdAt: new Date(m.createdAt) })),
+    }));
+    snapshot.promotions?.forEach((p) => this.promotions.set(p.id, p));
+    snapshot.customers?.forEach((c) => this.customers.set(c.id, c));
+    snapshot.customerPayments?.forEach((p) => this.customerPayments.set(p.id, { ...p, createdAt: new Date(p.createdAt) }));
+    this.changes = snapshot.changes ?? [];
+  }
+
+  private persist() {
+    if (!this.filePath) return;
+
+    const snapshot: MemSnapshot = {
+      users: Array.from(this.users.values()),
+      stores: Array.from(this.stores.values()),
+      storeMembers: this.storeMembers,
+      categories: Array.from(this.categories.values()),
+      products: Array.from(this.products.values()),
+      sales: Array.from(this.sales.values()),
+      stockMovements: Array.from(this.stockMovements.values()),
+      suppliers: Array.from(this.suppliers.values()),
+      purchaseOrders: Array.from(this.purchaseOrders.values()),
+      purchaseReceipts: Array.from(this.purchaseReceipts.values()),
+      cashShifts: Array.from(this.cashShifts.values()),
+      promotions: Array.from(this.promotions.values()),
+      customers: Array.from(this.customers.values()),
+      customerPayments: Array.from(this.customerPayments.values()),
+      changes: this.changes,
+    };
+
+    // Write to a temp file first so a crash never leaves half a JSON document
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(snapshot, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  // Append to the change feed (what the database triggers do for Postgres)
+  private recordChange(storeId: string, entity: ChangeEntity, entityId: string, deleted = false) {
+    const seq = (this.changes[this.changes.length - 1]?.seq ?? 0) + 1;
+    this.changes.push({ seq, storeId, entity, entityId, deleted });
+  }
+
+  // Append to the stock ledger; the caller changes the quantity to match
+  private addStockMovement(movement: Omit<StockMovement, 'id'>) {
+    const id = randomUUID();
+    this.stockMovements.set(id, { ...movement, id });
+  }
+
+  // localId is an idempotency key: a replay gets the record created the first time
+  private findByLocalId<T extends { localId: string | null; storeId: string }>(
+    records: Map<string, T>,
+    localId: string | null | undefined,
+    storeId: string,
+  ): T | undefined {
+    if (!localId) return undefined;
+    return Array.from(records.values()).find((r) => r.storeId === storeId && r.localId === localId);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = { ...insertUser, id };
+    this.users.set(id, user);
+    this.persist();
+    return user;
+  }
+
+  async getStoresForUser(userId: string): Promise<StoreMembership[]> {
+    return this.storeMembers
+      .filter((m) => m.userId === userId && this.stores.has(m.storeId))
+      .map((m) => ({ ...this.stores.get(m.storeId)!, role: m.role }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createStore(insertStore: InsertStore, ownerId: string): Promise<Store> {
+    const store: Store = {
+      id: randomUUID(),
+      name: insertStore.name,
+      createdAt: new Date(),
+      pricesIncludeTax: insertStore.pricesIncludeTax ?? true,
+      taxRate: insertStore.taxRate ?? null,
+    };
+    this.stores.set(store.id, store);
+    this.storeMembers.push({ storeId: store.id, userId: ownerId, role: 'owner' });
+    DEFAULT_CATEGORIES.forEach((c) => {
+      this.categories.set(categoryKey(store.id, c.id), { ...c, storeId: store.id, taxRate: null, taxExempt: false });
+      this.recordChange(store.id, 'category', c.id);
+    });
+    this.persist();
+    return store;
+  }
+
+  async addStoreMember(storeId: string, userId: string, role: StoreRole): Promise<StoreMember> {
+    const existing = this.storeMembers.find((m) => m.storeId === storeId && m.userId === userId);
+    if (existing) {
+      existing.role = role;
+      this.persist();
+      return existing;
+    }
+
+    const member: StoreMember = { storeId, userId, role };
+    this.storeMembers.push(member);
+    this.persist();
+    return member;
+  }
+
+  async updateStore(id: string, updates: UpdateStore): Promise<Store | undefined> {
+    const existing = this.stores.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.stores.set(id, updated);
+    this.persist();
+    return updated;
+  }
+
+  async getCategories(storeId: string): Promise<Category[]> {
+    return Array.from(this.categories.values())
+      .filter((c) => c.storeId === storeId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCategory(id: string, storeId: string): Promise<Category | undefined> {
+    return this.categories.get(categoryKey(storeId, id));
+  }
+
+  async createCategory(insertCategory: InsertCategory, storeId: string, requestedId?: string): Promise<Category> {
+    const id = requestedId ?? randomUUID();
+    const existing = this.categories.get(categoryKey(storeId, id));
+    if (existing) return existing;
+
+    const category: Category = {
+      id,
+      storeId,
+      name: insertCategory.name,
+      color: insertCategory.color || '#10B981',
+      taxRate: insertCategory.taxRate ?? null,
+      taxExempt: insertCategory.taxExempt ?? false,
+    };
+    this.categories.set(categoryKey(storeId, id), category);
+    this.recordChange(storeId, 'category', id);
+    this.persist();
+    return category;
+  }
+
+  async updateCategory(id: string, updates: Partial<InsertCategory>, storeId: string): Promise<Category | undefined> {
+    const existing = this.categories.get(categoryKey(storeId, id));
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.categories.set(categoryKey(storeId, id), updated);
+    this.recordChange(storeId, 'category', id);
+    this.persist();
+    return updated;
+  }
+
+  async deleteCategory(id: string, storeId: string): Promise<boolean> {
+    const deleted = this.categories.delete(categoryKey(storeId, id));
+    if (deleted) {
+      this.products.forEach((product) => {
+        if (product.storeId === storeId && product.categoryId === id) {
+          product.categoryId = null;
+          this.recordChange(storeId, 'product', product.id);
+        }
+      });
+      this.recordChange(storeId, 'category', id, true);
+      this.persist();
+    }
+    return deleted;
+  }
+
+  async getProducts(storeId: string): Promise<Product[]> {
+    return Array.from(this.products.values())
+      .filter((p) => p.storeId === storeId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getProduct(id: string, storeId: string): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    return product?.storeId === storeId ? product : undefined;
+  }
+
+  async createProduct(insertProduct: InsertProduct, storeId: string, userId?: string): Promise<Product> {
+    const existing = this.findByLocalId(this.products, insertProduct.localId, storeId);
+    if (existing) return existing;
+    if (insertProduct.parentId) {
+      checkProductParent(null, await this.getProduct(insertProduct.parentId, storeId), false);
+    }
+
+    const id = randomUUID();
+    const product: Product = {
+      id,
+      name: insertProduct.name,
+      price: insertProduct.price,
+      quantity: insertProduct.quantity ?? 0,
+      cost: insertProduct.cost ?? null,
+      sku: insertProduct.sku || null,
+      barcodes: insertProduct.barcodes ?? [],
+      categoryId: insertProduct.categoryId || null,
+      parentId: insertProduct.parentId || null,
+      variantName: insertProduct.variantName || null,
+      taxRate: insertProduct.taxRate ?? null,
+      taxExempt: insertProduct.taxExempt ?? false,
+      localId: insertProduct.localId || null,
+      synced: 1,
+      userId: userId ?? null,
+      storeId,
+      version: 1,
+    };
+    this.products.set(id, product);
+    if (product.quantity !== 0) {
+      this.addStockMovement({
+        productId: id,
+        delta: product.quantity,
+        reason: 'receipt',
+        note: null,
+        createdAt: new Date(),
+        userId: product.userId,
+        saleId: null,
+        purchaseOrderId: null,
+        localId: null,
+        storeId,
+      });
+    }
+    this.recordChange(storeId, 'product', id);
+    this.persist();
+    return product;
+  }
+
+  async updateProduct(id: string, updates: UpdateProduct, storeId: string): Promise<Product | undefined> {
+    const existing = await this.getProduct(id, storeId);
+    if (!existing) return undefined;
+    if (updates.version !== undefined && updates.version !== existing.version) {
+      throw new ProductConflictError(existing);
+    }
+    if (updates.parentId) {
+      const hasVariants = Array.from(this.products.values()).some((p) => p.parentId === id);
+      checkProductParent(id, await this.getProduct(updates.parentId, storeId), hasVariants);
+    }
+
+    const updated: Product = { ...existing, version: existing.version + 1 };
+    if (updates.name !== undefined) updated.name = updates.name;
+    if (updates.price !== undefined) updated.price = updates.price;
+    if (updates.cost !== undefined) updated.cost = updates.cost;
+    if (updates.sku !== undefined) updated.sku = updates.sku;
+    if (updates.barcodes !== undefined) updated.barcodes = updates.barcodes;
+    if (updates.categoryId !== undefined) updated.categoryId = updates.categoryId;
+    if (updates.parentId !== undefined) updated.parentId = updates.parentId;
+    if (updates.variantName !== undefined) updated.variantName = updates.variantName;
+    if (updates.taxRate !== undefined) updated.taxRate = updates.taxRate;
+    if (updates.taxExempt !== undefined) updated.taxExempt = updates.taxExempt;
+
+    this.products.set(id, updated);
+    this.recordChange(storeId, 'product', id);
+    this.persist();
+    return updated;
+  }
+
+  async deleteProduct(id: string, storeId: string): Promise<boolean> {
+    const existing = await this.getProduct(id, storeId);
+    if (!existing) return false;
+
+    this.products.delete(id);
+    this.products.forEach((product) => {
+      if (product.parentId === id) {
+        product.parentId = null;
+        this.recordChange(storeId, 'product', product.id);
+      }
+    });
+    this.stockMovements.forEach((movement) => {
+      if (movement.productId === id) this.stockMovements.delete(movement.id);
+    });
+    this.sales.forEach((sale) => {
+      sale.lines.forEach((line) => {
+        if (line.productId === id) line.productId = null;
+      });
+    });
+    this.recordChange(storeId, 'product', id, true);
+    this.persist();
+    return true;
+  }
+
+  async recordStockMovement(insertMovement: InsertStockMovement, storeId: string, userId?: string): Promise<Product | undefined> {
+    const product = await this.getProduct(insertMovement.productId, storeId);
+    if (!product) return undefined;
+
+    if (this.findByLocalId(this.stockMovements, insertMovement.localId, storeId)) return product;
+
+    this.addStockMovement({
+      productId: product.id,
+      delta: insertMovement.delta,
+      reason: insertMovement.reason,
+      note: insertMovement.note || null,
+      createdAt: insertMovement.createdAt ?? new Date(),
+      userId: userId ?? null,
+      saleId: null,
+      purchaseOrderId: null,
+      localId: insertMovement.localId || null,
+      storeId,
+    });
+
+    const updated: Product = { ...product, quantity: product.quantity + insertMovement.delta };
+    this.products.set(product.id, updated);
+    this.recordChange(storeId, 'product', product.id);
+    this.persist();
+    return updated;
+  }
+
+  async getStockMovements(productId: string, storeId: string): Promise<StockMovement[]> {
+    return Array.from(this.stockMovements.values())
+      .filter((m) => m.storeId === storeId && m.productId === productId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSuppliers(storeId: string): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values())
+      .filter((s) => s.storeId === storeId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier, storeId: string): Promise<Supplier> {
+    const id = insertSupplier.id ?? randomUUID();
+    const existing = this.suppliers.get(id);
+    if (existing && existing.storeId !== storeId) throw new IdConflictError('Supplier ID is already in use');
+    if (existing) return existing;
+
+    const supplier: Supplier = {
+      id,
+      name: insertSupplier.name,
+      phone: insertSupplier.phone || null,
+      email: insertSupplier.email || null,
+      notes: insertSupplier.notes || null,
+      synced: 1,
+      storeId,
+    };
+    this.suppliers.set(id, supplier);
+    this.recordChange(storeId, 'supplier', id);
+    this.persist();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>, storeId: string): Promise<Supplier | undefined> {
+    const existing = this.suppliers.get(id);
+    if (existing?.storeId !== storeId) return undefined;
+
+    const { id: _id, ...values } = updates;
+    const updated = { ...existing, ...values };
+    this.suppliers.set(id, updated);
+    this.recordChange(storeId, 'supplier', id);
+    this.persist();
+    return updated;
+  }
+
+  async deleteSupplier(id: string, storeId: string): Promise<boolean> {
+    if (this.suppliers.get(id)?.storeId !== storeId) return false;
+
+    this.suppliers.delete(id);
+    this.purchaseOrders.forEach((order) => {
+      if (order.supplierId === id) {
+        order.supplierId = null;
+        this.recordChange(storeId, 'purchase_order', order.id);
+      }
+    });
+    this.recordChange(storeId, 'supplier', id, true);
+    this.persist();
+    return true;
+  }
+
+  async getPromotions(storeId: string): Promise<Promotion[]> {
+    return Array.from(this.promotions.values())
+      .filter((p) => p.storeId === storeId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private toPromotion(id: string, promotion: InsertPromotion, storeId: string): Promotion {
+    return {
+      id,
+      name: promotion.name,
+      type: promotion.type,
+      productId: promotion.productId || null,
+      buyQuantity: promotion.buyQuantity ?? null,
+      getQuantity: promotion.getQuantity ?? null,
+      categoryId: promotion.categoryId || null,
+      percent: promotion.percent ?? null,
+      startsAt: promotion.startsAt || null,
+      endsAt: promotion.endsAt || null,
+      active: promotion.active ?? true,
+      synced: 1,
+      storeId,
+    };
+  }
+
+  async createPromotion(insertPromotion: InsertPromotion, storeId: string): Promise<Promotion> {
+    const id = insertPromotion.id ?? randomUUID();
+    const existing = this.promotions.get(id);
+    if (existing && existing.storeId !== storeId) throw new IdConflictError('Promotion ID is already in use');
+    if (existing) return existing;
+
+    const promotion = this.toPromotion(id, insertPromotion, storeId);
+    this.promotions.set(id, promotion);
+    this.recordChange(storeId, 'promotion', id);
+    this.persist();
+    return promotion;
+  }
+
+  async updatePromotion(id: string, updates: InsertPromotion, storeId: string): Promise<Promotion | undefined> {
+    if (this.promotions.get(id)?.storeId !== storeId) return undefined;
+
+    const updated = this.toPromotion(id, updates, storeId);
+    this.promotions.set(id, updated);
+    this.recordChange(storeId, 'promotion', id);
+    this.persist();
+    return updated;
+  }
+
+  // Sales keep the promotion ID they were sold with
+  async deletePromotion(id: string, storeId: string): Promise<boolean> {
+    if (this.promotions.get(id)?.storeId !== storeId) return false;
+
+    this.promotions.delete(id);
+    this.recordChange(storeId, 'promotion', id, true);
+    this.persist();
+    return true;
+  }
+
+  async getCustomers(storeId: string): Promise<Customer[]> {
+    return Array.from(this.customers.values())
+      .filter((c) => c.storeId === storeId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer, storeId: string): Promise<Customer> {
+    const id = insertCustomer.id ?? randomUUID();
+    const existing = this.customers.get(id);
+    if (existing && existing.storeId !== storeId) throw new IdConflictError('Customer ID is already in use');
+    if (existing) return existing;
+
+    const customer: Customer = {
+      id,
+      name: insertCustomer.name,
+      phone: insertCustomer.phone || null,
+      notes: insertCustomer.notes || null,
+      creditLimit: insertCustomer.creditLimit ?? null,
+      synced: 1,
+      storeId,
+    };
+    this.customers.set(id, customer);
+    this.recordChange(storeId, 'customer', id);
+    this.persist();
+    return customer;
+  }
+
+  async updateCustomer(id: string, updates: Partial<InsertCustomer>, storeId: string): Promise<Customer | undefined> {
+    const existing = this.customers.get(id);
+    if (existing?.storeId !== storeId) return undefined;
+
+    const { id: _id, ...values } = updates;
+    const updated = { ...existing, ...values };
+    this.customers.set(id, updated);
+    this.recordChange(storeId, 'customer', id);
+    this.persist();
+    return updated;
+  }
+
+  // Like the foreign key, takes their payments with them; sales keep the customer ID
+  async deleteCustomer(id: string, storeId: string): Promise<boolean> {
+    if (this.customers.get(id)?.storeId !== storeId) return false;
+
+    this.customers.delete(id);
+    this.customerPayments.forEach((payment) => {
+      if (payment.customerId === id) {
+        this.customerPayments.delete(payment.id);
+        this.recordChange(storeId, 'customer_payment', payment.id, true);
+      }
+    });
+    this.recordChange(storeId, 'customer', id, true);
+    this.persist();
+    return true;
+  }
+
+  async getCustomerPayments(storeId: string): Promise<CustomerPayment[]> {
+    return Array.from(this.customerPayments.values())
+      .filter((p) => p.storeId === storeId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createCustomerPayment(insertPayment: InsertCustomerPayment, storeId: string, userId?: string): Promise<CustomerPayment | undefined> {
+    const id = insertPayment.id ?? randomUUID();
+    const existing = this.customerPayments.get(id);
+    if (existing && existing.storeId !== storeId) throw new IdConflictError('Customer payment ID is already in use');
+    if (existing) return existing;
+    if (this.customers.get(insertPayment.customerId)?.storeId !== storeId) return undefined;
+
+    const payment: CustomerPayment = {
+      id,
+      customerId: insertPayment.customerId,
+      amount: insertPayment.amount,
+      method: insertPayment.method,
+      note: insertPayment.note || null,
+      createdAt: insertPayment.createdAt ?? new Date(),
+      userId: userId ?? null,
+      storeId,
+    };
+    this.customerPayments.set(id, payment);
+    this.recordChange(storeId, 'customer_payment', id);
+    this.persist();
+    return payment;
+  }
+
+  async getPurchaseOrders(storeId: string): Promise<PurchaseOrder[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter((o) => o.storeId === storeId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPurchaseOrder(id: string, storeId: string): Promise<PurchaseOrder | undefined> {
+    const order = this.purchaseOrders.get(id);
+    return order?.storeId === storeId ? order : undefined;
+  }
+
+  // Only link lines to products of the same store
+  private toPurchaseOrderLines(orderId: string, lines: InsertPurchaseOrderLine[], storeId: string): PurchaseOrderLine[] {
+    return lines.map((line) => {
+      const product = line.productId ? this.products.get(line.productId) : undefined;
+      return {
+        id: line.id ?? randomUUID(),
+        orderId,
+        productId: product?.storeId === storeId ? product.id : null,
+        productName: line.productName,
+        quantityOrdered: line.quantityOrdered,
+        quantityReceived: 0,
+        unitCost: line.unitCost,
+      };
+    });
+  }
+
+  async createPurchaseOrder(insertOrder: InsertPurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder> {
+    const { lines, ...header } = insertOrder;
+    const id = header.id ?? randomUUID();
+    const existing = this.purchaseOrders.get(id);
+    if (existing && existing.storeId !== storeId) throw new IdConflictError('Purchase order ID is already in use');
+    if (existing) return existing;
+
+    const supplier = header.supplierId ? this.suppliers.get(header.supplierId) : undefined;
+    const order: PurchaseOrder = {
+      id,
+      supplierId: supplier?.storeId === storeId ? supplier.id : null,
+      status: header.status ?? 'draft',
+      notes: header.notes || null,
+      createdAt: header.createdAt ?? new Date(),
+      synced: 1,
+      userId: userId ?? null,
+      storeId,
+      lines: this.toPurchaseOrderLines(id, lines, storeId),
+    };
+    this.purchaseOrders.set(id, order);
+    this.recordChange(storeId, 'purchase_order', id);
+    this.persist();
+    return order;
+  }
+
+  async updatePurchaseOrder(id: string, updates: UpdatePurchaseOrder, storeId: string): Promise<PurchaseOrder | undefined> {
+    const existing = await this.getPurchaseOrder(id, storeId);
+    if (!existing) return undefined;
+    checkPurchaseOrderUpdate(existing, updates);
+
+    const updated: PurchaseOrder = { ...existing };
+    if (updates.supplierId !== undefined) updated.supplierId = updates.supplierId;
+    if (updates.notes !== undefined) updated.notes = updates.notes;
+    if (updates.status !== undefined) updated.status = updates.status;
+    if (updates.lines) updated.lines = this.toPurchaseOrderLines(id, updates.lines, storeId);
+
+    this.purchaseOrders.set(id, updated);
+    this.recordChange(storeId, 'purchase_order', id);
+    this.persist();
+    return updated;
+  }
+
+  async deletePurchaseOrder(id: string, storeId: string): Promise<boolean> {
+    const existing = await this.getPurchaseOrder(id, storeId);
+    if (!existing) return false;
+    if (existing.lines.some((line) => line.quantityReceived > 0)) {
+      throw new PurchaseOrderStateError('Purchase orders with goods received cannot be deleted');
+    }
+
+    this.purchaseOrders.delete(id);
+    this.recordChange(storeId, 'purchase_order', id, true);
+    this.persist();
+    return true;
+  }
+
+  // Runs without awaiting once the order is found, like createSale
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder | undefined> {
+    const order = await this.getPurchaseOrder(id, storeId);
+    if (!order) return undefined;
+
+    if (this.findByLocalId(this.purchaseReceipts, receipt.localId, storeId)) return order;
+    checkPurchaseOrderReceipt(order, receipt);
+
+    const received: PurchaseReceipt = {
+      id: randomUUID(),
+      orderId: id,
+      createdAt: receipt.createdAt ?? new Date(),
+      localId: receipt.localId || null,
+      userId: userId ?? null,
+      storeId,
+    };
+    this.purchaseReceipts.set(received.id, received);
+
+    const lines = order.lines.map((line) => ({ ...line }));
+    receipt.lines.forEach(({ lineId, quantity, unitCost }) => {
+      const line = lines.find((l) => l.id === lineId)!;
+      line.quantityReceived += quantity;
+
+      const product = line.productId ? this.products.get(line.productId) : undefined;
+      if (!product) return;
+      this.addStockMovement({
+        productId: product.id,
+        delta: quantity,
+        reason: 'receipt',
+        note: null,
+        createdAt: received.createdAt,
+        userId: received.userId,
+        saleId: null,
+        purchaseOrderId: id,
+        localId: null,
+        storeId,
+      });
+      this.products.set(product.id, {
+        ...product,
+        quantity: product.quantity + quantity,
+        cost: movingAverageCost(product.quantity, product.cost, quantity, unitCost ?? line.unitCost),
+      });
+      this.recordChange(storeId, 'product', product.id);
+    });
+
+    const updated: PurchaseOrder = { ...order, status: receivedStatus(lines), lines };
+    this.purchaseOrders.set(id, updated);
+    this.recordChange(storeId, 'purchase_order', id);
+    this.persist();
+    return updated;
+  }
+
+  async getSales(storeId: string): Promise<Sale[]> {
+    return Array.from(this.sales.values())
+      .filter((s) => s.storeId === storeId)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSalesByDate(date: string, storeId: string): Promise<Sale[]> {
+    return Array.from(this.sales.values())
+      .filter((s) => s.storeId === storeId && s.date === date)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Everything below runs without awaiting, so no other request can
+  // interleave between recording the sale and adjusting stock
+  async createSale(insertSale: InsertSale, storeId: string, userId?: string): Promise<SaleResult> {
+    const { lines, ...header } = insertSale;
+
+    const existing = this.findByLocalId(this.sales, header.localId, storeId);
+    if (existing) return { sale: existing, stockWarnings: [] };
+
+    const refund = !!header.kind && header.kind !== 'sale';
+    const original = refund
+      ? Array.from(this.sales.values()).find((s) =>
+          s.storeId === storeId && (s.id === header.originalSaleId || s.localId === header.originalSaleId))
+      : undefined;
+    if (refund) {
+      const refunds = original
+        ? Array.from(this.sales.values()).filter((s) => s.originalSaleId === original.id)
+        : [];
+      checkSaleRefund(insertSale, original, refunds);
+    } else if (header.customerId && this.customers.get(header.customerId)?.storeId !== storeId) {
+      throw new SaleCustomerError('Customer not found');
+    }
+
+    const id = randomUUID();
+    const totals = computeSaleTotals(lines);
+    const { payments, paymentMethod } = resolveSalePayments(insertSale, totals.total);
+
+    const saleLines: SaleLine[] = lines.map((line) => {
+      // Only link lines to products of the same store
+      const product = line.productId ? this.products.get(line.productId) : undefined;
+
+      return {
+        id: randomUUID(),
+        transactionId: id,
+        productId: product?.storeId === storeId ? product.id : null,
+        productName: line.productName,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        // Offline sales bring the cost they were made at
+        unitCost: line.unitCost ?? (product?.storeId === storeId ? product.cost : null),
+        discount: line.discount ?? 0,
+        promotionId: line.promotionId || null,
+        taxRate: line.taxRate ?? null,
+        tax: line.tax ?? 0,
+        total: line.total,
+      };
+    });
+
+    const sale: Sale = {
+      id,
+      date: header.date,
+      createdAt: header.createdAt ?? new Date(),
+      ...totals,
+      paymentMethod,
+      localId: header.localId || null,
+      synced: 1,
+      userId: userId ?? null,
+      shiftId: header.shiftId || null,
+      kind: header.kind ?? 'sale',
+      originalSaleId: original?.id ?? null,
+      reason: header.reason || null,
+      discount: header.discount ?? 0,
+      pricesIncludeTax: header.pricesIncludeTax ?? true,
+      customerId: header.customerId || null,
+      storeId,
+      lines: saleLines,
+      payments: payments.map((payment) => ({
+        id: randomUUID(),
+        transactionId: id,
+        method: payment.method,
+        amount: payment.amount,
+        tendered: payment.tendered ?? null,
+      })),
+    };
+    this.sales.set(id, sale);
+    this.recordChange(storeId, 'sale', id);
+
+    const touched = new Set<Product>();
+    saleLines.forEach((line) => {
+      if (!line.productId) return;
+      const product = this.products.get(line.productId)!;
+      this.addStockMovement({
+        productId: product.id,
+        delta: -line.quantity,
+        reason: refund ? 'return' : 'sale',
+        note: null,
+        createdAt: sale.createdAt,
+        userId: sale.userId,
+        saleId: id,
+        purchaseOrderId: null,
+        localId: null,
+        storeId,
+      });
+      product.quantity -= line.quantity;
+      touched.add(product);
+    });
+
+    touched.forEach((p) => this.recordChange(storeId, 'product', p.id));
+
+    const stockWarnings: StockWarning[] = Array.from(touched)
+      .filter((p) => p.quantity < 0)
+      .map((p) => ({ productId: p.id, productName: p.name, quantity: p.quantity }));
+
+    this.persist();
+    return { sale, stockWarnings };
+  }
+
+  async getCashShifts(storeId: string): Promise<CashShift[]> {
+    return Array.from(this.cashShifts.values())
+      .filter((s) => s.storeId === storeId)
+      .sort((a, b) => b.closedAt.getTime() - a.closedAt.getTime());
+  }
+
+  async createCashShift(insertShift: InsertCashShift, storeId: string, userId?: string): Promise<CashShift> {
+    const { movements, ...header } = insertShift;
+    const id = header.id ?? randomUUID();
+    const existing = this.cashShifts.get(id);
+    if (existing && existing.storeId !== storeId) throw new IdConflictError('Cash shift ID is already in use');
+    if (existing) return existing;
+
+    const sales = shiftSalesTotals(Array.from(this.sales.values()).filter((s) => s.storeId === storeId && s.shiftId === id));
+    const shift: CashShift = {
+      id,
+      openedAt: header.openedAt,
+      closedAt: header.closedAt,
+      openingFloat: header.openingFloat,
+      ...sales,
+      ...computeShiftTotals({ ...insertShift, paymentTotals: sales.paymentTotals }),
+      countedCash: header.countedCash,
+      userId: userId ?? null,
+      storeId,
+      movements: movements.map((movement) => ({
+        id: movement.id ?? randomUUID(),
+        shiftId: id,
+        type: movement.type,
+        amount: movement.amount,
+        note: movement.note || null,
+        createdAt: movement.createdAt,
+      })),
+    };
+    this.cashShifts.set(id, shift);
+    this.recordChange(storeId, 'cash_shift', id);
+    this.persist();
+    return shift;
+  }
+
+  async getChanges(storeId: string, since: number): Promise<ChangeSet> {
+    const page = this.changes
+      .filter((c) => c.storeId === storeId && c.seq > since)
+      .slice(0, CHANGES_PAGE_SIZE);
+    const collapsed = collapseChanges(page, since);
+    const { upserts } = collapsed;
+
+    return toChangeSet(collapsed, {
+      categories: upserts.category
+        .map((id) => this.categories.get(categoryKey(storeId, id)))
+        .filter((c): c is Category => !!c),
+      products: upserts.product
+        .map((id) => this.products.get(id))
+        .filter((p): p is Product => p?.storeId === storeId),
+      sales: upserts.sale
+        .map((id) => this.sales.get(id))
+        .filter((s): s is Sale => s?.storeId === storeId),
+      suppliers: upserts.supplier
+        .map((id) => this.suppliers.get(id))
+        .filter((s): s is Supplier => s?.storeId === storeId),
+      purchaseOrders: upserts.purchase_order
+        .map((id) => this.purchaseOrders.get(id))
+        .filter((o): o is PurchaseOrder => o?.storeId === storeId),
+      cashShifts: upserts.cash_shift
+        .map((id) => this.cashShifts.get(id))
+        .filter((s): s is CashShift => s?.storeId === storeId),
+      promotions: upserts.promotion
+        .map((id) => this.promotions.get(id))
+        .filter((p): p is Promotion => p?.storeId === storeId),
+      customers: upserts.customer
+        .map((id) => this.customers.get(id))
+        .filter((c): c is Customer => c?.storeId === storeId),
+      customerPayments: upserts.customer_payment
+        .map((id) => this.customerPayments.get(id))
+        .filter((p): p is CustomerPayment => p?.storeId === storeId),
+    });
+  }
+}
@@ -1,7 +1,23 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertProductSchema, insertCategorySchema, insertSaleSchema } from "@shared/schema";
+import { storage, IdConflictError, ProductConflictError, ProductVariantError, PurchaseOrderStateError, SaleCustomerError, SaleRefundError } from "./storage";
+import {
+  insertProductSchema,
+  updateProductSchema,
+  insertCategorySchema,
+  insertSaleSchema,
+  insertCashShiftSchema,
+  insertStoreSchema,
+  updateStoreSchema,
+  insertStockMovementSchema,
+  insertSupplierSchema,
+  insertPromotionSchema,
+  insertCustomerSchema,
+  insertCustomerPaymentSchema,
+  insertPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  receivePurchaseOrderSchema,
+} from "@shared/schema";
 import { z } from "zod";
 import { authMiddleware, AuthenticatedRequest } from "./auth";
 import { adminMiddleware, AdminRequest, inviteUser, listUsers, deleteUser, ADMIN_EMAIL } from "./admin";
@@ -11,20 +27,76 @@ export async function registerRoutes(
   app: Express
 ): Promise<Server> {
   
-  // Categories endpoints (no auth required, shared across users)
-  app.get("/api/categories", async (req, res) => {
+  // Stores endpoints (auth required). The active store is picked with the X-Store-Id header.
+  app.get("/api/stores", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
-      const categories = await storage.getCategories();
+      const stores = await storage.getStoresForUser(req.userId!);
+      res.json({ stores, activeStoreId: req.storeId });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stores" });
+    }
+  });
+
+  app.post("/api/stores", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertStoreSchema.parse(req.body);
+      const store = await storage.createStore(validatedData, req.userId!);
+      res.status(201).json(store);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create store" });
+      }
+    }
+  });
+
+  // Store settings, such as how it charges tax, are changed by its owners
+  app.patch("/api/stores/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const updates = updateStoreSchema.parse(req.body);
+      const membership = (await storage.getStoresForUser(req.userId!)).find((store) => store.id === id);
+
+      if (!membership) {
+        res.status(404).json({ error: "Store not found" });
+        return;
+      }
+      if (membership.role !== 'owner') {
+        res.status(403).json({ error: "Only owners can change store settings" });
+        return;
+      }
+
+      const store = await storage.updateStore(id, updates);
+      if (!store) {
+        res.status(404).json({ error: "Store not found" });
+        return;
+      }
+
+      res.json(store);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update store" });
+      }
+    }
+  });
+
+  // Categories endpoints (auth required, scoped to the active store)
+  app.get("/api/categories", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const categories = await storage.getCategories(req.storeId!);
       res.json(categories);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch categories" });
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const validatedData = insertCategorySchema.parse(req.body);
-      const category = await storage.createCategory(validatedData);
+      const category = await storage.createCategory(validatedData, req.storeId!);
       res.status(201).json(category);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -35,11 +107,11 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/categories/:id", async (req, res) => {
+  app.patch("/api/categories/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
-      const category = await storage.updateCategory(id, updates);
+      const updates = insertCategorySchema.partial().parse(req.body);
+      const category = await storage.updateCategory(id, updates, req.storeId!);
       
       if (!category) {
         res.status(404).json({ error: "Category not found" });
@@ -48,14 +120,18 @@ export async function registerRoutes(
       
       res.json(category);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update category" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update category" });
+      }
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteCategory(id);
+      const deleted = await storage.deleteCategory(id, req.storeId!);
       
       if (!deleted) {
         res.status(404).json({ error: "Category not found" });
@@ -68,10 +144,10 @@ export async function registerRoutes(
     }
   });
 
-  // Products endpoints (auth required, filtered by user)
+  // Products endpoints (auth required, scoped to the active store)
   app.get("/api/products", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
-      const products = await storage.getProducts(req.userId);
+      const products = await storage.getProducts(req.storeId!);
       res.json(products);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch products" });
@@ -81,7 +157,7 @@ export async function registerRoutes(
   app.get("/api/products/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const { id } = req.params;
-      const product = await storage.getProduct(id, req.userId);
+      const product = await storage.getProduct(id, req.storeId!);
       
       if (!product) {
         res.status(404).json({ error: "Product not found" });
@@ -97,10 +173,12 @@ export async function registerRoutes(
   app.post("/api/products", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const validatedData = insertProductSchema.parse(req.body);
-      const product = await storage.createProduct(validatedData, req.userId);
+      const product = await storage.createProduct(validatedData, req.storeId!, req.userId);
       res.status(201).json(product);
     } catch (error) {
-      if (error instanceof z.ZodError) {
+      if (error instanceof ProductVariantError) {
+        res.status(400).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
         res.status(400).json({ error: error.errors });
       } else {
         res.status(500).json({ error: "Failed to create product" });
@@ -111,8 +189,8 @@ export async function registerRoutes(
   app.patch("/api/products/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
-      const product = await storage.updateProduct(id, updates, req.userId);
+      const updates = updateProductSchema.parse(req.body);
+      const product = await storage.updateProduct(id, updates, req.storeId!);
       
       if (!product) {
         res.status(404).json({ error: "Product not found" });
@@ -121,14 +199,22 @@ export async function registerRoutes(
       
       res.json(product);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update product" });
+      if (error instanceof ProductConflictError) {
+        res.status(409).json({ error: error.message, current: error.current });
+      } else if (error instanceof ProductVariantError) {
+        res.status(400).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update product" });
+      }
     }
   });
 
   app.delete("/api/products/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteProduct(id, req.userId);
+      const deleted = await storage.deleteProduct(id, req.storeId!);
       
       if (!deleted) {
         res.status(404).json({ error: "Product not found" });
@@ -141,16 +227,391 @@ export async function registerRoutes(
     }
   });
 
-  // Sales endpoints (auth required, filtered by user)
+  // Stock changes other than sales go through here as deltas: quantity can't
+  // be set with PATCH, so changes made on different devices add up
+  app.post("/api/products/:id/stock", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const movement = insertStockMovementSchema.parse({ ...req.body, productId: id });
+      const product = await storage.recordStockMovement(movement, req.storeId!, req.userId);
+
+      if (!product) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+
+      res.status(201).json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to record stock movement" });
+      }
+    }
+  });
+
+  // The product's stock ledger, newest first
+  app.get("/api/products/:id/movements", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const product = await storage.getProduct(id, req.storeId!);
+
+      if (!product) {
+        res.status(404).json({ error: "Product not found" });
+        return;
+      }
+
+      const movements = await storage.getStockMovements(id, req.storeId!);
+      res.json(movements);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Suppliers endpoints (auth required, scoped to the active store)
+  app.get("/api/suppliers", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const suppliers = await storage.getSuppliers(req.storeId!);
+      res.json(suppliers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post("/api/suppliers", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertSupplierSchema.parse(req.body);
+      const supplier = await storage.createSupplier(validatedData, req.storeId!);
+      res.status(201).json(supplier);
+    } catch (error) {
+      if (error instanceof IdConflictError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create supplier" });
+      }
+    }
+  });
+
+  app.patch("/api/suppliers/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const updates = insertSupplierSchema.partial().parse(req.body);
+      const supplier = await storage.updateSupplier(id, updates, req.storeId!);
+
+      if (!supplier) {
+        res.status(404).json({ error: "Supplier not found" });
+        return;
+      }
+
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update supplier" });
+      }
+    }
+  });
+
+  app.delete("/api/suppliers/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteSupplier(id, req.storeId!);
+
+      if (!deleted) {
+        res.status(404).json({ error: "Supplier not found" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete supplier" });
+    }
+  });
+
+  // Promotions endpoints (auth required, scoped to the active store)
+  app.get("/api/promotions", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const promotions = await storage.getPromotions(req.storeId!);
+      res.json(promotions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch promotions" });
+    }
+  });
+
+  app.post("/api/promotions", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertPromotionSchema.parse(req.body);
+      const promotion = await storage.createPromotion(validatedData, req.storeId!);
+      res.status(201).json(promotion);
+    } catch (error) {
+      if (error instanceof IdConflictError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create promotion" });
+      }
+    }
+  });
+
+  // Takes the whole promotion, not just the fields that changed
+  app.put("/api/promotions/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertPromotionSchema.parse(req.body);
+      const promotion = await storage.updatePromotion(id, validatedData, req.storeId!);
+
+      if (!promotion) {
+        res.status(404).json({ error: "Promotion not found" });
+        return;
+      }
+
+      res.json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update promotion" });
+      }
+    }
+  });
+
+  app.delete("/api/promotions/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deletePromotion(id, req.storeId!);
+
+      if (!deleted) {
+        res.status(404).json({ error: "Promotion not found" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete promotion" });
+    }
+  });
+
+  // Customers endpoints (auth required, scoped to the active store)
+  app.get("/api/customers", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const customers = await storage.getCustomers(req.storeId!);
+      res.json(customers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch customers" });
+    }
+  });
+
+  app.post("/api/customers", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertCustomerSchema.parse(req.body);
+      const customer = await storage.createCustomer(validatedData, req.storeId!);
+      res.status(201).json(customer);
+    } catch (error) {
+      if (error instanceof IdConflictError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create customer" });
+      }
+    }
+  });
+
+  app.patch("/api/customers/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const updates = insertCustomerSchema.partial().parse(req.body);
+      const customer = await storage.updateCustomer(id, updates, req.storeId!);
+
+      if (!customer) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      res.json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update customer" });
+      }
+    }
+  });
+
+  app.delete("/api/customers/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteCustomer(id, req.storeId!);
+
+      if (!deleted) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete customer" });
+    }
+  });
+
+  // Payments toward customers' accounts are only ever added
+  app.get("/api/customer-payments", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const payments = await storage.getCustomerPayments(req.storeId!);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch customer payments" });
+    }
+  });
+
+  app.post("/api/customer-payments", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertCustomerPaymentSchema.parse(req.body);
+      const payment = await storage.createCustomerPayment(validatedData, req.storeId!, req.userId);
+
+      if (!payment) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof IdConflictError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create customer payment" });
+      }
+    }
+  });
+
+  // Purchase orders endpoints (auth required, scoped to the active store).
+  // They answer 409 when the order's status doesn't allow the change.
+  app.get("/api/purchase-orders", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const orders = await storage.getPurchaseOrders(req.storeId!);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const order = await storage.getPurchaseOrder(id, req.storeId!);
+
+      if (!order) {
+        res.status(404).json({ error: "Purchase order not found" });
+        return;
+      }
+
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertPurchaseOrderSchema.parse(req.body);
+      const order = await storage.createPurchaseOrder(validatedData, req.storeId!, req.userId);
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof IdConflictError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create purchase order" });
+      }
+    }
+  });
+
+  app.patch("/api/purchase-orders/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const updates = updatePurchaseOrderSchema.parse(req.body);
+      const order = await storage.updatePurchaseOrder(id, updates, req.storeId!);
+
+      if (!order) {
+        res.status(404).json({ error: "Purchase order not found" });
+        return;
+      }
+
+      res.json(order);
+    } catch (error) {
+      if (error instanceof PurchaseOrderStateError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update purchase order" });
+      }
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deletePurchaseOrder(id, req.storeId!);
+
+      if (!deleted) {
+        res.status(404).json({ error: "Purchase order not found" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof PurchaseOrderStateError) {
+        res.status(409).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to delete purchase order" });
+      }
+    }
+  });
+
+  // Goods received against the order's lines: stock goes up through receipt
+  // movements and the line's unit cost is folded into each product's
+  // moving-average cost
+  app.post("/api/purchase-orders/:id/receive", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { id } = req.params;
+      const receipt = receivePurchaseOrderSchema.parse(req.body);
+      const order = await storage.receivePurchaseOrder(id, receipt, req.storeId!, req.userId);
+
+      if (!order) {
+        res.status(404).json({ error: "Purchase order not found" });
+        return;
+      }
+
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof PurchaseOrderStateError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to receive purchase order" });
+      }
+    }
+  });
+
+  // Sales endpoints (auth required, scoped to the active store)
   app.get("/api/sales", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const { date } = req.query;
       
       if (date && typeof date === 'string') {
-        const sales = await storage.getSalesByDate(date, req.userId);
+        const sales = await storage.getSalesByDate(date, req.storeId!);
         res.json(sales);
       } else {
-        const sales = await storage.getSales(req.userId);
+        const sales = await storage.getSales(req.storeId!);
         res.json(sales);
       }
     } catch (error) {
@@ -161,10 +622,14 @@ export async function registerRoutes(
   app.post("/api/sales", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const validatedData = insertSaleSchema.parse(req.body);
-      const sale = await storage.createSale(validatedData, req.userId);
-      res.status(201).json(sale);
+      const { sale, stockWarnings } = await storage.createSale(validatedData, req.storeId!, req.userId);
+      res.status(201).json({ ...sale, stockWarnings });
     } catch (error) {
-      if (error instanceof z.ZodError) {
+      if (error instanceof SaleRefundError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof SaleCustomerError) {
+        res.status(400).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
         res.status(400).json({ error: error.errors });
       } else {
         res.status(500).json({ error: "Failed to create sale" });
@@ -172,28 +637,275 @@ export async function registerRoutes(
     }
   });
 
-  // Sync endpoint - for bulk operations when coming back online (auth required)
+  // Cash drawer shifts: closed shifts (Z-reports) are only ever added
+  app.get("/api/cash-shifts", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const shifts = await storage.getCashShifts(req.storeId!);
+      res.json(shifts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch cash shifts" });
+    }
+  });
+
+  app.post("/api/cash-shifts", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertCashShiftSchema.parse(req.body);
+      const shift = await storage.createCashShift(validatedData, req.storeId!, req.userId);
+      res.status(201).json(shift);
+    } catch (error) {
+      if (error instanceof IdConflictError) {
+        res.status(409).json({ error: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create cash shift" });
+      }
+    }
+  });
+
+  // Delta sync: everything that changed after the cursor (0 for a full download),
+  // in pages. Clients keep the returned cursor and ask again while hasMore is set.
+  app.get("/api/changes", authMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const since = Number(req.query.since ?? 0);
+      if (!Number.isSafeInteger(since) || since < 0) {
+        res.status(400).json({ error: "since must be a non-negative integer" });
+        return;
+      }
+
+      const changes = await storage.getChanges(req.storeId!, since);
+      res.json(changes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch changes" });
+    }
+  });
+
+  // Sync endpoint - for bulk operations when coming back online (auth required).
+  // Takes { categories, suppliers, customers, products, stock, purchaseOrders, receipts, promotions, sales,
+  // customerPayments, cashShifts } arrays of { action, data } operations, applied in that order, and answers with one result per operation in the
+  // same order. "rejected" operations will never succeed; "error" ones may on retry;
+  // "conflict" product edits were made against an older version (see "current").
   app.post("/api/sync", authMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
-      const { products, sales } = req.body;
-      const results = { products: [], sales: [] } as any;
+      const { categories, suppliers, customers, products, stock, purchaseOrders, receipts, promotions, sales, customerPayments, cashShifts } = req.body;
+      const results = { categories: [], suppliers: [], customers: [], products: [], stock: [], purchaseOrders: [], receipts: [], promotions: [], sales: [], customerPayments: [], cashShifts: [] } as any;
+
+      // Server IDs of products created in this batch, keyed by their localId,
+      // so later operations in the same batch can refer to them
+      const productIds = new Map<string, string>();
+      const toServerId = (id: string | null | undefined) => (id && productIds.get(id)) || id;
+
+      // Versions produced by edits earlier in this batch, keyed by product and
+      // the version the edit was made against: a device's consecutive offline
+      // edits all start from the same version and must not conflict with each other
+      const versions = new Map<string, number>();
+
+      const failure = (err: unknown) =>
+        err instanceof z.ZodError
+          ? { status: 'rejected', error: err.errors.map((e) => e.message).join(', ') }
+          : err instanceof IdConflictError || err instanceof PurchaseOrderStateError || err instanceof ProductVariantError
+              || err instanceof SaleCustomerError || err instanceof SaleRefundError
+            ? { status: 'rejected', error: err.message }
+            : { status: 'error', error: err instanceof Error ? err.message : 'Sync failed' };
+
+      // Sync categories (offline clients choose the category ID)
+      if (categories && Array.isArray(categories)) {
+        for (const category of categories) {
+          try {
+            if (category.action === 'add') {
+              const created = await storage.createCategory(insertCategorySchema.parse(category.data), req.storeId!, category.data.id);
+              results.categories.push({ id: created.id, status: 'synced' });
+            } else if (category.action === 'update') {
+              const updated = await storage.updateCategory(category.data.id, insertCategorySchema.partial().parse(category.data), req.storeId!);
+              results.categories.push(updated
+                ? { id: category.data.id, status: 'synced' }
+                : { id: category.data.id, status: 'rejected', error: 'Category not found' });
+            } else if (category.action === 'delete') {
+              await storage.deleteCategory(category.data.id, req.storeId!);
+              results.categories.push({ id: category.data.id, status: 'deleted' });
+            } else {
+              results.categories.push({ id: category.data?.id, status: 'rejected', error: 'Unknown action' });
+            }
+          } catch (err) {
+            results.categories.push({ id: category.data?.id, ...failure(err) });
+          }
+        }
+      }
+
+      // Sync suppliers (offline clients choose the supplier ID)
+      if (suppliers && Array.isArray(suppliers)) {
+        for (const supplier of suppliers) {
+          try {
+            if (supplier.action === 'add') {
+              const created = await storage.createSupplier(insertSupplierSchema.parse(supplier.data), req.storeId!);
+              results.suppliers.push({ id: created.id, status: 'synced' });
+            } else if (supplier.action === 'update') {
+              const updated = await storage.updateSupplier(supplier.data.id, insertSupplierSchema.partial().parse(supplier.data), req.storeId!);
+              results.suppliers.push(updated
+                ? { id: supplier.data.id, status: 'synced' }
+                : { id: supplier.data.id, status: 'rejected', error: 'Supplier not found' });
+            } else if (supplier.action === 'delete') {
+              await storage.deleteSupplier(supplier.data.id, req.storeId!);
+              results.suppliers.push({ id: supplier.data.id, status: 'deleted' });
+            } else {
+              results.suppliers.push({ id: supplier.data?.id, status: 'rejected', error: 'Unknown action' });
+            }
+          } catch (err) {
+            results.suppliers.push({ id: supplier.data?.id, ...failure(err) });
+          }
+        }
+      }
+
+      // Sync customers (offline clients choose the customer ID), before the
+      // sales charged to their accounts
+      if (customers && Array.isArray(customers)) {
+        for (const customer of customers) {
+          try {
+            if (customer.action === 'add') {
+              const created = await storage.createCustomer(insertCustomerSchema.parse(customer.data), req.storeId!);
+              results.customers.push({ id: created.id, status: 'synced' });
+            } else if (customer.action === 'update') {
+              const updated = await storage.updateCustomer(customer.data.id, insertCustomerSchema.partial().parse(customer.data), req.storeId!);
+              results.customers.push(updated
+                ? { id: customer.data.id, status: 'synced' }
+                : { id: customer.data.id, status: 'rejected', error: 'Customer not found' });
+            } else if (customer.action === 'delete') {
+              await storage.deleteCustomer(customer.data.id, req.storeId!);
+              results.customers.push({ id: customer.data.id, status: 'deleted' });
+            } else {
+              results.customers.push({ id: customer.data?.id, status: 'rejected', error: 'Unknown action' });
+            }
+          } catch (err) {
+            results.customers.push({ id: customer.data?.id, ...failure(err) });
+          }
+        }
+      }
 
       // Sync products
       if (products && Array.isArray(products)) {
         for (const product of products) {
           try {
             if (product.action === 'add') {
-              const created = await storage.createProduct(product.data, req.userId);
+              const data = insertProductSchema.parse(product.data);
+              data.parentId = toServerId(data.parentId) ?? null;
+              const created = await storage.createProduct(data, req.storeId!, req.userId);
+              if (product.data.localId) productIds.set(product.data.localId, created.id);
               results.products.push({ localId: product.data.localId, serverId: created.id, status: 'synced' });
             } else if (product.action === 'update') {
-              await storage.updateProduct(product.data.id, product.data, req.userId);
-              results.products.push({ id: product.data.id, status: 'synced' });
+              const id = toServerId(product.data.id)!;
+              const updates = updateProductSchema.parse(product.data);
+              if (updates.parentId) updates.parentId = toServerId(updates.parentId);
+              if (updates.version !== undefined) {
+                updates.version = versions.get(`${id}:${updates.version}`) ?? updates.version;
+              }
+              const updated = await storage.updateProduct(id, updates, req.storeId!);
+              if (updated && product.data.version !== undefined) {
+                versions.set(`${id}:${product.data.version}`, updated.version);
+              }
+              results.products.push(updated
+                ? { id, status: 'synced', version: updated.version }
+                : { id, status: 'rejected', error: 'Product not found' });
             } else if (product.action === 'delete') {
-              await storage.deleteProduct(product.data.id, req.userId);
-              results.products.push({ id: product.data.id, status: 'deleted' });
+              const id = toServerId(product.data.id)!;
+              await storage.deleteProduct(id, req.storeId!);
+              results.products.push({ id, status: 'deleted' });
+            } else {
+              results.products.push({ id: product.data?.id, status: 'rejected', error: 'Unknown action' });
+            }
+          } catch (err) {
+            if (err instanceof ProductConflictError) {
+              results.products.push({ id: err.current.id, status: 'conflict', current: err.current });
+            } else {
+              results.products.push({ localId: product.data?.localId, ...failure(err) });
+            }
+          }
+        }
+      }
+
+      // Sync stock movements (only ever added)
+      if (stock && Array.isArray(stock)) {
+        for (const movement of stock) {
+          try {
+            const data = insertStockMovementSchema.parse(movement.data);
+            data.productId = toServerId(data.productId)!;
+            const product = await storage.recordStockMovement(data, req.storeId!, req.userId);
+            results.stock.push(product
+              ? { localId: movement.data.localId, status: 'synced' }
+              : { localId: movement.data.localId, status: 'rejected', error: 'Product not found' });
+          } catch (err) {
+            results.stock.push({ localId: movement.data?.localId, ...failure(err) });
+          }
+        }
+      }
+
+      // Sync purchase orders (offline clients choose the order and line IDs)
+      if (purchaseOrders && Array.isArray(purchaseOrders)) {
+        for (const order of purchaseOrders) {
+          try {
+            const remapLines = <T extends { productId?: string | null }>(lines: T[]) =>
+              lines.map((line) => ({ ...line, productId: toServerId(line.productId) ?? null }));
+
+            if (order.action === 'add') {
+              const data = insertPurchaseOrderSchema.parse(order.data);
+              data.lines = remapLines(data.lines);
+              const created = await storage.createPurchaseOrder(data, req.storeId!, req.userId);
+              results.purchaseOrders.push({ id: created.id, status: 'synced' });
+            } else if (order.action === 'update') {
+              const updates = updatePurchaseOrderSchema.parse(order.data);
+              if (updates.lines) updates.lines = remapLines(updates.lines);
+              const updated = await storage.updatePurchaseOrder(order.data.id, updates, req.storeId!);
+              results.purchaseOrders.push(updated
+                ? { id: order.data.id, status: 'synced' }
+                : { id: order.data.id, status: 'rejected', error: 'Purchase order not found' });
+            } else if (order.action === 'delete') {
+              await storage.deletePurchaseOrder(order.data.id, req.storeId!);
+              results.purchaseOrders.push({ id: order.data.id, status: 'deleted' });
+            } else {
+              results.purchaseOrders.push({ id: order.data?.id, status: 'rejected', error: 'Unknown action' });
+            }
+          } catch (err) {
+            results.purchaseOrders.push({ id: order.data?.id, ...failure(err) });
+          }
+        }
+      }
+
+      // Sync goods received against purchase orders (only ever added)
+      if (receipts && Array.isArray(receipts)) {
+        for (const receipt of receipts) {
+          try {
+            const data = receivePurchaseOrderSchema.parse(receipt.data);
+            const order = await storage.receivePurchaseOrder(receipt.data.orderId, data, req.storeId!, req.userId);
+            results.receipts.push(order
+              ? { localId: receipt.data.localId, status: 'synced' }
+              : { localId: receipt.data.localId, status: 'rejected', error: 'Purchase order not found' });
+          } catch (err) {
+            results.receipts.push({ localId: receipt.data?.localId, ...failure(err) });
+          }
+        }
+      }
+
+      // Sync promotions (offline clients choose the promotion ID), before the
+      // sales they were applied to
+      if (promotions && Array.isArray(promotions)) {
+        for (const promotion of promotions) {
+          try {
+            if (promotion.action === 'add' || promotion.action === 'update') {
+              const data = insertPromotionSchema.parse(promotion.data);
+              data.productId = toServerId(data.productId) ?? null;
+              const saved = promotion.action === 'add'
+                ? await storage.createPromotion(data, req.storeId!)
+                : await storage.updatePromotion(promotion.data.id, data, req.storeId!);
+              results.promotions.push(saved
+                ? { id: saved.id, status: 'synced' }
+                : { id: promotion.data.id, status: 'rejected', error: 'Promotion not found' });
+            } else if (promotion.action === 'delete') {
+              await storage.deletePromotion(promotion.data.id, req.storeId!);
+              results.promotions.push({ id: promotion.data.id, status: 'deleted' });
+            } else {
+              results.promotions.push({ id: promotion.data?.id, status: 'rejected', error: 'Unknown action' });
             }
           } catch (err) {
-            results.products.push({ localId: product.data?.localId, status: 'error' });
+            results.promotions.push({ id: promotion.data?.id, ...failure(err) });
           }
         }
       }
@@ -202,10 +914,38 @@ export async function registerRoutes(
       if (sales && Array.isArray(sales)) {
         for (const sale of sales) {
           try {
-            const created = await storage.createSale(sale.data, req.userId);
-            results.sales.push({ localId: sale.data.localId, serverId: created.id, status: 'synced' });
+            const data = insertSaleSchema.parse(sale.data);
+            data.lines = data.lines.map((line) => ({ ...line, productId: toServerId(line.productId) ?? null }));
+            const { sale: created, stockWarnings } = await storage.createSale(data, req.storeId!, req.userId);
+            results.sales.push({ localId: sale.data.localId, serverId: created.id, status: 'synced', stockWarnings });
+          } catch (err) {
+            results.sales.push({ localId: sale.data?.localId, ...failure(err) });
+          }
+        }
+      }
+
+      // Sync payments toward customers' accounts (only ever added)
+      if (customerPayments && Array.isArray(customerPayments)) {
+        for (const payment of customerPayments) {
+          try {
+            const created = await storage.createCustomerPayment(insertCustomerPaymentSchema.parse(payment.data), req.storeId!, req.userId);
+            results.customerPayments.push(created
+              ? { id: created.id, status: 'synced' }
+              : { id: payment.data.id, status: 'rejected', error: 'Customer not found' });
+          } catch (err) {
+            results.customerPayments.push({ id: payment.data?.id, ...failure(err) });
+          }
+        }
+      }
+
+      // Sync closed cash shifts, after the sales rung up in them (only ever added)
+      if (cashShifts && Array.isArray(cashShifts)) {
+        for (const shift of cashShifts) {
+          try {
+            const created = await storage.createCashShift(insertCashShiftSchema.parse(shift.data), req.storeId!, req.userId);
+            results.cashShifts.push({ id: created.id, status: 'synced' });
           } catch (err) {
-            results.sales.push({ localId: sale.data?.localId, status: 'error' });
+            results.cashShifts.push({ id: shift.data?.id, ...failure(err) });
           }
         }
       }
@@ -240,6 +980,7 @@ export async function registerRoutes(
       }
       
       const user = await inviteUser(email, password);
+      await storage.addStoreMember(req.storeId!, user.id, 'member');
       res.status(201).json({ 
         id: user.id, 
         email: user.email,
@@ -1,54 +1,735 @@
-import { type User, type InsertUser, type Product, type InsertProduct, type Category, type InsertCategory, type Sale, type InsertSale } from "@shared/schema";
+import {
+  DEFAULT_CATEGORIES,
+  type User,
+  type InsertUser,
+  type Store,
+  type InsertStore,
+  type UpdateStore,
+  type StoreMember,
+  type StoreMembership,
+  type StoreRole,
+  type Product,
+  type InsertProduct,
+  type UpdateProduct,
+  type Category,
+  type InsertCategory,
+  type Sale,
+  type SaleLine,
+  type SalePayment,
+  type InsertSale,
+  type SaleResult,
+  type CashShift,
+  type CashMovement,
+  type InsertCashShift,
+  type InsertStockMovement,
+  type StockMovement,
+  type Supplier,
+  type InsertSupplier,
+  type Promotion,
+  type InsertPromotion,
+  type Customer,
+  type InsertCustomer,
+  type CustomerPayment,
+  type InsertCustomerPayment,
+  type PurchaseOrder,
+  type PurchaseOrderHeader,
+  type PurchaseOrderLine,
+  type InsertPurchaseOrder,
+  type UpdatePurchaseOrder,
+  type ReceivePurchaseOrder,
+  type ChangeSet,
+  type ChangeEntity,
+  computeSaleTotals,
+  resolveSalePayments,
+  computeShiftTotals,
+  shiftSalesTotals,
+  inSameShift,
+  returnableQuantities,
+  refundAmount,
+  saleLineKey,
+} from "@shared/schema";
 import { supabase } from "./supabase";
 import { randomUUID } from "crypto";
+import { createDatabase } from "./db";
+import { DrizzleStorage } from "./drizzleStorage";
+import { MemStorage } from "./memStorage";
+import { CHANGES_PAGE_SIZE, collapseChanges, toChangeSet } from "./changes";
 
 // Export supabase for use in admin routes
 export { supabase };
 
+// Every category, product and sale method takes the caller's storeId and
+// must never read or change rows that belong to another store.
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
-  getCategories(): Promise<Category[]>;
-  getCategory(id: string): Promise<Category | undefined>;
-  createCategory(category: InsertCategory): Promise<Category>;
-  updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
-  deleteCategory(id: string): Promise<boolean>;
-  
-  getProducts(userId?: string): Promise<Product[]>;
-  getProduct(id: string, userId?: string): Promise<Product | undefined>;
-  createProduct(product: InsertProduct, userId?: string): Promise<Product>;
-  updateProduct(id: string, product: Partial<InsertProduct>, userId?: string): Promise<Product | undefined>;
-  deleteProduct(id: string, userId?: string): Promise<boolean>;
-  
-  getSales(userId?: string): Promise<Sale[]>;
-  getSalesByDate(date: string, userId?: string): Promise<Sale[]>;
-  createSale(sale: InsertSale, userId?: string): Promise<Sale>;
+
+  getStoresForUser(userId: string): Promise<StoreMembership[]>;
+  createStore(store: InsertStore, ownerId: string): Promise<Store>;
+  addStoreMember(storeId: string, userId: string, role: StoreRole): Promise<StoreMember>;
+  updateStore(id: string, updates: UpdateStore): Promise<Store | undefined>;
+
+  getCategories(storeId: string): Promise<Category[]>;
+  getCategory(id: string, storeId: string): Promise<Category | undefined>;
+  // Offline clients pass the ID they created the category under; creating
+  // an ID that already exists returns the existing category
+  createCategory(category: InsertCategory, storeId: string, id?: string): Promise<Category>;
+  updateCategory(id: string, category: Partial<InsertCategory>, storeId: string): Promise<Category | undefined>;
+  deleteCategory(id: string, storeId: string): Promise<boolean>;
+
+  getProducts(storeId: string): Promise<Product[]>;
+  getProduct(id: string, storeId: string): Promise<Product | undefined>;
+  // The initial quantity is recorded as a receipt movement
+  createProduct(product: InsertProduct, storeId: string, userId?: string): Promise<Product>;
+  // Throws ProductConflictError when product.version is given and stale
+  updateProduct(id: string, product: UpdateProduct, storeId: string): Promise<Product | undefined>;
+  deleteProduct(id: string, storeId: string): Promise<boolean>;
+  // Adds movement.delta to the product's stock, once per localId. Returns the
+  // product afterwards, or undefined when it doesn't exist in the store.
+  recordStockMovement(movement: InsertStockMovement, storeId: string, userId?: string): Promise<Product | undefined>;
+  // The product's stock ledger, newest first
+  getStockMovements(productId: string, storeId: string): Promise<StockMovement[]>;
+
+  getSuppliers(storeId: string): Promise<Supplier[]>;
+  // Like categories, creating an ID that already exists returns the existing
+  // supplier. Throws IdConflictError when the ID belongs to another store.
+  createSupplier(supplier: InsertSupplier, storeId: string): Promise<Supplier>;
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>, storeId: string): Promise<Supplier | undefined>;
+  deleteSupplier(id: string, storeId: string): Promise<boolean>;
+
+  getPromotions(storeId: string): Promise<Promotion[]>;
+  // Like suppliers, creating an ID that already exists returns the existing
+  // promotion, or throws IdConflictError when it belongs to another store.
+  // Updates replace every field.
+  createPromotion(promotion: InsertPromotion, storeId: string): Promise<Promotion>;
+  updatePromotion(id: string, promotion: InsertPromotion, storeId: string): Promise<Promotion | undefined>;
+  deletePromotion(id: string, storeId: string): Promise<boolean>;
+
+  getCustomers(storeId: string): Promise<Customer[]>;
+  // Like suppliers, creating an ID that already exists returns the existing
+  // customer, or throws IdConflictError when it belongs to another store.
+  // Deleting one deletes their payments; their sales are kept.
+  createCustomer(customer: InsertCustomer, storeId: string): Promise<Customer>;
+  updateCustomer(id: string, customer: Partial<InsertCustomer>, storeId: string): Promise<Customer | undefined>;
+  deleteCustomer(id: string, storeId: string): Promise<boolean>;
+  // Payments toward customers' accounts, newest first. They are only ever
+  // added: recording an ID that already exists returns the existing payment,
+  // or throws IdConflictError when it belongs to another store. Returns
+  // undefined when the customer doesn't exist in the store.
+  getCustomerPayments(storeId: string): Promise<CustomerPayment[]>;
+  createCustomerPayment(payment: InsertCustomerPayment, storeId: string, userId?: string): Promise<CustomerPayment | undefined>;
+
+  getPurchaseOrders(storeId: string): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: string, storeId: string): Promise<PurchaseOrder | undefined>;
+  // Creating an ID that already exists returns the existing order, or throws
+  // IdConflictError when the ID belongs to another store
+  createPurchaseOrder(order: InsertPurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder>;
+  // The update methods below throw PurchaseOrderStateError when the order's
+  // status doesn't allow the change
+  updatePurchaseOrder(id: string, updates: UpdatePurchaseOrder, storeId: string): Promise<PurchaseOrder | undefined>;
+  // Only orders nothing has been received against can be deleted
+  deletePurchaseOrder(id: string, storeId: string): Promise<boolean>;
+  // Adds the received quantities to stock through receipt movements and folds
+  // their unit cost into each product's moving-average cost (see
+  // movingAverageCost), once per receipt.localId
+  receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder | undefined>;
+
+  getSales(storeId: string): Promise<Sale[]>;
+  getSalesByDate(date: string, storeId: string): Promise<Sale[]>;
+  // Stock is decremented through a sale movement per line; refunds put it
+  // back through return movements. Throws SaleRefundError when a refund
+  // doesn't fit its original sale (see checkSaleRefund), and
+  // SaleCustomerError when a sale names a customer the store doesn't have.
+  createSale(sale: InsertSale, storeId: string, userId?: string): Promise<SaleResult>;
+
+  // Closed cash drawer shifts (Z-reports), newest first. They are only ever
+  // added: recording an ID that already exists returns the existing shift, or
+  // throws IdConflictError when the ID belongs to another store. The sales
+  // figures are worked out from the sales recorded in the shift.
+  getCashShifts(storeId: string): Promise<CashShift[]>;
+  createCashShift(shift: InsertCashShift, storeId: string, userId?: string): Promise<CashShift>;
+
+  // Delta sync: what changed in the store after the given change cursor
+  getChanges(storeId: string, since: number): Promise<ChangeSet>;
 }
 
-export class SupabaseStorage implements IStorage {
-  private users: Map<string, User>;
-  private categories: Map<string, Category>;
+// Thrown when a create names an ID that a row of another store already has
+export class IdConflictError extends Error {}
 
-  constructor() {
-    this.users = new Map();
-    this.categories = new Map();
-    this.initializeDefaultCategories();
+// Thrown when an edit was made against an older version of the product
+export class ProductConflictError extends Error {
+  constructor(public current: Product) {
+    super('Product was changed since this edit was made');
+  }
+}
+
+// Thrown when a product can't be a variant of the parent it names
+export class ProductVariantError extends Error {}
+
+// Variants hang directly off a parent in the same store: a variant can't
+// have variants of its own, so neither can it be a parent nor a parent a variant
+export function checkProductParent(productId: string | null, parent: Product | undefined, hasVariants: boolean) {
+  if (!parent) {
+    throw new ProductVariantError('Parent product not found');
+  }
+  if (parent.id === productId) {
+    throw new ProductVariantError("A product can't be a variant of itself");
+  }
+  if (parent.parentId) {
+    throw new ProductVariantError("A variant can't have variants of its own");
+  }
+  if (hasVariants) {
+    throw new ProductVariantError("A product with variants can't become a variant");
+  }
+}
+
+// Thrown when a purchase order's status doesn't allow a change
+export class PurchaseOrderStateError extends Error {}
+
+// Lines can only change on drafts, and the only status a client sets is
+// draft → sent (the rest follow from receiving goods)
+export function checkPurchaseOrderUpdate(order: PurchaseOrderHeader, updates: UpdatePurchaseOrder) {
+  if (updates.lines && order.status !== 'draft') {
+    throw new PurchaseOrderStateError('Only draft purchase orders can change their lines');
+  }
+  if (updates.status && updates.status !== order.status && !(order.status === 'draft' && updates.status === 'sent')) {
+    throw new PurchaseOrderStateError(`Purchase order can't go from ${order.status} to ${updates.status}`);
+  }
+}
+
+// Check a receipt against the order before applying it
+export function checkPurchaseOrderReceipt(order: PurchaseOrder, receipt: ReceivePurchaseOrder) {
+  if (order.status === 'draft') {
+    throw new PurchaseOrderStateError('A draft purchase order must be sent before receiving goods');
+  }
+  receipt.lines.forEach(({ lineId }) => {
+    if (!order.lines.some((line) => line.id === lineId)) {
+      throw new PurchaseOrderStateError(`Purchase order line ${lineId} not found`);
+    }
+  });
+}
+
+// Thrown when a sale names a customer the store doesn't have
+export class SaleCustomerError extends Error {}
+
+// Thrown when a refund doesn't fit the sale it names
+export class SaleRefundError extends Error {}
+
+// Check a refund against the original sale and the refunds already made
+// against it. A void reverses everything, in the sale's shift, and only if
+// nothing was returned yet; a return gives back at most what is left of each
+// line. Either way, items go back at the price and tax rate they were sold
+// at, for their share of what was paid after discounts (see refundAmount).
+export function checkSaleRefund(refund: InsertSale, original: Sale | undefined, refunds: Sale[]) {
+  if (!original) {
+    throw new SaleRefundError('Original sale not found');
+  }
+  if (original.kind !== 'sale') {
+    throw new SaleRefundError('Only sales can be refunded');
+  }
+  if (refund.customerId && refund.customerId !== original.customerId) {
+    throw new SaleRefundError("Refunds can only go back to the sale's customer");
+  }
+  if (refunds.some((r) => r.kind === 'void')) {
+    throw new SaleRefundError('Sale was already voided');
+  }
+  if (refund.kind === 'void') {
+    if (refunds.length > 0) {
+      throw new SaleRefundError("A sale with returns can't be voided");
+    }
+    if (!inSameShift(original, refund)) {
+      throw new SaleRefundError('A sale can only be voided in the shift it was made in');
+    }
   }
 
-  private async initializeDefaultCategories() {
-    const defaultCategories = [
-      { name: 'Bebidas', color: '#3B82F6' },
-      { name: 'Alimentos', color: '#10B981' },
-      { name: 'Limpieza', color: '#F59E0B' },
-      { name: 'Otros', color: '#6B7280' },
-    ];
+  if ((refund.pricesIncludeTax ?? true) !== original.pricesIncludeTax) {
+    throw new SaleRefundError('Refunds must price tax as the sale did');
+  }
 
-    for (const cat of defaultCategories) {
-      const id = randomUUID();
-      this.categories.set(id, { ...cat, id });
+  const remaining = returnableQuantities(original, refunds);
+  const returned = new Map<string, number>();
+  refund.lines.forEach((line) => {
+    const key = saleLineKey(line);
+    const sold = original.lines.find((l) => saleLineKey(l) === key);
+    if (!sold) {
+      throw new SaleRefundError(`${line.productName} is not in the sale`);
+    }
+    if (Math.round(line.unitPrice * 100) !== Math.round(sold.unitPrice * 100)) {
+      throw new SaleRefundError(`${line.productName} must be refunded at the price it was sold at`);
+    }
+    if ((line.taxRate ?? null) !== sold.taxRate) {
+      throw new SaleRefundError(`${line.productName} must be refunded at the tax rate it was sold at`);
     }
+    returned.set(key, (returned.get(key) ?? 0) - line.quantity);
+  });
+  returned.forEach((quantity, key) => {
+    if (quantity > (remaining.get(key) ?? 0)) {
+      throw new SaleRefundError('More units refunded than are left in the sale');
+    }
+    const amount = -refund.lines
+      .filter((line) => saleLineKey(line) === key)
+      .reduce((sum, line) => sum + line.total, 0);
+    if (Math.abs(amount - refundAmount(original, refunds, key, quantity)) > 0.01) {
+      throw new SaleRefundError('Refunds must give back what was paid for the items');
+    }
+  });
+  if (refund.kind === 'void' && original.lines.some((line) => returned.get(saleLineKey(line)) !== remaining.get(saleLineKey(line)))) {
+    throw new SaleRefundError('A void must reverse the whole sale');
+  }
+}
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+// Error code the purchase order and sale functions raise for a disallowed change
+const RAISE_EXCEPTION = 'P0001';
+
+// Row shapes as PostgREST returns them (see supabase/migrations). inventario
+// ids are bigints, so they may come back as numbers.
+interface TiendaRow {
+  id: string;
+  nombre: string;
+  creado_en: string;
+  precios_con_iva?: boolean;
+  tasa_iva?: number | null;
+}
+
+interface CategoriaRow {
+  id: string;
+  tienda_id: string;
+  nombre: string;
+  color: string;
+  tasa_iva?: number | null;
+  exento_iva?: boolean;
+}
+
+interface InventarioRow {
+  id: number | string;
+  nombre: string;
+  precio: number;
+  cantidad: number;
+  costo?: number | null;
+  sku?: string | null;
+  codigos_barras?: string[];
+  categoria_id: string | null;
+  parent_id?: number | string | null;
+  variant_name?: string | null;
+  tasa_iva?: number | null;
+  exento_iva?: boolean;
+  local_id: string | null;
+  user_id: string | null;
+  tienda_id: string;
+  version?: number;
+}
+
+interface MovimientoStockRow {
+  id: string;
+  product_id: number | string;
+  delta: number;
+  reason: StockMovement['reason'];
+  note: string | null;
+  created_at: string;
+  user_id: string | null;
+  sale_id: string | null;
+  purchase_order_id: string | null;
+  local_id: string | null;
+  tienda_id: string;
+}
+
+interface ProveedorRow {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  tienda_id: string;
+}
+
+interface ClienteRow {
+  id: string;
+  name: string;
+  phone: string | null;
+  notes: string | null;
+  credit_limit: number | null;
+  tienda_id: string;
+}
+
+interface AbonoClienteRow {
+  id: string;
+  customer_id: string;
+  amount: number;
+  method: CustomerPayment['method'];
+  note: string | null;
+  created_at: string;
+  user_id: string | null;
+  tienda_id: string;
+}
+
+interface LineaOrdenCompraRow {
+  id: string;
+  order_id: string;
+  product_id: number | string | null;
+  product_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+interface OrdenCompraRow {
+  id: string;
+  supplier_id: string | null;
+  status: PurchaseOrder['status'];
+  notes: string | null;
+  created_at: string;
+  user_id: string | null;
+  tienda_id: string;
+  lineas_orden_compra?: LineaOrdenCompraRow[];
+}
+
+interface LineaVentaRow {
+  id: string;
+  transaction_id: string;
+  product_id: number | string | null;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  unit_cost?: number | null;
+  discount?: number;
+  promotion_id?: string | null;
+  tax_rate?: number | null;
+  tax?: number;
+  total: number;
+}
+
+interface PromocionRow {
+  id: string;
+  name: string;
+  type: Promotion['type'];
+  product_id: string | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  category_id: string | null;
+  percent: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  active: boolean;
+  tienda_id: string;
+}
+
+interface PagoVentaRow {
+  id: string;
+  transaction_id: string;
+  method: SalePayment['method'];
+  amount: number;
+  tendered: number | null;
+}
+
+interface TransaccionVentaRow {
+  id: string;
+  date: string;
+  created_at: string;
+  item_count: number;
+  total: number;
+  payment_method: Sale['paymentMethod'];
+  local_id: string | null;
+  user_id: string | null;
+  tienda_id: string;
+  lineas_venta?: LineaVentaRow[];
+  pagos_venta?: PagoVentaRow[];
+  shift_id?: string | null;
+  kind?: Sale['kind'];
+  original_sale_id?: string | null;
+  reason?: string | null;
+  discount?: number;
+  prices_include_tax?: boolean;
+  customer_id?: string | null;
+}
+
+interface MovimientoCajaRow {
+  id: string;
+  shift_id: string;
+  type: CashMovement['type'];
+  amount: number;
+  note: string | null;
+  created_at: string;
+}
+
+interface TurnoCajaRow {
+  id: string;
+  opened_at: string;
+  closed_at: string;
+  opening_float: number;
+  sales_count: number;
+  sales_total: number;
+  payment_totals: CashShift['paymentTotals'];
+  pay_ins: number;
+  pay_outs: number;
+  expected_cash: number;
+  counted_cash: number;
+  difference: number;
+  user_id: string | null;
+  tienda_id: string;
+  movimientos_caja?: MovimientoCajaRow[];
+}
+
+// registrar_venta's "avisos": products a sale left below zero
+interface AvisoStockRow {
+  product_id: number | string;
+  product_name: string;
+  quantity: number;
+}
+
+interface CambioRow {
+  seq: number | string;
+  tienda_id: string;
+  entidad: ChangeEntity;
+  entidad_id: string;
+  eliminado: boolean;
+}
+
+function toStore(row: TiendaRow): Store {
+  return {
+    id: String(row.id),
+    name: row.nombre,
+    createdAt: new Date(row.creado_en),
+    pricesIncludeTax: row.precios_con_iva ?? true,
+    taxRate: row.tasa_iva ?? null,
+  };
+}
+
+function toCategory(row: CategoriaRow): Category {
+  return {
+    id: String(row.id),
+    storeId: row.tienda_id,
+    name: row.nombre,
+    color: row.color,
+    taxRate: row.tasa_iva ?? null,
+    taxExempt: row.exento_iva ?? false,
+  };
+}
+
+function toProduct(row: InventarioRow): Product {
+  return {
+    id: String(row.id),
+    name: row.nombre,
+    price: row.precio,
+    quantity: row.cantidad,
+    cost: row.costo ?? null,
+    sku: row.sku ?? null,
+    barcodes: row.codigos_barras ?? [],
+    categoryId: row.categoria_id || null,
+    parentId: row.parent_id ? String(row.parent_id) : null,
+    variantName: row.variant_name ?? null,
+    taxRate: row.tasa_iva ?? null,
+    taxExempt: row.exento_iva ?? false,
+    localId: row.local_id || null,
+    synced: 1,
+    userId: row.user_id || null,
+    storeId: row.tienda_id,
+    version: row.version ?? 1,
+  };
+}
+
+function toStockMovement(row: MovimientoStockRow): StockMovement {
+  return {
+    id: String(row.id),
+    productId: String(row.product_id),
+    delta: row.delta,
+    reason: row.reason,
+    note: row.note || null,
+    createdAt: new Date(row.created_at),
+    userId: row.user_id || null,
+    saleId: row.sale_id ? String(row.sale_id) : null,
+    purchaseOrderId: row.purchase_order_id || null,
+    localId: row.local_id || null,
+    storeId: row.tienda_id,
+  };
+}
+
+function toSupplier(row: ProveedorRow): Supplier {
+  return {
+    id: String(row.id),
+    name: row.name,
+    phone: row.phone || null,
+    email: row.email || null,
+    notes: row.notes || null,
+    synced: 1,
+    storeId: row.tienda_id,
+  };
+}
+
+function toCustomer(row: ClienteRow): Customer {
+  return {
+    id: String(row.id),
+    name: row.name,
+    phone: row.phone || null,
+    notes: row.notes || null,
+    creditLimit: row.credit_limit ?? null,
+    synced: 1,
+    storeId: row.tienda_id,
+  };
+}
+
+function toCustomerPayment(row: AbonoClienteRow): CustomerPayment {
+  return {
+    id: String(row.id),
+    customerId: String(row.customer_id),
+    amount: row.amount,
+    method: row.method,
+    note: row.note || null,
+    createdAt: new Date(row.created_at),
+    userId: row.user_id || null,
+    storeId: row.tienda_id,
+  };
+}
+
+function toPurchaseOrderLine(row: LineaOrdenCompraRow): PurchaseOrderLine {
+  return {
+    id: String(row.id),
+    orderId: String(row.order_id),
+    productId: row.product_id ? String(row.product_id) : null,
+    productName: row.product_name,
+    quantityOrdered: row.quantity_ordered,
+    quantityReceived: row.quantity_received,
+    unitCost: row.unit_cost,
+  };
+}
+
+function toPurchaseOrder(row: OrdenCompraRow): PurchaseOrder {
+  return {
+    id: String(row.id),
+    supplierId: row.supplier_id || null,
+    status: row.status,
+    notes: row.notes || null,
+    createdAt: new Date(row.created_at),
+    synced: 1,
+    userId: row.user_id || null,
+    storeId: row.tienda_id,
+    lines: (row.lineas_orden_compra || []).map(toPurchaseOrderLine),
+  };
+}
+
+function toSaleLine(row: LineaVentaRow): SaleLine {
+  return {
+    id: String(row.id),
+    transactionId: String(row.transaction_id),
+    productId: row.product_id ? String(row.product_id) : null,
+    productName: row.product_name,
+    quantity: row.quantity,
+    unitPrice: row.unit_price,
+    unitCost: row.unit_cost ?? null,
+    discount: row.discount ?? 0,
+    promotionId: row.promotion_id || null,
+    taxRate: row.tax_rate ?? null,
+    tax: row.tax ?? 0,
+    total: row.total,
+  };
+}
+
+function toPromotion(row: PromocionRow): Promotion {
+  return {
+    id: String(row.id),
+    name: row.name,
+    type: row.type,
+    productId: row.product_id ? String(row.product_id) : null,
+    buyQuantity: row.buy_quantity ?? null,
+    getQuantity: row.get_quantity ?? null,
+    categoryId: row.category_id || null,
+    percent: row.percent ?? null,
+    startsAt: row.starts_at || null,
+    endsAt: row.ends_at || null,
+    active: row.active,
+    synced: 1,
+    storeId: row.tienda_id,
+  };
+}
+
+function toPromotionRow(promotion: InsertPromotion) {
+  return {
+    name: promotion.name,
+    type: promotion.type,
+    product_id: promotion.productId || null,
+    buy_quantity: promotion.buyQuantity ?? null,
+    get_quantity: promotion.getQuantity ?? null,
+    category_id: promotion.categoryId || null,
+    percent: promotion.percent ?? null,
+    starts_at: promotion.startsAt || null,
+    ends_at: promotion.endsAt || null,
+    active: promotion.active ?? true,
+  };
+}
+
+function toSalePayment(row: PagoVentaRow): SalePayment {
+  return {
+    id: String(row.id),
+    transactionId: String(row.transaction_id),
+    method: row.method,
+    amount: row.amount,
+    tendered: row.tendered ?? null,
+  };
+}
+
+function toSale(row: TransaccionVentaRow): Sale {
+  return {
+    id: String(row.id),
+    date: row.date,
+    createdAt: new Date(row.created_at),
+    itemCount: row.item_count,
+    total: row.total,
+    paymentMethod: row.payment_method,
+    localId: row.local_id || null,
+    synced: 1,
+    userId: row.user_id || null,
+    storeId: row.tienda_id,
+    lines: (row.lineas_venta || []).map(toSaleLine),
+    payments: (row.pagos_venta || []).map(toSalePayment),
+    shiftId: row.shift_id || null,
+    kind: row.kind ?? 'sale',
+    originalSaleId: row.original_sale_id ? String(row.original_sale_id) : null,
+    reason: row.reason || null,
+    discount: row.discount ?? 0,
+    pricesIncludeTax: row.prices_include_tax ?? true,
+    customerId: row.customer_id || null,
+  };
+}
+
+function toCashMovement(row: MovimientoCajaRow): CashMovement {
+  return {
+    id: String(row.id),
+    shiftId: String(row.shift_id),
+    type: row.type,
+    amount: row.amount,
+    note: row.note || null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toCashShift(row: TurnoCajaRow): CashShift {
+  return {
+    id: String(row.id),
+    openedAt: new Date(row.opened_at),
+    closedAt: new Date(row.closed_at),
+    openingFloat: row.opening_float,
+    salesCount: row.sales_count,
+    salesTotal: row.sales_total,
+    paymentTotals: row.payment_totals,
+    payIns: row.pay_ins,
+    payOuts: row.pay_outs,
+    expectedCash: row.expected_cash,
+    countedCash: row.counted_cash,
+    difference: row.difference,
+    userId: row.user_id || null,
+    storeId: row.tienda_id,
+    movements: (row.movimientos_caja || []).map(toCashMovement),
+  };
+}
+
+export class SupabaseStorage implements IStorage {
+  private users: Map<string, User>;
+
+  constructor() {
+    this.users = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -68,42 +749,202 @@ export class SupabaseStorage implements IStorage {
     return user;
   }
 
-  async getCategories(): Promise<Category[]> {
-    return Array.from(this.categories.values());
+  // Stores live in "tiendas", memberships in "tienda_miembros"
+  // (see supabase/migrations for their schema)
+  async getStoresForUser(userId: string): Promise<StoreMembership[]> {
+    const { data, error } = await supabase
+      .from('tienda_miembros')
+      .select('rol, tiendas(*)')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching stores from Supabase:', error);
+      throw new Error('Failed to fetch stores');
+    }
+
+    const rows = (data || []) as unknown as { rol: StoreRole; tiendas: TiendaRow | null }[];
+    return rows
+      .filter((row): row is { rol: StoreRole; tiendas: TiendaRow } => row.tiendas !== null)
+      .map((row) => ({ ...toStore(row.tiendas), role: row.rol }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createStore(insertStore: InsertStore, ownerId: string): Promise<Store> {
+    const { data, error } = await supabase
+      .from('tiendas')
+      .insert({
+        nombre: insertStore.name,
+        precios_con_iva: insertStore.pricesIncludeTax ?? true,
+        tasa_iva: insertStore.taxRate ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating store in Supabase:', error);
+      throw new Error('Failed to create store');
+    }
+
+    const store = toStore(data);
+    await this.addStoreMember(store.id, ownerId, 'owner');
+
+    const { error: categoriesError } = await supabase
+      .from('categorias')
+      .insert(DEFAULT_CATEGORIES.map((c) => ({ id: c.id, tienda_id: store.id, nombre: c.name, color: c.color })));
+
+    if (categoriesError) {
+      console.error('Error seeding categories in Supabase:', categoriesError);
+    }
+
+    return store;
+  }
+
+  async addStoreMember(storeId: string, userId: string, role: StoreRole): Promise<StoreMember> {
+    const { error } = await supabase
+      .from('tienda_miembros')
+      .upsert({ tienda_id: storeId, user_id: userId, rol: role });
+
+    if (error) {
+      console.error('Error adding store member in Supabase:', error);
+      throw new Error('Failed to add store member');
+    }
+
+    return { storeId, userId, role };
   }
 
-  async getCategory(id: string): Promise<Category | undefined> {
-    return this.categories.get(id);
+  async updateStore(id: string, updates: UpdateStore): Promise<Store | undefined> {
+    const updateData: Record<string, unknown> = {};
+
+    if (updates.name !== undefined) updateData.nombre = updates.name;
+    if (updates.pricesIncludeTax !== undefined) updateData.precios_con_iva = updates.pricesIncludeTax;
+    if (updates.taxRate !== undefined) updateData.tasa_iva = updates.taxRate;
+
+    const { data, error } = Object.keys(updateData).length > 0
+      ? await supabase.from('tiendas').update(updateData).eq('id', id).select().maybeSingle()
+      : await supabase.from('tiendas').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      console.error('Error updating store in Supabase:', error);
+      throw new Error('Failed to update store');
+    }
+
+    return data ? toStore(data) : undefined;
   }
 
-  async createCategory(insertCategory: InsertCategory): Promise<Category> {
-    const id = randomUUID();
-    const category: Category = { 
-      id,
-      name: insertCategory.name,
-      color: insertCategory.color || '#10B981',
-    };
-    this.categories.set(id, category);
-    return category;
+  // Categories are stored in the "categorias" table
+  async getCategories(storeId: string): Promise<Category[]> {
+    const { data, error } = await supabase
+      .from('categorias')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .order('nombre');
+
+    if (error) {
+      console.error('Error fetching categories from Supabase:', error);
+      throw new Error('Failed to fetch categories');
+    }
+
+    return (data || []).map(toCategory);
+  }
+
+  async getCategory(id: string, storeId: string): Promise<Category | undefined> {
+    const { data, error } = await supabase
+      .from('categorias')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return undefined;
+    }
+
+    return toCategory(data);
+  }
+
+  async createCategory(insertCategory: InsertCategory, storeId: string, id?: string): Promise<Category> {
+    const { data, error } = await supabase
+      .from('categorias')
+      .insert({
+        ...(id ? { id } : {}),
+        tienda_id: storeId,
+        nombre: insertCategory.name,
+        color: insertCategory.color || '#10B981',
+        tasa_iva: insertCategory.taxRate ?? null,
+        exento_iva: insertCategory.taxExempt ?? false,
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION && id) {
+      const existing = await this.getCategory(id, storeId);
+      if (existing) return existing;
+    }
+
+    if (error) {
+      console.error('Error creating category in Supabase:', error);
+      throw new Error('Failed to create category');
+    }
+
+    return toCategory(data);
   }
 
-  async updateCategory(id: string, updates: Partial<InsertCategory>): Promise<Category | undefined> {
-    const existing = this.categories.get(id);
-    if (!existing) return undefined;
-    
-    const updated = { ...existing, ...updates };
-    this.categories.set(id, updated);
-    return updated;
+  async updateCategory(id: string, updates: Partial<InsertCategory>, storeId: string): Promise<Category | undefined> {
+    const updateData: Record<string, unknown> = {};
+
+    if (updates.name !== undefined) updateData.nombre = updates.name;
+    if (updates.color !== undefined) updateData.color = updates.color;
+    if (updates.taxRate !== undefined) updateData.tasa_iva = updates.taxRate;
+    if (updates.taxExempt !== undefined) updateData.exento_iva = updates.taxExempt;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.getCategory(id, storeId);
+    }
+
+    const { data, error } = await supabase
+      .from('categorias')
+      .update(updateData)
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error updating category in Supabase:', error);
+      return undefined;
+    }
+
+    return toCategory(data);
   }
 
-  async deleteCategory(id: string): Promise<boolean> {
-    return this.categories.delete(id);
+  async deleteCategory(id: string, storeId: string): Promise<boolean> {
+    // Detach products first so they don't point at a missing category
+    await supabase
+      .from('inventario')
+      .update({ categoria_id: null })
+      .eq('tienda_id', storeId)
+      .eq('categoria_id', id);
+
+    const { data, error } = await supabase
+      .from('categorias')
+      .delete()
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting category from Supabase:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
   }
 
-  async getProducts(userId?: string): Promise<Product[]> {
+  async getProducts(storeId: string): Promise<Product[]> {
     const query = supabase
       .from('inventario')
       .select('*')
+      .eq('tienda_id', storeId)
       .order('nombre');
 
     const { data, error } = await query;
@@ -113,228 +954,1035 @@ export class SupabaseStorage implements IStorage {
       return [];
     }
 
-    return (data || []).map(row => ({
-      id: String(row.id),
-      name: row.nombre,
-      price: row.precio,
-      quantity: row.cantidad,
-      categoryId: row.categoria_id || null,
-      localId: row.local_id || null,
-      synced: 1,
-      userId: null,
-    }));
+    return (data || []).map(toProduct);
   }
 
-  async getProduct(id: string, userId?: string): Promise<Product | undefined> {
+  async getProduct(id: string, storeId: string): Promise<Product | undefined> {
     const query = supabase
       .from('inventario')
       .select('*')
+      .eq('tienda_id', storeId)
       .eq('id', id);
 
-    const { data, error } = await query.single();
+    const { data, error } = await query.maybeSingle();
 
     if (error || !data) {
       return undefined;
     }
 
-    return {
-      id: String(data.id),
-      name: data.nombre,
-      price: data.precio,
-      quantity: data.cantidad,
-      categoryId: data.categoria_id || null,
-      localId: data.local_id || null,
-      synced: 1,
-      userId: null,
-    };
+    return toProduct(data);
   }
 
-  async createProduct(insertProduct: InsertProduct, userId?: string): Promise<Product> {
-    const { data, error } = await supabase
+  private async hasVariants(id: string, storeId: string): Promise<boolean> {
+    const { count } = await supabase
       .from('inventario')
-      .insert({
+      .select('id', { count: 'exact', head: true })
+      .eq('tienda_id', storeId)
+      .eq('parent_id', id);
+    return (count ?? 0) > 0;
+  }
+
+  // The crear_producto function inserts the product and its initial receipt
+  // movement in one transaction, or returns the existing product for a
+  // replayed localId (see supabase/migrations)
+  async createProduct(insertProduct: InsertProduct, storeId: string, userId?: string): Promise<Product> {
+    if (insertProduct.parentId) {
+      checkProductParent(null, await this.getProduct(insertProduct.parentId, storeId), false);
+    }
+
+    const { data, error } = await supabase.rpc('crear_producto', {
+      p_tienda_id: storeId,
+      p_producto: {
         nombre: insertProduct.name,
         precio: insertProduct.price,
         cantidad: insertProduct.quantity,
+        costo: insertProduct.cost ?? null,
+        sku: insertProduct.sku || null,
+        codigos_barras: insertProduct.barcodes ?? [],
         categoria_id: insertProduct.categoryId || null,
+        parent_id: insertProduct.parentId || null,
+        variant_name: insertProduct.variantName || null,
+        tasa_iva: insertProduct.taxRate ?? null,
+        exento_iva: insertProduct.taxExempt ?? false,
         local_id: insertProduct.localId || null,
-      })
-      .select()
-      .single();
+        user_id: userId ?? null,
+      },
+    });
 
-    if (error) {
+    if (error || !data) {
       console.error('Error creating product in Supabase:', error);
       throw new Error('Failed to create product');
     }
 
-    return {
-      id: String(data.id),
-      name: data.nombre,
-      price: data.precio,
-      quantity: data.cantidad,
-      categoryId: data.categoria_id || null,
-      localId: data.local_id || null,
-      synced: 1,
-      userId: null,
-    };
+    return toProduct(data);
   }
 
-  async updateProduct(id: string, updates: Partial<InsertProduct>, userId?: string): Promise<Product | undefined> {
+  async updateProduct(id: string, updates: UpdateProduct, storeId: string): Promise<Product | undefined> {
     const updateData: Record<string, unknown> = {};
-    
+
     if (updates.name !== undefined) updateData.nombre = updates.name;
     if (updates.price !== undefined) updateData.precio = updates.price;
-    if (updates.quantity !== undefined) updateData.cantidad = updates.quantity;
+    if (updates.cost !== undefined) updateData.costo = updates.cost;
+    if (updates.sku !== undefined) updateData.sku = updates.sku;
+    if (updates.barcodes !== undefined) updateData.codigos_barras = updates.barcodes;
     if (updates.categoryId !== undefined) updateData.categoria_id = updates.categoryId;
+    if (updates.parentId !== undefined) updateData.parent_id = updates.parentId;
+    if (updates.variantName !== undefined) updateData.variant_name = updates.variantName;
+    if (updates.taxRate !== undefined) updateData.tasa_iva = updates.taxRate;
+    if (updates.taxExempt !== undefined) updateData.exento_iva = updates.taxExempt;
 
-    const query = supabase
-      .from('inventario')
-      .update(updateData)
-      .eq('id', id);
+    const current = await this.getProduct(id, storeId);
+    if (!current || Object.keys(updateData).length === 0) {
+      return current;
+    }
+    if (updates.parentId && updates.parentId !== current.parentId) {
+      checkProductParent(id, await this.getProduct(updates.parentId, storeId), await this.hasVariants(id, storeId));
+    }
 
-    const { data, error } = await query.select().single();
+    // Compare-and-set on the version; without an expected version, edit
+    // whatever is current
+    const expected = updates.version ?? current.version;
+    if (expected !== current.version) {
+      throw new ProductConflictError(current);
+    }
 
-    if (error || !data) {
+    const { data, error } = await supabase
+      .from('inventario')
+      .update({ ...updateData, version: expected + 1 })
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .eq('version', expected)
+      .select()
+      .maybeSingle();
+
+    if (error) {
       console.error('Error updating product in Supabase:', error);
       return undefined;
     }
 
-    return {
-      id: String(data.id),
-      name: data.nombre,
-      price: data.precio,
-      quantity: data.cantidad,
-      categoryId: data.categoria_id || null,
-      localId: data.local_id || null,
-      synced: 1,
-      userId: null,
-    };
+    // Someone else edited it between our read and write
+    if (!data) {
+      const latest = await this.getProduct(id, storeId);
+      if (!latest) return undefined;
+      if (updates.version !== undefined) throw new ProductConflictError(latest);
+      return this.updateProduct(id, updates, storeId);
+    }
+
+    return toProduct(data);
   }
 
-  async deleteProduct(id: string, userId?: string): Promise<boolean> {
+  async deleteProduct(id: string, storeId: string): Promise<boolean> {
     const query = supabase
       .from('inventario')
       .delete()
-      .eq('id', id);
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select('id');
 
-    const { error } = await query;
+    const { data, error } = await query;
 
     if (error) {
       console.error('Error deleting product from Supabase:', error);
       return false;
     }
 
-    return true;
+    return (data || []).length > 0;
   }
 
-  async getSales(userId?: string): Promise<Sale[]> {
-    const query = supabase
-      .from('ventas')
-      .select('*')
-      .order('date', { ascending: false });
-
-    const { data, error } = await query;
+  // The registrar_movimiento_stock function records the movement and applies
+  // its delta in one transaction, skipping a replayed localId (see supabase/migrations)
+  async recordStockMovement(movement: InsertStockMovement, storeId: string, userId?: string): Promise<Product | undefined> {
+    const { data, error } = await supabase.rpc('registrar_movimiento_stock', {
+      p_tienda_id: storeId,
+      p_movimiento: {
+        product_id: movement.productId,
+        delta: movement.delta,
+        reason: movement.reason,
+        note: movement.note || null,
+        created_at: (movement.createdAt ?? new Date()).toISOString(),
+        user_id: userId ?? null,
+        local_id: movement.localId || null,
+      },
+    });
 
     if (error) {
-      console.error('Error fetching sales from Supabase:', error);
-      return [];
+      console.error('Error recording stock movement in Supabase:', error);
+      throw new Error('Failed to record stock movement');
     }
 
-    return (data || []).map(row => ({
-      id: row.id,
-      productId: row.product_id || null,
-      productName: row.product_name,
-      quantity: row.quantity,
-      unitPrice: row.unit_price,
-      total: row.total,
-      date: row.date,
-      localId: row.local_id || null,
-      synced: 1,
-      userId: null,
-    }));
+    return data ? toProduct(data) : undefined;
   }
 
-  async getSalesByDate(date: string, userId?: string): Promise<Sale[]> {
-    const query = supabase
-      .from('ventas')
+  async getStockMovements(productId: string, storeId: string): Promise<StockMovement[]> {
+    const { data, error } = await supabase
+      .from('movimientos_stock')
       .select('*')
-      .eq('date', date)
-      .order('id');
-
-    const { data, error } = await query;
+      .eq('tienda_id', storeId)
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false });
 
     if (error) {
-      console.error('Error fetching sales by date from Supabase:', error);
+      console.error('Error fetching stock movements from Supabase:', error);
       return [];
     }
 
-    return (data || []).map(row => ({
-      id: row.id,
-      productId: row.product_id || null,
-      productName: row.product_name,
-      quantity: row.quantity,
-      unitPrice: row.unit_price,
-      total: row.total,
-      date: row.date,
-      localId: row.local_id || null,
-      synced: 1,
-      userId: null,
-    }));
-  }
-
-  async createSale(insertSale: InsertSale, userId?: string): Promise<Sale> {
-    // Convert productId to number if it's a valid integer, otherwise null
-    // Supabase ventas table expects bigint for product_id
-    let productIdNum: number | null = null;
-    if (insertSale.productId) {
-      const parsed = parseInt(insertSale.productId, 10);
-      if (!isNaN(parsed)) {
-        productIdNum = parsed;
-      }
+    return (data || []).map(toStockMovement);
+  }
+
+  // Suppliers are stored in the "proveedores" table
+  async getSuppliers(storeId: string): Promise<Supplier[]> {
+    const { data, error } = await supabase
+      .from('proveedores')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching suppliers from Supabase:', error);
+      throw new Error('Failed to fetch suppliers');
+    }
+
+    return (data || []).map(toSupplier);
+  }
+
+  private async getSupplier(id: string, storeId: string): Promise<Supplier | undefined> {
+    const { data, error } = await supabase
+      .from('proveedores')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return undefined;
     }
-    
-    // Let Supabase auto-generate the id (bigint)
+
+    return toSupplier(data);
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier, storeId: string): Promise<Supplier> {
     const { data, error } = await supabase
-      .from('ventas')
+      .from('proveedores')
       .insert({
-        product_id: productIdNum,
-        product_name: insertSale.productName,
-        quantity: insertSale.quantity,
-        unit_price: insertSale.unitPrice,
-        total: insertSale.total,
-        date: insertSale.date,
-        local_id: insertSale.localId || null,
+        ...(insertSupplier.id ? { id: insertSupplier.id } : {}),
+        name: insertSupplier.name,
+        phone: insertSupplier.phone || null,
+        email: insertSupplier.email || null,
+        notes: insertSupplier.notes || null,
+        tienda_id: storeId,
       })
       .select()
       .single();
 
+    if (error?.code === UNIQUE_VIOLATION && insertSupplier.id) {
+      const existing = await this.getSupplier(insertSupplier.id, storeId);
+      if (existing) return existing;
+      throw new IdConflictError('Supplier ID is already in use');
+    }
+
     if (error) {
-      console.error('Error creating sale in Supabase:', error);
-      throw new Error('Failed to create sale');
+      console.error('Error creating supplier in Supabase:', error);
+      throw new Error('Failed to create supplier');
+    }
+
+    return toSupplier(data);
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>, storeId: string): Promise<Supplier | undefined> {
+    const updateData: Record<string, unknown> = {};
+
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.phone !== undefined) updateData.phone = updates.phone;
+    if (updates.email !== undefined) updateData.email = updates.email;
+    if (updates.notes !== undefined) updateData.notes = updates.notes;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.getSupplier(id, storeId);
+    }
+
+    const { data, error } = await supabase
+      .from('proveedores')
+      .update(updateData)
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error updating supplier in Supabase:', error);
+      return undefined;
+    }
+
+    return toSupplier(data);
+  }
+
+  // Orders keep their lines; the foreign key clears their supplier
+  async deleteSupplier(id: string, storeId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('proveedores')
+      .delete()
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting supplier from Supabase:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // Promotions are stored in the "promociones" table
+  async getPromotions(storeId: string): Promise<Promotion[]> {
+    const { data, error } = await supabase
+      .from('promociones')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching promotions from Supabase:', error);
+      throw new Error('Failed to fetch promotions');
+    }
+
+    return (data || []).map(toPromotion);
+  }
+
+  private async getPromotion(id: string, storeId: string): Promise<Promotion | undefined> {
+    const { data, error } = await supabase
+      .from('promociones')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return undefined;
+    }
+
+    return toPromotion(data);
+  }
+
+  async createPromotion(insertPromotion: InsertPromotion, storeId: string): Promise<Promotion> {
+    const { data, error } = await supabase
+      .from('promociones')
+      .insert({
+        ...(insertPromotion.id ? { id: insertPromotion.id } : {}),
+        ...toPromotionRow(insertPromotion),
+        tienda_id: storeId,
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION && insertPromotion.id) {
+      const existing = await this.getPromotion(insertPromotion.id, storeId);
+      if (existing) return existing;
+      throw new IdConflictError('Promotion ID is already in use');
+    }
+
+    if (error) {
+      console.error('Error creating promotion in Supabase:', error);
+      throw new Error('Failed to create promotion');
+    }
+
+    return toPromotion(data);
+  }
+
+  async updatePromotion(id: string, updates: InsertPromotion, storeId: string): Promise<Promotion | undefined> {
+    const { data, error } = await supabase
+      .from('promociones')
+      .update(toPromotionRow(updates))
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error updating promotion in Supabase:', error);
+      return undefined;
+    }
+
+    return toPromotion(data);
+  }
+
+  // Sales keep the promotion ID they were sold with
+  async deletePromotion(id: string, storeId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('promociones')
+      .delete()
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting promotion from Supabase:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // Customers are stored in the "clientes" table
+  async getCustomers(storeId: string): Promise<Customer[]> {
+    const { data, error } = await supabase
+      .from('clientes')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching customers from Supabase:', error);
+      throw new Error('Failed to fetch customers');
+    }
+
+    return (data || []).map(toCustomer);
+  }
+
+  private async getCustomer(id: string, storeId: string): Promise<Customer | undefined> {
+    const { data, error } = await supabase
+      .from('clientes')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return undefined;
+    }
+
+    return toCustomer(data);
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer, storeId: string): Promise<Customer> {
+    const { data, error } = await supabase
+      .from('clientes')
+      .insert({
+        ...(insertCustomer.id ? { id: insertCustomer.id } : {}),
+        name: insertCustomer.name,
+        phone: insertCustomer.phone || null,
+        notes: insertCustomer.notes || null,
+        credit_limit: insertCustomer.creditLimit ?? null,
+        tienda_id: storeId,
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION && insertCustomer.id) {
+      const existing = await this.getCustomer(insertCustomer.id, storeId);
+      if (existing) return existing;
+      throw new IdConflictError('Customer ID is already in use');
+    }
+
+    if (error) {
+      console.error('Error creating customer in Supabase:', error);
+      throw new Error('Failed to create customer');
+    }
+
+    return toCustomer(data);
+  }
+
+  async updateCustomer(id: string, updates: Partial<InsertCustomer>, storeId: string): Promise<Customer | undefined> {
+    const updateData: Record<string, unknown> = {};
+
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.phone !== undefined) updateData.phone = updates.phone;
+    if (updates.notes !== undefined) updateData.notes = updates.notes;
+    if (updates.creditLimit !== undefined) updateData.credit_limit = updates.creditLimit;
+
+    if (Object.keys(updateData).length === 0) {
+      return this.getCustomer(id, storeId);
+    }
+
+    const { data, error } = await supabase
+      .from('clientes')
+      .update(updateData)
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error updating customer in Supabase:', error);
+      return undefined;
+    }
+
+    return toCustomer(data);
+  }
+
+  // The foreign key deletes their payments; sales keep the customer ID
+  async deleteCustomer(id: string, storeId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('clientes')
+      .delete()
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting customer from Supabase:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // Customer payments are stored in the "abonos_cliente" table
+  async getCustomerPayments(storeId: string): Promise<CustomerPayment[]> {
+    const { data, error } = await supabase
+      .from('abonos_cliente')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching customer payments from Supabase:', error);
+      throw new Error('Failed to fetch customer payments');
+    }
+
+    return (data || []).map(toCustomerPayment);
+  }
+
+  async createCustomerPayment(insertPayment: InsertCustomerPayment, storeId: string, userId?: string): Promise<CustomerPayment | undefined> {
+    if (insertPayment.id) {
+      const { data: existing } = await supabase
+        .from('abonos_cliente')
+        .select('*')
+        .eq('tienda_id', storeId)
+        .eq('id', insertPayment.id)
+        .maybeSingle();
+      if (existing) return toCustomerPayment(existing);
+    }
+
+    if (!(await this.getCustomer(insertPayment.customerId, storeId))) return undefined;
+
+    const { data, error } = await supabase
+      .from('abonos_cliente')
+      .insert({
+        ...(insertPayment.id ? { id: insertPayment.id } : {}),
+        customer_id: insertPayment.customerId,
+        amount: insertPayment.amount,
+        method: insertPayment.method,
+        note: insertPayment.note || null,
+        created_at: (insertPayment.createdAt ?? new Date()).toISOString(),
+        user_id: userId ?? null,
+        tienda_id: storeId,
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new IdConflictError('Customer payment ID is already in use');
+    }
+
+    if (error) {
+      console.error('Error creating customer payment in Supabase:', error);
+      throw new Error('Failed to create customer payment');
+    }
+
+    return toCustomerPayment(data);
+  }
+
+  // Purchase orders are stored as an "ordenes_compra" header with
+  // "lineas_orden_compra" rows
+  async getPurchaseOrders(storeId: string): Promise<PurchaseOrder[]> {
+    const { data, error } = await supabase
+      .from('ordenes_compra')
+      .select('*, lineas_orden_compra(*)')
+      .eq('tienda_id', storeId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching purchase orders from Supabase:', error);
+      throw new Error('Failed to fetch purchase orders');
+    }
+
+    return (data || []).map(toPurchaseOrder);
+  }
+
+  async getPurchaseOrder(id: string, storeId: string): Promise<PurchaseOrder | undefined> {
+    const { data, error } = await supabase
+      .from('ordenes_compra')
+      .select('*, lineas_orden_compra(*)')
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      return undefined;
+    }
+
+    return toPurchaseOrder(data);
+  }
+
+  // The crear_orden_compra function inserts the order and its lines in one
+  // transaction (see supabase/migrations). It returns null when the ID
+  // belongs to another store's order.
+  async createPurchaseOrder(insertOrder: InsertPurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder> {
+    const { lines, ...header } = insertOrder;
+
+    const { data, error } = await supabase.rpc('crear_orden_compra', {
+      p_tienda_id: storeId,
+      p_orden: {
+        id: header.id || null,
+        supplier_id: header.supplierId || null,
+        status: header.status ?? 'draft',
+        notes: header.notes || null,
+        created_at: (header.createdAt ?? new Date()).toISOString(),
+        user_id: userId ?? null,
+      },
+      p_lineas: lines.map((line) => ({
+        id: line.id || null,
+        product_id: line.productId || null,
+        product_name: line.productName,
+        quantity_ordered: line.quantityOrdered,
+        unit_cost: line.unitCost,
+      })),
+    });
+
+    if (!error && !data) {
+      throw new IdConflictError('Purchase order ID is already in use');
     }
 
-    if (insertSale.productId) {
-      const product = await this.getProduct(insertSale.productId, userId);
-      if (product) {
-        await this.updateProduct(insertSale.productId, {
-          quantity: Math.max(0, product.quantity - insertSale.quantity),
-        }, userId);
+    if (error) {
+      console.error('Error creating purchase order in Supabase:', error);
+      throw new Error('Failed to create purchase order');
+    }
+
+    return toPurchaseOrder(data);
+  }
+
+  async updatePurchaseOrder(id: string, updates: UpdatePurchaseOrder, storeId: string): Promise<PurchaseOrder | undefined> {
+    const current = await this.getPurchaseOrder(id, storeId);
+    if (!current) return undefined;
+    checkPurchaseOrderUpdate(current, updates);
+
+    if (updates.lines) {
+      const { error: deleteError } = await supabase
+        .from('lineas_orden_compra')
+        .delete()
+        .eq('order_id', id);
+
+      const { error: insertError } = deleteError ? { error: deleteError } : await supabase
+        .from('lineas_orden_compra')
+        .insert(updates.lines.map((line) => ({
+          ...(line.id ? { id: line.id } : {}),
+          order_id: id,
+          product_id: line.productId || null,
+          product_name: line.productName,
+          quantity_ordered: line.quantityOrdered,
+          unit_cost: line.unitCost,
+        })));
+
+      if (insertError) {
+        console.error('Error updating purchase order lines in Supabase:', insertError);
+        throw new Error('Failed to update purchase order');
       }
     }
 
+    // Always touches the header, so the change feed picks up new lines
+    const { data, error } = await supabase
+      .from('ordenes_compra')
+      .update({
+        supplier_id: updates.supplierId !== undefined ? updates.supplierId : current.supplierId,
+        notes: updates.notes !== undefined ? updates.notes : current.notes,
+        status: updates.status ?? current.status,
+      })
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select('*, lineas_orden_compra(*)')
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error updating purchase order in Supabase:', error);
+      return undefined;
+    }
+
+    return toPurchaseOrder(data);
+  }
+
+  async deletePurchaseOrder(id: string, storeId: string): Promise<boolean> {
+    const current = await this.getPurchaseOrder(id, storeId);
+    if (!current) return false;
+    if (current.lines.some((line) => line.quantityReceived > 0)) {
+      throw new PurchaseOrderStateError('Purchase orders with goods received cannot be deleted');
+    }
+
+    const { data, error } = await supabase
+      .from('ordenes_compra')
+      .delete()
+      .eq('tienda_id', storeId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting purchase order from Supabase:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // The recibir_orden_compra function applies the whole receipt in one
+  // transaction, skipping a replayed localId (see supabase/migrations)
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder, storeId: string, userId?: string): Promise<PurchaseOrder | undefined> {
+    const { data, error } = await supabase.rpc('recibir_orden_compra', {
+      p_tienda_id: storeId,
+      p_orden_id: id,
+      p_recepcion: {
+        created_at: (receipt.createdAt ?? new Date()).toISOString(),
+        local_id: receipt.localId || null,
+        user_id: userId ?? null,
+        lines: receipt.lines.map((line) => ({
+          line_id: line.lineId,
+          quantity: line.quantity,
+          unit_cost: line.unitCost ?? null,
+        })),
+      },
+    });
+
+    if (error?.code === RAISE_EXCEPTION) {
+      throw new PurchaseOrderStateError(error.message);
+    }
+
+    if (error) {
+      console.error('Error receiving purchase order in Supabase:', error);
+      throw new Error('Failed to receive purchase order');
+    }
+
+    return data ? toPurchaseOrder(data) : undefined;
+  }
+
+  // Sales are stored as a "transacciones_venta" header with "lineas_venta"
+  // and "pagos_venta" rows
+  async getSales(storeId: string): Promise<Sale[]> {
+    const query = supabase
+      .from('transacciones_venta')
+      .select('*, lineas_venta(*), pagos_venta(*)')
+      .eq('tienda_id', storeId)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching sales from Supabase:', error);
+      return [];
+    }
+
+    return (data || []).map(toSale);
+  }
+
+  async getSalesByDate(date: string, storeId: string): Promise<Sale[]> {
+    const query = supabase
+      .from('transacciones_venta')
+      .select('*, lineas_venta(*), pagos_venta(*)')
+      .eq('tienda_id', storeId)
+      .eq('date', date)
+      .order('created_at');
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching sales by date from Supabase:', error);
+      return [];
+    }
+
+    return (data || []).map(toSale);
+  }
+
+  // Check a refund against its original sale before it is recorded, and
+  // return the original's ID. A replayed localId skips the check, since
+  // registrar_venta hands back the refund recorded the first time. Refunds
+  // made meanwhile are checked for again by registrar_venta, under a lock on
+  // the original.
+  private async resolveRefund(insertSale: InsertSale, storeId: string): Promise<string | null> {
+    if (!insertSale.kind || insertSale.kind === 'sale') return null;
+
+    if (insertSale.localId) {
+      const { data: replayed } = await supabase
+        .from('transacciones_venta')
+        .select('original_sale_id')
+        .eq('tienda_id', storeId)
+        .eq('local_id', insertSale.localId)
+        .maybeSingle();
+      if (replayed) return replayed.original_sale_id;
+    }
+
+    // The original is named by its ID or its localId
+    const findOriginal = (column: 'id' | 'local_id') => supabase
+      .from('transacciones_venta')
+      .select('*, lineas_venta(*), pagos_venta(*)')
+      .eq('tienda_id', storeId)
+      .eq(column, insertSale.originalSaleId!)
+      .maybeSingle();
+    const byId = await findOriginal('id');
+    const { data: original, error } = byId.data || byId.error ? byId : await findOriginal('local_id');
+
+    if (error) {
+      console.error('Error fetching original sale from Supabase:', error);
+      throw new Error('Failed to create sale');
+    }
+
+    const { data: refunds } = original
+      ? await supabase
+          .from('transacciones_venta')
+          .select('*, lineas_venta(*), pagos_venta(*)')
+          .eq('tienda_id', storeId)
+          .eq('original_sale_id', original.id)
+      : { data: [] };
+
+    checkSaleRefund(insertSale, original ? toSale(original) : undefined, (refunds || []).map(toSale));
+    return String(original.id);
+  }
+
+  // The registrar_venta function inserts the sale and its stock movements in
+  // one transaction, or returns the existing sale for a replayed localId
+  // (see supabase/migrations)
+  async createSale(insertSale: InsertSale, storeId: string, userId?: string): Promise<SaleResult> {
+    const { lines, ...header } = insertSale;
+    const totals = computeSaleTotals(lines);
+    const { payments, paymentMethod } = resolveSalePayments(insertSale, totals.total);
+    const originalSaleId = await this.resolveRefund(insertSale, storeId);
+    if (!originalSaleId && header.customerId && !(await this.getCustomer(header.customerId, storeId))) {
+      throw new SaleCustomerError('Customer not found');
+    }
+
+    const { data, error } = await supabase.rpc('registrar_venta', {
+      p_tienda_id: storeId,
+      p_venta: {
+        date: header.date,
+        created_at: (header.createdAt ?? new Date()).toISOString(),
+        item_count: totals.itemCount,
+        total: totals.total,
+        payment_method: paymentMethod,
+        local_id: header.localId || null,
+        user_id: userId ?? null,
+        shift_id: header.shiftId || null,
+        kind: header.kind ?? 'sale',
+        original_sale_id: originalSaleId,
+        reason: header.reason || null,
+        discount: header.discount ?? 0,
+        prices_include_tax: header.pricesIncludeTax ?? true,
+        customer_id: header.customerId || null,
+      },
+      p_lineas: lines.map((line) => ({
+        product_id: line.productId || null,
+        product_name: line.productName,
+        quantity: line.quantity,
+        unit_price: line.unitPrice,
+        unit_cost: line.unitCost ?? null,
+        discount: line.discount ?? 0,
+        promotion_id: line.promotionId || null,
+        tax_rate: line.taxRate ?? null,
+        tax: line.tax ?? 0,
+        total: line.total,
+      })),
+      p_pagos: payments.map((payment) => ({
+        method: payment.method,
+        amount: payment.amount,
+        tendered: payment.tendered ?? null,
+      })),
+    });
+
+    if (error?.code === RAISE_EXCEPTION) {
+      throw new SaleRefundError(error.message);
+    }
+
+    if (error) {
+      console.error('Error creating sale in Supabase:', error);
+      throw new Error('Failed to create sale');
+    }
+
     return {
-      id: data.id,
-      productId: data.product_id || null,
-      productName: data.product_name,
-      quantity: data.quantity,
-      unitPrice: data.unit_price,
-      total: data.total,
-      date: data.date,
-      localId: data.local_id || null,
-      synced: 1,
-      userId: null,
+      sale: toSale(data.venta),
+      stockWarnings: ((data.avisos || []) as AvisoStockRow[]).map((row) => ({
+        productId: String(row.product_id),
+        productName: row.product_name,
+        quantity: row.quantity,
+      })),
     };
   }
+
+  // Cash shifts are stored in "turnos_caja" with their "movimientos_caja"
+  async getCashShifts(storeId: string): Promise<CashShift[]> {
+    const { data, error } = await supabase
+      .from('turnos_caja')
+      .select('*, movimientos_caja(*)')
+      .eq('tienda_id', storeId)
+      .order('closed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching cash shifts from Supabase:', error);
+      throw new Error('Failed to fetch cash shifts');
+    }
+
+    return (data || []).map(toCashShift);
+  }
+
+  // The registrar_turno_caja function inserts the shift and its movements in
+  // one transaction, or returns the existing shift for a replayed ID (null
+  // when the ID belongs to another store's shift)
+  async createCashShift(insertShift: InsertCashShift, storeId: string, userId?: string): Promise<CashShift> {
+    const { movements, ...header } = insertShift;
+
+    const { data: shiftSales, error: salesError } = header.id
+      ? await supabase
+          .from('transacciones_venta')
+          .select('*, pagos_venta(*)')
+          .eq('tienda_id', storeId)
+          .eq('shift_id', header.id)
+      : { data: [], error: null };
+
+    if (salesError) {
+      console.error("Error fetching the shift's sales from Supabase:", salesError);
+      throw new Error('Failed to create cash shift');
+    }
+
+    const sales = shiftSalesTotals((shiftSales || []).map(toSale));
+    const totals = computeShiftTotals({ ...insertShift, paymentTotals: sales.paymentTotals });
+
+    const { data, error } = await supabase.rpc('registrar_turno_caja', {
+      p_tienda_id: storeId,
+      p_turno: {
+        id: header.id || null,
+        opened_at: header.openedAt.toISOString(),
+        closed_at: header.closedAt.toISOString(),
+        opening_float: header.openingFloat,
+        sales_count: sales.salesCount,
+        sales_total: sales.salesTotal,
+        payment_totals: sales.paymentTotals,
+        pay_ins: totals.payIns,
+        pay_outs: totals.payOuts,
+        expected_cash: totals.expectedCash,
+        counted_cash: header.countedCash,
+        difference: totals.difference,
+        user_id: userId ?? null,
+      },
+      p_movimientos: movements.map((movement) => ({
+        id: movement.id || null,
+        type: movement.type,
+        amount: movement.amount,
+        note: movement.note || null,
+        created_at: movement.createdAt.toISOString(),
+      })),
+    });
+
+    if (!error && !data) {
+      throw new IdConflictError('Cash shift ID is already in use');
+    }
+
+    if (error) {
+      console.error('Error creating cash shift in Supabase:', error);
+      throw new Error('Failed to create cash shift');
+    }
+
+    return toCashShift(data);
+  }
+
+  // The "cambios" table is filled by triggers on categorias, inventario,
+  // transacciones_venta, proveedores, ordenes_compra, turnos_caja, promociones,
+  // clientes and abonos_cliente (see supabase/migrations). Changes past the
+  // seq cambio_confirmado returns may still have uncommitted ones before
+  // them, so they wait for the next call.
+  async getChanges(storeId: string, since: number): Promise<ChangeSet> {
+    const { data: committed, error: committedError } = await supabase.rpc('cambio_confirmado', {
+      p_tienda_id: storeId,
+    });
+
+    if (committedError) {
+      console.error('Error fetching the committed change seq from Supabase:', committedError);
+      throw new Error('Failed to fetch changes');
+    }
+
+    const { data, error } = await supabase
+      .from('cambios')
+      .select('*')
+      .eq('tienda_id', storeId)
+      .gt('seq', since)
+      .lte('seq', Number(committed))
+      .order('seq')
+      .limit(CHANGES_PAGE_SIZE);
+
+    if (error) {
+      console.error('Error fetching changes from Supabase:', error);
+      throw new Error('Failed to fetch changes');
+    }
+
+    const collapsed = collapseChanges(
+      ((data || []) as CambioRow[]).map((row) => ({
+        seq: Number(row.seq),
+        entity: row.entidad,
+        entityId: row.entidad_id,
+        deleted: row.eliminado,
+      })),
+      since,
+    );
+    const { upserts } = collapsed;
+
+    const results = await Promise.all([
+      upserts.category.length > 0
+        ? supabase.from('categorias').select('*').eq('tienda_id', storeId).in('id', upserts.category)
+        : { data: [], error: null },
+      upserts.product.length > 0
+        ? supabase.from('inventario').select('*').eq('tienda_id', storeId).in('id', upserts.product)
+        : { data: [], error: null },
+      upserts.sale.length > 0
+        ? supabase.from('transacciones_venta').select('*, lineas_venta(*), pagos_venta(*)').eq('tienda_id', storeId).in('id', upserts.sale)
+        : { data: [], error: null },
+      upserts.supplier.length > 0
+        ? supabase.from('proveedores').select('*').eq('tienda_id', storeId).in('id', upserts.supplier)
+        : { data: [], error: null },
+      upserts.purchase_order.length > 0
+        ? supabase.from('ordenes_compra').select('*, lineas_orden_compra(*)').eq('tienda_id', storeId).in('id', upserts.purchase_order)
+        : { data: [], error: null },
+      upserts.cash_shift.length > 0
+        ? supabase.from('turnos_caja').select('*, movimientos_caja(*)').eq('tienda_id', storeId).in('id', upserts.cash_shift)
+        : { data: [], error: null },
+      upserts.promotion.length > 0
+        ? supabase.from('promociones').select('*').eq('tienda_id', storeId).in('id', upserts.promotion)
+        : { data: [], error: null },
+      upserts.customer.length > 0
+        ? supabase.from('clientes').select('*').eq('tienda_id', storeId).in('id', upserts.customer)
+        : { data: [], error: null },
+      upserts.customer_payment.length > 0
+        ? supabase.from('abonos_cliente').select('*').eq('tienda_id', storeId).in('id', upserts.customer_payment)
+        : { data: [], error: null },
+    ]);
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error('Error fetching changed rows from Supabase:', failed.error);
+      throw new Error('Failed to fetch changes');
+    }
+
+    const [categoriesResult, productsResult, salesResult, suppliersResult, ordersResult, shiftsResult, promotionsResult, customersResult, paymentsResult] = results;
+    return toChangeSet(collapsed, {
+      categories: (categoriesResult.data || []).map(toCategory),
+      products: (productsResult.data || []).map(toProduct),
+      sales: (salesResult.data || []).map(toSale),
+      suppliers: (suppliersResult.data || []).map(toSupplier),
+      purchaseOrders: (ordersResult.data || []).map(toPurchaseOrder),
+      cashShifts: (shiftsResult.data || []).map(toCashShift),
+      promotions: (promotionsResult.data || []).map(toPromotion),
+      customers: (customersResult.data || []).map(toCustomer),
+      customerPayments: (paymentsResult.data || []).map(toCustomerPayment),
+    });
+  }
+}
+
+// Pick the storage backend from STORAGE_BACKEND (defaults to Supabase)
+export function createStorage(backend = process.env.STORAGE_BACKEND || 'supabase'): IStorage {
+  switch (backend) {
+    case 'supabase':
+      return new SupabaseStorage();
+    case 'postgres':
+      return new DrizzleStorage(createDatabase());
+    case 'memory':
+      return new MemStorage(process.env.MEM_STORAGE_FILE);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Expected "supabase", "postgres" or "memory"`);
+  }
 }
 
-export const storage = new SupabaseStorage();
+export const storage = createStorage();
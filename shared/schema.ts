@@ -1,72 +1,1062 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, timestamp } from "drizzle-orm/pg-core";
+import { sql, relations } from "drizzle-orm";
+import { pgTable, text, varchar, integer, real, timestamp, boolean, jsonb, bigserial, primaryKey, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Categories for products
-export const categories = pgTable("categories", {
+// Stores (tenants). Every category, product and sale belongs to exactly one store.
+export const stores = pgTable("stores", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  color: text("color").notNull().default("#10B981"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // IVA: whether prices are entered with the tax in them, and the standard
+  // rate (%) for products whose category doesn't set one. Without a rate the
+  // store charges no tax.
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(true),
+  taxRate: real("tax_rate"),
+});
+
+// A tax rate, in percent
+const taxRate = z.number().min(0).max(100);
+
+export const insertStoreSchema = createInsertSchema(stores).omit({ id: true, createdAt: true }).extend({
+  taxRate: taxRate.nullable().optional(),
 });
+export type InsertStore = z.infer<typeof insertStoreSchema>;
+export type Store = typeof stores.$inferSelect;
+
+// Store settings are changed by its owners
+export const updateStoreSchema = insertStoreSchema.partial();
+export type UpdateStore = z.infer<typeof updateStoreSchema>;
+
+// Which users can work in which store
+export type StoreRole = 'owner' | 'member';
+
+export const storeMembers = pgTable("store_members", {
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull(),
+  role: text("role").$type<StoreRole>().notNull().default("member"),
+}, (table) => [primaryKey({ columns: [table.storeId, table.userId] })]);
+
+export type StoreMember = typeof storeMembers.$inferSelect;
+
+// A store as seen by one of its members
+export type StoreMembership = Store & { role: StoreRole };
+
+// Categories for products. IDs are unique per store, so every store can
+// have its own copy of the default categories under the same IDs.
+export const categories = pgTable("categories", {
+  id: varchar("id").notNull().default(sql`gen_random_uuid()`),
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#10B981"),
+  // Tax for its products that don't set their own: exempt, a rate (%), or
+  // the store's standard rate when neither is set (see productTaxRate)
+  taxRate: real("tax_rate"),
+  taxExempt: boolean("tax_exempt").notNull().default(false),
+}, (table) => [primaryKey({ columns: [table.storeId, table.id] })]);
 
-export const insertCategorySchema = createInsertSchema(categories).omit({ id: true });
+export const insertCategorySchema = createInsertSchema(categories).omit({ id: true, storeId: true }).extend({
+  taxRate: taxRate.nullable().optional(),
+});
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
 
+// Categories every store starts with. IDs are fixed so products keep pointing
+// at the same category across restarts and between server and IndexedDB.
+export const DEFAULT_CATEGORIES: Pick<Category, 'id' | 'name' | 'color'>[] = [
+  { id: 'cat-bebidas', name: 'Bebidas', color: '#3B82F6' },
+  { id: 'cat-alimentos', name: 'Alimentos', color: '#10B981' },
+  { id: 'cat-limpieza', name: 'Limpieza', color: '#F59E0B' },
+  { id: 'cat-otros', name: 'Otros', color: '#6B7280' },
+];
+
 // Products in inventory
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   price: real("price").notNull(),
   quantity: integer("quantity").notNull().default(0),
-  categoryId: varchar("category_id").references(() => categories.id),
-  localId: varchar("local_id"), // For offline sync
+  cost: real("cost"), // Moving-average unit cost of the goods received (see movingAverageCost)
+  sku: text("sku"), // The store's own product code
+  barcodes: text("barcodes").array().notNull().default(sql`'{}'::text[]`), // EAN/UPC codes printed on the product
+  categoryId: varchar("category_id"), // Category in the same store
+  // Variants (size, flavor, presentation) point at their parent product in the
+  // same store and sell with their own price, stock and barcodes. One level only.
+  parentId: varchar("parent_id").references((): AnyPgColumn => products.id, { onDelete: "set null" }),
+  variantName: text("variant_name"), // What tells the variant apart, e.g. "2L"
+  // Exempt, or its own tax rate (%); otherwise its category's (see productTaxRate)
+  taxRate: real("tax_rate"),
+  taxExempt: boolean("tax_exempt").notNull().default(false),
+  localId: varchar("local_id"), // For offline sync, unique per store
   synced: integer("synced").notNull().default(1),
-  userId: varchar("user_id"), // Owner of the product
-});
+  userId: varchar("user_id"), // User who created the product
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+  version: integer("version").notNull().default(1), // Bumped on every edit (not by sales)
+}, (table) => [
+  uniqueIndex("products_store_local_id_idx").on(table.storeId, table.localId),
+  index("products_store_sku_idx").on(table.storeId, table.sku),
+  index("products_barcodes_idx").using("gin", table.barcodes),
+  index("products_parent_idx").on(table.parentId),
+]);
 
-export const insertProductSchema = createInsertSchema(products).omit({ id: true, synced: true });
+// Codes are matched exactly as scanned, without surrounding spaces
+const productCode = z.string().trim().min(1);
+
+export const insertProductSchema = createInsertSchema(products).omit({ id: true, synced: true, storeId: true, version: true }).extend({
+  taxRate: taxRate.nullable().optional(),
+  sku: productCode.nullable().optional(),
+  barcodes: z.array(productCode).optional(),
+});
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 
-// Sales records
-export const sales = pgTable("sales", {
+// An edit may carry the version it was made against; if the product has been
+// edited since, the server refuses it as a conflict instead of overwriting.
+// Quantity is only set on creation: after that stock changes as deltas
+// (sales and stock movements), so concurrent changes add up.
+export const updateProductSchema = insertProductSchema.omit({ quantity: true }).partial().extend({
+  version: z.number().int().positive().optional(),
+});
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
+
+// Stock ledger: every change in a product's quantity, with the reason for it.
+// Changes are signed deltas, so changes made on several devices add up
+// instead of overwriting each other.
+export const STOCK_MOVEMENT_REASONS = ['sale', 'receipt', 'return', 'waste', 'theft', 'count_correction', 'transfer'] as const;
+export type StockMovementReason = typeof STOCK_MOVEMENT_REASONS[number];
+
+// Reasons a movement can be posted with; sale movements come from recording a sale
+export const MANUAL_STOCK_MOVEMENT_REASONS = ['receipt', 'return', 'waste', 'theft', 'count_correction', 'transfer'] as const;
+
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  delta: integer("delta").notNull(), // Units added (positive) or removed (negative)
+  reason: text("reason").$type<StockMovementReason>().notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(), // When it was made (device time)
+  userId: varchar("user_id"), // User who made the change
+  saleId: varchar("sale_id").references(() => saleTransactions.id, { onDelete: "cascade" }), // For sale movements
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id, { onDelete: "set null" }), // For goods received
+  localId: varchar("local_id"), // For offline sync, unique per store
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+}, (table) => [
+  uniqueIndex("stock_movements_store_local_id_idx").on(table.storeId, table.localId),
+  index("stock_movements_product_idx").on(table.productId, table.createdAt),
+]);
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements)
+  .omit({ id: true, storeId: true, userId: true, saleId: true, purchaseOrderId: true })
+  .extend({
+    delta: z.number().int().refine((delta) => delta !== 0, "delta must not be zero"),
+    reason: z.enum(MANUAL_STOCK_MOVEMENT_REASONS),
+    createdAt: z.coerce.date().optional(),
+  });
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+// Suppliers the store buys from. Offline clients choose the ID.
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  phone: text("phone"),
+  email: text("email"),
+  notes: text("notes"),
+  synced: integer("synced").notNull().default(1),
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers)
+  .omit({ synced: true, storeId: true })
+  .extend({ id: z.string().optional() });
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+// Purchase orders: draft → sent → partially_received → received. Lines can
+// only be changed while the order is a draft, and stock only goes up by
+// receiving goods against the lines. Offline clients choose the order and line IDs.
+export const PURCHASE_ORDER_STATUSES = ['draft', 'sent', 'partially_received', 'received'] as const;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+export const purchaseOrders = pgTable("purchase_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  productId: varchar("product_id").references(() => products.id),
+  supplierId: varchar("supplier_id").references(() => suppliers.id, { onDelete: "set null" }),
+  status: text("status").$type<PurchaseOrderStatus>().notNull().default("draft"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  synced: integer("synced").notNull().default(1),
+  userId: varchar("user_id"), // User who created the order
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+});
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }),
   productName: text("product_name").notNull(),
-  quantity: integer("quantity").notNull(),
-  unitPrice: real("unit_price").notNull(),
-  total: real("total").notNull(),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+  unitCost: real("unit_cost").notNull(),
+});
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ many }) => ({
+  lines: many(purchaseOrderLines),
+}));
+
+export const purchaseOrderLinesRelations = relations(purchaseOrderLines, ({ one }) => ({
+  order: one(purchaseOrders, {
+    fields: [purchaseOrderLines.orderId],
+    references: [purchaseOrders.id],
+  }),
+}));
+
+export const insertPurchaseOrderLineSchema = createInsertSchema(purchaseOrderLines)
+  .omit({ orderId: true, quantityReceived: true })
+  .extend({
+    id: z.string().optional(),
+    quantityOrdered: z.number().int().positive(),
+    unitCost: z.number().nonnegative(),
+  });
+export type InsertPurchaseOrderLine = z.infer<typeof insertPurchaseOrderLineSchema>;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders)
+  .omit({ synced: true, storeId: true, userId: true })
+  .extend({
+    id: z.string().optional(),
+    status: z.enum(['draft', 'sent']).optional(),
+    createdAt: z.coerce.date().optional(),
+    lines: z.array(insertPurchaseOrderLineSchema).min(1),
+  });
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+
+// Lines replace the order's lines and are only accepted on drafts
+export const updatePurchaseOrderSchema = insertPurchaseOrderSchema
+  .pick({ supplierId: true, notes: true, status: true, lines: true })
+  .partial();
+export type UpdatePurchaseOrder = z.infer<typeof updatePurchaseOrderSchema>;
+
+export type PurchaseOrderHeader = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrder = PurchaseOrderHeader & { lines: PurchaseOrderLine[] };
+
+// Goods received against an order's lines. Each line received adds stock
+// through a receipt movement and sets the product's cost.
+export const receivePurchaseOrderSchema = z.object({
+  localId: z.string().optional(), // For offline sync: a receipt is applied once
+  createdAt: z.coerce.date().optional(),
+  lines: z.array(z.object({
+    lineId: z.string(),
+    quantity: z.number().int().positive(),
+    unitCost: z.number().nonnegative().optional(), // Defaults to the line's unit cost
+  })).min(1),
+});
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+
+// One delivery received against an order; its localId makes a retried
+// receipt apply only once
+export const purchaseReceipts = pgTable("purchase_receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(), // When the goods arrived (device time)
+  localId: varchar("local_id"), // For offline sync, unique per store
+  userId: varchar("user_id"), // User who received the goods
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+}, (table) => [uniqueIndex("purchase_receipts_store_local_id_idx").on(table.storeId, table.localId)]);
+
+export type PurchaseReceipt = typeof purchaseReceipts.$inferSelect;
+
+// The status an order reaches once its lines have received these quantities
+export function receivedStatus(lines: Pick<PurchaseOrderLine, 'quantityOrdered' | 'quantityReceived'>[]): PurchaseOrderStatus {
+  if (lines.every((line) => line.quantityReceived >= line.quantityOrdered)) return 'received';
+  return lines.some((line) => line.quantityReceived > 0) ? 'partially_received' : 'sent';
+}
+
+// Unit cost after receiving goods: the units on hand keep their cost and the
+// received ones come in at theirs. With nothing on hand, or no cost for it,
+// the received cost is taken as is.
+export function movingAverageCost(onHand: number, cost: number | null, received: number, unitCost: number): number {
+  if (cost === null || onHand <= 0) return unitCost;
+  return (onHand * cost + received * unitCost) / (onHand + received);
+}
+
+// Sale transactions: one header per checkout with its cart lines as children.
+// An 'account' payment is charged to the customer's credit account (fiado).
+export const PAYMENT_METHODS = ['cash', 'card', 'transfer', 'mobile', 'account'] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+// Refunds are transactions too, against an original sale, with negative
+// quantities, totals and payments. A void reverses the whole sale in the
+// shift it was made in; a return gives back some of its items, with a reason.
+export const SALE_KINDS = ['sale', 'void', 'return'] as const;
+export type SaleKind = typeof SALE_KINDS[number];
+
+export const saleTransactions = pgTable("sale_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   date: text("date").notNull(), // ISO date string for easy filtering
-  localId: varchar("local_id"), // For offline sync
+  createdAt: timestamp("created_at").notNull().defaultNow(), // When the sale was made (device time)
+  itemCount: integer("item_count").notNull(),
+  total: real("total").notNull(),
+  paymentMethod: text("payment_method").$type<PaymentMethod>().notNull().default("cash"), // The one that paid the most
+  localId: varchar("local_id"), // For offline sync, unique per store
   synced: integer("synced").notNull().default(1),
-  userId: varchar("user_id"), // Owner of the sale
+  userId: varchar("user_id"), // Cashier who made the sale
+  // Drawer shift it was rung up in. Not a foreign key: the shift only
+  // reaches the server once closed, after its sales.
+  shiftId: varchar("shift_id"),
+  kind: text("kind").$type<SaleKind>().notNull().default("sale"),
+  originalSaleId: varchar("original_sale_id").references((): AnyPgColumn => saleTransactions.id), // For refunds
+  reason: text("reason"), // Why the items were returned
+  discount: real("discount").notNull().default(0), // Whole-cart discount, already spread over the lines
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(true), // Whether unit prices had the tax in them
+  // Customer the sale was made to; required when part of it went on their
+  // account. Not a foreign key: sales are kept when the customer is deleted.
+  customerId: varchar("customer_id"),
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+}, (table) => [
+  uniqueIndex("sale_transactions_store_local_id_idx").on(table.storeId, table.localId),
+  index("sale_transactions_original_idx").on(table.originalSaleId),
+  index("sale_transactions_customer_idx").on(table.customerId),
+]);
+
+export const saleLines = pgTable("sale_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull().references(() => saleTransactions.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }),
+  productName: text("product_name").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitPrice: real("unit_price").notNull(),
+  unitCost: real("unit_cost"), // The product's cost when sold; null if it had none
+  // Taken off quantity × unitPrice: the promotion, the line's own discount and
+  // its share of the cart discount. Negative on refunds, like the quantity.
+  discount: real("discount").notNull().default(0),
+  // Promotion applied to the line. Not a foreign key: promotions can be
+  // deleted while the sales they were applied to are kept.
+  promotionId: varchar("promotion_id"),
+  taxRate: real("tax_rate"), // IVA rate (%) the line sold at; null when exempt
+  tax: real("tax").notNull().default(0), // IVA in the total; negative on refunds
+  total: real("total").notNull(), // What was paid for the line, tax included
 });
 
-export const insertSaleSchema = createInsertSchema(sales).omit({ id: true, synced: true });
+// How a sale was paid, one row per method so it can be split between them.
+// amount is what the payment put toward the total; for cash, tendered is
+// what the customer handed over and the difference was given back as change.
+export const salePayments = pgTable("sale_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull().references(() => saleTransactions.id, { onDelete: "cascade" }),
+  method: text("method").$type<PaymentMethod>().notNull(),
+  amount: real("amount").notNull(),
+  tendered: real("tendered"),
+}, (table) => [index("sale_payments_transaction_idx").on(table.transactionId)]);
+
+export const saleTransactionsRelations = relations(saleTransactions, ({ many }) => ({
+  lines: many(saleLines),
+  payments: many(salePayments),
+}));
+
+export const saleLinesRelations = relations(saleLines, ({ one }) => ({
+  transaction: one(saleTransactions, {
+    fields: [saleLines.transactionId],
+    references: [saleTransactions.id],
+  }),
+}));
+
+export const salePaymentsRelations = relations(salePayments, ({ one }) => ({
+  transaction: one(saleTransactions, {
+    fields: [salePayments.transactionId],
+    references: [saleTransactions.id],
+  }),
+}));
+
+export const insertSaleLineSchema = createInsertSchema(saleLines).omit({ id: true, transactionId: true }).extend({
+  taxRate: taxRate.nullable().optional(),
+});
+export type InsertSaleLine = z.infer<typeof insertSaleLineSchema>;
+export type SaleLine = typeof saleLines.$inferSelect;
+export type SaleTransaction = typeof saleTransactions.$inferSelect;
+
+export const insertSalePaymentSchema = createInsertSchema(salePayments)
+  .omit({ id: true, transactionId: true })
+  .extend({
+    method: z.enum(PAYMENT_METHODS),
+    amount: z.number().refine((amount) => amount !== 0, "amount must not be zero"), // Negative for refunds
+    tendered: z.number().nullable().optional(),
+  });
+export type InsertSalePayment = z.infer<typeof insertSalePaymentSchema>;
+export type SalePayment = typeof salePayments.$inferSelect;
+
+// Payments are compared to the total to the cent
+const PAYMENT_TOLERANCE = 0.005;
+
+// Tax is rounded to the cent, and so is the total it is checked against
+const TAX_TOLERANCE = 0.01;
+
+const toCents = (value: number) => Math.round(value * 100) / 100;
+
+// A sale as exchanged with the API and kept in IndexedDB: the header with its
+// lines and payments. Totals are derived from the lines by the server; sales
+// queued before split payments carry only a paymentMethod. Refunds name the
+// sale they refund by its ID or its localId.
+export const insertSaleSchema = createInsertSchema(saleTransactions)
+  .omit({ id: true, synced: true, storeId: true, userId: true, itemCount: true, total: true })
+  .extend({
+    createdAt: z.coerce.date().optional(),
+    paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+    kind: z.enum(SALE_KINDS).optional(),
+    lines: z.array(insertSaleLineSchema).min(1),
+    payments: z.array(insertSalePaymentSchema).min(1).optional(),
+  })
+  .superRefine((sale, ctx) => {
+    const refund = !!sale.kind && sale.kind !== 'sale';
+    if (refund) {
+      if (!sale.originalSaleId) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["originalSaleId"], message: "Refunds must name the sale they refund" });
+      }
+      if (sale.kind === 'return' && !sale.reason?.trim()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["reason"], message: "Returns need a reason" });
+      }
+      sale.lines.forEach((line, index) => {
+        if (line.quantity >= 0) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lines", index, "quantity"], message: "Refund quantities must be negative" });
+        }
+      });
+    } else if (sale.originalSaleId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["originalSaleId"], message: "Only refunds name an original sale" });
+    }
+
+    const pricesIncludeTax = sale.pricesIncludeTax ?? true;
+    sale.lines.forEach((line, index) => {
+      const gross = line.quantity * line.unitPrice;
+      const discount = line.discount ?? 0;
+      const tax = line.tax ?? 0;
+      if (Math.abs(line.total - (gross - discount + (pricesIncludeTax ? 0 : tax))) > PAYMENT_TOLERANCE) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lines", index, "total"], message: "Line total must be quantity × unit price less its discount, plus tax when prices exclude it" });
+      }
+      const rate = line.taxRate ?? null;
+      if (rate === null ? tax !== 0 : Math.abs(tax - (line.total * rate) / (100 + rate)) > TAX_TOLERANCE) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lines", index, "tax"], message: "Tax must be the line's rate of its total" });
+      }
+      if (refund ? discount > 0 || discount < gross : discount < 0 || discount > gross) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lines", index, "discount"], message: "Discount must be between zero and the line amount" });
+      }
+    });
+    // Refunds give back their share of it through their lines
+    const lineDiscounts = sale.lines.reduce((sum, line) => sum + (line.discount ?? 0), 0);
+    const cartDiscount = sale.discount ?? 0;
+    if (refund && cartDiscount !== 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["discount"], message: "Refunds carry no cart discount" });
+    } else if (!refund && (cartDiscount < 0 || cartDiscount > lineDiscounts + PAYMENT_TOLERANCE)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["discount"], message: "Cart discount must be part of the line discounts" });
+    }
+
+    if (!sale.payments) return;
+    const { total } = computeSaleTotals(sale.lines);
+    const paid = sale.payments.reduce((sum, payment) => sum + payment.amount, 0);
+    if (Math.abs(paid - total) > PAYMENT_TOLERANCE) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["payments"], message: "Payments must add up to the sale total" });
+    }
+    sale.payments.forEach((payment, index) => {
+      if (refund ? payment.amount > 0 || payment.tendered != null : payment.amount < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["payments", index, "amount"], message: "Sales are paid in and refunds paid out" });
+      }
+      if (payment.tendered != null && payment.tendered < payment.amount) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["payments", index, "tendered"], message: "Tendered amount is less than the payment" });
+      }
+      if (payment.method === 'account' && !sale.customerId) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customerId"], message: "Sales charged to an account must name the customer" });
+      }
+    });
+  });
 export type InsertSale = z.infer<typeof insertSaleSchema>;
-export type Sale = typeof sales.$inferSelect;
+export type Sale = SaleTransaction & { lines: SaleLine[]; payments: SalePayment[] };
+
+// What a sale is stored with: its payments, or the whole total in its one
+// method for sales made before split payments, and the method that paid the most
+export function resolveSalePayments(sale: Pick<InsertSale, 'paymentMethod' | 'payments'>, total: number) {
+  const payments: InsertSalePayment[] = sale.payments ?? [{ method: sale.paymentMethod ?? 'cash', amount: total, tendered: null }];
+  const main = payments.reduce((best, payment) => (Math.abs(payment.amount) > Math.abs(best.amount) ? payment : best));
+  return { payments, paymentMethod: main.method };
+}
+
+// Refund lines are matched to the sale's lines by product, or by name when
+// the product is gone
+export function saleLineKey(line: { productId?: string | null; productName: string }) {
+  return line.productId ?? `name:${line.productName}`;
+}
+
+// Whether a refund was made against the sale, under either of its IDs
+export function isRefundOf(refund: SaleTransaction, sale: SaleTransaction) {
+  return refund.kind !== 'sale' && !!refund.originalSaleId &&
+    (refund.originalSaleId === sale.id || refund.originalSaleId === sale.localId);
+}
+
+// Units of each of the sale's lines not returned yet, by saleLineKey
+export function returnableQuantities(sale: Sale, refunds: Sale[]) {
+  const remaining = new Map<string, number>();
+  sale.lines.forEach((line) => {
+    const key = saleLineKey(line);
+    remaining.set(key, (remaining.get(key) ?? 0) + line.quantity);
+  });
+  refunds.forEach((refund) => refund.lines.forEach((line) => {
+    const key = saleLineKey(line);
+    remaining.set(key, (remaining.get(key) ?? 0) + line.quantity);
+  }));
+  return remaining;
+}
+
+// What giving back some units of a sale's line refunds: their share of what
+// is left of the amount paid for the line after discounts, to the cent. The
+// last units returned get all that is left, so the refunds add up exactly.
+export function refundAmount(sale: Sale, refunds: Sale[], key: string, quantity: number) {
+  let left = 0;
+  let paid = 0;
+  [sale, ...refunds].forEach((transaction) => transaction.lines
+    .filter((line) => saleLineKey(line) === key)
+    .forEach((line) => {
+      left += line.quantity;
+      paid += line.total;
+    }));
+  if (left <= 0) return 0;
+  return quantity >= left ? toCents(paid) : toCents((paid * quantity) / left);
+}
+
+// A sale can only be voided in the shift it was rung up in; without drawer
+// shifts, on the day it was made
+export function inSameShift(sale: Pick<SaleTransaction, 'shiftId' | 'date'>, refund: { shiftId?: string | null; date: string }) {
+  const shiftId = refund.shiftId ?? null;
+  return sale.shiftId || shiftId ? sale.shiftId === shiftId : sale.date === refund.date;
+}
+
+// Change given back for a set of payments
+export function paymentChange(payments: Pick<InsertSalePayment, 'amount' | 'tendered'>[]) {
+  return payments.reduce((sum, payment) => sum + Math.max(0, (payment.tendered ?? payment.amount) - payment.amount), 0);
+}
+
+// Promotions the POS applies on its own. buy_x_get_y gives getQuantity units
+// of a product (or any of its variants) free for every buyQuantity paid for
+// in a cart line, so a 2x1 is buy 1 get 1; category_percent takes a percent
+// off everything in a category. Either can be limited to a range of days.
+// Offline clients choose the ID.
+export const PROMOTION_TYPES = ['buy_x_get_y', 'category_percent'] as const;
+export type PromotionType = typeof PROMOTION_TYPES[number];
+
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").$type<PromotionType>().notNull(),
+  productId: varchar("product_id"), // buy_x_get_y: product in the same store
+  buyQuantity: integer("buy_quantity"),
+  getQuantity: integer("get_quantity"),
+  categoryId: varchar("category_id"), // category_percent: category in the same store
+  percent: real("percent"),
+  startsAt: text("starts_at"), // ISO date of the first day; null for no start
+  endsAt: text("ends_at"), // ISO date of the last day; null for no end
+  active: boolean("active").notNull().default(true),
+  synced: integer("synced").notNull().default(1),
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+// Edits send the whole promotion too, so its fields are checked together
+export const insertPromotionSchema = createInsertSchema(promotions)
+  .omit({ synced: true, storeId: true })
+  .extend({
+    id: z.string().optional(),
+    name: z.string().trim().min(1),
+    type: z.enum(PROMOTION_TYPES),
+    buyQuantity: z.number().int().positive().nullable().optional(),
+    getQuantity: z.number().int().positive().nullable().optional(),
+    percent: z.number().positive().max(100).nullable().optional(),
+    startsAt: isoDate.nullable().optional(),
+    endsAt: isoDate.nullable().optional(),
+  })
+  .superRefine((promotion, ctx) => {
+    const required = promotion.type === 'buy_x_get_y'
+      ? (['productId', 'buyQuantity', 'getQuantity'] as const)
+      : (['categoryId', 'percent'] as const);
+    required.forEach((field) => {
+      if (promotion[field] == null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is required for ${promotion.type} promotions` });
+      }
+    });
+    if (promotion.startsAt && promotion.endsAt && promotion.endsAt < promotion.startsAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "A promotion can't end before it starts" });
+    }
+  });
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+
+// Cash drawer shifts. A cashier opens one on a device with the float in the
+// drawer, pays cash in and out during it and closes it with a blind count.
+// The shift reaches the server once closed, as its Z-report, and never
+// changes after that. Offline clients choose the ID.
+export const CASH_MOVEMENT_TYPES = ['pay_in', 'pay_out'] as const;
+export type CashMovementType = typeof CASH_MOVEMENT_TYPES[number];
+
+// What came in through each payment method during a shift
+export type PaymentTotals = Record<PaymentMethod, number>;
+
+export const cashShifts = pgTable("cash_shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  openedAt: timestamp("opened_at").notNull(),
+  closedAt: timestamp("closed_at").notNull(),
+  openingFloat: real("opening_float").notNull(),
+  salesCount: integer("sales_count").notNull(),
+  salesTotal: real("sales_total").notNull(),
+  paymentTotals: jsonb("payment_totals").$type<PaymentTotals>().notNull(), // Cash net of change given
+  payIns: real("pay_ins").notNull(),
+  payOuts: real("pay_outs").notNull(),
+  expectedCash: real("expected_cash").notNull(), // Float + cash sales + pay-ins - pay-outs
+  countedCash: real("counted_cash").notNull(),
+  difference: real("difference").notNull(), // Counted - expected: over when positive, short when negative
+  userId: varchar("user_id"), // Cashier who worked the shift
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+}, (table) => [index("cash_shifts_store_closed_idx").on(table.storeId, table.closedAt)]);
+
+export const cashMovements = pgTable("cash_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shiftId: varchar("shift_id").notNull().references(() => cashShifts.id, { onDelete: "cascade" }),
+  type: text("type").$type<CashMovementType>().notNull(),
+  amount: real("amount").notNull(), // Always positive; type says which way it went
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [index("cash_movements_shift_idx").on(table.shiftId)]);
+
+export const cashShiftsRelations = relations(cashShifts, ({ many }) => ({
+  movements: many(cashMovements),
+}));
+
+export const cashMovementsRelations = relations(cashMovements, ({ one }) => ({
+  shift: one(cashShifts, {
+    fields: [cashMovements.shiftId],
+    references: [cashShifts.id],
+  }),
+}));
+
+export const insertCashMovementSchema = createInsertSchema(cashMovements)
+  .omit({ shiftId: true })
+  .extend({
+    id: z.string().optional(),
+    type: z.enum(CASH_MOVEMENT_TYPES),
+    amount: z.number().positive(),
+    createdAt: z.coerce.date(),
+  });
+export type InsertCashMovement = z.infer<typeof insertCashMovementSchema>;
+export type CashMovement = typeof cashMovements.$inferSelect;
+
+// A closed shift as the client sends it. The sales figures come from the
+// sales recorded in the shift (see shiftSalesTotals); the cash totals,
+// expected cash and difference are worked out from them and the movements.
+export const insertCashShiftSchema = createInsertSchema(cashShifts)
+  .omit({
+    salesCount: true,
+    salesTotal: true,
+    paymentTotals: true,
+    payIns: true,
+    payOuts: true,
+    expectedCash: true,
+    difference: true,
+    userId: true,
+    storeId: true,
+  })
+  .extend({
+    id: z.string().optional(),
+    openedAt: z.coerce.date(),
+    closedAt: z.coerce.date(),
+    openingFloat: z.number().min(0),
+    countedCash: z.number().min(0),
+    movements: z.array(insertCashMovementSchema),
+  });
+export type InsertCashShift = z.infer<typeof insertCashShiftSchema>;
+export type CashShift = typeof cashShifts.$inferSelect & { movements: CashMovement[] };
+
+// What the sales rung up in a shift add up to, refunds included: sales made,
+// their net total and what came in through each payment method
+export function shiftSalesTotals(sales: (Pick<SaleTransaction, 'kind' | 'total'> & {
+  payments: Pick<SalePayment, 'method' | 'amount'>[];
+})[]) {
+  const paymentTotals: PaymentTotals = { cash: 0, card: 0, transfer: 0, mobile: 0, account: 0 };
+  sales.forEach((sale) => sale.payments.forEach((payment) => {
+    paymentTotals[payment.method] += payment.amount;
+  }));
+  return {
+    salesCount: sales.filter((sale) => sale.kind === 'sale').length,
+    salesTotal: sales.reduce((sum, sale) => sum + sale.total, 0),
+    paymentTotals,
+  };
+}
+
+// The Z-report figures of a shift: what should be in the drawer and how far
+// the count was from it
+export function computeShiftTotals(shift: Pick<InsertCashShift, 'openingFloat' | 'countedCash'> & {
+  paymentTotals: PaymentTotals;
+  movements: Pick<InsertCashMovement, 'type' | 'amount'>[];
+}) {
+  const sum = (type: CashMovementType) =>
+    shift.movements.filter((m) => m.type === type).reduce((total, m) => total + m.amount, 0);
+  const payIns = sum('pay_in');
+  const payOuts = sum('pay_out');
+  const expectedCash = shift.openingFloat + shift.paymentTotals.cash + payIns - payOuts;
+  return { payIns, payOuts, expectedCash, difference: shift.countedCash - expectedCash };
+}
+
+// Customers, and their credit accounts (fiado). A sale goes on a customer's
+// account through an 'account' payment; what they pay off later is recorded
+// as customer payments, which are only ever added. The balance is worked out
+// from both (see customerStatement). Offline clients choose the IDs.
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  phone: text("phone"),
+  notes: text("notes"),
+  creditLimit: real("credit_limit"), // Most they may owe; null for no limit
+  synced: integer("synced").notNull().default(1),
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers)
+  .omit({ synced: true, storeId: true })
+  .extend({
+    id: z.string().optional(),
+    name: z.string().trim().min(1),
+    creditLimit: z.number().min(0).nullable().optional(),
+  });
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+// Any method but the account itself pays it off
+export const CUSTOMER_PAYMENT_METHODS = ['cash', 'card', 'transfer', 'mobile'] as const;
+export type CustomerPaymentMethod = typeof CUSTOMER_PAYMENT_METHODS[number];
+
+export const customerPayments = pgTable("customer_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  amount: real("amount").notNull(), // Always positive: it lowers the balance
+  method: text("method").$type<CustomerPaymentMethod>().notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(), // When it was paid (device time)
+  userId: varchar("user_id"), // Cashier who took it
+  storeId: varchar("store_id").notNull().references(() => stores.id, { onDelete: "cascade" }),
+}, (table) => [index("customer_payments_customer_idx").on(table.customerId)]);
+
+export const insertCustomerPaymentSchema = createInsertSchema(customerPayments)
+  .omit({ userId: true, storeId: true })
+  .extend({
+    id: z.string().optional(),
+    amount: z.number().positive(),
+    method: z.enum(CUSTOMER_PAYMENT_METHODS),
+    createdAt: z.coerce.date().optional(),
+  });
+export type InsertCustomerPayment = z.infer<typeof insertCustomerPaymentSchema>;
+export type CustomerPayment = typeof customerPayments.$inferSelect;
+
+// A charge or credit on a customer's account: a sale (or refund) for what
+// went on the account, or a payment. Charges are positive, credits negative.
+export interface StatementEntry {
+  id: string;
+  kind: SaleKind | 'payment';
+  createdAt: Date;
+  amount: number;
+  balance: number; // Owed after this entry
+}
+
+// What is owed, by how many days ago it was charged
+export interface AccountAging {
+  upTo30: number;
+  upTo60: number;
+  upTo90: number;
+  over90: number;
+}
+
+export interface CustomerStatement {
+  entries: StatementEntry[]; // Oldest first
+  balance: number; // Negative when the customer has paid ahead
+  aging: AccountAging;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-// Daily report aggregation type
+// A customer's account as of a moment: every entry with the running balance,
+// and the balance by age. Payments and refunds settle the oldest charges
+// first, so what is left of each charge ages from the day it was made. Sales
+// are counted once each, as a synced sale may be listed under its local and
+// its server ID.
+export function customerStatement(
+  customerId: string,
+  sales: Sale[],
+  payments: CustomerPayment[],
+  asOf: Date = new Date(),
+): CustomerStatement {
+  const seen = new Set<string>();
+  const unsorted: Omit<StatementEntry, 'balance'>[] = [];
+  sales.forEach((sale) => {
+    const key = sale.localId ?? sale.id;
+    if (sale.customerId !== customerId || seen.has(key)) return;
+    seen.add(key);
+    const amount = sale.payments
+      .filter((payment) => payment.method === 'account')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    if (amount !== 0) unsorted.push({ id: sale.id, kind: sale.kind, createdAt: new Date(sale.createdAt), amount: toCents(amount) });
+  });
+  payments
+    .filter((payment) => payment.customerId === customerId)
+    .forEach((payment) => unsorted.push({ id: payment.id, kind: 'payment', createdAt: new Date(payment.createdAt), amount: -payment.amount }));
+  unsorted.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  let balance = 0;
+  const entries = unsorted.map((entry) => {
+    balance = toCents(balance + entry.amount);
+    return { ...entry, balance };
+  });
+
+  // Charges still open, oldest first, and credit not yet used up by any
+  const open: { createdAt: Date; amount: number }[] = [];
+  let credit = 0;
+  entries.forEach((entry) => {
+    if (entry.amount > 0) {
+      const used = Math.min(credit, entry.amount);
+      credit -= used;
+      if (entry.amount - used > PAYMENT_TOLERANCE) open.push({ createdAt: entry.createdAt, amount: entry.amount - used });
+      return;
+    }
+    let left = -entry.amount;
+    while (left > PAYMENT_TOLERANCE && open.length > 0) {
+      const used = Math.min(left, open[0].amount);
+      open[0].amount -= used;
+      left -= used;
+      if (open[0].amount <= PAYMENT_TOLERANCE) open.shift();
+    }
+    credit += Math.max(0, left);
+  });
+
+  const aging: AccountAging = { upTo30: 0, upTo60: 0, upTo90: 0, over90: 0 };
+  open.forEach((charge) => {
+    const days = Math.floor((asOf.getTime() - charge.createdAt.getTime()) / DAY_MS);
+    const bucket: keyof AccountAging = days <= 30 ? 'upTo30' : days <= 60 ? 'upTo60' : days <= 90 ? 'upTo90' : 'over90';
+    aging[bucket] = toCents(aging[bucket] + charge.amount);
+  });
+
+  return { entries, balance, aging };
+}
+
+// A product whose stock went below zero because of a sale. Stock is not
+// clamped at zero, so the shortfall stays visible.
+export interface StockWarning {
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+// What recording a sale returns: the stored sale and any stock warnings
+export interface SaleResult {
+  sale: Sale;
+  stockWarnings: StockWarning[];
+}
+
+// Change feed for delta sync. Every insert, update or delete of a category,
+// product, sale, supplier, purchase order, cash shift, promotion, customer or
+// customer payment appends a row (written by database triggers, see migrations).
+export type ChangeEntity = 'category' | 'product' | 'sale' | 'supplier' | 'purchase_order' | 'cash_shift' | 'promotion' | 'customer' | 'customer_payment';
+
+export const changes = pgTable("changes", {
+  seq: bigserial("seq", { mode: "number" }).primaryKey(),
+  storeId: varchar("store_id").notNull(),
+  entity: text("entity").$type<ChangeEntity>().notNull(),
+  entityId: varchar("entity_id").notNull(),
+  deleted: boolean("deleted").notNull().default(false),
+}, (table) => [index("changes_store_seq_idx").on(table.storeId, table.seq)]);
+
+export type Change = typeof changes.$inferSelect;
+
+// One page of GET /api/changes: the current state of everything that changed
+// after the cursor, and tombstones for what was deleted
+export interface ChangeSet {
+  cursor: number;
+  hasMore: boolean;
+  categories: Category[];
+  products: Product[];
+  sales: Sale[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  cashShifts: CashShift[];
+  promotions: Promotion[];
+  customers: Customer[];
+  customerPayments: CustomerPayment[];
+  deleted: { entity: ChangeEntity; id: string }[];
+}
+
+// Header totals for a set of lines
+export function computeSaleTotals(lines: Pick<InsertSaleLine, 'quantity' | 'total'>[]) {
+  return {
+    itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+    total: lines.reduce((sum, line) => sum + line.total, 0),
+  };
+}
+
+// Daily report aggregation type. Gross profit only counts the lines whose
+// cost is known: costedRevenue is what those lines sold for, before tax.
 export interface DailyReportItem {
   productName: string;
   quantitySold: number;
   revenue: number;
+  costedRevenue: number;
+  cost: number;
+}
+
+export interface CategoryReportItem {
+  categoryName: string;
+  revenue: number;
+  costedRevenue: number;
+  cost: number;
+}
+
+// Taxable base and tax collected at one rate (null: exempt), net of refunds
+export interface TaxReportItem {
+  taxRate: number | null;
+  base: number;
+  tax: number;
 }
 
 export interface DailyReport {
   date: string;
+  grossSales: number; // Before discounts and promotions
+  discounts: number;
   totalSales: number;
   totalItems: number;
   averageTransaction: number;
   items: DailyReportItem[];
+  taxItems: TaxReportItem[];
+}
+
+// A discount keyed in at the register: a percent or a fixed amount off
+export interface Discount {
+  type: 'percent' | 'fixed';
+  value: number;
 }
 
-// Cart item for POS
+// Cart item for POS. Its own discount is taken off after any promotion.
 export interface CartItem {
   product: Product;
   quantity: number;
+  discount?: Discount | null;
+}
+
+// A cart line as it will be sold
+export interface PricedCartLine {
+  item: CartItem;
+  gross: number; // quantity × price
+  promotion: Promotion | null;
+  discount: number; // Promotion, line and cart discounts together
+  taxRate: number | null;
+  tax: number;
+  total: number; // Tax included
+}
+
+// The store settings a sale is taxed by
+export type TaxSettings = Pick<Store, 'pricesIncludeTax' | 'taxRate'>;
+
+// The IVA rate (%) a product sells at: its own, else its category's, else the
+// store's standard rate. null when it is exempt or the store charges no tax.
+export function productTaxRate(product: Product, categories: Category[], store: TaxSettings): number | null {
+  if (product.taxExempt) return null;
+  if (product.taxRate != null) return product.taxRate;
+  const category = categories.find((c) => c.id === product.categoryId);
+  if (category?.taxExempt) return null;
+  return category?.taxRate ?? store.taxRate;
+}
+
+// The tax in an amount that has it in, at a rate (%), to the cent
+export function includedTax(amount: number, rate: number | null) {
+  return rate === null ? 0 : toCents((amount * rate) / (100 + rate));
+}
+
+// Whether a promotion applies on a day (ISO date)
+export function isPromotionActive(promotion: Promotion, date: string) {
+  return promotion.active &&
+    (!promotion.startsAt || promotion.startsAt <= date) &&
+    (!promotion.endsAt || date <= promotion.endsAt);
+}
+
+// What a promotion takes off a cart line; 0 if it doesn't apply to it
+export function promotionDiscount(promotion: Promotion, item: CartItem) {
+  const { product, quantity } = item;
+  if (promotion.type === 'category_percent') {
+    return product.categoryId && product.categoryId === promotion.categoryId
+      ? toCents((product.price * quantity * (promotion.percent ?? 0)) / 100)
+      : 0;
+  }
+  const buy = promotion.buyQuantity ?? 0;
+  const get = promotion.getQuantity ?? 0;
+  if (buy <= 0 || get <= 0 || !promotion.productId) return 0;
+  if (promotion.productId !== product.id && promotion.productId !== product.parentId) return 0;
+  return toCents(Math.floor(quantity / (buy + get)) * get * product.price);
+}
+
+function discountAmount(discount: Discount | null | undefined, amount: number) {
+  if (!discount || amount <= 0) return 0;
+  const off = discount.type === 'percent' ? (amount * discount.value) / 100 : discount.value;
+  return Math.min(amount, Math.max(0, toCents(off)));
+}
+
+// Price a cart on a day: each line gets the promotion that takes the most off
+// it, then its own discount, and the cart discount is spread over the lines in
+// proportion to what is left of each. The line left with the most takes the
+// rounding, so the lines add up to the cart to the cent. Tax comes last, on
+// what each line sells for: taken out of it when prices include tax, added on
+// top when they don't.
+export function priceCart(
+  items: CartItem[],
+  promotions: Promotion[],
+  cartDiscount: Discount | null,
+  date: string,
+  categories: Category[],
+  store: TaxSettings,
+) {
+  const live = promotions.filter((promotion) => isPromotionActive(promotion, date));
+  const lines: PricedCartLine[] = items.map((item) => {
+    const gross = toCents(item.product.price * item.quantity);
+    const best = live.reduce<{ promotion: Promotion | null; off: number }>((current, promotion) => {
+      const off = Math.min(gross, promotionDiscount(promotion, item));
+      return off > current.off ? { promotion, off } : current;
+    }, { promotion: null, off: 0 });
+    const discount = toCents(best.off + discountAmount(item.discount, gross - best.off));
+    return { item, gross, promotion: best.promotion, discount, taxRate: null, tax: 0, total: toCents(gross - discount) };
+  });
+
+  const subtotal = toCents(lines.reduce((sum, line) => sum + line.total, 0));
+  const cartOff = discountAmount(cartDiscount, subtotal);
+  if (cartOff > 0) {
+    const largest = lines.reduce((best, line) => (line.total > best.total ? line : best));
+    let spread = 0;
+    lines.forEach((line) => {
+      if (line === largest) return;
+      const share = toCents((cartOff * line.total) / subtotal);
+      spread += share;
+      line.discount = toCents(line.discount + share);
+      line.total = toCents(line.gross - line.discount);
+    });
+    largest.discount = toCents(largest.discount + cartOff - spread);
+    largest.total = toCents(largest.gross - largest.discount);
+  }
+
+  lines.forEach((line) => {
+    line.taxRate = productTaxRate(line.item.product, categories, store);
+    if (store.pricesIncludeTax) {
+      line.tax = includedTax(line.total, line.taxRate);
+    } else if (line.taxRate !== null) {
+      line.tax = toCents((line.total * line.taxRate) / 100);
+      line.total = toCents(line.total + line.tax);
+    }
+  });
+
+  return {
+    lines,
+    gross: toCents(lines.reduce((sum, line) => sum + line.gross, 0)),
+    discount: toCents(lines.reduce((sum, line) => sum + line.discount, 0)),
+    cartDiscount: cartOff,
+    tax: toCents(lines.reduce((sum, line) => sum + line.tax, 0)),
+    total: toCents(lines.reduce((sum, line) => sum + line.total, 0)),
+  };
 }
 
 // Sync status
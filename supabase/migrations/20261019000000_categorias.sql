@@ -0,0 +1,14 @@
+-- Categories live next to "inventario" instead of in server memory.
+-- The default rows use the stable IDs from DEFAULT_CATEGORIES in shared/schema.ts.
+CREATE TABLE IF NOT EXISTS categorias (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  nombre text NOT NULL,
+  color text NOT NULL DEFAULT '#10B981'
+);
+
+INSERT INTO categorias (id, nombre, color) VALUES
+  ('cat-bebidas', 'Bebidas', '#3B82F6'),
+  ('cat-alimentos', 'Alimentos', '#10B981'),
+  ('cat-limpieza', 'Limpieza', '#F59E0B'),
+  ('cat-otros', 'Otros', '#6B7280')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,41 @@
+-- Stores (tenants) and who can work in them. Every category, product and
+-- sale row belongs to one store.
+CREATE TABLE IF NOT EXISTS tiendas (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  nombre text NOT NULL,
+  creado_en timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tienda_miembros (
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE,
+  user_id text NOT NULL,
+  rol text NOT NULL DEFAULT 'member',
+  PRIMARY KEY (tienda_id, user_id)
+);
+
+-- Until now every user shared the same inventory: keep it together in one
+-- store and make every existing user a member of it.
+INSERT INTO tiendas (id, nombre) VALUES ('store-default', 'Tienda principal')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO tienda_miembros (tienda_id, user_id, rol)
+SELECT 'store-default', id::text, 'owner' FROM auth.users
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE categorias ADD COLUMN IF NOT EXISTS tienda_id text NOT NULL DEFAULT 'store-default'
+  REFERENCES tiendas(id) ON DELETE CASCADE;
+ALTER TABLE categorias ALTER COLUMN tienda_id DROP DEFAULT;
+ALTER TABLE categorias DROP CONSTRAINT categorias_pkey;
+ALTER TABLE categorias ADD PRIMARY KEY (tienda_id, id);
+
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS tienda_id text NOT NULL DEFAULT 'store-default'
+  REFERENCES tiendas(id) ON DELETE CASCADE;
+ALTER TABLE inventario ALTER COLUMN tienda_id DROP DEFAULT;
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS user_id text;
+CREATE INDEX IF NOT EXISTS inventario_tienda_id_idx ON inventario (tienda_id);
+
+ALTER TABLE ventas ADD COLUMN IF NOT EXISTS tienda_id text NOT NULL DEFAULT 'store-default'
+  REFERENCES tiendas(id) ON DELETE CASCADE;
+ALTER TABLE ventas ALTER COLUMN tienda_id DROP DEFAULT;
+ALTER TABLE ventas ADD COLUMN IF NOT EXISTS user_id text;
+CREATE INDEX IF NOT EXISTS ventas_tienda_id_idx ON ventas (tienda_id);
@@ -0,0 +1,38 @@
+-- One header per checkout with the cart lines as children, replacing the
+-- one-row-per-product "ventas" table.
+CREATE TABLE IF NOT EXISTS transacciones_venta (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  date text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  item_count integer NOT NULL,
+  total double precision NOT NULL,
+  payment_method text NOT NULL DEFAULT 'cash',
+  local_id text,
+  user_id text,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS transacciones_venta_tienda_date_idx ON transacciones_venta (tienda_id, date);
+
+CREATE TABLE IF NOT EXISTS lineas_venta (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  transaction_id text NOT NULL REFERENCES transacciones_venta(id) ON DELETE CASCADE,
+  product_id bigint REFERENCES inventario(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  quantity integer NOT NULL,
+  unit_price double precision NOT NULL,
+  total double precision NOT NULL
+);
+CREATE INDEX IF NOT EXISTS lineas_venta_transaction_id_idx ON lineas_venta (transaction_id);
+
+-- Every old single-line sale becomes a transaction with one line
+INSERT INTO transacciones_venta (id, date, created_at, item_count, total, local_id, user_id, tienda_id)
+SELECT 'venta-' || id, date, date::timestamptz, quantity, total, local_id, user_id, tienda_id FROM ventas
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO lineas_venta (id, transaction_id, product_id, product_name, quantity, unit_price, total)
+SELECT 'venta-' || v.id, 'venta-' || v.id, i.id, v.product_name, v.quantity, v.unit_price, v.total
+FROM ventas v LEFT JOIN inventario i ON i.id = v.product_id
+ON CONFLICT (id) DO NOTHING;
+
+-- Kept for reference only; nothing reads or writes it any more
+COMMENT ON TABLE ventas IS 'Legacy single-line sales, migrated to transacciones_venta/lineas_venta';
@@ -0,0 +1,91 @@
+-- localId is the idempotency key for offline records: a retried sync must
+-- return the original row instead of inserting it again.
+
+-- Retried syncs may already have stored the same local_id twice; keep the
+-- oldest row as the owner of the key: for products the lowest id (inventario
+-- ids are sequential), for sales the earliest created_at, then id
+UPDATE inventario p SET local_id = NULL
+WHERE local_id IS NOT NULL AND EXISTS (
+  SELECT 1 FROM inventario o
+  WHERE o.tienda_id = p.tienda_id AND o.local_id = p.local_id AND o.id < p.id
+);
+
+UPDATE transacciones_venta s SET local_id = NULL
+WHERE local_id IS NOT NULL AND EXISTS (
+  SELECT 1 FROM transacciones_venta o
+  WHERE o.tienda_id = s.tienda_id AND o.local_id = s.local_id
+    AND (o.created_at, o.id) < (s.created_at, s.id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inventario_tienda_local_id_idx ON inventario (tienda_id, local_id);
+CREATE UNIQUE INDEX IF NOT EXISTS transacciones_venta_tienda_local_id_idx ON transacciones_venta (tienda_id, local_id);
+
+CREATE OR REPLACE FUNCTION registrar_venta(p_tienda_id text, p_venta jsonb, p_lineas jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_venta transacciones_venta;
+  v_lineas jsonb;
+  v_avisos jsonb;
+BEGIN
+  INSERT INTO transacciones_venta (date, created_at, item_count, total, payment_method, local_id, user_id, tienda_id)
+  VALUES (
+    p_venta->>'date',
+    coalesce((p_venta->>'created_at')::timestamptz, now()),
+    (p_venta->>'item_count')::integer,
+    (p_venta->>'total')::double precision,
+    coalesce(p_venta->>'payment_method', 'cash'),
+    p_venta->>'local_id',
+    p_venta->>'user_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_venta;
+
+  -- Replayed local_id: return the sale recorded the first time, stock untouched
+  IF v_venta.id IS NULL THEN
+    SELECT * INTO v_venta FROM transacciones_venta
+    WHERE tienda_id = p_tienda_id AND local_id = p_venta->>'local_id';
+
+    SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) INTO v_lineas
+    FROM lineas_venta l WHERE l.transaction_id = v_venta.id;
+
+    RETURN jsonb_build_object(
+      'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas),
+      'avisos', '[]'::jsonb
+    );
+  END IF;
+
+  -- Only link lines to products of the same store
+  WITH insertadas AS (
+    INSERT INTO lineas_venta (transaction_id, product_id, product_name, quantity, unit_price, total)
+    SELECT v_venta.id, i.id, l.product_name, l.quantity, l.unit_price, l.total
+    FROM jsonb_to_recordset(p_lineas) AS l(product_id text, product_name text, quantity integer, unit_price double precision, total double precision)
+    LEFT JOIN inventario i ON i.id::text = l.product_id AND i.tienda_id = p_tienda_id
+    RETURNING *
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(insertadas)), '[]'::jsonb) INTO v_lineas FROM insertadas;
+
+  WITH vendido AS (
+    SELECT product_id, sum(quantity) AS cantidad
+    FROM lineas_venta
+    WHERE transaction_id = v_venta.id AND product_id IS NOT NULL
+    GROUP BY product_id
+  ), actualizados AS (
+    UPDATE inventario i SET cantidad = i.cantidad - v.cantidad
+    FROM vendido v
+    WHERE i.id = v.product_id
+    RETURNING i.id, i.nombre, i.cantidad
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object('product_id', id, 'product_name', nombre, 'quantity', cantidad)), '[]'::jsonb)
+  INTO v_avisos
+  FROM actualizados
+  WHERE cantidad < 0;
+
+  RETURN jsonb_build_object(
+    'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas),
+    'avisos', v_avisos
+  );
+END;
+$$;
@@ -0,0 +1,40 @@
+-- Change feed for delta sync (GET /api/changes). Every insert, update or
+-- delete of a category, product or sale appends a row.
+CREATE TABLE IF NOT EXISTS cambios (
+  seq bigserial PRIMARY KEY,
+  tienda_id text NOT NULL,
+  entidad text NOT NULL,
+  entidad_id text NOT NULL,
+  eliminado boolean NOT NULL DEFAULT false
+);
+CREATE INDEX IF NOT EXISTS cambios_tienda_seq_idx ON cambios (tienda_id, seq);
+
+CREATE OR REPLACE FUNCTION registrar_cambio() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO cambios (tienda_id, entidad, entidad_id, eliminado) VALUES (OLD.tienda_id, TG_ARGV[0], OLD.id::text, true);
+    RETURN OLD;
+  END IF;
+  INSERT INTO cambios (tienda_id, entidad, entidad_id) VALUES (NEW.tienda_id, TG_ARGV[0], NEW.id::text);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS categorias_registrar_cambio ON categorias;
+CREATE TRIGGER categorias_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON categorias
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('category');
+
+DROP TRIGGER IF EXISTS inventario_registrar_cambio ON inventario;
+CREATE TRIGGER inventario_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON inventario
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('product');
+
+DROP TRIGGER IF EXISTS transacciones_venta_registrar_cambio ON transacciones_venta;
+CREATE TRIGGER transacciones_venta_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON transacciones_venta
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('sale');
+
+-- Existing rows enter the feed once, so a client starting from cursor 0 gets everything
+INSERT INTO cambios (tienda_id, entidad, entidad_id) SELECT tienda_id, 'category', id FROM categorias;
+INSERT INTO cambios (tienda_id, entidad, entidad_id) SELECT tienda_id, 'product', id::text FROM inventario;
+INSERT INTO cambios (tienda_id, entidad, entidad_id) SELECT tienda_id, 'sale', id FROM transacciones_venta ORDER BY created_at;
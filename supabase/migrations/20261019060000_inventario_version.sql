@@ -0,0 +1,3 @@
+-- Optimistic concurrency for product edits: every edit bumps the version and
+-- an edit made against an older version is refused as a conflict
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
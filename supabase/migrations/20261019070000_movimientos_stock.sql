@@ -0,0 +1,54 @@
+-- Stock changes other than sales, applied as signed deltas so that changes
+-- made offline on several devices add up instead of overwriting each other
+CREATE TABLE IF NOT EXISTS movimientos_stock (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  product_id bigint NOT NULL REFERENCES inventario(id) ON DELETE CASCADE,
+  delta integer NOT NULL,
+  reason text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  local_id text,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE UNIQUE INDEX IF NOT EXISTS movimientos_stock_tienda_local_id_idx ON movimientos_stock (tienda_id, local_id);
+
+-- Record a movement and apply its delta in one step. Returns the product, or
+-- null when it doesn't exist in the store.
+CREATE OR REPLACE FUNCTION registrar_movimiento_stock(p_tienda_id text, p_movimiento jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_producto inventario;
+  v_movimiento movimientos_stock;
+BEGIN
+  SELECT * INTO v_producto FROM inventario
+  WHERE id::text = p_movimiento->>'product_id' AND tienda_id = p_tienda_id;
+
+  IF v_producto.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO movimientos_stock (product_id, delta, reason, created_at, local_id, tienda_id)
+  VALUES (
+    v_producto.id,
+    (p_movimiento->>'delta')::integer,
+    p_movimiento->>'reason',
+    coalesce((p_movimiento->>'created_at')::timestamptz, now()),
+    p_movimiento->>'local_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_movimiento;
+
+  -- Replayed local_id: the delta was applied the first time
+  IF v_movimiento.id IS NULL THEN
+    RETURN to_jsonb(v_producto);
+  END IF;
+
+  UPDATE inventario SET cantidad = cantidad + v_movimiento.delta
+  WHERE id = v_producto.id
+  RETURNING * INTO v_producto;
+
+  RETURN to_jsonb(v_producto);
+END;
+$$;
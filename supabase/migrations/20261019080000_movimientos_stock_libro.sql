@@ -0,0 +1,145 @@
+-- Stock ledger: every change in a product's quantity goes through
+-- movimientos_stock, with the reason, user and an optional note
+ALTER TABLE movimientos_stock ADD COLUMN IF NOT EXISTS note text;
+ALTER TABLE movimientos_stock ADD COLUMN IF NOT EXISTS user_id text;
+ALTER TABLE movimientos_stock ADD COLUMN IF NOT EXISTS sale_id text REFERENCES transacciones_venta(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS movimientos_stock_product_idx ON movimientos_stock (product_id, created_at);
+
+-- Quantity edits were the only movements so far
+UPDATE movimientos_stock SET reason = 'count_correction' WHERE reason = 'adjustment';
+
+-- Past sales enter the ledger
+INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, sale_id, tienda_id)
+SELECT l.product_id, -l.quantity, 'sale', s.created_at, s.user_id, s.id, s.tienda_id
+FROM lineas_venta l JOIN transacciones_venta s ON s.id = l.transaction_id
+WHERE l.product_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM movimientos_stock m WHERE m.sale_id = s.id);
+
+-- Whatever the ledger can't explain becomes an opening balance before its first movement
+INSERT INTO movimientos_stock (product_id, delta, reason, note, created_at, tienda_id)
+SELECT i.id, i.cantidad - coalesce(m.total, 0), 'count_correction', 'Saldo inicial',
+  coalesce(m.primero - interval '1 second', now()), i.tienda_id
+FROM inventario i
+LEFT JOIN (
+  SELECT product_id, sum(delta) AS total, min(created_at) AS primero
+  FROM movimientos_stock GROUP BY product_id
+) m ON m.product_id = i.id
+WHERE i.cantidad <> coalesce(m.total, 0);
+
+-- Sales now write their movements
+CREATE OR REPLACE FUNCTION registrar_venta(p_tienda_id text, p_venta jsonb, p_lineas jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_venta transacciones_venta;
+  v_lineas jsonb;
+  v_avisos jsonb;
+BEGIN
+  INSERT INTO transacciones_venta (date, created_at, item_count, total, payment_method, local_id, user_id, tienda_id)
+  VALUES (
+    p_venta->>'date',
+    coalesce((p_venta->>'created_at')::timestamptz, now()),
+    (p_venta->>'item_count')::integer,
+    (p_venta->>'total')::double precision,
+    coalesce(p_venta->>'payment_method', 'cash'),
+    p_venta->>'local_id',
+    p_venta->>'user_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_venta;
+
+  -- Replayed local_id: return the sale recorded the first time, stock untouched
+  IF v_venta.id IS NULL THEN
+    SELECT * INTO v_venta FROM transacciones_venta
+    WHERE tienda_id = p_tienda_id AND local_id = p_venta->>'local_id';
+
+    SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) INTO v_lineas
+    FROM lineas_venta l WHERE l.transaction_id = v_venta.id;
+
+    RETURN jsonb_build_object(
+      'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas),
+      'avisos', '[]'::jsonb
+    );
+  END IF;
+
+  -- Only link lines to products of the same store
+  WITH insertadas AS (
+    INSERT INTO lineas_venta (transaction_id, product_id, product_name, quantity, unit_price, total)
+    SELECT v_venta.id, i.id, l.product_name, l.quantity, l.unit_price, l.total
+    FROM jsonb_to_recordset(p_lineas) AS l(product_id text, product_name text, quantity integer, unit_price double precision, total double precision)
+    LEFT JOIN inventario i ON i.id::text = l.product_id AND i.tienda_id = p_tienda_id
+    RETURNING *
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(insertadas)), '[]'::jsonb) INTO v_lineas FROM insertadas;
+
+  INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, sale_id, tienda_id)
+  SELECT product_id, -quantity, 'sale', v_venta.created_at, v_venta.user_id, v_venta.id, p_tienda_id
+  FROM lineas_venta
+  WHERE transaction_id = v_venta.id AND product_id IS NOT NULL;
+
+  WITH vendido AS (
+    SELECT product_id, sum(quantity) AS cantidad
+    FROM lineas_venta
+    WHERE transaction_id = v_venta.id AND product_id IS NOT NULL
+    GROUP BY product_id
+  ), actualizados AS (
+    UPDATE inventario i SET cantidad = i.cantidad - v.cantidad
+    FROM vendido v
+    WHERE i.id = v.product_id
+    RETURNING i.id, i.nombre, i.cantidad
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object('product_id', id, 'product_name', nombre, 'quantity', cantidad)), '[]'::jsonb)
+  INTO v_avisos
+  FROM actualizados
+  WHERE cantidad < 0;
+
+  RETURN jsonb_build_object(
+    'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas),
+    'avisos', v_avisos
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION registrar_movimiento_stock(p_tienda_id text, p_movimiento jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_producto inventario;
+  v_movimiento movimientos_stock;
+BEGIN
+  SELECT * INTO v_producto FROM inventario
+  WHERE id::text = p_movimiento->>'product_id' AND tienda_id = p_tienda_id;
+
+  IF v_producto.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO movimientos_stock (product_id, delta, reason, note, created_at, user_id, local_id, tienda_id)
+  VALUES (
+    v_producto.id,
+    (p_movimiento->>'delta')::integer,
+    p_movimiento->>'reason',
+    p_movimiento->>'note',
+    coalesce((p_movimiento->>'created_at')::timestamptz, now()),
+    p_movimiento->>'user_id',
+    p_movimiento->>'local_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_movimiento;
+
+  -- Replayed local_id: the delta was applied the first time
+  IF v_movimiento.id IS NULL THEN
+    RETURN to_jsonb(v_producto);
+  END IF;
+
+  UPDATE inventario SET cantidad = cantidad + v_movimiento.delta
+  WHERE id = v_producto.id
+  RETURNING * INTO v_producto;
+
+  RETURN to_jsonb(v_producto);
+END;
+$$;
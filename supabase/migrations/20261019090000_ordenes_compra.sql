@@ -0,0 +1,174 @@
+-- Suppliers and purchase orders (draft → sent → partially_received → received).
+-- Offline clients choose the IDs of suppliers, orders and order lines.
+CREATE TABLE IF NOT EXISTS proveedores (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name text NOT NULL,
+  phone text,
+  email text,
+  notes text,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS proveedores_tienda_idx ON proveedores (tienda_id);
+
+CREATE TABLE IF NOT EXISTS ordenes_compra (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  supplier_id text REFERENCES proveedores(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft',
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  user_id text,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS ordenes_compra_tienda_idx ON ordenes_compra (tienda_id, created_at);
+
+CREATE TABLE IF NOT EXISTS lineas_orden_compra (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  order_id text NOT NULL REFERENCES ordenes_compra(id) ON DELETE CASCADE,
+  product_id bigint REFERENCES inventario(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  quantity_ordered integer NOT NULL,
+  quantity_received integer NOT NULL DEFAULT 0,
+  unit_cost double precision NOT NULL
+);
+CREATE INDEX IF NOT EXISTS lineas_orden_compra_order_id_idx ON lineas_orden_compra (order_id);
+
+-- One row per delivery; local_id makes a retried receipt apply once
+CREATE TABLE IF NOT EXISTS recepciones_compra (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  order_id text NOT NULL REFERENCES ordenes_compra(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  local_id text,
+  user_id text,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE UNIQUE INDEX IF NOT EXISTS recepciones_compra_tienda_local_id_idx ON recepciones_compra (tienda_id, local_id);
+
+-- Unit cost of the last goods received
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS costo double precision;
+ALTER TABLE movimientos_stock ADD COLUMN IF NOT EXISTS purchase_order_id text REFERENCES ordenes_compra(id) ON DELETE SET NULL;
+
+DROP TRIGGER IF EXISTS proveedores_registrar_cambio ON proveedores;
+CREATE TRIGGER proveedores_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON proveedores
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('supplier');
+
+DROP TRIGGER IF EXISTS ordenes_compra_registrar_cambio ON ordenes_compra;
+CREATE TRIGGER ordenes_compra_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON ordenes_compra
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('purchase_order');
+
+-- Receive goods against an order's lines: each line adds stock through a
+-- receipt movement and sets the product's cost. Returns the order with its
+-- lines, or null when it doesn't exist in the store. A replayed local_id
+-- returns the order without receiving again.
+CREATE OR REPLACE FUNCTION recibir_orden_compra(p_tienda_id text, p_orden_id text, p_recepcion jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_orden ordenes_compra;
+  v_recepcion recepciones_compra;
+  v_linea lineas_orden_compra;
+  r record;
+BEGIN
+  SELECT * INTO v_orden FROM ordenes_compra
+  WHERE id = p_orden_id AND tienda_id = p_tienda_id
+  FOR UPDATE;
+
+  IF v_orden.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO recepciones_compra (order_id, created_at, local_id, user_id, tienda_id)
+  VALUES (
+    v_orden.id,
+    coalesce((p_recepcion->>'created_at')::timestamptz, now()),
+    p_recepcion->>'local_id',
+    p_recepcion->>'user_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_recepcion;
+
+  IF v_recepcion.id IS NOT NULL THEN
+    IF v_orden.status = 'draft' THEN
+      RAISE EXCEPTION 'A draft purchase order must be sent before receiving goods' USING ERRCODE = 'P0001';
+    END IF;
+
+    FOR r IN
+      SELECT * FROM jsonb_to_recordset(p_recepcion->'lines') AS l(line_id text, quantity integer, unit_cost double precision)
+    LOOP
+      UPDATE lineas_orden_compra SET quantity_received = quantity_received + r.quantity
+      WHERE id = r.line_id AND order_id = v_orden.id
+      RETURNING * INTO v_linea;
+
+      IF v_linea.id IS NULL THEN
+        RAISE EXCEPTION 'Purchase order line % not found', r.line_id USING ERRCODE = 'P0001';
+      END IF;
+
+      IF v_linea.product_id IS NOT NULL THEN
+        INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, purchase_order_id, tienda_id)
+        VALUES (v_linea.product_id, r.quantity, 'receipt', v_recepcion.created_at, v_recepcion.user_id, v_orden.id, p_tienda_id);
+
+        UPDATE inventario SET cantidad = cantidad + r.quantity, costo = coalesce(r.unit_cost, v_linea.unit_cost)
+        WHERE id = v_linea.product_id;
+      END IF;
+    END LOOP;
+
+    -- Always touches the order, so the change feed picks up the new quantities
+    UPDATE ordenes_compra SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM lineas_orden_compra WHERE order_id = v_orden.id AND quantity_received < quantity_ordered
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = v_orden.id
+    RETURNING * INTO v_orden;
+  END IF;
+
+  RETURN to_jsonb(v_orden) || jsonb_build_object(
+    'lineas_orden_compra',
+    (SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) FROM lineas_orden_compra l WHERE l.order_id = v_orden.id)
+  );
+END;
+$$;
+
+-- Create an order with its lines in one step. A replayed id returns the
+-- order created the first time.
+CREATE OR REPLACE FUNCTION crear_orden_compra(p_tienda_id text, p_orden jsonb, p_lineas jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_orden ordenes_compra;
+BEGIN
+  INSERT INTO ordenes_compra (id, supplier_id, status, notes, created_at, user_id, tienda_id)
+  VALUES (
+    coalesce(p_orden->>'id', gen_random_uuid()::text),
+    (SELECT id FROM proveedores WHERE id = p_orden->>'supplier_id' AND tienda_id = p_tienda_id),
+    coalesce(p_orden->>'status', 'draft'),
+    p_orden->>'notes',
+    coalesce((p_orden->>'created_at')::timestamptz, now()),
+    p_orden->>'user_id',
+    p_tienda_id
+  )
+  ON CONFLICT (id) DO NOTHING
+  RETURNING * INTO v_orden;
+
+  IF v_orden.id IS NULL THEN
+    SELECT * INTO v_orden FROM ordenes_compra WHERE id = p_orden->>'id' AND tienda_id = p_tienda_id;
+    IF v_orden.id IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    -- Only link lines to products of the same store
+    INSERT INTO lineas_orden_compra (id, order_id, product_id, product_name, quantity_ordered, unit_cost)
+    SELECT coalesce(l.id, gen_random_uuid()::text), v_orden.id, i.id, l.product_name, l.quantity_ordered, l.unit_cost
+    FROM jsonb_to_recordset(p_lineas) AS l(id text, product_id text, product_name text, quantity_ordered integer, unit_cost double precision)
+    LEFT JOIN inventario i ON i.id::text = l.product_id AND i.tienda_id = p_tienda_id;
+  END IF;
+
+  RETURN to_jsonb(v_orden) || jsonb_build_object(
+    'lineas_orden_compra',
+    (SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) FROM lineas_orden_compra l WHERE l.order_id = v_orden.id)
+  );
+END;
+$$;
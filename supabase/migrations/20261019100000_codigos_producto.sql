@@ -0,0 +1,6 @@
+-- The store's own product code and the barcodes printed on the product
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS sku text;
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS codigos_barras text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS inventario_tienda_sku_idx ON inventario (tienda_id, sku);
+CREATE INDEX IF NOT EXISTS inventario_codigos_barras_idx ON inventario USING gin (codigos_barras);
@@ -0,0 +1,6 @@
+-- Variants (size, flavor, presentation) point at their parent product and
+-- sell with their own price, stock and barcodes
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS parent_id bigint REFERENCES inventario(id) ON DELETE SET NULL;
+ALTER TABLE inventario ADD COLUMN IF NOT EXISTS variant_name text;
+
+CREATE INDEX IF NOT EXISTS inventario_parent_id_idx ON inventario (parent_id);
@@ -0,0 +1,158 @@
+-- Cost of goods sold: each sale line keeps the product's cost when it was
+-- sold, and receiving goods averages the cost instead of replacing it
+ALTER TABLE lineas_venta ADD COLUMN IF NOT EXISTS unit_cost double precision;
+
+CREATE OR REPLACE FUNCTION registrar_venta(p_tienda_id text, p_venta jsonb, p_lineas jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_venta transacciones_venta;
+  v_lineas jsonb;
+  v_avisos jsonb;
+BEGIN
+  INSERT INTO transacciones_venta (date, created_at, item_count, total, payment_method, local_id, user_id, tienda_id)
+  VALUES (
+    p_venta->>'date',
+    coalesce((p_venta->>'created_at')::timestamptz, now()),
+    (p_venta->>'item_count')::integer,
+    (p_venta->>'total')::double precision,
+    coalesce(p_venta->>'payment_method', 'cash'),
+    p_venta->>'local_id',
+    p_venta->>'user_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_venta;
+
+  -- Replayed local_id: return the sale recorded the first time, stock untouched
+  IF v_venta.id IS NULL THEN
+    SELECT * INTO v_venta FROM transacciones_venta
+    WHERE tienda_id = p_tienda_id AND local_id = p_venta->>'local_id';
+
+    SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) INTO v_lineas
+    FROM lineas_venta l WHERE l.transaction_id = v_venta.id;
+
+    RETURN jsonb_build_object(
+      'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas),
+      'avisos', '[]'::jsonb
+    );
+  END IF;
+
+  -- Only link lines to products of the same store. Offline sales bring the
+  -- cost they were made at; otherwise the product's current cost is kept.
+  WITH insertadas AS (
+    INSERT INTO lineas_venta (transaction_id, product_id, product_name, quantity, unit_price, unit_cost, total)
+    SELECT v_venta.id, i.id, l.product_name, l.quantity, l.unit_price, coalesce(l.unit_cost, i.costo), l.total
+    FROM jsonb_to_recordset(p_lineas) AS l(product_id text, product_name text, quantity integer, unit_price double precision, unit_cost double precision, total double precision)
+    LEFT JOIN inventario i ON i.id::text = l.product_id AND i.tienda_id = p_tienda_id
+    RETURNING *
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(insertadas)), '[]'::jsonb) INTO v_lineas FROM insertadas;
+
+  INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, sale_id, tienda_id)
+  SELECT product_id, -quantity, 'sale', v_venta.created_at, v_venta.user_id, v_venta.id, p_tienda_id
+  FROM lineas_venta
+  WHERE transaction_id = v_venta.id AND product_id IS NOT NULL;
+
+  WITH vendido AS (
+    SELECT product_id, sum(quantity) AS cantidad
+    FROM lineas_venta
+    WHERE transaction_id = v_venta.id AND product_id IS NOT NULL
+    GROUP BY product_id
+  ), actualizados AS (
+    UPDATE inventario i SET cantidad = i.cantidad - v.cantidad
+    FROM vendido v
+    WHERE i.id = v.product_id
+    RETURNING i.id, i.nombre, i.cantidad
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object('product_id', id, 'product_name', nombre, 'quantity', cantidad)), '[]'::jsonb)
+  INTO v_avisos
+  FROM actualizados
+  WHERE cantidad < 0;
+
+  RETURN jsonb_build_object(
+    'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas),
+    'avisos', v_avisos
+  );
+END;
+$$;
+
+-- Receive goods against an order's lines, averaging each product's cost
+CREATE OR REPLACE FUNCTION recibir_orden_compra(p_tienda_id text, p_orden_id text, p_recepcion jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_orden ordenes_compra;
+  v_recepcion recepciones_compra;
+  v_linea lineas_orden_compra;
+  r record;
+BEGIN
+  SELECT * INTO v_orden FROM ordenes_compra
+  WHERE id = p_orden_id AND tienda_id = p_tienda_id
+  FOR UPDATE;
+
+  IF v_orden.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO recepciones_compra (order_id, created_at, local_id, user_id, tienda_id)
+  VALUES (
+    v_orden.id,
+    coalesce((p_recepcion->>'created_at')::timestamptz, now()),
+    p_recepcion->>'local_id',
+    p_recepcion->>'user_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_recepcion;
+
+  IF v_recepcion.id IS NOT NULL THEN
+    IF v_orden.status = 'draft' THEN
+      RAISE EXCEPTION 'A draft purchase order must be sent before receiving goods' USING ERRCODE = 'P0001';
+    END IF;
+
+    FOR r IN
+      SELECT * FROM jsonb_to_recordset(p_recepcion->'lines') AS l(line_id text, quantity integer, unit_cost double precision)
+    LOOP
+      UPDATE lineas_orden_compra SET quantity_received = quantity_received + r.quantity
+      WHERE id = r.line_id AND order_id = v_orden.id
+      RETURNING * INTO v_linea;
+
+      IF v_linea.id IS NULL THEN
+        RAISE EXCEPTION 'Purchase order line % not found', r.line_id USING ERRCODE = 'P0001';
+      END IF;
+
+      IF v_linea.product_id IS NOT NULL THEN
+        INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, purchase_order_id, tienda_id)
+        VALUES (v_linea.product_id, r.quantity, 'receipt', v_recepcion.created_at, v_recepcion.user_id, v_orden.id, p_tienda_id);
+
+        -- Moving-average cost: the units on hand keep theirs, the received ones come in at theirs
+        UPDATE inventario SET
+          cantidad = cantidad + r.quantity,
+          costo = CASE
+            WHEN costo IS NULL OR cantidad <= 0 THEN coalesce(r.unit_cost, v_linea.unit_cost)
+            ELSE (cantidad * costo + r.quantity * coalesce(r.unit_cost, v_linea.unit_cost)) / (cantidad + r.quantity)
+          END
+        WHERE id = v_linea.product_id;
+      END IF;
+    END LOOP;
+
+    -- Always touches the order, so the change feed picks up the new quantities
+    UPDATE ordenes_compra SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM lineas_orden_compra WHERE order_id = v_orden.id AND quantity_received < quantity_ordered
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = v_orden.id
+    RETURNING * INTO v_orden;
+  END IF;
+
+  RETURN to_jsonb(v_orden) || jsonb_build_object(
+    'lineas_orden_compra',
+    (SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) FROM lineas_orden_compra l WHERE l.order_id = v_orden.id)
+  );
+END;
+$$;
@@ -0,0 +1,196 @@
+-- Cash drawer shifts. A shift is opened and worked on one device, offline if
+-- need be, and reaches the server once closed, as its Z-report. Offline
+-- clients choose the IDs.
+CREATE TABLE IF NOT EXISTS turnos_caja (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  opened_at timestamptz NOT NULL,
+  closed_at timestamptz NOT NULL,
+  opening_float double precision NOT NULL,
+  sales_count integer NOT NULL,
+  sales_total double precision NOT NULL,
+  payment_totals jsonb NOT NULL,
+  pay_ins double precision NOT NULL,
+  pay_outs double precision NOT NULL,
+  expected_cash double precision NOT NULL,
+  counted_cash double precision NOT NULL,
+  difference double precision NOT NULL,
+  user_id text,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS turnos_caja_tienda_closed_idx ON turnos_caja (tienda_id, closed_at);
+
+-- Cash paid into or out of the drawer during a shift
+CREATE TABLE IF NOT EXISTS movimientos_caja (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  shift_id text NOT NULL REFERENCES turnos_caja(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  amount double precision NOT NULL,
+  note text,
+  created_at timestamptz NOT NULL
+);
+CREATE INDEX IF NOT EXISTS movimientos_caja_shift_id_idx ON movimientos_caja (shift_id);
+
+-- The shift a sale was rung up in. Not a foreign key: the shift reaches the
+-- server after its sales.
+ALTER TABLE transacciones_venta ADD COLUMN IF NOT EXISTS shift_id text;
+
+DROP TRIGGER IF EXISTS turnos_caja_registrar_cambio ON turnos_caja;
+CREATE TRIGGER turnos_caja_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON turnos_caja
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('cash_shift');
+
+-- A Z-report is final: its shift and movements can be deleted with the store, never edited
+CREATE OR REPLACE FUNCTION rechazar_cambio() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION '% rows can''t be changed', TG_TABLE_NAME;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS turnos_caja_rechazar_cambio ON turnos_caja;
+CREATE TRIGGER turnos_caja_rechazar_cambio BEFORE UPDATE ON turnos_caja
+  FOR EACH ROW EXECUTE FUNCTION rechazar_cambio();
+
+DROP TRIGGER IF EXISTS movimientos_caja_rechazar_cambio ON movimientos_caja;
+CREATE TRIGGER movimientos_caja_rechazar_cambio BEFORE UPDATE ON movimientos_caja
+  FOR EACH ROW EXECUTE FUNCTION rechazar_cambio();
+
+-- Record a closed shift with its movements. Returns the shift, or the one
+-- recorded the first time for a replayed ID (null if it belongs to another store).
+CREATE OR REPLACE FUNCTION registrar_turno_caja(p_tienda_id text, p_turno jsonb, p_movimientos jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_turno turnos_caja;
+BEGIN
+  INSERT INTO turnos_caja (
+    id, opened_at, closed_at, opening_float, sales_count, sales_total, payment_totals,
+    pay_ins, pay_outs, expected_cash, counted_cash, difference, user_id, tienda_id
+  )
+  VALUES (
+    coalesce(p_turno->>'id', gen_random_uuid()::text),
+    (p_turno->>'opened_at')::timestamptz,
+    (p_turno->>'closed_at')::timestamptz,
+    (p_turno->>'opening_float')::double precision,
+    (p_turno->>'sales_count')::integer,
+    (p_turno->>'sales_total')::double precision,
+    p_turno->'payment_totals',
+    (p_turno->>'pay_ins')::double precision,
+    (p_turno->>'pay_outs')::double precision,
+    (p_turno->>'expected_cash')::double precision,
+    (p_turno->>'counted_cash')::double precision,
+    (p_turno->>'difference')::double precision,
+    p_turno->>'user_id',
+    p_tienda_id
+  )
+  ON CONFLICT (id) DO NOTHING
+  RETURNING * INTO v_turno;
+
+  IF v_turno.id IS NULL THEN
+    SELECT * INTO v_turno FROM turnos_caja WHERE id = p_turno->>'id' AND tienda_id = p_tienda_id;
+    IF v_turno.id IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    INSERT INTO movimientos_caja (id, shift_id, type, amount, note, created_at)
+    SELECT coalesce(m.id, gen_random_uuid()::text), v_turno.id, m.type, m.amount, m.note, m.created_at
+    FROM jsonb_to_recordset(p_movimientos) AS m(id text, type text, amount double precision, note text, created_at timestamptz);
+  END IF;
+
+  RETURN to_jsonb(v_turno) || jsonb_build_object(
+    'movimientos_caja',
+    (SELECT coalesce(jsonb_agg(to_jsonb(m)), '[]'::jsonb) FROM movimientos_caja m WHERE m.shift_id = v_turno.id)
+  );
+END;
+$$;
+
+-- Sales keep the shift they were rung up in
+CREATE OR REPLACE FUNCTION registrar_venta(p_tienda_id text, p_venta jsonb, p_lineas jsonb, p_pagos jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_venta transacciones_venta;
+  v_lineas jsonb;
+  v_pagos jsonb;
+  v_avisos jsonb;
+BEGIN
+  INSERT INTO transacciones_venta (date, created_at, item_count, total, payment_method, local_id, user_id, shift_id, tienda_id)
+  VALUES (
+    p_venta->>'date',
+    coalesce((p_venta->>'created_at')::timestamptz, now()),
+    (p_venta->>'item_count')::integer,
+    (p_venta->>'total')::double precision,
+    coalesce(p_venta->>'payment_method', 'cash'),
+    p_venta->>'local_id',
+    p_venta->>'user_id',
+    p_venta->>'shift_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_venta;
+
+  -- Replayed local_id: return the sale recorded the first time, stock untouched
+  IF v_venta.id IS NULL THEN
+    SELECT * INTO v_venta FROM transacciones_venta
+    WHERE tienda_id = p_tienda_id AND local_id = p_venta->>'local_id';
+
+    SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) INTO v_lineas
+    FROM lineas_venta l WHERE l.transaction_id = v_venta.id;
+
+    SELECT coalesce(jsonb_agg(to_jsonb(p)), '[]'::jsonb) INTO v_pagos
+    FROM pagos_venta p WHERE p.transaction_id = v_venta.id;
+
+    RETURN jsonb_build_object(
+      'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas, 'pagos_venta', v_pagos),
+      'avisos', '[]'::jsonb
+    );
+  END IF;
+
+  -- Only link lines to products of the same store. Offline sales bring the
+  -- cost they were made at; otherwise the product's current cost is kept.
+  WITH insertadas AS (
+    INSERT INTO lineas_venta (transaction_id, product_id, product_name, quantity, unit_price, unit_cost, total)
+    SELECT v_venta.id, i.id, l.product_name, l.quantity, l.unit_price, coalesce(l.unit_cost, i.costo), l.total
+    FROM jsonb_to_recordset(p_lineas) AS l(product_id text, product_name text, quantity integer, unit_price double precision, unit_cost double precision, total double precision)
+    LEFT JOIN inventario i ON i.id::text = l.product_id AND i.tienda_id = p_tienda_id
+    RETURNING *
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(insertadas)), '[]'::jsonb) INTO v_lineas FROM insertadas;
+
+  WITH insertados AS (
+    INSERT INTO pagos_venta (transaction_id, method, amount, tendered)
+    SELECT v_venta.id, p.method, p.amount, p.tendered
+    FROM jsonb_to_recordset(p_pagos) AS p(method text, amount double precision, tendered double precision)
+    RETURNING *
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(insertados)), '[]'::jsonb) INTO v_pagos FROM insertados;
+
+  INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, sale_id, tienda_id)
+  SELECT product_id, -quantity, 'sale', v_venta.created_at, v_venta.user_id, v_venta.id, p_tienda_id
+  FROM lineas_venta
+  WHERE transaction_id = v_venta.id AND product_id IS NOT NULL;
+
+  WITH vendido AS (
+    SELECT product_id, sum(quantity) AS cantidad
+    FROM lineas_venta
+    WHERE transaction_id = v_venta.id AND product_id IS NOT NULL
+    GROUP BY product_id
+  ), actualizados AS (
+    UPDATE inventario i SET cantidad = i.cantidad - v.cantidad
+    FROM vendido v
+    WHERE i.id = v.product_id
+    RETURNING i.id, i.nombre, i.cantidad
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object('product_id', id, 'product_name', nombre, 'quantity', cantidad)), '[]'::jsonb)
+  INTO v_avisos
+  FROM actualizados
+  WHERE cantidad < 0;
+
+  RETURN jsonb_build_object(
+    'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas, 'pagos_venta', v_pagos),
+    'avisos', v_avisos
+  );
+END;
+$$;
@@ -0,0 +1,132 @@
+-- Customers and their credit accounts (fiado). Sales charged to an account
+-- name the customer; payments toward it (abonos) are kept apart. The sale's
+-- customer is not a foreign key, so its history outlives the customer.
+-- Offline clients choose the IDs of customers and payments.
+CREATE TABLE IF NOT EXISTS clientes (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name text NOT NULL,
+  phone text,
+  notes text,
+  credit_limit double precision,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS clientes_tienda_idx ON clientes (tienda_id);
+
+CREATE TABLE IF NOT EXISTS abonos_cliente (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  customer_id text NOT NULL REFERENCES clientes(id) ON DELETE CASCADE,
+  amount double precision NOT NULL,
+  method text NOT NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  user_id text,
+  tienda_id text NOT NULL REFERENCES tiendas(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS abonos_cliente_customer_idx ON abonos_cliente (customer_id);
+CREATE INDEX IF NOT EXISTS abonos_cliente_tienda_idx ON abonos_cliente (tienda_id);
+
+DROP TRIGGER IF EXISTS clientes_registrar_cambio ON clientes;
+CREATE TRIGGER clientes_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON clientes
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('customer');
+
+DROP TRIGGER IF EXISTS abonos_cliente_registrar_cambio ON abonos_cliente;
+CREATE TRIGGER abonos_cliente_registrar_cambio AFTER INSERT OR UPDATE OR DELETE ON abonos_cliente
+  FOR EACH ROW EXECUTE FUNCTION registrar_cambio('customer_payment');
+
+ALTER TABLE transacciones_venta ADD COLUMN IF NOT EXISTS customer_id text;
+CREATE INDEX IF NOT EXISTS transacciones_venta_customer_idx ON transacciones_venta (customer_id);
+
+CREATE OR REPLACE FUNCTION registrar_venta(p_tienda_id text, p_venta jsonb, p_lineas jsonb, p_pagos jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_venta transacciones_venta;
+  v_lineas jsonb;
+  v_pagos jsonb;
+  v_avisos jsonb;
+BEGIN
+  INSERT INTO transacciones_venta (date, created_at, item_count, total, discount, prices_include_tax, payment_method, local_id, user_id, shift_id, kind, original_sale_id, reason, customer_id, tienda_id)
+  VALUES (
+    p_venta->>'date',
+    coalesce((p_venta->>'created_at')::timestamptz, now()),
+    (p_venta->>'item_count')::integer,
+    (p_venta->>'total')::double precision,
+    coalesce((p_venta->>'discount')::double precision, 0),
+    coalesce((p_venta->>'prices_include_tax')::boolean, true),
+    coalesce(p_venta->>'payment_method', 'cash'),
+    p_venta->>'local_id',
+    p_venta->>'user_id',
+    p_venta->>'shift_id',
+    coalesce(p_venta->>'kind', 'sale'),
+    p_venta->>'original_sale_id',
+    p_venta->>'reason',
+    p_venta->>'customer_id',
+    p_tienda_id
+  )
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_venta;
+
+  -- Replayed local_id: return the sale recorded the first time, stock untouched
+  IF v_venta.id IS NULL THEN
+    SELECT * INTO v_venta FROM transacciones_venta
+    WHERE tienda_id = p_tienda_id AND local_id = p_venta->>'local_id';
+
+    SELECT coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) INTO v_lineas
+    FROM lineas_venta l WHERE l.transaction_id = v_venta.id;
+
+    SELECT coalesce(jsonb_agg(to_jsonb(p)), '[]'::jsonb) INTO v_pagos
+    FROM pagos_venta p WHERE p.transaction_id = v_venta.id;
+
+    RETURN jsonb_build_object(
+      'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas, 'pagos_venta', v_pagos),
+      'avisos', '[]'::jsonb
+    );
+  END IF;
+
+  -- Only link lines to products of the same store. Offline sales bring the
+  -- cost they were made at; otherwise the product's current cost is kept.
+  WITH insertadas AS (
+    INSERT INTO lineas_venta (transaction_id, product_id, product_name, quantity, unit_price, unit_cost, discount, promotion_id, tax_rate, tax, total)
+    SELECT v_venta.id, i.id, l.product_name, l.quantity, l.unit_price, coalesce(l.unit_cost, i.costo), coalesce(l.discount, 0), l.promotion_id, l.tax_rate, coalesce(l.tax, 0), l.total
+    FROM jsonb_to_recordset(p_lineas) AS l(product_id text, product_name text, quantity integer, unit_price double precision, unit_cost double precision, discount double precision, promotion_id text, tax_rate double precision, tax double precision, total double precision)
+    LEFT JOIN inventario i ON i.id::text = l.product_id AND i.tienda_id = p_tienda_id
+    RETURNING *
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(insertadas)), '[]'::jsonb) INTO v_lineas FROM insertadas;
+
+  WITH insertados AS (
+    INSERT INTO pagos_venta (transaction_id, method, amount, tendered)
+    SELECT v_venta.id, p.method, p.amount, p.tendered
+    FROM jsonb_to_recordset(p_pagos) AS p(method text, amount double precision, tendered double precision)
+    RETURNING *
+  )
+  SELECT coalesce(jsonb_agg(to_jsonb(insertados)), '[]'::jsonb) INTO v_pagos FROM insertados;
+
+  INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, sale_id, tienda_id)
+  SELECT product_id, -quantity, CASE WHEN v_venta.kind = 'sale' THEN 'sale' ELSE 'return' END, v_venta.created_at, v_venta.user_id, v_venta.id, p_tienda_id
+  FROM lineas_venta
+  WHERE transaction_id = v_venta.id AND product_id IS NOT NULL;
+
+  WITH vendido AS (
+    SELECT product_id, sum(quantity) AS cantidad
+    FROM lineas_venta
+    WHERE transaction_id = v_venta.id AND product_id IS NOT NULL
+    GROUP BY product_id
+  ), actualizados AS (
+    UPDATE inventario i SET cantidad = i.cantidad - v.cantidad
+    FROM vendido v
+    WHERE i.id = v.product_id
+    RETURNING i.id, i.nombre, i.cantidad
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object('product_id', id, 'product_name', nombre, 'quantity', cantidad)), '[]'::jsonb)
+  INTO v_avisos
+  FROM actualizados
+  WHERE cantidad < 0;
+
+  RETURN jsonb_build_object(
+    'venta', to_jsonb(v_venta) || jsonb_build_object('lineas_venta', v_lineas, 'pagos_venta', v_pagos),
+    'avisos', v_avisos
+  );
+END;
+$$;
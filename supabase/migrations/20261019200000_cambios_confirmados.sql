@@ -0,0 +1,28 @@
+-- A change's seq is taken when its row is inserted but only seen once its
+-- transaction commits, so rows can show up behind a cursor a client already
+-- has. Writers now hold a shared per-store lock until they commit, and
+-- cambio_confirmado waits for them to return the seq below which every
+-- change of the store is committed; GET /api/changes serves no further.
+CREATE OR REPLACE FUNCTION registrar_cambio() RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM pg_advisory_xact_lock_shared(hashtext('cambios:' || OLD.tienda_id));
+    INSERT INTO cambios (tienda_id, entidad, entidad_id, eliminado) VALUES (OLD.tienda_id, TG_ARGV[0], OLD.id::text, true);
+    RETURN OLD;
+  END IF;
+  PERFORM pg_advisory_xact_lock_shared(hashtext('cambios:' || NEW.tienda_id));
+  INSERT INTO cambios (tienda_id, entidad, entidad_id) VALUES (NEW.tienda_id, TG_ARGV[0], NEW.id::text);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cambio_confirmado(p_tienda_id text) RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('cambios:' || p_tienda_id));
+  RETURN (SELECT last_value FROM cambios_seq_seq);
+END;
+$$;
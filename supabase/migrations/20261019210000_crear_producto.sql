@@ -0,0 +1,36 @@
+-- Create a product and record its initial quantity as a receipt movement in
+-- one transaction, so the stock ledger always adds up to the quantity. A
+-- replayed local_id returns the product created the first time.
+CREATE OR REPLACE FUNCTION crear_producto(p_tienda_id text, p_producto jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_producto inventario;
+BEGIN
+  INSERT INTO inventario (
+    nombre, precio, cantidad, costo, sku, codigos_barras, categoria_id, parent_id,
+    variant_name, tasa_iva, exento_iva, local_id, user_id, tienda_id
+  )
+  SELECT
+    p.nombre, p.precio, p.cantidad, p.costo, p.sku, coalesce(p.codigos_barras, '{}'), p.categoria_id, p.parent_id,
+    p.variant_name, p.tasa_iva, coalesce(p.exento_iva, false), p.local_id, p.user_id, p_tienda_id
+  FROM jsonb_populate_record(NULL::inventario, p_producto) AS p
+  ON CONFLICT (tienda_id, local_id) DO NOTHING
+  RETURNING * INTO v_producto;
+
+  -- Replayed local_id: the initial stock was recorded the first time
+  IF v_producto.id IS NULL THEN
+    SELECT * INTO v_producto FROM inventario
+    WHERE tienda_id = p_tienda_id AND local_id = p_producto->>'local_id';
+    RETURN to_jsonb(v_producto);
+  END IF;
+
+  IF v_producto.cantidad <> 0 THEN
+    INSERT INTO movimientos_stock (product_id, delta, reason, created_at, user_id, tienda_id)
+    VALUES (v_producto.id, v_producto.cantidad, 'receipt', now(), v_producto.user_id, p_tienda_id);
+  END IF;
+
+  RETURN to_jsonb(v_producto);
+END;
+$$;